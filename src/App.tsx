@@ -10,6 +10,7 @@ import Dashboard from "./pages/Dashboard";
 import Groups from "./pages/Groups";
 import Quizzes from "./pages/Quizzes";
 import QuizEdit from "./pages/QuizEdit";
+import QuestionBank from "./pages/QuestionBank";
 import Results from "./pages/Results";
 import QuizPlay from "./pages/QuizPlay";
 import NotFound from "./pages/NotFound";
@@ -38,6 +39,7 @@ const App = () => (
             <Route path="/dashboard/groups" element={<ProtectedRoute><Groups /></ProtectedRoute>} />
             <Route path="/dashboard/quizzes" element={<ProtectedRoute><Quizzes /></ProtectedRoute>} />
             <Route path="/dashboard/quizzes/:quizId/edit" element={<ProtectedRoute><QuizEdit /></ProtectedRoute>} />
+            <Route path="/dashboard/bank" element={<ProtectedRoute><QuestionBank /></ProtectedRoute>} />
             <Route path="/dashboard/results" element={<ProtectedRoute><Results /></ProtectedRoute>} />
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,52 @@
+import { Fragment, ReactNode } from 'react';
+import { MathNode, splitMath } from '@/lib/math-notation';
+
+interface MathTextProps {
+  text: string;
+}
+
+// Bars are borders on inline blocks so nested overlines stack, e.g. NOT(NOT A + B)
+const OVERLINE_CLASS = 'inline-block border-t-[0.08em] border-current pt-[0.1em] leading-[1.1]';
+
+const renderNodes = (nodes: MathNode[]): ReactNode[] =>
+  nodes.map((node, index) => {
+    if (typeof node === 'string') return <Fragment key={index}>{node}</Fragment>;
+    switch (node.type) {
+      case 'sup':
+        return <sup key={index}>{renderNodes(node.children)}</sup>;
+      case 'sub':
+        return <sub key={index}>{renderNodes(node.children)}</sub>;
+      case 'overline':
+        return <span key={index} className={OVERLINE_CLASS}>{renderNodes(node.children)}</span>;
+      case 'sqrt':
+        return (
+          <span key={index}>
+            √<span className={OVERLINE_CLASS}>{renderNodes(node.children)}</span>
+          </span>
+        );
+      case 'frac':
+        return (
+          <span key={index} className="inline-flex flex-col items-center align-middle mx-0.5 text-[0.8em] leading-tight">
+            <span className="px-0.5">{renderNodes(node.numerator)}</span>
+            <span className="w-full px-0.5 text-center border-t border-current">{renderNodes(node.denominator)}</span>
+          </span>
+        );
+      default:
+        return <span key={index}>{renderNodes(node.children)}</span>;
+    }
+  });
+
+// Question or answer text with $...$ math rendered; plain text renders as is
+export default function MathText({ text }: MathTextProps) {
+  return (
+    <>
+      {splitMath(text).map((segment, index) =>
+        segment.type === 'math' ? (
+          <span key={index} className="whitespace-nowrap">{renderNodes(segment.nodes)}</span>
+        ) : (
+          <Fragment key={index}>{segment.text}</Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BankDetails, BankFacets, DIFFICULTY_OPTIONS, Difficulty } from '@/lib/question-bank';
+
+interface BankDetailsFieldsProps {
+  details: BankDetails;
+  onChange: (details: BankDetails) => void;
+  // Topics and grades already in the bank, suggested while typing
+  facets: BankFacets;
+}
+
+const NO_DIFFICULTY = 'none';
+
+export default function BankDetailsFields({ details, onChange, facets }: BankDetailsFieldsProps) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="bank-topic">Topic</Label>
+        <Input
+          id="bank-topic"
+          list="bank-topics"
+          placeholder="e.g. Networking"
+          maxLength={100}
+          value={details.topic}
+          onChange={(e) => onChange({ ...details, topic: e.target.value })}
+          className="font-sinhala"
+        />
+        <datalist id="bank-topics">
+          {facets.topics.map(topic => <option key={topic} value={topic} />)}
+        </datalist>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="bank-grade">Grade</Label>
+        <Input
+          id="bank-grade"
+          list="bank-grades"
+          placeholder="e.g. Grade 10"
+          maxLength={50}
+          value={details.grade}
+          onChange={(e) => onChange({ ...details, grade: e.target.value })}
+        />
+        <datalist id="bank-grades">
+          {facets.grades.map(grade => <option key={grade} value={grade} />)}
+        </datalist>
+      </div>
+      <div className="space-y-2">
+        <Label>Difficulty</Label>
+        <Select
+          value={details.difficulty ?? NO_DIFFICULTY}
+          onValueChange={(value) => onChange({ ...details, difficulty: value === NO_DIFFICULTY ? null : value as Difficulty })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_DIFFICULTY}>Not set</SelectItem>
+            {DIFFICULTY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="bank-tags">Tags</Label>
+        <Input
+          id="bank-tags"
+          placeholder="Separated by commas, e.g. OSI, past paper"
+          value={details.tags}
+          onChange={(e) => onChange({ ...details, tags: e.target.value })}
+          className="font-sinhala"
+        />
+      </div>
+    </div>
+  );
+}
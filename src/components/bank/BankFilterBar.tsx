@@ -0,0 +1,56 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BankFacets, BankFilters, DIFFICULTY_OPTIONS } from '@/lib/question-bank';
+import { Search } from 'lucide-react';
+
+interface BankFilterBarProps {
+  filters: BankFilters;
+  onChange: (filters: BankFilters) => void;
+  facets: BankFacets;
+}
+
+// Select items can't have an empty value, so "any" gets its own
+const ANY = '__any__';
+
+export default function BankFilterBar({ filters, onChange, facets }: BankFilterBarProps) {
+  const select = (
+    key: Exclude<keyof BankFilters, 'search'>,
+    anyLabel: string,
+    options: { value: string; label: string }[]
+  ) => (
+    <Select
+      value={filters[key] || ANY}
+      onValueChange={(value) => onChange({ ...filters, [key]: value === ANY ? '' : value })}
+    >
+      <SelectTrigger className="sm:w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>{anyLabel}</SelectItem>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value} className="font-sinhala">{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const asOptions = (values: string[]) => values.map(value => ({ value, label: value }));
+
+  return (
+    <div className="flex flex-col sm:flex-row flex-wrap gap-2">
+      <div className="relative flex-1 min-w-[12rem]">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Search questions, answers and tags"
+          value={filters.search}
+          onChange={(e) => onChange({ ...filters, search: e.target.value })}
+          className="pl-9 font-sinhala"
+        />
+      </div>
+      {select('topic', 'All topics', asOptions(facets.topics))}
+      {select('grade', 'All grades', asOptions(facets.grades))}
+      {select('difficulty', 'Any difficulty', DIFFICULTY_OPTIONS)}
+      {select('tag', 'All tags', asOptions(facets.tags))}
+    </div>
+  );
+}
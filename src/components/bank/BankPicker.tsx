@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { BankFilters, BankQuestion, EMPTY_BANK_FILTERS, bankFacets, matchesBankFilters } from '@/lib/question-bank';
+import { toast } from 'sonner';
+import BankFilterBar from '@/components/bank/BankFilterBar';
+import BankQuestionSummary from '@/components/bank/BankQuestionSummary';
+
+interface BankPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Bank questions the quiz already has a copy of
+  usedIds: string[];
+  onAdd: (questions: BankQuestion[]) => void;
+}
+
+export default function BankPicker({ open, onOpenChange, usedIds, onAdd }: BankPickerProps) {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<BankFilters>(EMPTY_BANK_FILTERS);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open && user) {
+      setSelected([]);
+      loadBank();
+    }
+  }, [open, user]);
+
+  const loadBank = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('bank_questions')
+        .select('*, bank_answers(*)')
+        .eq('teacher_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setQuestions(data || []);
+    } catch (error) {
+      console.error('Error loading question bank:', error);
+      toast.error('Failed to load question bank');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+  };
+
+  const addSelected = () => {
+    // Added in the order the bank lists them
+    onAdd(questions.filter(q => selected.includes(q.id)));
+    onOpenChange(false);
+  };
+
+  const shown = questions.filter(q => matchesBankFilters(q, filters));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Add from Question Bank</DialogTitle>
+          <DialogDescription>
+            The quiz gets its own copy of each question, so editing it here doesn't change the bank.
+          </DialogDescription>
+        </DialogHeader>
+
+        <BankFilterBar filters={filters} onChange={setFilters} facets={bankFacets(questions)} />
+
+        <div className="max-h-[50vh] overflow-y-auto rounded-xl border divide-y divide-border">
+          {loading ? (
+            <p className="py-8 text-center text-muted-foreground">Loading...</p>
+          ) : shown.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">
+              {questions.length === 0
+                ? 'Your question bank is empty. Save questions to it from the quiz editor.'
+                : 'No questions match the filters'}
+            </p>
+          ) : (
+            shown.map(q => (
+              <label key={q.id} className="flex items-start gap-3 px-4 py-3 cursor-pointer hover:bg-muted/50">
+                <Checkbox
+                  checked={selected.includes(q.id)}
+                  onCheckedChange={() => toggle(q.id)}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <BankQuestionSummary question={q} />
+                  {usedIds.includes(q.id) && (
+                    <p className="text-xs text-primary mt-1">Already in this quiz</p>
+                  )}
+                </div>
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="gradient-primary" onClick={addSelected} disabled={selected.length === 0}>
+            {selected.length === 1 ? 'Add 1 Question' : `Add ${selected.length} Questions`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import MathText from '@/components/MathText';
+import { BankQuestion, DIFFICULTY_OPTIONS } from '@/lib/question-bank';
+import { QUESTION_TYPE_OPTIONS } from '@/lib/question-types';
+import { cn } from '@/lib/utils';
+import { Code } from 'lucide-react';
+
+interface BankQuestionSummaryProps {
+  question: BankQuestion;
+}
+
+export default function BankQuestionSummary({ question }: BankQuestionSummaryProps) {
+  const difficulty = DIFFICULTY_OPTIONS.find(option => option.value === question.difficulty);
+  const typeLabel = QUESTION_TYPE_OPTIONS.find(option => option.value === question.question_type)?.label;
+
+  return (
+    <div className="flex gap-3 min-w-0">
+      {question.image_url && (
+        <img src={question.image_url} alt="" className="w-16 h-16 rounded-lg object-cover shrink-0" />
+      )}
+      <div className="min-w-0 space-y-1">
+        <p className="line-clamp-2 font-sinhala">
+          <MathText text={question.question_text.replace(/\[\[[^\]]*\]\]/g, '____')} />
+        </p>
+        <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+          <span>{typeLabel}</span>
+          <span>· {question.points} {Number(question.points) === 1 ? 'point' : 'points'}</span>
+          {question.code && <Code className="w-3.5 h-3.5" />}
+          {difficulty && (
+            <span className={cn('px-2 py-0.5 rounded-full font-medium', difficulty.className)}>
+              {difficulty.label}
+            </span>
+          )}
+          {question.topic && <span className="font-sinhala">· {question.topic}</span>}
+          {question.grade && <span>· {question.grade}</span>}
+          {question.tags.map(tag => (
+            <span key={tag} className="px-2 py-0.5 rounded-full bg-muted font-sinhala">{tag}</span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
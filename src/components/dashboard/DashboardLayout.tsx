@@ -6,6 +6,7 @@ import {
   LayoutDashboard, 
   Users, 
   FileQuestion, 
+  Library,
   BarChart3,
   LogOut,
   Menu,
@@ -23,6 +24,7 @@ const navItems = [
   { href: '/dashboard', icon: LayoutDashboard, label: 'Dashboard', labelSi: 'මුල් පිටුව' },
   { href: '/dashboard/groups', icon: Users, label: 'Groups', labelSi: 'කණ්ඩායම්' },
   { href: '/dashboard/quizzes', icon: FileQuestion, label: 'Quizzes', labelSi: 'ප්‍රශ්නාවලි' },
+  { href: '/dashboard/bank', icon: Library, label: 'Question Bank', labelSi: 'ප්‍රශ්න බැංකුව' },
   { href: '/dashboard/results', icon: BarChart3, label: 'Results', labelSi: 'ප්‍රතිඵල' },
 ];
 
@@ -0,0 +1,355 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { ArrowLeft, CheckCircle, Lightbulb, MinusCircle, XCircle } from 'lucide-react';
+import MathText from '@/components/MathText';
+import CodeBlock from '@/components/quiz/CodeBlock';
+import { HotspotRegion, NumberBase, QuestionType, splitClozeText } from '@/lib/question-types';
+import { CodeLanguage } from '@/lib/code-highlight';
+import { cn, formatScore } from '@/lib/utils';
+
+interface AnswerReviewProps {
+  attemptId: string;
+  studentCode: string;
+  // Fraction of a question's points deducted for a wrong answer
+  negativeMarking: number;
+  onBack: () => void;
+}
+
+interface ReviewAnswer {
+  id: string;
+  answer_text: string;
+  match_text: string | null;
+  blank_index: number | null;
+  region: HotspotRegion | null;
+  is_correct: boolean;
+}
+
+interface ReviewResponse {
+  answer_id: string | null;
+  matched_answer_id: string | null;
+  response_text: string | null;
+  position: number | null;
+  point_x: number | null;
+  point_y: number | null;
+  is_correct: boolean | null;
+}
+
+// One question as returned by get_attempt_review
+interface ReviewQuestion {
+  id: string;
+  question_text: string;
+  question_type: QuestionType;
+  image_url: string | null;
+  code: string | null;
+  code_language: CodeLanguage | null;
+  code_answers: boolean;
+  answer_format: { base: NumberBase; unit: string | null } | null;
+  points: number;
+  dropped: boolean;
+  // Share of the points earned (0 to 1), null when the question was not answered
+  credit: number | null;
+  explanation: string | null;
+  explanation_image_url: string | null;
+  answers: ReviewAnswer[];
+  responses: ReviewResponse[];
+}
+
+const STATUS = {
+  correct: { label: 'Correct', labelSi: 'නිවැරදියි', icon: CheckCircle, className: 'text-quiz-green' },
+  partial: { label: 'Partly correct', labelSi: 'අර්ධ වශයෙන් නිවැරදියි', icon: CheckCircle, className: 'text-quiz-yellow' },
+  wrong: { label: 'Wrong', labelSi: 'වැරදියි', icon: XCircle, className: 'text-destructive' },
+  unanswered: { label: 'Not answered', labelSi: 'පිළිතුරු දී නැත', icon: MinusCircle, className: 'text-muted-foreground' },
+  dropped: { label: 'Not counted', labelSi: 'ගණනය නොකෙරේ', icon: MinusCircle, className: 'text-muted-foreground' },
+};
+
+const questionStatus = (q: ReviewQuestion): keyof typeof STATUS => {
+  if (q.dropped) return 'dropped';
+  if (q.credit === null) return 'unanswered';
+  if (q.credit >= 1) return 'correct';
+  return q.credit > 0 ? 'partial' : 'wrong';
+};
+
+// Mirrors calculate_attempt_score, before the total is floored at 0
+const earnedPoints = (q: ReviewQuestion, negativeMarking: number) => {
+  if (q.dropped || q.credit === null) return 0;
+  return q.credit > 0 ? q.credit * q.points : -negativeMarking * q.points;
+};
+
+const rowClass = (isCorrect: boolean, chosen: boolean) => cn(
+  'rounded-xl border-2 px-3 py-2',
+  isCorrect ? 'border-quiz-green bg-quiz-green/10' : chosen ? 'border-destructive bg-destructive/10' : 'border-border'
+);
+
+function AnswerText({ text, code }: { text: string; code: boolean }) {
+  return code
+    ? <span className="font-mono whitespace-pre-wrap">{text}</span>
+    : <span className="font-sinhala"><MathText text={text} /></span>;
+}
+
+function ChoiceReview({ q }: { q: ReviewQuestion }) {
+  const chosen = new Set(q.responses.map(r => r.answer_id));
+  return (
+    <div className="space-y-2">
+      {q.answers.map(a => (
+        <div key={a.id} className={cn(rowClass(a.is_correct, chosen.has(a.id)), 'flex items-center justify-between gap-3')}>
+          <AnswerText text={a.answer_text} code={q.code_answers} />
+          <span className="text-xs font-medium whitespace-nowrap text-muted-foreground">
+            {chosen.has(a.id) && 'Your answer'}
+            {chosen.has(a.id) && a.is_correct && ' · '}
+            {a.is_correct && 'Correct'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TextResponseReview({ q }: { q: ReviewQuestion }) {
+  const response = q.responses[0]?.response_text;
+  const unit = q.answer_format?.unit ? ` ${q.answer_format.unit}` : '';
+  const accepted = q.answers.filter(a => a.is_correct);
+  return (
+    <div className="space-y-2">
+      <div className={rowClass(!!q.credit, true)}>
+        <p className="text-xs text-muted-foreground">Your answer</p>
+        {response ? <AnswerText text={response + unit} code={q.code_answers} /> : <span className="text-muted-foreground">—</span>}
+      </div>
+      <div className={rowClass(true, false)}>
+        <p className="text-xs text-muted-foreground">{accepted.length > 1 ? 'Accepted answers' : 'Correct answer'}</p>
+        {accepted.map(a => (
+          <p key={a.id}><AnswerText text={a.answer_text + unit} code={q.code_answers} /></p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function OrderingReview({ q }: { q: ReviewQuestion }) {
+  const yourOrder = q.responses
+    .map(r => q.answers.find(a => a.id === r.answer_id))
+    .filter((a): a is ReviewAnswer => !!a);
+  return (
+    <div className="grid sm:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Your order</p>
+        {yourOrder.map((a, index) => (
+          <div key={a.id} className={rowClass(q.answers[index]?.id === a.id, true)}>
+            {index + 1}. <AnswerText text={a.answer_text} code={q.code_answers} />
+          </div>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Correct order</p>
+        {q.answers.map((a, index) => (
+          <div key={a.id} className={rowClass(true, false)}>
+            {index + 1}. <AnswerText text={a.answer_text} code={q.code_answers} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MatchingReview({ q }: { q: ReviewQuestion }) {
+  return (
+    <div className="space-y-2">
+      {q.answers.filter(a => a.is_correct).map(a => {
+        const response = q.responses.find(r => r.answer_id === a.id);
+        const yourMatch = q.answers.find(m => m.id === response?.matched_answer_id)?.match_text;
+        return (
+          <div key={a.id} className={cn(rowClass(!!response?.is_correct, true), 'grid sm:grid-cols-3 gap-2')}>
+            <AnswerText text={a.answer_text} code={q.code_answers} />
+            <span>
+              <span className="text-xs text-muted-foreground">Yours: </span>
+              {yourMatch ? <AnswerText text={yourMatch} code={q.code_answers} /> : '—'}
+            </span>
+            <span>
+              <span className="text-xs text-muted-foreground">Correct: </span>
+              <AnswerText text={a.match_text ?? ''} code={q.code_answers} />
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// The text with each blank showing the response, and the accepted answers
+// beside any blank that was wrong
+function ClozeReview({ q }: { q: ReviewQuestion }) {
+  const parts = splitClozeText(q.question_text);
+  return (
+    <p className="text-lg leading-loose font-sinhala">
+      {parts.map((part, index) => {
+        const isLast = index === parts.length - 1;
+        const response = q.responses.find(r => r.position === index + 1);
+        const accepted = q.answers.filter(a => a.blank_index === index && a.is_correct).map(a => a.answer_text);
+        return (
+          <span key={index}>
+            <MathText text={part} />
+            {!isLast && (
+              <>
+                <span className={cn(rowClass(!!response?.is_correct, true), 'inline-block mx-1 py-0 font-bold')}>
+                  {response?.response_text || '____'}
+                </span>
+                {!response?.is_correct && (
+                  <span className="text-sm text-quiz-green font-semibold">({accepted.join(' / ')})</span>
+                )}
+              </>
+            )}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+function HotspotReview({ q }: { q: ReviewQuestion }) {
+  const response = q.responses[0];
+  if (!q.image_url) return null;
+  return (
+    <div className="flex justify-center">
+      <div className="relative inline-block rounded-xl overflow-hidden">
+        <img src={q.image_url} alt="Question" className="block max-h-80 object-contain" />
+        {q.answers.filter(a => a.is_correct && a.region).map(a => (
+          <div
+            key={a.id}
+            title={a.answer_text}
+            className="absolute border-2 border-dashed border-quiz-green bg-quiz-green/10"
+            style={{
+              left: `${a.region!.x * 100}%`,
+              top: `${a.region!.y * 100}%`,
+              width: `${a.region!.width * 100}%`,
+              height: `${a.region!.height * 100}%`,
+            }}
+          />
+        ))}
+        {response?.point_x != null && response.point_y != null && (
+          <div
+            aria-label="Your answer"
+            className={cn(
+              'absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white shadow',
+              response.is_correct ? 'bg-quiz-green' : 'bg-destructive'
+            )}
+            style={{ left: `${response.point_x * 100}%`, top: `${response.point_y * 100}%` }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ResponseDetail({ q }: { q: ReviewQuestion }) {
+  switch (q.question_type) {
+    case 'short_answer':
+    case 'numeric':
+      return <TextResponseReview q={q} />;
+    case 'ordering':
+      return <OrderingReview q={q} />;
+    case 'matching':
+      return <MatchingReview q={q} />;
+    case 'cloze':
+      return <ClozeReview q={q} />;
+    case 'hotspot':
+      return <HotspotReview q={q} />;
+    default:
+      return <ChoiceReview q={q} />;
+  }
+}
+
+// A completed attempt question by question: the student's answers, the
+// correct ones and the teacher's explanations
+export default function AnswerReview({ attemptId, studentCode, negativeMarking, onBack }: AnswerReviewProps) {
+  const [questions, setQuestions] = useState<ReviewQuestion[] | null>(null);
+
+  useEffect(() => {
+    loadReview();
+  }, [attemptId, studentCode]);
+
+  const loadReview = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_attempt_review', {
+        p_attempt_id: attemptId,
+        p_student_code: studentCode,
+      });
+      if (error) throw error;
+      setQuestions((data as unknown as ReviewQuestion[]) || []);
+    } catch (error) {
+      console.error('Error loading answer review:', error);
+      toast.error('Answer review is not available');
+      onBack();
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <div className="flex items-center justify-between gap-4 text-primary-foreground">
+        <Button variant="secondary" onClick={onBack} className="btn-bounce">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        <div className="text-right">
+          <h1 className="text-2xl font-bold">Answer Review</h1>
+          <p className="font-sinhala text-sm opacity-80">පිළිතුරු සමාලෝචනය</p>
+        </div>
+      </div>
+
+      {questions === null ? (
+        <p className="text-center text-primary-foreground">Loading...</p>
+      ) : (
+        questions.map((q, index) => {
+          const status = STATUS[questionStatus(q)];
+          const StatusIcon = status.icon;
+          return (
+            <Card key={q.id} className="card-elevated">
+              <CardContent className="pt-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <span className="text-sm font-semibold text-muted-foreground">Question {index + 1}</span>
+                  <div className={cn('flex items-center gap-1 text-sm font-semibold whitespace-nowrap', status.className)}>
+                    <StatusIcon className="w-4 h-4" />
+                    <span>{status.label}</span>
+                    <span className="font-sinhala font-normal">· {status.labelSi}</span>
+                  </div>
+                </div>
+
+                {q.question_type !== 'cloze' && (
+                  <p className="text-lg font-semibold font-sinhala"><MathText text={q.question_text} /></p>
+                )}
+                {q.code && q.code_language && <CodeBlock code={q.code} language={q.code_language} />}
+                {q.image_url && q.question_type !== 'hotspot' && (
+                  <img src={q.image_url} alt="Question" className="max-h-60 mx-auto rounded-xl object-contain" />
+                )}
+
+                <ResponseDetail q={q} />
+
+                {!q.dropped && (
+                  <p className="text-sm text-muted-foreground text-right">
+                    {formatScore(earnedPoints(q, negativeMarking))} / {formatScore(q.points)} points
+                  </p>
+                )}
+
+                {(q.explanation || q.explanation_image_url) && (
+                  <div className="rounded-xl bg-muted/50 p-4 space-y-2">
+                    <div className="flex items-center gap-2 text-sm font-semibold">
+                      <Lightbulb className="w-4 h-4 text-quiz-yellow" />
+                      Explanation
+                    </div>
+                    {q.explanation && (
+                      <p className="whitespace-pre-wrap font-sinhala"><MathText text={q.explanation} /></p>
+                    )}
+                    {q.explanation_image_url && (
+                      <img src={q.explanation_image_url} alt="Explanation" className="max-h-60 rounded-xl object-contain" />
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { splitClozeText } from '@/lib/question-types';
+import { cn } from '@/lib/utils';
+import MathText from '@/components/MathText';
+
+interface ClozeTextProps {
+  // Question text with every blank masked to [[]]
+  text: string;
+  // Choices for each blank that is a dropdown, empty for typed blanks
+  options: string[][];
+  values: string[];
+  onChange: (values: string[]) => void;
+  disabled?: boolean;
+}
+
+// The question text with an input or dropdown in place of each blank
+export default function ClozeText({ text, options, values, onChange, disabled }: ClozeTextProps) {
+  const parts = splitClozeText(text);
+
+  const setValue = (blankIndex: number, value: string) => {
+    const next = [...values];
+    next[blankIndex] = value;
+    onChange(next);
+  };
+
+  const blankClass = cn(
+    'inline-block mx-1 my-1 rounded-xl border-2 border-input bg-card px-3 py-1 text-center text-lg font-bold font-sinhala align-middle focus:border-primary focus:outline-none',
+    disabled && 'opacity-50 cursor-not-allowed'
+  );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xl leading-loose font-sinhala">
+        {parts.map((part, index) => {
+          const isLast = index === parts.length - 1;
+          const blankOptions = options[index] || [];
+          return (
+            <span key={index}>
+              <MathText text={part} />
+              {!isLast && (blankOptions.length > 0 ? (
+                <select
+                  aria-label={`Blank ${index + 1}`}
+                  value={values[index] ?? ''}
+                  disabled={disabled}
+                  onChange={(e) => setValue(index, e.target.value)}
+                  className={cn(blankClass, 'min-w-[8rem]')}
+                >
+                  <option value="">…</option>
+                  {blankOptions.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  aria-label={`Blank ${index + 1}`}
+                  value={values[index] ?? ''}
+                  disabled={disabled}
+                  maxLength={500}
+                  autoComplete="off"
+                  onChange={(e) => setValue(index, e.target.value)}
+                  className={cn(blankClass, 'w-36')}
+                />
+              ))}
+            </span>
+          );
+        })}
+      </p>
+      <p className="text-sm text-center text-muted-foreground">
+        Fill in each blank · <span className="font-sinhala">හිස්තැන් පුරවන්න</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { CODE_LANGUAGES, CodeLanguage, CodeTokenType, highlightCode } from '@/lib/code-highlight';
+import { cn } from '@/lib/utils';
+
+interface CodeBlockProps {
+  code: string;
+  language: CodeLanguage;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  keyword: 'text-primary font-semibold',
+  builtin: 'text-quiz-blue',
+  string: 'text-quiz-green',
+  number: 'text-accent',
+  comment: 'text-muted-foreground italic',
+  plain: '',
+};
+
+// Long lines scroll sideways instead of wrapping so indentation stays intact
+// on phones; the line numbers stay in place while scrolling
+export default function CodeBlock({ code, language, className }: CodeBlockProps) {
+  const lines = highlightCode(code, language);
+  const label = CODE_LANGUAGES.find(l => l.value === language)?.label;
+
+  return (
+    <div dir="ltr" className={cn('rounded-xl border bg-muted text-left overflow-hidden', className)}>
+      <div className="px-3 py-1 text-xs font-medium text-muted-foreground border-b">{label}</div>
+      <div className="overflow-x-auto">
+        <pre className="py-3 font-mono text-sm sm:text-base leading-relaxed w-max min-w-full" style={{ tabSize: 4 }}>
+          <code>
+            {lines.map((line, index) => (
+              <div key={index} className="flex">
+                <span
+                  aria-hidden="true"
+                  className="sticky left-0 w-10 shrink-0 pr-3 text-right bg-muted text-muted-foreground/70 select-none"
+                >
+                  {index + 1}
+                </span>
+                <span className="whitespace-pre pr-4">
+                  {line.length === 0
+                    ? ' '
+                    : line.map((token, tokenIndex) => (
+                        <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                      ))}
+                </span>
+              </div>
+            ))}
+          </code>
+        </pre>
+      </div>
+    </div>
+  );
+}
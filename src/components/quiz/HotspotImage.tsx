@@ -0,0 +1,74 @@
+import { HotspotPoint } from '@/lib/question-types';
+import { cn } from '@/lib/utils';
+
+interface HotspotImageProps {
+  src: string;
+  point: HotspotPoint | null;
+  onChange: (point: HotspotPoint) => void;
+  disabled?: boolean;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Arrow keys move the point by this fraction of the image
+const KEY_STEP = 0.02;
+
+// Tap (or click) the image to place a point; tapping again moves it
+export default function HotspotImage({ src, point, onChange, disabled }: HotspotImageProps) {
+  const place = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onChange({
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    });
+  };
+
+  const nudge = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-KEY_STEP, 0],
+      ArrowRight: [KEY_STEP, 0],
+      ArrowUp: [0, -KEY_STEP],
+      ArrowDown: [0, KEY_STEP],
+    };
+    if (disabled || !moves[e.key]) return;
+    e.preventDefault();
+    const [dx, dy] = moves[e.key];
+    const from = point ?? { x: 0.5, y: 0.5 };
+    onChange({ x: clamp(from.x + dx), y: clamp(from.y + dy) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-center">
+        <div
+          role="button"
+          tabIndex={disabled ? -1 : 0}
+          aria-label="Image: tap a point, or use the arrow keys"
+          onClick={place}
+          onKeyDown={nudge}
+          className={cn(
+            'relative inline-block rounded-xl shadow-lg overflow-hidden select-none focus:outline-none focus-visible:ring-4 focus-visible:ring-primary/40',
+            disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-crosshair'
+          )}
+        >
+          <img
+            src={src}
+            alt="Question"
+            draggable={false}
+            className="block max-h-80 md:max-h-[28rem] object-contain"
+          />
+          {point && (
+            <span
+              className="absolute w-8 h-8 -ml-4 -mt-4 rounded-full border-4 border-primary-foreground bg-primary shadow-lg pointer-events-none ring-4 ring-primary/40"
+              style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+            />
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-center text-muted-foreground">
+        Tap the right spot on the image · <span className="font-sinhala">පින්තූරයේ නිවැරදි ස්ථානය තට්ටු කරන්න</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { HotspotPoint, HotspotRegion } from '@/lib/question-types';
+
+interface HotspotRegionEditorProps {
+  src: string;
+  regions: HotspotRegion[];
+  onAdd: (region: HotspotRegion) => void;
+}
+
+// Regions smaller than this (as a fraction of the image) are treated as a stray click
+const MIN_REGION_SIZE = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const toRegion = (from: HotspotPoint, to: HotspotPoint): HotspotRegion => ({
+  x: Math.min(from.x, to.x),
+  y: Math.min(from.y, to.y),
+  width: Math.abs(to.x - from.x),
+  height: Math.abs(to.y - from.y),
+});
+
+const regionStyle = (region: HotspotRegion) => ({
+  left: `${region.x * 100}%`,
+  top: `${region.y * 100}%`,
+  width: `${region.width * 100}%`,
+  height: `${region.height * 100}%`,
+});
+
+// Drag across the image to draw a rectangular region
+export default function HotspotRegionEditor({ src, regions, onAdd }: HotspotRegionEditorProps) {
+  const [start, setStart] = useState<HotspotPoint | null>(null);
+  const [current, setCurrent] = useState<HotspotPoint | null>(null);
+
+  const pointAt = (e: React.PointerEvent<HTMLDivElement>): HotspotPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const startDrawing = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    setStart(point);
+    setCurrent(point);
+  };
+
+  const finishDrawing = () => {
+    if (start && current) {
+      const region = toRegion(start, current);
+      if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+        onAdd(region);
+      }
+    }
+    setStart(null);
+    setCurrent(null);
+  };
+
+  return (
+    <div
+      onPointerDown={startDrawing}
+      onPointerMove={(e) => start && setCurrent(pointAt(e))}
+      onPointerUp={finishDrawing}
+      onPointerCancel={() => { setStart(null); setCurrent(null); }}
+      className="relative inline-block rounded-xl overflow-hidden cursor-crosshair touch-none select-none"
+    >
+      <img src={src} alt="Question" draggable={false} className="block max-h-80 object-contain" />
+      {regions.map((region, index) => (
+        <div
+          key={index}
+          className="absolute border-2 border-quiz-green bg-quiz-green/25 pointer-events-none"
+          style={regionStyle(region)}
+        >
+          <span className="absolute top-0 left-0 px-1.5 text-xs font-bold bg-quiz-green text-primary-foreground rounded-br">
+            {index + 1}
+          </span>
+        </div>
+      ))}
+      {start && current && (
+        <div
+          className="absolute border-2 border-dashed border-primary bg-primary/20 pointer-events-none"
+          style={regionStyle(toRegion(start, current))}
+        />
+      )}
+    </div>
+  );
+}
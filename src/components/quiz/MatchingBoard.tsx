@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import MathText from '@/components/MathText';
+
+interface MatchingBoardProps {
+  leftItems: { id: string; answer_text: string }[];
+  rightItems: { id: string; match_text: string }[];
+  // Right-hand item id for each paired left-hand item id
+  pairs: Record<string, string>;
+  onChange: (pairs: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+const PAIR_COLORS = ['bg-quiz-red', 'bg-quiz-blue', 'bg-quiz-yellow', 'bg-quiz-green'];
+
+// Tap an item in one column, then its match in the other. Tapping a paired
+// item unpairs it.
+export default function MatchingBoard({ leftItems, rightItems, pairs, onChange, disabled }: MatchingBoardProps) {
+  const [selectedLeft, setSelectedLeft] = useState<string | null>(null);
+  const [selectedRight, setSelectedRight] = useState<string | null>(null);
+
+  const leftFor = (rightId: string) => Object.keys(pairs).find(leftId => pairs[leftId] === rightId);
+
+  const pair = (leftId: string, rightId: string) => {
+    onChange({ ...pairs, [leftId]: rightId });
+    setSelectedLeft(null);
+    setSelectedRight(null);
+  };
+
+  const unpair = (leftId: string) => {
+    const { [leftId]: _removed, ...rest } = pairs;
+    onChange(rest);
+  };
+
+  const tapLeft = (leftId: string) => {
+    if (disabled) return;
+    if (pairs[leftId]) {
+      unpair(leftId);
+    } else if (selectedRight) {
+      pair(leftId, selectedRight);
+    } else {
+      setSelectedLeft(selectedLeft === leftId ? null : leftId);
+    }
+  };
+
+  const tapRight = (rightId: string) => {
+    if (disabled) return;
+    const pairedLeft = leftFor(rightId);
+    if (pairedLeft) {
+      unpair(pairedLeft);
+    } else if (selectedLeft) {
+      pair(selectedLeft, rightId);
+    } else {
+      setSelectedRight(selectedRight === rightId ? null : rightId);
+    }
+  };
+
+  const badge = (leftIndex: number) => (
+    <span
+      className={cn(
+        'w-7 h-7 shrink-0 rounded-full flex items-center justify-center text-sm font-bold text-primary-foreground',
+        PAIR_COLORS[leftIndex % PAIR_COLORS.length]
+      )}
+    >
+      {leftIndex + 1}
+    </span>
+  );
+
+  const itemClass = (selected: boolean, paired: boolean) => cn(
+    'w-full min-h-[56px] flex items-center gap-2 rounded-2xl border-2 bg-card p-3 text-left font-bold font-sinhala transition-all',
+    selected && 'border-primary ring-4 ring-primary/30',
+    paired && 'border-transparent bg-muted',
+    disabled ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-md active:scale-[0.98]'
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          {leftItems.map((item, index) => (
+            <button
+              key={item.id}
+              type="button"
+              disabled={disabled}
+              aria-pressed={selectedLeft === item.id}
+              onClick={() => tapLeft(item.id)}
+              className={itemClass(selectedLeft === item.id, !!pairs[item.id])}
+            >
+              {badge(index)}
+              <span className="break-words min-w-0"><MathText text={item.answer_text} /></span>
+            </button>
+          ))}
+        </div>
+        <div className="space-y-2">
+          {rightItems.map(item => {
+            const pairedLeft = leftFor(item.id);
+            const leftIndex = leftItems.findIndex(left => left.id === pairedLeft);
+            return (
+              <button
+                key={item.id}
+                type="button"
+                disabled={disabled}
+                aria-pressed={selectedRight === item.id}
+                onClick={() => tapRight(item.id)}
+                className={itemClass(selectedRight === item.id, !!pairedLeft)}
+              >
+                {leftIndex >= 0 ? badge(leftIndex) : <span className="w-7 h-7 shrink-0 rounded-full border-2 border-dashed" />}
+                <span className="break-words min-w-0"><MathText text={item.match_text} /></span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <p className="text-sm text-center text-muted-foreground">
+        Tap an item, then its match · <span className="font-sinhala">ගැළපෙන යුගල තෝරන්න</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, GripVertical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import MathText from '@/components/MathText';
+import { mathToPlainText } from '@/lib/math-notation';
+
+interface OrderingItem {
+  id: string;
+  answer_text: string;
+}
+
+interface OrderingListProps {
+  items: OrderingItem[];
+  onReorder: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+const moveItem = (ids: string[], from: number, to: number) => {
+  const reordered = [...ids];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
+
+// Items are reordered by dragging (mouse or touch), with the arrow buttons,
+// or with the up/down arrow keys while an item has focus
+export default function OrderingList({ items, onReorder, disabled }: OrderingListProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const rowRefs = useRef<Record<string, HTMLLIElement | null>>({});
+  const ids = items.map(item => item.id);
+
+  const move = (from: number, to: number) => {
+    if (disabled || to < 0 || to >= ids.length || from === to) return;
+    onReorder(moveItem(ids, from, to));
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>, id: string) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraggingId(id);
+  };
+
+  const drag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draggingId) return;
+
+    // The dragged item goes after every other row whose middle is above the pointer
+    const to = ids
+      .filter(id => id !== draggingId)
+      .filter(id => {
+        const rect = rowRefs.current[id]?.getBoundingClientRect();
+        return rect && e.clientY > rect.top + rect.height / 2;
+      }).length;
+
+    move(ids.indexOf(draggingId), to);
+  };
+
+  const endDrag = () => setDraggingId(null);
+
+  return (
+    <div className="space-y-2">
+      <ol className="space-y-2" aria-label="Items to put in order">
+        {items.map((item, index) => (
+          <li
+            key={item.id}
+            ref={(el) => { rowRefs.current[item.id] = el; }}
+            tabIndex={disabled ? -1 : 0}
+            aria-label={`${mathToPlainText(item.answer_text)}, position ${index + 1} of ${items.length}`}
+            onKeyDown={(e) => {
+              if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+                e.preventDefault();
+                move(index, index + (e.key === 'ArrowUp' ? -1 : 1));
+              }
+            }}
+            className={cn(
+              'flex items-center gap-2 rounded-2xl border-2 bg-card p-2 transition-shadow focus:outline-none focus-visible:ring-4 focus-visible:ring-primary/40',
+              draggingId === item.id && 'border-primary shadow-xl scale-[1.02]',
+              disabled && 'opacity-50'
+            )}
+          >
+            <div
+              onPointerDown={(e) => startDrag(e, item.id)}
+              onPointerMove={drag}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+              className={cn(
+                'flex flex-1 items-center gap-3 min-h-[56px] touch-none select-none',
+                disabled ? 'cursor-not-allowed' : 'cursor-grab active:cursor-grabbing'
+              )}
+            >
+              <GripVertical className="w-5 h-5 shrink-0 text-muted-foreground" />
+              <span className="w-8 h-8 shrink-0 rounded-full gradient-primary text-primary-foreground flex items-center justify-center text-sm font-bold">
+                {index + 1}
+              </span>
+              <span className="text-lg font-bold font-sinhala"><MathText text={item.answer_text} /></span>
+            </div>
+            <div className="flex flex-col">
+              <Button
+                variant="ghost"
+                size="icon"
+                tabIndex={-1}
+                aria-label="Move up"
+                disabled={disabled || index === 0}
+                onClick={() => move(index, index - 1)}
+                className="h-7 w-7"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                tabIndex={-1}
+                aria-label="Move down"
+                disabled={disabled || index === items.length - 1}
+                onClick={() => move(index, index + 1)}
+                className="h-7 w-7"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      <p className="text-sm text-center text-muted-foreground">
+        Drag the items into the right order · <span className="font-sinhala">නිවැරදි අනුපිළිවෙලට සකසන්න</span>
+      </p>
+    </div>
+  );
+}
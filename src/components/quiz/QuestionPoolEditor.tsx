@@ -0,0 +1,96 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QuestionPool, poolSize } from '@/lib/question-pool';
+
+interface QuestionPoolEditorProps {
+  pool: QuestionPool;
+  onChange: (pool: QuestionPool) => void;
+  // Questions in each section, in the order the sections first appear
+  sections: { section: string; count: number }[];
+  questionCount: number;
+}
+
+const MODE_OPTIONS: { value: QuestionPool['mode']; label: string }[] = [
+  { value: 'all', label: 'Every student gets every question' },
+  { value: 'count', label: 'Random questions from the whole quiz' },
+  { value: 'sections', label: 'Random questions from each section' },
+];
+
+export default function QuestionPoolEditor({ pool, onChange, sections, questionCount }: QuestionPoolEditorProps) {
+  const setSectionDraw = (section: string, count: number) =>
+    onChange({ ...pool, section_draws: { ...pool.section_draws, [section]: count } });
+
+  return (
+    <Card className="card-elevated">
+      <CardHeader>
+        <CardTitle>Question Pool</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Give each student a random set of questions. Scores are out of the points of the questions they get.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Select value={pool.mode} onValueChange={(value) => onChange({ ...pool, mode: value as QuestionPool['mode'] })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MODE_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {pool.mode === 'count' && (
+          <div className="flex items-center gap-4">
+            <Label htmlFor="pool-draw-count">Questions per student:</Label>
+            <Input
+              id="pool-draw-count"
+              type="number"
+              min={1}
+              max={questionCount}
+              value={pool.draw_count ?? ''}
+              onChange={(e) => onChange({ ...pool, draw_count: parseInt(e.target.value) || null })}
+              className="w-24"
+            />
+            <span className="text-sm text-muted-foreground">of {questionCount}</span>
+          </div>
+        )}
+
+        {pool.mode === 'sections' && (
+          <div className="space-y-2">
+            {sections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Give questions a section to draw from each one.</p>
+            ) : (
+              <div className="rounded-xl border divide-y divide-border">
+                {sections.map(({ section, count }) => (
+                  <div key={section} className="flex items-center justify-between gap-4 px-4 py-2">
+                    <Label htmlFor={`pool-section-${section}`} className={section ? 'font-sinhala' : 'italic text-muted-foreground'}>
+                      {section || 'No section'}
+                    </Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id={`pool-section-${section}`}
+                        type="number"
+                        min={0}
+                        max={count}
+                        value={pool.section_draws[section] ?? 0}
+                        onChange={(e) => setSectionDraw(section, parseInt(e.target.value) || 0)}
+                        className="w-20"
+                      />
+                      <span className="text-sm text-muted-foreground whitespace-nowrap">of {count}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Each student gets {poolSize(pool, questionCount)} questions
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
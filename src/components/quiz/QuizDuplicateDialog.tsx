@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { CopyPlus, Loader2 } from 'lucide-react';
+import { useAuth } from '@/lib/auth-context';
+import { createImportedQuizzes, loadQuizFile } from '@/lib/quiz-transfer';
+
+interface QuizDuplicateDialogProps {
+  // The quiz to copy; the dialog is open while it is set
+  quiz: { id: string; title: string; duration_seconds: number | null } | null;
+  groups: { id: string; name: string }[];
+  onClose: () => void;
+  onDuplicated: () => void;
+}
+
+// Copies a quiz with its questions, answers, images and regrading choices into
+// a new session for other groups. With a deadline per group, every group gets
+// its own copy; if one of them fails, none are kept.
+export default function QuizDuplicateDialog({ quiz, groups, onClose, onDuplicated }: QuizDuplicateDialogProps) {
+  const { user } = useAuth();
+  const [title, setTitle] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState('');
+  const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const [deadline, setDeadline] = useState('');
+  const [perGroup, setPerGroup] = useState(false);
+  const [groupDeadlines, setGroupDeadlines] = useState<Record<string, string>>({});
+  const [duplicating, setDuplicating] = useState(false);
+
+  useEffect(() => {
+    if (!quiz) return;
+    setTitle(quiz.title);
+    setDurationMinutes(String(Math.round((quiz.duration_seconds ?? 1800) / 60)));
+    setSelectedGroups([]);
+    setDeadline('');
+    setPerGroup(false);
+    setGroupDeadlines({});
+  }, [quiz]);
+
+  const toggleGroup = (groupId: string) => {
+    setSelectedGroups(prev => (prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]));
+  };
+
+  const duplicateQuiz = async () => {
+    if (!user || !quiz) return;
+
+    const minutes = parseInt(durationMinutes);
+    if (!title.trim()) {
+      toast.error('Please enter a quiz title');
+      return;
+    }
+    if (!minutes || minutes < 1) {
+      toast.error('Please enter a duration of at least one minute');
+      return;
+    }
+    if (selectedGroups.length === 0) {
+      toast.error('Please select at least one group');
+      return;
+    }
+
+    // One copy for all groups, or one copy per group with its own deadline
+    const schedules = perGroup
+      ? selectedGroups.map(groupId => ({ groupIds: [groupId], deadline: groupDeadlines[groupId] ?? '' }))
+      : [{ groupIds: selectedGroups, deadline }];
+    if (schedules.some(schedule => !schedule.deadline)) {
+      toast.error(perGroup ? 'Please choose a deadline for every group' : 'Please choose a deadline');
+      return;
+    }
+
+    setDuplicating(true);
+    try {
+      // Images are downloaded and stored again, so nothing is created unless
+      // every one of them could be copied
+      const quizFile = await loadQuizFile(quiz.id, { forCopy: true });
+      const created = await createImportedQuizzes(schedules.map(schedule => ({
+        teacherId: user.id,
+        title: title.trim(),
+        description: quizFile.description,
+        groupIds: schedule.groupIds,
+        deadline: new Date(schedule.deadline).toISOString(),
+        settings: { ...quizFile.settings, duration_seconds: minutes * 60 },
+      })), quizFile.questions);
+
+      toast.success(created.length === 1 ? 'Quiz duplicated' : `Quiz duplicated for ${created.length} groups`);
+      onClose();
+      onDuplicated();
+    } catch (error) {
+      console.error('Error duplicating quiz:', error);
+      toast.error((error as Error).message || 'Failed to duplicate quiz');
+      // Copies that could not be removed again should show up in the list
+      onDuplicated();
+    } finally {
+      setDuplicating(false);
+    }
+  };
+
+  const minDeadline = new Date().toISOString().slice(0, 16);
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={(isOpen) => !isOpen && !duplicating && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Duplicate {quiz?.title}</DialogTitle>
+          <DialogDescription>
+            The copy gets the same questions, answers, images and settings, and its own access code.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-title">Quiz Title</Label>
+            <Input id="duplicate-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-duration">Duration (minutes)</Label>
+            <Input
+              id="duplicate-duration"
+              type="number"
+              min="1"
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+            <div>
+              <Label htmlFor="duplicate-per-group">Separate deadline for each group</Label>
+              <p className="text-xs text-muted-foreground">Creates one quiz per group, each with its own access code</p>
+            </div>
+            <Switch id="duplicate-per-group" checked={perGroup} onCheckedChange={setPerGroup} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Groups</Label>
+            <div className="space-y-3 p-4 border rounded-lg bg-muted/30">
+              {groups.map(group => (
+                <div key={group.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`duplicate-group-${group.id}`}
+                    checked={selectedGroups.includes(group.id)}
+                    onCheckedChange={() => toggleGroup(group.id)}
+                  />
+                  <Label htmlFor={`duplicate-group-${group.id}`} className="cursor-pointer flex-1 font-normal">
+                    {group.name}
+                  </Label>
+                  {perGroup && selectedGroups.includes(group.id) && (
+                    <Input
+                      type="datetime-local"
+                      className="w-auto"
+                      aria-label={`Deadline for ${group.name}`}
+                      value={groupDeadlines[group.id] ?? ''}
+                      min={minDeadline}
+                      onChange={(e) => setGroupDeadlines(prev => ({ ...prev, [group.id]: e.target.value }))}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {!perGroup && (
+            <div className="space-y-2">
+              <Label htmlFor="duplicate-deadline">Deadline</Label>
+              <Input
+                id="duplicate-deadline"
+                type="datetime-local"
+                value={deadline}
+                min={minDeadline}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button className="gradient-primary" onClick={duplicateQuiz} disabled={duplicating}>
+            {duplicating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CopyPlus className="w-4 h-4 mr-2" />}
+            Duplicate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Download, Loader2 } from 'lucide-react';
+import TransferReport from '@/components/quiz/TransferReport';
+import { QUIZ_FORMATS, QuizFormatId } from '@/lib/quiz-formats';
+import { TransferReportLine, downloadFile, exportFileName, loadQuizFile } from '@/lib/quiz-transfer';
+import { cn } from '@/lib/utils';
+
+interface QuizExportDialogProps {
+  // The quiz to export; the dialog is open while it is set
+  quiz: { id: string; title: string } | null;
+  onClose: () => void;
+}
+
+export default function QuizExportDialog({ quiz, onClose }: QuizExportDialogProps) {
+  const [formatId, setFormatId] = useState<QuizFormatId>(QUIZ_FORMATS[0].id);
+  const [exporting, setExporting] = useState(false);
+  const [report, setReport] = useState<TransferReportLine[] | null>(null);
+
+  const exportQuiz = async () => {
+    const format = QUIZ_FORMATS.find(f => f.id === formatId);
+    if (!quiz || !format) return;
+
+    setExporting(true);
+    try {
+      const exported = await format.write(await loadQuizFile(quiz.id));
+      downloadFile(exported.file, exportFileName(quiz.title, format.extension));
+      setReport(exported.report);
+    } catch (error) {
+      console.error('Error exporting quiz:', error);
+      toast.error((error as Error).message || 'Failed to export quiz');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!quiz}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) {
+          setReport(null);
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export {quiz?.title}</DialogTitle>
+          <DialogDescription>
+            Back up the whole quiz, or download its questions in a format Moodle and other quiz tools can import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={formatId}
+          onValueChange={(value) => {
+            setFormatId(value as QuizFormatId);
+            setReport(null);
+          }}
+          className="grid gap-2"
+        >
+          {QUIZ_FORMATS.map(format => (
+            <Label
+              key={format.id}
+              htmlFor={`export-${format.id}`}
+              className={cn(
+                "flex items-start gap-3 rounded-xl border p-3 cursor-pointer font-normal",
+                formatId === format.id && "border-primary bg-primary/5"
+              )}
+            >
+              <RadioGroupItem value={format.id} id={`export-${format.id}`} className="mt-0.5" />
+              <div>
+                <p className="font-medium">{format.label}</p>
+                <p className="text-sm text-muted-foreground">{format.description}</p>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        {report && <TransferReport report={report} action="were exported" />}
+
+        <DialogFooter>
+          <Button className="gradient-primary" onClick={exportQuiz} disabled={exporting}>
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            {report ? 'Download Again' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
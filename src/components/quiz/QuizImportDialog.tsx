@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import TransferReport from '@/components/quiz/TransferReport';
+import { useAuth } from '@/lib/auth-context';
+import { QUIZ_FORMATS, QuizFormat, detectQuizFormat } from '@/lib/quiz-formats';
+import { QuizFile, createImportedQuiz } from '@/lib/quiz-transfer';
+
+interface QuizImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: { id: string; name: string }[];
+  onImported: () => void;
+}
+
+export default function QuizImportDialog({ open, onOpenChange, groups, onImported }: QuizImportDialogProps) {
+  const { user } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<QuizFormat | null>(null);
+  const [quizFile, setQuizFile] = useState<QuizFile | null>(null);
+  const [title, setTitle] = useState('');
+  const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const [deadline, setDeadline] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setFormat(null);
+    setQuizFile(null);
+    setTitle('');
+    setSelectedGroups([]);
+    setDeadline('');
+  };
+
+  const readFile = async (chosen: File, chosenFormat: QuizFormat | null) => {
+    setFile(chosen);
+    setFormat(chosenFormat);
+    setQuizFile(null);
+    if (!chosenFormat) {
+      toast.error('Choose the format of the file');
+      return;
+    }
+
+    try {
+      const read = await chosenFormat.read(chosen);
+      setQuizFile(read);
+      setTitle(prev => prev || read.title || chosen.name.replace(/\.[^.]+$/, ''));
+    } catch (error) {
+      console.error('Error reading quiz file:', error);
+      toast.error((error as Error).message || 'Failed to read the file');
+    }
+  };
+
+  const toggleGroup = (groupId: string) => {
+    setSelectedGroups(prev => (prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]));
+  };
+
+  const importQuiz = async () => {
+    if (!user || !quizFile) return;
+
+    if (!title.trim()) {
+      toast.error('Please enter a quiz title');
+      return;
+    }
+    if (selectedGroups.length === 0) {
+      toast.error('Please select at least one group');
+      return;
+    }
+    if (!deadline) {
+      toast.error('Please choose a deadline');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      await createImportedQuiz({
+        teacherId: user.id,
+        title: title.trim(),
+        description: quizFile.description,
+        groupIds: selectedGroups,
+        deadline: new Date(deadline).toISOString(),
+        settings: quizFile.settings,
+      }, quizFile.questions);
+
+      toast.success(`Quiz imported with ${quizFile.questions.length} questions`);
+      reset();
+      onOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error('Error importing quiz:', error);
+      toast.error((error as Error).message || 'Failed to import quiz');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import a Quiz</DialogTitle>
+          <DialogDescription>
+            Create a new quiz from a Quizioo archive, or from a file exported by Moodle or another quiz tool.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-[1fr_12rem]">
+          <div className="space-y-2">
+            <Label htmlFor="import-quiz-file">File</Label>
+            <Input
+              id="import-quiz-file"
+              type="file"
+              accept={[...new Set(QUIZ_FORMATS.map(f => f.accept))].join(',')}
+              onChange={async (e) => {
+                const chosen = e.target.files?.[0];
+                if (chosen) readFile(chosen, await detectQuizFormat(chosen));
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select
+              value={format?.id ?? ''}
+              onValueChange={(value) => {
+                const chosenFormat = QUIZ_FORMATS.find(f => f.id === value) ?? null;
+                if (file) readFile(file, chosenFormat);
+                else setFormat(chosenFormat);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Detected from the file" />
+              </SelectTrigger>
+              <SelectContent>
+                {QUIZ_FORMATS.map(f => (
+                  <SelectItem key={f.id} value={f.id}>{f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {quizFile && (
+          <div className="space-y-4">
+            <TransferReport report={quizFile.report} notes={quizFile.notes} action="can be imported" />
+
+            <div className="space-y-2">
+              <Label htmlFor="import-quiz-title">Quiz Title</Label>
+              <Input id="import-quiz-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Groups</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-4 border rounded-lg bg-muted/30">
+                {groups.map(group => (
+                  <div key={group.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`import-group-${group.id}`}
+                      checked={selectedGroups.includes(group.id)}
+                      onCheckedChange={() => toggleGroup(group.id)}
+                    />
+                    <Label htmlFor={`import-group-${group.id}`} className="cursor-pointer flex-1 font-normal">
+                      {group.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-quiz-deadline">Deadline</Label>
+              <Input
+                id="import-quiz-deadline"
+                type="datetime-local"
+                value={deadline}
+                min={new Date().toISOString().slice(0, 16)}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            className="gradient-primary"
+            onClick={importQuiz}
+            disabled={importing || !quizFile || quizFile.questions.length === 0}
+          >
+            {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create Quiz
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { AlertTriangle, Check, Download, Loader2 } from 'lucide-react';
+import MathText from '@/components/MathText';
+import { Question } from '@/lib/question-editor';
+import { uploadQuestionImage } from '@/lib/question-images';
+import { QUESTION_TYPE_OPTIONS } from '@/lib/question-types';
+import { downloadFile } from '@/lib/quiz-transfer';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import { SPREADSHEET_COLUMNS, SpreadsheetRow, spreadsheetQuestions } from '@/lib/spreadsheet-questions';
+import { cn } from '@/lib/utils';
+
+export type ImportMode = 'append' | 'replace';
+
+interface SpreadsheetImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Folder the images are uploaded to
+  quizId: string;
+  hasQuestions: boolean;
+  onImport: (questions: Question[], mode: ImportMode) => void;
+}
+
+const TEMPLATE = [
+  'question,type,answer 1,answer 2,answer 3,answer 4,correct,points,explanation,image',
+  'What does CPU stand for?,single,Central Processing Unit,Computer Personal Unit,Central Program Utility,,A,1,The CPU carries out program instructions.,',
+  'Which of these are input devices?,multiple,Keyboard,Monitor,Mouse,Printer,"A, C",2,,',
+  'RAM is volatile memory.,true_false,,,,,True,1,,',
+  'Name the binary number system base.,short_answer,2,two,,,,1,,',
+].join('\r\n');
+
+const downloadTemplate = () => {
+  // The byte order mark makes Excel open the file as UTF-8
+  downloadFile(new Blob(['\uFEFF' + TEMPLATE], { type: 'text/csv;charset=utf-8' }), 'questions-template.csv');
+};
+
+export default function SpreadsheetImportDialog({ open, onOpenChange, quizId, hasQuestions, onImport }: SpreadsheetImportDialogProps) {
+  const [rows, setRows] = useState<SpreadsheetRow[] | null>(null);
+  const [images, setImages] = useState<File[]>([]);
+  const [mode, setMode] = useState<ImportMode>('append');
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setRows(null);
+    setImages([]);
+    setMode('append');
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      setRows(spreadsheetQuestions(await readSpreadsheet(file)));
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      toast.error((error as Error).message || 'Failed to read the spreadsheet');
+      setRows(null);
+    }
+  };
+
+  const findImage = (name: string) => images.find(f => f.name.toLowerCase() === name.toLowerCase());
+
+  // Images are chosen separately, so their errors are added here
+  const checkedRows = (rows || []).map(r => ({
+    ...r,
+    errors: r.imageName && !findImage(r.imageName)
+      ? [...r.errors, `Image "${r.imageName}" was not chosen`]
+      : r.errors,
+  }));
+  const validRows = checkedRows.filter(r => r.errors.length === 0);
+
+  const importQuestions = async () => {
+    setImporting(true);
+    try {
+      const imported: Question[] = [];
+      for (const r of validRows) {
+        const image = r.imageName ? findImage(r.imageName) : undefined;
+        imported.push({
+          ...r.question,
+          image_url: image ? await uploadQuestionImage(image, quizId) : null,
+        });
+      }
+
+      onImport(imported, mode);
+      toast.success(imported.length === 1 ? '1 question imported' : `${imported.length} questions imported`);
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      toast.error((error as Error).message || 'Failed to import questions');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Questions from a Spreadsheet</DialogTitle>
+          <DialogDescription>
+            CSV (saved as UTF-8) or Excel .xlsx, with one question per row under a header row.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-xl border divide-y divide-border text-sm">
+          {SPREADSHEET_COLUMNS.map(column => (
+            <div key={column.name} className="grid grid-cols-[10rem_1fr] gap-3 px-4 py-2">
+              <code className="font-medium">{column.name}</code>
+              <span className="text-muted-foreground">{column.description}</span>
+            </div>
+          ))}
+        </div>
+        <Button variant="link" className="self-start px-0" onClick={downloadTemplate}>
+          <Download className="w-4 h-4 mr-2" />
+          Download a template
+        </Button>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="import-spreadsheet">Spreadsheet</Label>
+            <Input
+              id="import-spreadsheet"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-images">Images (Optional)</Label>
+            <Input
+              id="import-images"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setImages(Array.from(e.target.files || []))}
+            />
+          </div>
+        </div>
+
+        {rows && (
+          <div className="space-y-4">
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The spreadsheet has no questions below the header row.</p>
+            ) : (
+              <div className="rounded-xl border divide-y divide-border">
+                {checkedRows.map(r => (
+                  <div key={r.row} className="flex items-start gap-3 px-4 py-2 text-sm">
+                    {r.errors.length === 0 ? (
+                      <Check className="w-4 h-4 mt-0.5 shrink-0 text-quiz-green" />
+                    ) : (
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-sinhala">
+                        <span className="text-muted-foreground">Row {r.row}: </span>
+                        <MathText text={r.question.question_text || '—'} />
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {QUESTION_TYPE_OPTIONS.find(o => o.value === r.question.question_type)?.label}
+                        {' · '}
+                        {r.question.answers.length} answers
+                        {' · '}
+                        {r.question.points} {r.question.points === 1 ? 'point' : 'points'}
+                        {r.imageName && ` · ${r.imageName}`}
+                      </p>
+                      {r.errors.map(error => (
+                        <p key={error} className="text-xs text-destructive">{error}</p>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {hasQuestions && (
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="grid gap-2 sm:grid-cols-2">
+                {([
+                  { value: 'append', label: 'Add after the current questions' },
+                  { value: 'replace', label: 'Replace the current questions' },
+                ] as const).map(option => (
+                  <Label
+                    key={option.value}
+                    htmlFor={`import-${option.value}`}
+                    className={cn(
+                      "flex items-center gap-3 rounded-xl border p-3 cursor-pointer font-normal",
+                      mode === option.value && "border-primary bg-primary/5"
+                    )}
+                  >
+                    <RadioGroupItem value={option.value} id={`import-${option.value}`} />
+                    {option.label}
+                  </Label>
+                ))}
+              </RadioGroup>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:items-center">
+          {rows && validRows.length < checkedRows.length && (
+            <p className="text-sm text-muted-foreground sm:mr-auto">
+              Rows with errors are skipped
+            </p>
+          )}
+          <Button
+            className="gradient-primary"
+            onClick={importQuestions}
+            disabled={importing || validRows.length === 0}
+          >
+            {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {validRows.length === 1 ? 'Import 1 Question' : `Import ${validRows.length} Questions`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
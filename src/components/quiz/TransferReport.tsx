@@ -0,0 +1,62 @@
+import { AlertTriangle, Check, Info } from 'lucide-react';
+import MathText from '@/components/MathText';
+import { TransferReportLine } from '@/lib/quiz-transfer';
+
+interface TransferReportProps {
+  report: TransferReportLine[];
+  // Finishes the summary, e.g. "can be imported"
+  action: string;
+  // Problems with the file outside its questions
+  notes?: string[];
+}
+
+// What happened to each question of an imported or exported quiz; questions
+// carried over completely are only counted
+export default function TransferReport({ report, action, notes = [] }: TransferReportProps) {
+  const kept = report.filter(line => !line.skipped).length;
+  const flagged = report.filter(line => line.skipped || line.notes.length > 0);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm">
+        <span className="font-medium">{kept} of {report.length}</span> questions {action}
+        {flagged.length > 0 && <span className="text-muted-foreground"> · {flagged.length} with notes</span>}
+      </p>
+      {notes.map(note => (
+        <p key={note} className="flex items-start gap-2 text-sm text-muted-foreground">
+          <Info className="w-4 h-4 mt-0.5 shrink-0 text-quiz-yellow" />
+          {note}
+        </p>
+      ))}
+      {flagged.length === 0 ? (
+        report.length > 0 && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Check className="w-4 h-4 text-quiz-green" />
+            Every question is carried over completely
+          </p>
+        )
+      ) : (
+        <div className="rounded-xl border divide-y divide-border max-h-72 overflow-y-auto">
+          {flagged.map((line, index) => (
+            <div key={index} className="flex items-start gap-3 px-4 py-2 text-sm">
+              {line.skipped ? (
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+              ) : (
+                <Info className="w-4 h-4 mt-0.5 shrink-0 text-quiz-yellow" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-sinhala">
+                  <span className="text-muted-foreground">{line.label}{line.skipped && ' (skipped)'}: </span>
+                  <MathText text={line.text || '—'} />
+                </p>
+                {line.notes.map(note => (
+                  <p key={note} className={`text-xs ${line.skipped ? 'text-destructive' : 'text-muted-foreground'}`}>{note}</p>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import MathText from '@/components/MathText';
+import { parseClozeBlanks } from '@/lib/question-types';
+import { cn, percentageColor } from '@/lib/utils';
+
+interface ClozeBlanksReviewProps {
+  quizId: string;
+  attempts: { id: string }[];
+}
+
+interface BlankResult {
+  accepted: string[];
+  correct: number;
+  answered: number;
+  // Most common wrong responses, most frequent first
+  wrong_responses: string[];
+}
+
+interface ClozeQuestion {
+  id: string;
+  number: number;
+  question_text: string;
+  blanks: BlankResult[];
+}
+
+// Responses that differ only in case or spacing are counted together
+const groupKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export default function ClozeBlanksReview({ quizId, attempts }: ClozeBlanksReviewProps) {
+  const [questions, setQuestions] = useState<ClozeQuestion[]>([]);
+
+  useEffect(() => {
+    loadBlanks();
+  }, [quizId, attempts]);
+
+  const loadBlanks = async () => {
+    try {
+      const { data: questionsData, error: questionsError } = await supabase
+        .from('questions')
+        .select('id, question_text, question_type, order_index')
+        .eq('quiz_session_id', quizId)
+        .order('order_index');
+
+      if (questionsError) throw questionsError;
+
+      const clozeQuestions = (questionsData || [])
+        .map((q, index) => ({ ...q, number: index + 1 }))
+        .filter(q => q.question_type === 'cloze');
+
+      if (clozeQuestions.length === 0) {
+        setQuestions([]);
+        return;
+      }
+
+      // Each blank response is stored with its 1-based blank number as the position
+      const { data: answersData, error: answersError } = await supabase
+        .from('student_answers')
+        .select('question_id, position, response_text, is_correct')
+        .in('question_id', clozeQuestions.map(q => q.id))
+        .not('position', 'is', null);
+
+      if (answersError) throw answersError;
+
+      setQuestions(clozeQuestions.map(q => {
+        const blanks = parseClozeBlanks(q.question_text).map((accepted, blankIndex) => {
+          const responses = (answersData || []).filter(sa =>
+            sa.question_id === q.id && sa.position === blankIndex + 1
+          );
+          const wrongCounts = new Map<string, { text: string; count: number }>();
+          responses
+            .filter(sa => !sa.is_correct && sa.response_text?.trim())
+            .forEach(sa => {
+              const key = groupKey(sa.response_text!);
+              const group = wrongCounts.get(key) || { text: sa.response_text!.trim(), count: 0 };
+              group.count++;
+              wrongCounts.set(key, group);
+            });
+
+          return {
+            accepted,
+            correct: responses.filter(sa => sa.is_correct).length,
+            answered: responses.length,
+            wrong_responses: [...wrongCounts.values()]
+              .sort((a, b) => b.count - a.count)
+              .slice(0, 3)
+              .map(group => group.text),
+          };
+        });
+
+        return {
+          id: q.id,
+          number: q.number,
+          question_text: q.question_text.replace(/\[\[[^\]]*\]\]/g, '____'),
+          blanks,
+        };
+      }));
+    } catch (error) {
+      console.error('Error loading cloze blanks:', error);
+      toast.error('Failed to load blank results');
+    }
+  };
+
+  if (questions.length === 0) return null;
+
+  return (
+    <Card className="card-elevated">
+      <CardHeader>
+        <CardTitle className="text-xl">Fill in the Blanks</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          How many students filled each blank correctly
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {questions.map(q => (
+          <div key={q.id} className="space-y-2">
+            <p className="font-medium font-sinhala">
+              Q{q.number}: <MathText text={q.question_text} />
+            </p>
+            <div className="rounded-xl border divide-y divide-border">
+              {q.blanks.map((blank, blankIndex) => {
+                const percentage = blank.answered > 0 ? Math.round((blank.correct / blank.answered) * 100) : 0;
+                return (
+                  <div key={blankIndex} className="flex items-center justify-between gap-4 px-4 py-2">
+                    <div className="min-w-0">
+                      <p className="font-sinhala">
+                        <span className="font-bold">Blank {blankIndex + 1}:</span> {blank.accepted.join(' / ')}
+                      </p>
+                      {blank.wrong_responses.length > 0 && (
+                        <p className="text-xs text-muted-foreground truncate font-sinhala">
+                          Common wrong answers: {blank.wrong_responses.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                    <span className={cn("text-sm font-bold whitespace-nowrap", blank.answered === 0 ? "text-muted-foreground" : percentageColor(percentage))}>
+                      {blank.correct}/{blank.answered} ({percentage}%)
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import MathText from '@/components/MathText';
+import { HotspotPoint, HotspotRegion } from '@/lib/question-types';
+import { cn, percentageColor } from '@/lib/utils';
+
+interface HotspotHeatmapProps {
+  quizId: string;
+  attempts: { id: string }[];
+}
+
+interface HotspotQuestion {
+  id: string;
+  number: number;
+  question_text: string;
+  image_url: string;
+  regions: { label: string; region: HotspotRegion }[];
+  points: HotspotPoint[];
+  correct: number;
+}
+
+// Radius of each tap's glow, as a fraction of the image's longer side
+const TAP_RADIUS = 0.06;
+
+// Blue where few students tapped through to red where most did
+const heatPalette = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  gradient.addColorStop(0.2, 'blue');
+  gradient.addColorStop(0.5, 'lime');
+  gradient.addColorStop(0.8, 'yellow');
+  gradient.addColorStop(1, 'red');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  return ctx.getImageData(0, 0, 256, 1).data;
+};
+
+function Heatmap({ question }: { question: HotspotQuestion }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  // Taps are drawn as overlapping glows, then the glow strength is coloured
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !size) return;
+
+    ctx.clearRect(0, 0, size.width, size.height);
+    const radius = TAP_RADIUS * Math.max(size.width, size.height);
+    question.points.forEach(point => {
+      const x = point.x * size.width;
+      const y = point.y * size.height;
+      const glow = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      glow.addColorStop(0, 'rgba(0, 0, 0, 0.4)');
+      glow.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      ctx.fillStyle = glow;
+      ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+    });
+
+    const palette = heatPalette();
+    const image = ctx.getImageData(0, 0, size.width, size.height);
+    for (let i = 0; i < image.data.length; i += 4) {
+      const strength = image.data[i + 3];
+      if (strength === 0) continue;
+      image.data[i] = palette[strength * 4];
+      image.data[i + 1] = palette[strength * 4 + 1];
+      image.data[i + 2] = palette[strength * 4 + 2];
+      image.data[i + 3] = Math.min(200, strength * 2);
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [question.points, size]);
+
+  return (
+    <div className="relative inline-block rounded-xl overflow-hidden">
+      <img
+        src={question.image_url}
+        alt="Question"
+        className="block max-h-80 object-contain"
+        onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+      />
+      {size && (
+        <canvas
+          ref={canvasRef}
+          width={size.width}
+          height={size.height}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        />
+      )}
+      {question.regions.map(({ label, region }, index) => (
+        <div
+          key={index}
+          title={label}
+          className="absolute border-2 border-dashed border-quiz-green pointer-events-none"
+          style={{
+            left: `${region.x * 100}%`,
+            top: `${region.y * 100}%`,
+            width: `${region.width * 100}%`,
+            height: `${region.height * 100}%`,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function HotspotHeatmap({ quizId, attempts }: HotspotHeatmapProps) {
+  const [questions, setQuestions] = useState<HotspotQuestion[]>([]);
+
+  useEffect(() => {
+    loadPoints();
+  }, [quizId, attempts]);
+
+  const loadPoints = async () => {
+    try {
+      const { data: questionsData, error: questionsError } = await supabase
+        .from('questions')
+        .select('id, question_text, question_type, image_url, order_index, answers(answer_text, region, is_correct)')
+        .eq('quiz_session_id', quizId)
+        .order('order_index');
+
+      if (questionsError) throw questionsError;
+
+      const hotspotQuestions = (questionsData || [])
+        .map((q, index) => ({ ...q, number: index + 1 }))
+        .filter(q => q.question_type === 'hotspot' && q.image_url);
+
+      if (hotspotQuestions.length === 0) {
+        setQuestions([]);
+        return;
+      }
+
+      const { data: answersData, error: answersError } = await supabase
+        .from('student_answers')
+        .select('question_id, point_x, point_y, is_correct')
+        .in('question_id', hotspotQuestions.map(q => q.id))
+        .not('point_x', 'is', null);
+
+      if (answersError) throw answersError;
+
+      setQuestions(hotspotQuestions.map(q => {
+        const taps = (answersData || []).filter(sa => sa.question_id === q.id);
+        return {
+          id: q.id,
+          number: q.number,
+          question_text: q.question_text,
+          image_url: q.image_url!,
+          regions: (q.answers || [])
+            .filter(a => a.is_correct && a.region)
+            .map(a => ({ label: a.answer_text, region: a.region as HotspotRegion })),
+          points: taps.map(sa => ({ x: sa.point_x!, y: sa.point_y! })),
+          correct: taps.filter(sa => sa.is_correct).length,
+        };
+      }));
+    } catch (error) {
+      console.error('Error loading hotspot taps:', error);
+      toast.error('Failed to load hotspot taps');
+    }
+  };
+
+  if (questions.length === 0) return null;
+
+  return (
+    <Card className="card-elevated">
+      <CardHeader>
+        <CardTitle className="text-xl">Hotspot Taps</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Where students tapped on each image. Correct regions are outlined.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {questions.map(q => {
+          const percentage = q.points.length > 0 ? Math.round((q.correct / q.points.length) * 100) : 0;
+          return (
+            <div key={q.id} className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <p className="font-medium font-sinhala">
+                  Q{q.number}: <MathText text={q.question_text} />
+                </p>
+                <span className={cn("text-sm font-bold whitespace-nowrap", q.points.length === 0 ? "text-muted-foreground" : percentageColor(percentage))}>
+                  {q.correct}/{q.points.length} ({percentage}%)
+                </span>
+              </div>
+              <div className="flex justify-center">
+                <Heatmap question={q} />
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
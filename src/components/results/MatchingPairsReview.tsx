@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import MathText from '@/components/MathText';
+import { ArrowRight } from 'lucide-react';
+import { cn, percentageColor } from '@/lib/utils';
+
+interface MatchingPairsReviewProps {
+  quizId: string;
+  attempts: { id: string }[];
+}
+
+interface PairResult {
+  id: string;
+  answer_text: string;
+  match_text: string;
+  correct: number;
+  answered: number;
+  // Most common wrong match, if any
+  confused_with: string | null;
+}
+
+interface MatchingQuestion {
+  id: string;
+  number: number;
+  question_text: string;
+  pairs: PairResult[];
+}
+
+export default function MatchingPairsReview({ quizId, attempts }: MatchingPairsReviewProps) {
+  const [questions, setQuestions] = useState<MatchingQuestion[]>([]);
+
+  useEffect(() => {
+    loadPairs();
+  }, [quizId, attempts]);
+
+  const loadPairs = async () => {
+    try {
+      const { data: questionsData, error: questionsError } = await supabase
+        .from('questions')
+        .select('id, question_text, question_type, order_index, answers(id, answer_text, match_text, is_correct, order_index)')
+        .eq('quiz_session_id', quizId)
+        .order('order_index');
+
+      if (questionsError) throw questionsError;
+
+      const matchingQuestions = (questionsData || [])
+        .map((q, index) => ({ ...q, number: index + 1 }))
+        .filter(q => q.question_type === 'matching');
+
+      if (matchingQuestions.length === 0) {
+        setQuestions([]);
+        return;
+      }
+
+      const { data: answersData, error: answersError } = await supabase
+        .from('student_answers')
+        .select('question_id, answer_id, matched_answer_id, is_correct')
+        .in('question_id', matchingQuestions.map(q => q.id))
+        .not('matched_answer_id', 'is', null);
+
+      if (answersError) throw answersError;
+
+      setQuestions(matchingQuestions.map(q => {
+        const matchTextById = new Map((q.answers || []).map(a => [a.id, a.match_text]));
+
+        const pairs = [...(q.answers || [])]
+          .filter(a => a.is_correct)
+          .sort((a, b) => a.order_index - b.order_index)
+          .map(pair => {
+            const responses = (answersData || []).filter(sa => sa.answer_id === pair.id);
+            const wrongCounts = new Map<string, number>();
+            responses
+              .filter(sa => !sa.is_correct)
+              .forEach(sa => {
+                const text = matchTextById.get(sa.matched_answer_id!) ?? '';
+                wrongCounts.set(text, (wrongCounts.get(text) || 0) + 1);
+              });
+            const [confusedWith] = [...wrongCounts.entries()].sort((a, b) => b[1] - a[1]);
+
+            return {
+              id: pair.id,
+              answer_text: pair.answer_text,
+              match_text: pair.match_text ?? '',
+              correct: responses.filter(sa => sa.is_correct).length,
+              answered: responses.length,
+              confused_with: confusedWith ? confusedWith[0] : null,
+            };
+          });
+
+        return { id: q.id, number: q.number, question_text: q.question_text, pairs };
+      }));
+    } catch (error) {
+      console.error('Error loading matching pairs:', error);
+      toast.error('Failed to load matching pairs');
+    }
+  };
+
+  if (questions.length === 0) return null;
+
+  return (
+    <Card className="card-elevated">
+      <CardHeader>
+        <CardTitle className="text-xl">Matching Pairs</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          How many students matched each pair correctly
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {questions.map(q => (
+          <div key={q.id} className="space-y-2">
+            <p className="font-medium font-sinhala">
+              Q{q.number}: <MathText text={q.question_text} />
+            </p>
+            <div className="rounded-xl border divide-y divide-border">
+              {q.pairs.map(pair => {
+                const percentage = pair.answered > 0 ? Math.round((pair.correct / pair.answered) * 100) : 0;
+                return (
+                  <div key={pair.id} className="flex items-center justify-between gap-4 px-4 py-2">
+                    <div className="min-w-0">
+                      <p className="flex items-center gap-2 font-sinhala">
+                        <MathText text={pair.answer_text} />
+                        <ArrowRight className="w-3 h-3 shrink-0 text-muted-foreground" />
+                        <MathText text={pair.match_text} />
+                      </p>
+                      {pair.confused_with !== null && (
+                        <p className="text-xs text-muted-foreground truncate font-sinhala">
+                          Often matched with {pair.confused_with}
+                        </p>
+                      )}
+                    </div>
+                    <span className={cn("text-sm font-bold whitespace-nowrap", pair.answered === 0 ? "text-muted-foreground" : percentageColor(percentage))}>
+                      {pair.correct}/{pair.answered} ({percentage}%)
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import MathText from '@/components/MathText';
+import { cn, percentageColor } from '@/lib/utils';
+
+interface QuestionStatsProps {
+  quizId: string;
+  attempts: { id: string }[];
+}
+
+interface QuestionStat {
+  id: string;
+  number: number;
+  question_text: string;
+  section: string | null;
+  // Students who were given the question; fewer than all of them when the
+  // quiz draws from a question pool
+  drawn: number;
+  answered: number;
+  // Sum of the credit (0 to 1) the students earned on it
+  total_credit: number;
+}
+
+export default function QuestionStats({ quizId, attempts }: QuestionStatsProps) {
+  const [questions, setQuestions] = useState<QuestionStat[]>([]);
+
+  useEffect(() => {
+    loadStats();
+  }, [quizId, attempts]);
+
+  const loadStats = async () => {
+    try {
+      const { data: questionsData, error: questionsError } = await supabase
+        .from('questions')
+        .select('id, question_text, section, order_index')
+        .eq('quiz_session_id', quizId)
+        .order('order_index');
+
+      if (questionsError) throw questionsError;
+
+      const { data: statsData, error: statsError } = await supabase.rpc('quiz_question_stats', {
+        p_quiz_session_id: quizId,
+      });
+
+      if (statsError) throw statsError;
+
+      setQuestions((questionsData || []).map((q, index) => {
+        const stat = (statsData || []).find(s => s.question_id === q.id);
+        return {
+          id: q.id,
+          number: index + 1,
+          question_text: q.question_text.replace(/\[\[[^\]]*\]\]/g, '____'),
+          section: q.section,
+          drawn: stat?.drawn ?? 0,
+          answered: stat?.answered ?? 0,
+          total_credit: Number(stat?.total_credit ?? 0),
+        };
+      }));
+    } catch (error) {
+      console.error('Error loading question statistics:', error);
+      toast.error('Failed to load question statistics');
+    }
+  };
+
+  if (questions.length === 0) return null;
+
+  return (
+    <Card className="card-elevated">
+      <CardHeader>
+        <CardTitle className="text-xl">Question Statistics</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Average score on each question, counting only the students who were given it
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-xl border divide-y divide-border">
+          {questions.map(q => {
+            const percentage = q.drawn > 0 ? Math.round((q.total_credit / q.drawn) * 100) : 0;
+            return (
+              <div key={q.id} className="flex items-center justify-between gap-4 px-4 py-2">
+                <div className="min-w-0">
+                  <p className="truncate font-sinhala">
+                    Q{q.number}: <MathText text={q.question_text} />
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {q.section && <span className="font-sinhala">{q.section} · </span>}
+                    Given to {q.drawn} · answered by {q.answered}
+                  </p>
+                </div>
+                <span className={cn("text-sm font-bold whitespace-nowrap", q.drawn === 0 ? "text-muted-foreground" : percentageColor(percentage))}>
+                  {percentage}%
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
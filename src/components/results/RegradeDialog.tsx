@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import MathText from '@/components/MathText';
+import { ArrowRight, Loader2 } from 'lucide-react';
+import { QuestionScoring } from '@/lib/question-types';
+import { cn, formatScore } from '@/lib/utils';
+
+interface RegradeQuestion {
+  id: string;
+  question_text: string;
+  scoring: QuestionScoring;
+  answers: {
+    id: string;
+    answer_text: string;
+    is_correct: boolean;
+    order_index: number;
+  }[];
+}
+
+interface RegradeChange {
+  attempt_id: string;
+  old_score: number;
+  new_score: number;
+  old_max_points: number;
+  new_max_points: number;
+}
+
+interface RegradeDialogProps {
+  quizId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  attempts: {
+    id: string;
+    students: {
+      first_name: string;
+      student_code: string;
+    };
+  }[];
+  onRegraded: () => void;
+}
+
+const ALL_QUESTIONS = 'all';
+
+const SCORING_OPTIONS: { value: QuestionScoring; label: string; description: string }[] = [
+  {
+    value: 'standard',
+    label: 'Use the current answer key',
+    description: 'Recheck every response against the answers marked correct.',
+  },
+  {
+    value: 'accept_any',
+    label: 'Accept both answers',
+    description: 'Any response made up of accepted answers earns the point.',
+  },
+  {
+    value: 'dropped',
+    label: 'Drop question from scoring',
+    description: 'The question no longer counts towards scores or totals.',
+  },
+];
+
+export default function RegradeDialog({ quizId, open, onOpenChange, attempts, onRegraded }: RegradeDialogProps) {
+  const [questions, setQuestions] = useState<RegradeQuestion[]>([]);
+  const [scope, setScope] = useState(ALL_QUESTIONS);
+  const [scoring, setScoring] = useState<QuestionScoring>('standard');
+  const [acceptedAnswerIds, setAcceptedAnswerIds] = useState<string[]>([]);
+  const [preview, setPreview] = useState<RegradeChange[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setScope(ALL_QUESTIONS);
+      setScoring('standard');
+      setAcceptedAnswerIds([]);
+      setPreview(null);
+      loadQuestions();
+    }
+  }, [open, quizId]);
+
+  const loadQuestions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('id, question_text, scoring, answers(id, answer_text, is_correct, order_index)')
+        .eq('quiz_session_id', quizId)
+        .order('order_index');
+
+      if (error) throw error;
+
+      setQuestions((data || []).map(q => ({
+        ...q,
+        answers: [...(q.answers || [])].sort((a, b) => a.order_index - b.order_index),
+      })));
+    } catch (error) {
+      console.error('Error loading questions:', error);
+      toast.error('Failed to load questions');
+    }
+  };
+
+  const selectedQuestion = questions.find(q => q.id === scope);
+
+  const changeScope = (value: string) => {
+    setScope(value);
+    setScoring(questions.find(q => q.id === value)?.scoring ?? 'standard');
+    setAcceptedAnswerIds([]);
+    setPreview(null);
+  };
+
+  const toggleAcceptedAnswer = (answerId: string) => {
+    setAcceptedAnswerIds(prev =>
+      prev.includes(answerId)
+        ? prev.filter(id => id !== answerId)
+        : [...prev, answerId]
+    );
+    setPreview(null);
+  };
+
+  const runRegrade = async (previewOnly: boolean) => {
+    const { data, error } = await supabase.rpc('regrade_quiz', {
+      p_quiz_session_id: quizId,
+      p_preview: previewOnly,
+      ...(selectedQuestion && {
+        p_question_id: selectedQuestion.id,
+        p_scoring: scoring,
+        ...(scoring === 'accept_any' && { p_accept_answer_ids: acceptedAnswerIds }),
+      }),
+    });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const previewRegrade = async () => {
+    setPreviewing(true);
+    try {
+      setPreview(await runRegrade(true));
+    } catch (error) {
+      console.error('Error previewing regrade:', error);
+      toast.error('Failed to preview regrade');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const applyRegrade = async () => {
+    setApplying(true);
+    try {
+      const changes = await runRegrade(false);
+      toast.success(changes.length === 1 ? '1 score updated' : `${changes.length} scores updated`);
+      onOpenChange(false);
+      onRegraded();
+    } catch (error) {
+      console.error('Error regrading quiz:', error);
+      toast.error('Failed to regrade quiz');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const studentFor = (attemptId: string) => attempts.find(a => a.id === attemptId)?.students;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !applying && onOpenChange(value)}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Regrade results</DialogTitle>
+          <DialogDescription>
+            Recompute scores from the answers students already submitted, then update the rankings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Questions to regrade</Label>
+            <Select value={scope} onValueChange={changeScope}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_QUESTIONS}>All questions</SelectItem>
+                {questions.map((q, index) => (
+                  <SelectItem key={q.id} value={q.id}>
+                    <span className="line-clamp-1">Q{index + 1}: <MathText text={q.question_text} /></span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedQuestion && (
+            <RadioGroup
+              value={scoring}
+              onValueChange={(value) => {
+                setScoring(value as QuestionScoring);
+                setPreview(null);
+              }}
+              className="space-y-2"
+            >
+              {SCORING_OPTIONS.map(option => (
+                <Label
+                  key={option.value}
+                  htmlFor={`scoring-${option.value}`}
+                  className={cn(
+                    "flex items-start gap-3 rounded-xl border p-3 cursor-pointer",
+                    scoring === option.value && "border-primary bg-primary/5"
+                  )}
+                >
+                  <RadioGroupItem value={option.value} id={`scoring-${option.value}`} className="mt-0.5" />
+                  <div>
+                    <p className="font-medium">{option.label}</p>
+                    <p className="text-sm text-muted-foreground font-normal">{option.description}</p>
+                  </div>
+                </Label>
+              ))}
+            </RadioGroup>
+          )}
+
+          {selectedQuestion && scoring === 'accept_any' && (
+            <div className="space-y-2">
+              <Label>Accepted answers</Label>
+              {selectedQuestion.answers.map(answer => (
+                <label key={answer.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={answer.is_correct || acceptedAnswerIds.includes(answer.id)}
+                    disabled={answer.is_correct}
+                    onCheckedChange={() => toggleAcceptedAnswer(answer.id)}
+                  />
+                  <MathText text={answer.answer_text} />
+                </label>
+              ))}
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-2">
+              <Label>Affected students</Label>
+              {preview.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No scores change.</p>
+              ) : (
+                <div className="rounded-xl border divide-y divide-border">
+                  {preview.map(change => {
+                    const student = studentFor(change.attempt_id);
+                    return (
+                      <div key={change.attempt_id} className="flex items-center justify-between px-4 py-2 text-sm">
+                        <span className="font-medium">
+                          {student?.first_name}
+                          <code className="ml-2 px-1.5 py-0.5 rounded bg-muted text-xs">{student?.student_code}</code>
+                        </span>
+                        <span className="flex items-center gap-2">
+                          <span className="text-muted-foreground">{formatScore(change.old_score)}/{formatScore(change.old_max_points)}</span>
+                          <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                          <span className={cn(
+                            "font-bold",
+                            change.new_score > change.old_score && "text-quiz-green",
+                            change.new_score < change.old_score && "text-destructive"
+                          )}>
+                            {formatScore(change.new_score)}/{formatScore(change.new_max_points)}
+                          </span>
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={previewRegrade} disabled={previewing || applying}>
+            {previewing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Preview changes
+          </Button>
+          <Button onClick={applyRegrade} className="gradient-primary" disabled={!preview || applying}>
+            {applying ? 'Regrading...' : 'Apply regrade'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import MathText from '@/components/MathText';
+import { Check, Loader2 } from 'lucide-react';
+
+interface ShortAnswerReviewProps {
+  quizId: string;
+  attempts: {
+    id: string;
+    students: {
+      first_name: string;
+    };
+  }[];
+  onAccepted: () => void;
+}
+
+interface WrongResponse {
+  response_text: string;
+  student_names: string[];
+}
+
+interface ReviewQuestion {
+  id: string;
+  number: number;
+  question_text: string;
+  responses: WrongResponse[];
+}
+
+// Responses that differ only in case or spacing are listed once
+const groupKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export default function ShortAnswerReview({ quizId, attempts, onAccepted }: ShortAnswerReviewProps) {
+  const [questions, setQuestions] = useState<ReviewQuestion[]>([]);
+  const [accepting, setAccepting] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadResponses();
+  }, [quizId, attempts]);
+
+  const loadResponses = async () => {
+    try {
+      const { data: questionsData, error: questionsError } = await supabase
+        .from('questions')
+        .select('id, question_text, question_type, order_index')
+        .eq('quiz_session_id', quizId)
+        .order('order_index');
+
+      if (questionsError) throw questionsError;
+
+      const shortAnswerQuestions = (questionsData || [])
+        .map((q, index) => ({ ...q, number: index + 1 }))
+        .filter(q => q.question_type === 'short_answer');
+
+      if (shortAnswerQuestions.length === 0) {
+        setQuestions([]);
+        return;
+      }
+
+      const { data: answersData, error: answersError } = await supabase
+        .from('student_answers')
+        .select('question_id, attempt_id, response_text')
+        .in('question_id', shortAnswerQuestions.map(q => q.id))
+        .eq('is_correct', false)
+        .not('response_text', 'is', null);
+
+      if (answersError) throw answersError;
+
+      setQuestions(shortAnswerQuestions.map(q => {
+        const groups = new Map<string, WrongResponse>();
+        (answersData || [])
+          .filter(sa => sa.question_id === q.id && sa.response_text)
+          .forEach(sa => {
+            const key = groupKey(sa.response_text!);
+            const group = groups.get(key) || { response_text: sa.response_text!.trim(), student_names: [] };
+            const studentName = attempts.find(a => a.id === sa.attempt_id)?.students?.first_name;
+            if (studentName) group.student_names.push(studentName);
+            groups.set(key, group);
+          });
+
+        return {
+          id: q.id,
+          number: q.number,
+          question_text: q.question_text,
+          responses: [...groups.values()].sort((a, b) => b.student_names.length - a.student_names.length),
+        };
+      }));
+    } catch (error) {
+      console.error('Error loading short answer responses:', error);
+      toast.error('Failed to load short answer responses');
+    }
+  };
+
+  const acceptResponse = async (questionId: string, responseText: string) => {
+    setAccepting(`${questionId}:${responseText}`);
+    try {
+      const { data: changes, error } = await supabase.rpc('accept_text_response', {
+        p_question_id: questionId,
+        p_response_text: responseText,
+      });
+
+      if (error) throw error;
+
+      const changedCount = changes?.length ?? 0;
+      toast.success(`"${responseText}" accepted · ${changedCount === 1 ? '1 score' : `${changedCount} scores`} updated`);
+      onAccepted();
+    } catch (error) {
+      console.error('Error accepting response:', error);
+      toast.error('Failed to accept response');
+    } finally {
+      setAccepting(null);
+    }
+  };
+
+  if (questions.length === 0) return null;
+
+  return (
+    <Card className="card-elevated">
+      <CardHeader>
+        <CardTitle className="text-xl">Short Answer Responses</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Wrong responses students typed. Accept one to add it to the accepted answers and regrade.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {questions.map(q => (
+          <div key={q.id} className="space-y-2">
+            <p className="font-medium font-sinhala">
+              Q{q.number}: <MathText text={q.question_text} />
+            </p>
+            {q.responses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No wrong responses</p>
+            ) : (
+              <div className="rounded-xl border divide-y divide-border">
+                {q.responses.map(response => (
+                  <div key={response.response_text} className="flex items-center justify-between gap-4 px-4 py-2">
+                    <div className="min-w-0">
+                      <p className="font-sinhala break-words">{response.response_text}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {response.student_names.length} · {response.student_names.join(', ')}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={accepting !== null}
+                      onClick={() => acceptResponse(q.id, response.response_text)}
+                    >
+                      {accepting === `${q.id}:${response.response_text}` ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Check className="w-4 h-4 mr-2" />
+                      )}
+                      Accept
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
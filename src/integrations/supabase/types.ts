@@ -17,27 +17,42 @@ export type Database = {
       answers: {
         Row: {
           answer_text: string
+          blank_index: number | null
           created_at: string
           id: string
           is_correct: boolean
+          match_id: string
+          match_text: string | null
           order_index: number
+          pinned: boolean
           question_id: string
+          region: Json | null
         }
         Insert: {
           answer_text: string
+          blank_index?: number | null
           created_at?: string
           id?: string
           is_correct?: boolean
+          match_id?: string
+          match_text?: string | null
           order_index?: number
+          pinned?: boolean
           question_id: string
+          region?: Json | null
         }
         Update: {
           answer_text?: string
+          blank_index?: number | null
           created_at?: string
           id?: string
           is_correct?: boolean
+          match_id?: string
+          match_text?: string | null
           order_index?: number
+          pinned?: boolean
           question_id?: string
+          region?: Json | null
         }
         Relationships: [
           {
@@ -49,6 +64,159 @@ export type Database = {
           },
         ]
       }
+      bank_answers: {
+        Row: {
+          answer_text: string
+          bank_question_id: string
+          blank_index: number | null
+          id: string
+          is_correct: boolean
+          match_text: string | null
+          order_index: number
+          pinned: boolean
+          region: Json | null
+        }
+        Insert: {
+          answer_text: string
+          bank_question_id: string
+          blank_index?: number | null
+          id?: string
+          is_correct?: boolean
+          match_text?: string | null
+          order_index?: number
+          pinned?: boolean
+          region?: Json | null
+        }
+        Update: {
+          answer_text?: string
+          bank_question_id?: string
+          blank_index?: number | null
+          id?: string
+          is_correct?: boolean
+          match_text?: string | null
+          order_index?: number
+          pinned?: boolean
+          region?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_answers_bank_question_id_fkey"
+            columns: ["bank_question_id"]
+            isOneToOne: false
+            referencedRelation: "bank_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_questions: {
+        Row: {
+          code: string | null
+          code_language: string | null
+          created_at: string
+          difficulty: string | null
+          explanation: string | null
+          explanation_image_url: string | null
+          grade: string | null
+          id: string
+          image_url: string | null
+          points: number
+          question_text: string
+          question_type: Database["public"]["Enums"]["question_type"]
+          settings: Json
+          tags: string[]
+          teacher_id: string
+          time_limit: number | null
+          topic: string | null
+          updated_at: string
+        }
+        Insert: {
+          code?: string | null
+          code_language?: string | null
+          created_at?: string
+          difficulty?: string | null
+          explanation?: string | null
+          explanation_image_url?: string | null
+          grade?: string | null
+          id?: string
+          image_url?: string | null
+          points?: number
+          question_text: string
+          question_type?: Database["public"]["Enums"]["question_type"]
+          settings?: Json
+          tags?: string[]
+          teacher_id: string
+          time_limit?: number | null
+          topic?: string | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string | null
+          code_language?: string | null
+          created_at?: string
+          difficulty?: string | null
+          explanation?: string | null
+          explanation_image_url?: string | null
+          grade?: string | null
+          id?: string
+          image_url?: string | null
+          points?: number
+          question_text?: string
+          question_type?: Database["public"]["Enums"]["question_type"]
+          settings?: Json
+          tags?: string[]
+          teacher_id?: string
+          time_limit?: number | null
+          topic?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      attempt_questions: {
+        Row: {
+          attempt_id: string
+          id: string
+          opened_at: string
+          question_id: string
+          timed_out: boolean
+        }
+        Insert: {
+          attempt_id: string
+          id?: string
+          opened_at?: string
+          question_id: string
+          timed_out?: boolean
+        }
+        Update: {
+          attempt_id?: string
+          id?: string
+          opened_at?: string
+          question_id?: string
+          timed_out?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attempt_questions_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attempt_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attempt_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "student_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       groups: {
         Row: {
           created_at: string
@@ -102,36 +270,70 @@ export type Database = {
       }
       questions: {
         Row: {
+          bank_question_id: string | null
+          code: string | null
+          code_language: string | null
           created_at: string
+          explanation: string | null
+          explanation_image_url: string | null
           id: string
           image_url: string | null
           order_index: number
+          points: number
           question_text: string
           question_type: Database["public"]["Enums"]["question_type"]
           quiz_session_id: string
+          scoring: Database["public"]["Enums"]["question_scoring"]
+          section: string | null
+          settings: Json
           time_limit: number | null
         }
         Insert: {
+          bank_question_id?: string | null
+          code?: string | null
+          code_language?: string | null
           created_at?: string
+          explanation?: string | null
+          explanation_image_url?: string | null
           id?: string
           image_url?: string | null
           order_index?: number
+          points?: number
           question_text: string
           question_type?: Database["public"]["Enums"]["question_type"]
           quiz_session_id: string
+          scoring?: Database["public"]["Enums"]["question_scoring"]
+          section?: string | null
+          settings?: Json
           time_limit?: number | null
         }
         Update: {
+          bank_question_id?: string | null
+          code?: string | null
+          code_language?: string | null
           created_at?: string
+          explanation?: string | null
+          explanation_image_url?: string | null
           id?: string
           image_url?: string | null
           order_index?: number
+          points?: number
           question_text?: string
           question_type?: Database["public"]["Enums"]["question_type"]
           quiz_session_id?: string
+          scoring?: Database["public"]["Enums"]["question_scoring"]
+          section?: string | null
+          settings?: Json
           time_limit?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "questions_bank_question_id_fkey"
+            columns: ["bank_question_id"]
+            isOneToOne: false
+            referencedRelation: "bank_questions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "questions_quiz_session_id_fkey"
             columns: ["quiz_session_id"]
@@ -145,28 +347,43 @@ export type Database = {
         Row: {
           completed_at: string | null
           id: string
+          max_points: number | null
+          question_ids: string[] | null
           quiz_session_id: string
+          ranking: number | null
           score: number | null
+          shuffle_seed: number
           started_at: string
           student_id: string
+          time_taken_seconds: number | null
           total_questions: number | null
         }
         Insert: {
           completed_at?: string | null
           id?: string
+          max_points?: number | null
+          question_ids?: string[] | null
           quiz_session_id: string
+          ranking?: number | null
           score?: number | null
+          shuffle_seed?: number
           started_at?: string
           student_id: string
+          time_taken_seconds?: number | null
           total_questions?: number | null
         }
         Update: {
           completed_at?: string | null
           id?: string
+          max_points?: number | null
+          question_ids?: string[] | null
           quiz_session_id?: string
+          ranking?: number | null
           score?: number | null
+          shuffle_seed?: number
           started_at?: string
           student_id?: string
+          time_taken_seconds?: number | null
           total_questions?: number | null
         }
         Relationships: [
@@ -186,16 +403,59 @@ export type Database = {
           },
         ]
       }
+      quiz_session_groups: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          quiz_session_id: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          quiz_session_id: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          quiz_session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_session_groups_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_session_groups_quiz_session_id_fkey"
+            columns: ["quiz_session_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quiz_sessions: {
         Row: {
           access_code: string
           created_at: string
           deadline: string
           description: string | null
+          draw_count: number | null
+          duration_seconds: number | null
           group_id: string
           id: string
           is_active: boolean
+          negative_marking: number
           participant_limit: number | null
+          review_release: string
+          section_draws: Json
+          shuffle_answers: boolean
+          shuffle_questions: boolean
           teacher_id: string
           title: string
           updated_at: string
@@ -205,10 +465,17 @@ export type Database = {
           created_at?: string
           deadline: string
           description?: string | null
+          draw_count?: number | null
+          duration_seconds?: number | null
           group_id: string
           id?: string
           is_active?: boolean
+          negative_marking?: number
           participant_limit?: number | null
+          review_release?: string
+          section_draws?: Json
+          shuffle_answers?: boolean
+          shuffle_questions?: boolean
           teacher_id: string
           title: string
           updated_at?: string
@@ -218,10 +485,17 @@ export type Database = {
           created_at?: string
           deadline?: string
           description?: string | null
+          draw_count?: number | null
+          duration_seconds?: number | null
           group_id?: string
           id?: string
           is_active?: boolean
+          negative_marking?: number
           participant_limit?: number | null
+          review_release?: string
+          section_draws?: Json
+          shuffle_answers?: boolean
+          shuffle_questions?: boolean
           teacher_id?: string
           title?: string
           updated_at?: string
@@ -238,28 +512,43 @@ export type Database = {
       }
       student_answers: {
         Row: {
-          answer_id: string
+          answer_id: string | null
           answered_at: string
           attempt_id: string
           id: string
           is_correct: boolean
+          matched_answer_id: string | null
+          point_x: number | null
+          point_y: number | null
+          position: number | null
           question_id: string
+          response_text: string | null
         }
         Insert: {
-          answer_id: string
+          answer_id?: string | null
           answered_at?: string
           attempt_id: string
           id?: string
           is_correct?: boolean
+          matched_answer_id?: string | null
+          point_x?: number | null
+          point_y?: number | null
+          position?: number | null
           question_id: string
+          response_text?: string | null
         }
         Update: {
-          answer_id?: string
+          answer_id?: string | null
           answered_at?: string
           attempt_id?: string
           id?: string
           is_correct?: boolean
+          matched_answer_id?: string | null
+          point_x?: number | null
+          point_y?: number | null
+          position?: number | null
           question_id?: string
+          response_text?: string | null
         }
         Relationships: [
           {
@@ -276,6 +565,13 @@ export type Database = {
             referencedRelation: "quiz_attempts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "student_answers_matched_answer_id_fkey"
+            columns: ["matched_answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "student_answers_question_id_fkey"
             columns: ["question_id"]
@@ -319,14 +615,271 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      student_answer_options: {
+        Row: {
+          answer_text: string | null
+          blank_index: number | null
+          id: string | null
+          order_index: number | null
+          pinned: boolean | null
+          question_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "student_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_match_options: {
+        Row: {
+          id: string | null
+          match_text: string | null
+          order_index: number | null
+          question_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "student_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_questions: {
+        Row: {
+          answer_format: Json | null
+          code: string | null
+          code_answers: boolean | null
+          code_language: string | null
+          id: string | null
+          image_url: string | null
+          order_index: number | null
+          points: number | null
+          question_text: string | null
+          question_type: Database["public"]["Enums"]["question_type"] | null
+          quiz_session_id: string | null
+          time_limit: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_quiz_session_id_fkey"
+            columns: ["quiz_session_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      accept_text_response: {
+        Args: { p_question_id: string; p_response_text: string }
+        Returns: {
+          attempt_id: string
+          new_max_points: number
+          new_score: number
+          new_total: number
+          old_max_points: number
+          old_score: number
+          old_total: number
+        }[]
+      }
+      calculate_quiz_rankings: {
+        Args: { quiz_session_uuid: string }
+        Returns: undefined
+      }
+      expire_question: {
+        Args: {
+          p_attempt_id: string
+          p_question_id: string
+          p_student_code: string
+        }
+        Returns: undefined
+      }
+      finish_quiz_attempt: {
+        Args: { p_attempt_id: string; p_student_code: string }
+        Returns: {
+          completed_at: string | null
+          id: string
+          max_points: number | null
+          question_ids: string[] | null
+          quiz_session_id: string
+          ranking: number | null
+          score: number | null
+          shuffle_seed: number
+          started_at: string
+          student_id: string
+          time_taken_seconds: number | null
+          total_questions: number | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "quiz_attempts"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       generate_quiz_code: { Args: never; Returns: string }
       generate_student_code: { Args: never; Returns: string }
+      get_attempt_answers: {
+        Args: { p_attempt_id: string; p_student_code: string }
+        Returns: {
+          answer_id: string | null
+          match_id: string | null
+          point_x: number | null
+          point_y: number | null
+          question_id: string
+          response_text: string | null
+        }[]
+      }
+      get_attempt_questions: {
+        Args: { p_attempt_id: string; p_student_code: string }
+        Returns: Json
+      }
+      get_attempt_review: {
+        Args: { p_attempt_id: string; p_student_code: string }
+        Returns: Json
+      }
+      get_attempt_timer: {
+        Args: { p_attempt_id: string; p_student_code: string }
+        Returns: {
+          expires_at: string
+          server_time: string
+          started_at: string
+        }[]
+      }
+      get_quiz_question_points: {
+        Args: { p_quiz_session_id: string; p_student_code: string }
+        Returns: number[]
+      }
+      open_question: {
+        Args: {
+          p_attempt_id: string
+          p_question_id: string
+          p_student_code: string
+        }
+        Returns: {
+          expires_at: string
+          opened_at: string
+          server_time: string
+          timed_out: boolean
+        }[]
+      }
+      question_image_in_use: {
+        Args: { p_image_url: string }
+        Returns: boolean
+      }
+      quiz_question_stats: {
+        Args: { p_quiz_session_id: string }
+        Returns: {
+          answered: number
+          drawn: number
+          question_id: string
+          total_credit: number
+        }[]
+      }
+      regrade_quiz: {
+        Args: {
+          p_accept_answer_ids?: string[]
+          p_preview?: boolean
+          p_question_id?: string
+          p_quiz_session_id: string
+          p_scoring?: Database["public"]["Enums"]["question_scoring"]
+        }
+        Returns: {
+          attempt_id: string
+          new_max_points: number
+          new_score: number
+          new_total: number
+          old_max_points: number
+          old_score: number
+          old_total: number
+        }[]
+      }
+      save_bank_question: {
+        Args: { p_question: Json }
+        Returns: string
+      }
+      save_quiz: {
+        Args: {
+          p_description: string
+          p_group_ids: string[]
+          p_questions: Json
+          p_quiz_session_id: string
+          p_title: string
+        }
+        Returns: Json
+      }
+      start_quiz_attempt: {
+        Args: { p_quiz_session_id: string; p_student_code: string }
+        Returns: {
+          completed_at: string | null
+          id: string
+          max_points: number | null
+          question_ids: string[] | null
+          quiz_session_id: string
+          ranking: number | null
+          score: number | null
+          shuffle_seed: number
+          started_at: string
+          student_id: string
+          time_taken_seconds: number | null
+          total_questions: number | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "quiz_attempts"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      submit_quiz_answer: {
+        Args: {
+          p_answer_ids?: string[]
+          p_attempt_id: string
+          p_blank_responses?: string[]
+          p_match_ids?: string[]
+          p_point_x?: number
+          p_point_y?: number
+          p_question_id: string
+          p_response_text?: string
+          p_student_code: string
+        }
+        Returns: number
+      }
     }
     Enums: {
-      question_type: "single" | "multiple"
+      question_scoring: "standard" | "accept_any" | "dropped"
+      question_type:
+        | "single"
+        | "multiple"
+        | "true_false"
+        | "short_answer"
+        | "numeric"
+        | "ordering"
+        | "matching"
+        | "cloze"
+        | "hotspot"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -454,7 +1007,18 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      question_type: ["single", "multiple"],
+      question_scoring: ["standard", "accept_any", "dropped"],
+      question_type: [
+        "single",
+        "multiple",
+        "true_false",
+        "short_answer",
+        "numeric",
+        "ordering",
+        "matching",
+        "cloze",
+        "hotspot",
+      ],
     },
   },
 } as const
@@ -0,0 +1,127 @@
+import { QUESTION_TYPE_OPTIONS } from '@/lib/question-types';
+import {
+  ExportedQuiz,
+  QuizFile,
+  TransferQuestion,
+  TransferReportLine,
+  importedQuestion,
+  lostParts,
+  reportLine,
+  validatedQuestion,
+} from '@/lib/quiz-transfer';
+
+// Aiken, the simplest Moodle format: single answer questions only.
+//   What does CPU stand for?
+//   A. Central Processing Unit
+//   B. Computer Personal Unit
+//   ANSWER: A
+
+const OPTION = /^([A-Z])[.)]\s+(.*)$/;
+const ANSWER = /^ANSWER\s*:\s*([A-Z])?/i;
+
+interface AikenQuestion {
+  lines: string[];
+  options: { letter: string; text: string }[];
+}
+
+function readQuestion({ lines, options }: AikenQuestion, answer: string | null, line: TransferReportLine): TransferQuestion | null {
+  line.text = lines.join('\n');
+  const skip = (reason: string) => {
+    line.skipped = true;
+    line.notes.push(reason);
+    return null;
+  };
+
+  if (answer === null) return skip('The ANSWER line is missing');
+  if (!options.some(o => o.letter === answer)) {
+    return skip(answer ? `ANSWER: ${answer} is not one of the options` : 'The ANSWER line has no letter');
+  }
+
+  return validatedQuestion(line, {
+    question: importedQuestion({
+      question_text: line.text,
+      question_type: 'single',
+      answers: options.map((o, i) => ({ answer_text: o.text, is_correct: o.letter === answer, order_index: i })),
+    }),
+    image: null,
+    explanationImage: null,
+  });
+}
+
+export function readAiken(text: string): QuizFile {
+  const questions: TransferQuestion[] = [];
+  const report: TransferReportLine[] = [];
+  let current: AikenQuestion | null = null;
+
+  const finish = (answer: string | null) => {
+    if (!current) return;
+    const line = reportLine(`Question ${report.length + 1}`, '');
+    report.push(line);
+    const question = readQuestion(current, answer, line);
+    if (question) questions.push(question);
+    current = null;
+  };
+
+  for (const raw of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const trimmed = raw.trim();
+    const answer = trimmed.match(ANSWER);
+    const option = trimmed.match(OPTION);
+
+    if (!trimmed) {
+      continue;
+    } else if (answer && current) {
+      finish(answer[1]?.toUpperCase() ?? '');
+    } else if (option && current && current.lines.length > 0) {
+      current.options.push({ letter: option[1], text: option[2].trim() });
+    } else {
+      // Text after the options starts the next question
+      if (current?.options.length) finish(null);
+      current ??= { lines: [], options: [] };
+      current.lines.push(trimmed);
+    }
+  }
+  finish(null);
+
+  return { title: null, description: null, questions, report };
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export async function writeAiken(quiz: QuizFile): Promise<ExportedQuiz> {
+  const report: TransferReportLine[] = [];
+  const aiken: string[] = [];
+
+  for (const [index, transfer] of quiz.questions.entries()) {
+    const { question } = transfer;
+    const line = reportLine(`Question ${index + 1}`, question.question_text);
+    report.push(line);
+
+    const answers = question.answers.filter(a => a.answer_text.trim());
+    if (question.question_type !== 'single' && question.question_type !== 'true_false') {
+      line.skipped = true;
+      line.notes.push(`Aiken files only hold single answer questions, not ${QUESTION_TYPE_OPTIONS.find(o => o.value === question.question_type)?.label} questions`);
+      continue;
+    }
+    if (answers.length > LETTERS.length) {
+      line.skipped = true;
+      line.notes.push(`Aiken questions can have at most ${LETTERS.length} answers`);
+      continue;
+    }
+
+    line.notes.push(...lostParts(transfer, []));
+    if (question.code?.trim()) line.notes.push('The code is not exported');
+    if ([question.question_text, ...answers.map(a => a.answer_text)].some(text => text.includes('\n'))) {
+      line.notes.push('Line breaks are joined into one line');
+    }
+
+    const oneLine = (text: string) => text.trim().replace(/\s*\n\s*/g, ' ');
+    aiken.push(
+      oneLine(question.question_text),
+      ...answers.map((a, i) => `${LETTERS[i]}. ${oneLine(a.answer_text)}`),
+      `ANSWER: ${LETTERS[Math.max(0, answers.findIndex(a => a.is_correct))]}`,
+      '',
+    );
+  }
+
+  return { file: new Blob([aiken.join('\n')], { type: 'text/plain;charset=utf-8' }), report };
+}
@@ -0,0 +1,134 @@
+export type CodeLanguage = 'python' | 'pseudocode' | 'pascal' | 'javascript' | 'plain';
+
+export const CODE_LANGUAGES: { value: CodeLanguage; label: string }[] = [
+  { value: 'python', label: 'Python' },
+  { value: 'pseudocode', label: 'Pseudocode' },
+  { value: 'pascal', label: 'Pascal' },
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'plain', label: 'Plain text' },
+];
+
+export type CodeTokenType = 'keyword' | 'builtin' | 'string' | 'number' | 'comment' | 'plain';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface LanguageRules {
+  // Regular expression sources; comments and strings may span lines
+  comment: string;
+  string: string;
+  keywords: string[];
+  builtins: string[];
+  // Pseudocode and Pascal keywords are matched in any case
+  ignoreCase?: boolean;
+}
+
+const QUOTED = `"(?:\\\\.|[^"\\\\\\n])*"|'(?:\\\\.|[^'\\\\\\n])*'`;
+
+const LANGUAGES: Record<Exclude<CodeLanguage, 'plain'>, LanguageRules> = {
+  python: {
+    comment: '#[^\\n]*',
+    string: `"""[\\s\\S]*?"""|'''[\\s\\S]*?'''|${QUOTED}`,
+    keywords: [
+      'and', 'as', 'assert', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+      'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None',
+      'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield',
+    ],
+    builtins: [
+      'abs', 'bool', 'dict', 'enumerate', 'float', 'input', 'int', 'len', 'list', 'max', 'min',
+      'open', 'print', 'range', 'round', 'set', 'sorted', 'str', 'sum', 'tuple', 'type', 'zip',
+    ],
+  },
+  pseudocode: {
+    comment: '//[^\\n]*',
+    string: QUOTED,
+    keywords: [
+      'begin', 'end', 'start', 'stop', 'if', 'then', 'else', 'elseif', 'endif', 'while', 'endwhile',
+      'do', 'repeat', 'until', 'for', 'to', 'step', 'next', 'endfor', 'case', 'of', 'otherwise',
+      'endcase', 'function', 'endfunction', 'procedure', 'endprocedure', 'return', 'call',
+      'declare', 'and', 'or', 'not', 'mod', 'div', 'true', 'false',
+    ],
+    builtins: ['input', 'output', 'read', 'print', 'display', 'get', 'set'],
+    ignoreCase: true,
+  },
+  pascal: {
+    comment: '\\{[\\s\\S]*?\\}|\\(\\*[\\s\\S]*?\\*\\)|//[^\\n]*',
+    string: "'(?:''|[^'\\n])*'",
+    keywords: [
+      'program', 'uses', 'const', 'type', 'var', 'begin', 'end', 'if', 'then', 'else', 'while',
+      'do', 'for', 'to', 'downto', 'repeat', 'until', 'case', 'of', 'function', 'procedure',
+      'array', 'record', 'and', 'or', 'not', 'div', 'mod', 'true', 'false',
+    ],
+    builtins: [
+      'integer', 'real', 'boolean', 'char', 'string', 'write', 'writeln', 'read', 'readln',
+      'length', 'sqr', 'sqrt', 'abs', 'round', 'trunc',
+    ],
+    ignoreCase: true,
+  },
+  javascript: {
+    comment: '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/',
+    string: `\`(?:\\\\.|[^\`\\\\])*\`|${QUOTED}`,
+    keywords: [
+      'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do',
+      'else', 'false', 'finally', 'for', 'function', 'if', 'in', 'let', 'new', 'null', 'of',
+      'return', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'while',
+    ],
+    builtins: ['Array', 'console', 'JSON', 'Math', 'Number', 'Object', 'String', 'parseFloat', 'parseInt'],
+  },
+};
+
+const NUMBER = '\\b(?:0[xX][0-9a-fA-F]+|0[bB][01]+|\\d+(?:\\.\\d+)?)\\b';
+const WORD = '[A-Za-z_][A-Za-z0-9_]*';
+
+function tokenize(code: string, rules: LanguageRules): CodeToken[] {
+  const pattern = new RegExp(`(${rules.comment})|(${rules.string})|(${NUMBER})|(${WORD})`, 'g');
+  const normalize = (word: string) => rules.ignoreCase ? word.toLowerCase() : word;
+  const keywords = new Set(rules.keywords.map(normalize));
+  const builtins = new Set(rules.builtins.map(normalize));
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let position = 0;
+  for (const match of code.matchAll(pattern)) {
+    if (match.index! > position) push('plain', code.slice(position, match.index));
+    const [text, comment, string, number] = match;
+    if (comment) push('comment', text);
+    else if (string) push('string', text);
+    else if (number) push('number', text);
+    else if (keywords.has(normalize(text))) push('keyword', text);
+    else if (builtins.has(normalize(text))) push('builtin', text);
+    else push('plain', text);
+    position = match.index! + text.length;
+  }
+  if (position < code.length) push('plain', code.slice(position));
+
+  return tokens;
+}
+
+// The code split into lines of highlighted tokens
+export function highlightCode(code: string, language: CodeLanguage): CodeToken[][] {
+  const normalized = code.replace(/\r\n?/g, '\n').replace(/\n+$/, '');
+  const tokens = language === 'plain'
+    ? [{ type: 'plain' as const, text: normalized }]
+    : tokenize(normalized, LANGUAGES[language]);
+
+  // Comments and strings can span lines, so tokens are split at line breaks
+  const lines: CodeToken[][] = [[]];
+  tokens.forEach(token => {
+    token.text.split('\n').forEach((text, index) => {
+      if (index > 0) lines.push([]);
+      if (text) lines[lines.length - 1].push({ type: token.type, text });
+    });
+  });
+  return lines;
+}
@@ -0,0 +1,344 @@
+import { Question } from '@/lib/question-editor';
+import { DEFAULT_NUMERIC_SETTINGS, DEFAULT_SHORT_ANSWER_SETTINGS, QUESTION_TYPE_OPTIONS, TRUE_FALSE_ANSWERS } from '@/lib/question-types';
+import {
+  ExportedQuiz,
+  QuizFile,
+  TransferQuestion,
+  TransferReportLine,
+  choiceWeights,
+  htmlToText,
+  importedQuestion,
+  lostParts,
+  reportLine,
+  textWithCode,
+  validatedQuestion,
+  weightedScoring,
+} from '@/lib/quiz-transfer';
+
+// GIFT, Moodle's plain text format. Questions are separated by blank lines
+// and keep their answers in braces, e.g.
+//   ::Q1:: What does CPU stand for? {=Central Processing Unit ~Computer Personal Unit}
+// Lines starting with // are comments, and ~ = # { } : and \ in text are
+// escaped with a backslash.
+
+// Index of the first unescaped token at or after from, or -1
+function findUnescaped(text: string, token: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(token, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+const unescapeGift = (text: string) => text.replace(/\\([\s\S])/g, (_, char) => (char === 'n' ? '\n' : char));
+
+const escapeGift = (text: string) => text.replace(/[~=#{}:\\]/g, char => `\\${char}`).replace(/\n/g, '\\n');
+
+interface GiftEntry {
+  correct: boolean;
+  // Percentage written as %50%, if any
+  weight: number | null;
+  text: string;
+  feedback: string;
+}
+
+// "=right#Well done ~%-50%wrong" -> one entry per = or ~
+function readEntries(block: string): GiftEntry[] {
+  const raw: { marker: string; text: string }[] = [];
+  for (let i = 0; i < block.length; i++) {
+    if (block[i] === '\\') {
+      if (raw.length > 0) raw[raw.length - 1].text += block.slice(i, i + 2);
+      i++;
+    } else if (block[i] === '=' || block[i] === '~') {
+      raw.push({ marker: block[i], text: '' });
+    } else if (raw.length > 0) {
+      raw[raw.length - 1].text += block[i];
+    }
+  }
+
+  return raw.map(({ marker, text }) => {
+    const weight = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    const body = weight ? text.slice(weight[0].length) : text;
+    const feedbackStart = findUnescaped(body, '#');
+    return {
+      correct: marker === '=',
+      weight: weight ? Number(weight[1]) : null,
+      text: unescapeGift(feedbackStart < 0 ? body : body.slice(0, feedbackStart)).trim(),
+      feedback: feedbackStart < 0 ? '' : unescapeGift(body.slice(feedbackStart + 1)).trim(),
+    };
+  });
+}
+
+// "3.14:0.01" or "1..5" -> the value and how far off an answer can be
+function readNumber(text: string): { value: number; tolerance: number } | null {
+  const range = text.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+  if (range) {
+    const [low, high] = [Number(range[1]), Number(range[2])];
+    return Number.isNaN(low + high) ? null : { value: (low + high) / 2, tolerance: Math.abs(high - low) / 2 };
+  }
+  const single = text.match(/^(-?[\d.]+)(?::([\d.]+))?$/);
+  if (!single || Number.isNaN(Number(single[1]))) return null;
+  return { value: Number(single[1]), tolerance: Number(single[2] ?? 0) || 0 };
+}
+
+function readBlock(block: string, fields: Pick<Question, 'question_text' | 'explanation'>, notes: string[]): Question | string {
+  const body = block.trim();
+
+  if (!body) return 'Essay questions are not supported';
+
+  const trueFalse = body.match(/^(T|TRUE|F|FALSE)\s*(#|$)/i);
+  if (trueFalse) {
+    if (trueFalse[2]) notes.push('Feedback on answers is not imported');
+    const trueIsCorrect = trueFalse[1].toUpperCase().startsWith('T');
+    return importedQuestion({
+      ...fields,
+      question_type: 'true_false',
+      answers: TRUE_FALSE_ANSWERS.map((a, i) => ({
+        answer_text: a.answer_text,
+        is_correct: i === 0 ? trueIsCorrect : !trueIsCorrect,
+        order_index: i,
+      })),
+    });
+  }
+
+  if (body.startsWith('#')) {
+    const numberText = body.slice(1).trim();
+    const entries = readEntries(/^[=~]/.test(numberText) ? numberText : `=${numberText}`);
+    const full = entries.find(e => e.correct && (e.weight === null || e.weight >= 100));
+    const number = full ? readNumber(full.text) : null;
+    if (!number) return `The number "${full?.text ?? numberText}" could not be read`;
+    if (entries.length > 1) notes.push('Only the fully correct number is imported');
+    if (entries.some(e => e.feedback)) notes.push('Feedback on answers is not imported');
+    return importedQuestion({
+      ...fields,
+      question_type: 'numeric',
+      settings: { ...DEFAULT_NUMERIC_SETTINGS, tolerance: number.tolerance },
+      answers: [{ answer_text: String(number.value), is_correct: true, order_index: 0 }],
+    });
+  }
+
+  const entries = readEntries(body);
+  if (entries.length === 0) return 'The answers could not be read';
+  if (entries.some(e => e.feedback)) notes.push('Feedback on answers is not imported');
+
+  if (entries.every(e => e.correct) && entries.some(e => e.text.includes('->'))) {
+    const pairs = entries.map(e => {
+      const arrow = e.text.indexOf('->');
+      return arrow < 0 ? { left: '', right: e.text } : { left: e.text.slice(0, arrow).trim(), right: e.text.slice(arrow + 2).trim() };
+    });
+    return importedQuestion({
+      ...fields,
+      question_type: 'matching',
+      settings: { partial_credit: true },
+      // Pairs without a left side only add distractors to the right column
+      answers: pairs
+        .filter(p => p.left || p.right)
+        .map((p, i) => ({ answer_text: p.left, match_text: p.right, is_correct: !!p.left, order_index: i })),
+    });
+  }
+
+  if (entries.every(e => e.correct)) {
+    if (entries.some(e => e.weight !== null && e.weight < 100)) notes.push('Partly correct answers are left out');
+    return importedQuestion({
+      ...fields,
+      question_type: 'short_answer',
+      settings: { ...DEFAULT_SHORT_ANSWER_SETTINGS },
+      answers: entries
+        .filter(e => e.weight === null || e.weight >= 100)
+        .map((e, i) => ({ answer_text: e.text, is_correct: true, order_index: i })),
+    });
+  }
+
+  // Answers with a positive percentage make it a multiple answer question
+  const weights = entries.map(e => e.weight ?? (e.correct ? 100 : 0));
+  if (entries.filter(e => e.correct).length > 1 || entries.some(e => !e.correct && (e.weight ?? 0) > 0)) {
+    const { scoring, note } = weightedScoring(weights);
+    if (note) notes.push(note);
+    return importedQuestion({
+      ...fields,
+      question_type: 'multiple',
+      settings: { multiple_scoring: scoring },
+      answers: entries.map((e, i) => ({ answer_text: e.text, is_correct: weights[i] > 0, order_index: i })),
+    });
+  }
+
+  if (entries.some(e => e.weight !== null && e.weight < 100 && e.weight !== 0)) notes.push('Partly correct answers are counted as wrong');
+  return importedQuestion({
+    ...fields,
+    question_type: 'single',
+    answers: entries.map((e, i) => ({ answer_text: e.text, is_correct: e.correct && weights[i] >= 100, order_index: i })),
+  });
+}
+
+function readQuestion(source: string, line: TransferReportLine): TransferQuestion | null {
+  let rest = source.trim();
+  if (rest.startsWith('::')) {
+    const end = findUnescaped(rest, '::', 2);
+    if (end > 0) {
+      line.label = unescapeGift(rest.slice(2, end)).trim() || line.label;
+      rest = rest.slice(end + 2);
+    }
+  }
+
+  const open = findUnescaped(rest, '{');
+  const close = open < 0 ? -1 : findUnescaped(rest, '}', open + 1);
+  const format = rest.match(/^\s*\[(html|moodle|plain|markdown)\]/);
+  const before = rest.slice(format ? format[0].length : 0, open < 0 ? undefined : open);
+  const after = close < 0 ? '' : rest.slice(close + 1);
+
+  // Text on both sides of the answers is a missing word question
+  const plainText = (text: string) => {
+    const unescaped = unescapeGift(text).trim();
+    if (format?.[1] !== 'html') return unescaped;
+    const { text: plain, images, formatted } = htmlToText(unescaped);
+    if (formatted) line.notes.push('Formatting was removed');
+    if (images.length > 0) line.notes.push('Images are not part of GIFT files');
+    return plain;
+  };
+  const questionText = [plainText(before), plainText(after)].filter(Boolean).join(' _____ ');
+  line.text = questionText;
+
+  if (open < 0 || close < 0) {
+    line.skipped = true;
+    line.notes = [open < 0 ? 'Descriptions without answers are not questions' : 'The answers are missing a closing }'];
+    return null;
+  }
+
+  let block = rest.slice(open + 1, close);
+  const feedbackStart = findUnescaped(block, '####');
+  const explanation = feedbackStart < 0 ? '' : plainText(block.slice(feedbackStart + 4));
+  if (feedbackStart >= 0) block = block.slice(0, feedbackStart);
+
+  const question = readBlock(block, { question_text: questionText, explanation: explanation || null }, line.notes);
+  if (typeof question === 'string') {
+    line.skipped = true;
+    line.notes = [question];
+    return null;
+  }
+
+  line.notes = [...new Set(line.notes)];
+  return validatedQuestion(line, { question, image: null, explanationImage: null });
+}
+
+export function readGift(text: string): QuizFile {
+  let title: string | null = null;
+  const questions: TransferQuestion[] = [];
+  const report: TransferReportLine[] = [];
+
+  const sources: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.some(l => l.trim())) sources.push(current.join('\n'));
+    current = [];
+  };
+
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const category = line.match(/^\s*\$CATEGORY:\s*(.*)$/);
+    if (category) {
+      // "$course$/top/Chapter 5" names the quiz after its last category
+      const name = category[1].split('/').pop()?.trim();
+      if (!title && name && name !== 'top' && !name.startsWith('$')) title = name;
+      flush();
+    } else if (line.trim().startsWith('//')) {
+      continue;
+    } else if (!line.trim()) {
+      // Blank lines inside the braces don't end the question
+      const open = current.join('\n');
+      let depth = 0;
+      for (let i = 0; i < open.length; i++) {
+        if (open[i] === '\\') i++;
+        else if (open[i] === '{') depth++;
+        else if (open[i] === '}') depth--;
+      }
+      if (depth > 0) current.push(line);
+      else flush();
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+
+  for (const source of sources) {
+    const line = reportLine(`Question ${report.length + 1}`, '');
+    report.push(line);
+    const question = readQuestion(source, line);
+    if (question) questions.push(question);
+  }
+
+  return { title, description: null, questions, report };
+}
+
+// The answers in braces, or null when GIFT has no such question type
+function answerBlock(question: Question, notes: string[]): string[] | null {
+  const answers = question.answers.filter(a => a.answer_text.trim());
+
+  switch (question.question_type) {
+    case 'single':
+      return answers.map(a => `${a.is_correct ? '=' : '~'}${escapeGift(a.answer_text)}`);
+    case 'multiple': {
+      const scoring = question.settings.multiple_scoring ?? 'all_or_nothing';
+      if (scoring !== 'right_minus_wrong') notes.push('Moodle scores it with a share of the points for each correct answer');
+      const weights = choiceWeights(answers);
+      return answers.map((a, i) => `~%${weights[i]}%${escapeGift(a.answer_text)}`);
+    }
+    case 'true_false':
+      return [question.answers[0]?.is_correct === false ? 'FALSE' : 'TRUE'];
+    case 'short_answer':
+      if (question.settings.case_sensitive) notes.push('GIFT short answers are not case-sensitive');
+      if (question.settings.match === 'fuzzy') notes.push('Answers with small typos are no longer accepted');
+      if (question.settings.match === 'regex') notes.push('Patterns are matched as plain text');
+      return answers.map(a => `=${escapeGift(a.answer_text)}`);
+    case 'numeric': {
+      if ((question.settings.base ?? 10) !== 10) return null;
+      if (question.settings.unit) notes.push('The unit is not exported');
+      const value = Number(answers[0]?.answer_text.replace(/[\s_]/g, ''));
+      const tolerance = question.settings.tolerance_type === 'percent'
+        ? Math.abs(value) * (question.settings.tolerance ?? 0) / 100
+        : question.settings.tolerance ?? 0;
+      return [`#${value}:${tolerance}`];
+    }
+    case 'matching':
+      if (!question.settings.partial_credit) notes.push('Moodle gives credit for each pair that is right');
+      return question.answers
+        .filter(a => (a.is_correct && a.answer_text.trim()) || (!a.is_correct && a.match_text?.trim()))
+        .map(a => `=${a.is_correct ? escapeGift(a.answer_text) : ''} -> ${escapeGift(a.match_text ?? '')}`);
+    default:
+      return null;
+  }
+}
+
+export async function writeGift(quiz: QuizFile): Promise<ExportedQuiz> {
+  const report: TransferReportLine[] = [];
+  const gift = [`$CATEGORY: $course$/top/${(quiz.title ?? 'Quiz').replace(/\//g, '-')}`, ''];
+
+  for (const [index, transfer] of quiz.questions.entries()) {
+    const { question } = transfer;
+    const line = reportLine(`Question ${index + 1}`, question.question_text);
+    report.push(line);
+
+    const block = answerBlock(question, line.notes);
+    if (!block) {
+      line.skipped = true;
+      line.notes = [question.question_type === 'numeric'
+        ? 'GIFT numbers can only be decimal'
+        : `${QUESTION_TYPE_OPTIONS.find(o => o.value === question.question_type)?.label} questions have no GIFT equivalent`];
+      continue;
+    }
+
+    line.notes.push(...lostParts(transfer, ['explanation']));
+    if (question.code?.trim()) line.notes.push('The code is added to the question text');
+
+    gift.push(
+      `::Question ${index + 1}:: ${escapeGift(textWithCode(question))} {`,
+      ...block.map(answer => `\t${answer}`),
+      ...(question.explanation ? [`\t####${escapeGift(question.explanation)}`] : []),
+      '}',
+      '',
+    );
+  }
+
+  return { file: new Blob([gift.join('\n')], { type: 'text/plain;charset=utf-8' }), report };
+}
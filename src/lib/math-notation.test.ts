@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { hasMath, mathToPlainText, splitMath } from '@/lib/math-notation';
+
+describe('splitMath', () => {
+  it('renders math between $ signs', () => {
+    expect(mathToPlainText('Simplify $x^{2}$ and $\\overline{A} \\cdot B$')).toBe('Simplify x² and A̅ · B');
+    expect(mathToPlainText('$1011_{2}$ in decimal')).toBe('1011₂ in decimal');
+  });
+
+  it('leaves plain text with dollar signs as it is', () => {
+    for (const text of ['=SUM($A$1:$B$2)', 'echo $HOME and $PATH', 'Costs $5 or $10']) {
+      expect(hasMath(text)).toBe(false);
+      expect(splitMath(text)).toEqual([{ type: 'text', text }]);
+    }
+  });
+
+  it('finds math next to plain dollar signs', () => {
+    expect(mathToPlainText('Costs $5, or $x^2$ dollars')).toBe('Costs $5, or x² dollars');
+  });
+
+  it('keeps escaped dollar signs', () => {
+    expect(mathToPlainText('\\$5 for $2^{3}$')).toBe('$5 for 2³');
+  });
+});
@@ -0,0 +1,181 @@
+// A small TeX subset for notation in question and answer text. Math goes
+// between $...$ (write \$ for a dollar sign) and supports ^{} and _{},
+// \overline{}, \sqrt{}, \frac{}{}, \text{} and the symbols below. Text
+// without math is left exactly as it is.
+//
+// Dollar signs also turn up in plain text, in prices, shell variables and
+// spreadsheet references, so a span only counts as math when it reads like
+// math: it uses ^, _ or a \command, has no space just inside its $ signs and
+// the closing $ is not followed by a digit.
+
+export type MathNode =
+  | string
+  | { type: 'sup' | 'sub' | 'overline' | 'sqrt' | 'text'; children: MathNode[] }
+  | { type: 'frac'; numerator: MathNode[]; denominator: MathNode[] };
+
+export type MathSegment = { type: 'text'; text: string } | { type: 'math'; nodes: MathNode[] };
+
+const SYMBOLS: Record<string, string> = {
+  cdot: '·', times: '×', div: '÷', pm: '±', oplus: '⊕', odot: '⊙', otimes: '⊗',
+  land: '∧', wedge: '∧', lor: '∨', vee: '∨', neg: '¬', lnot: '¬',
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠', approx: '≈', equiv: '≡',
+  to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', leftrightarrow: '↔', Leftrightarrow: '⇔',
+  therefore: '∴', infty: '∞', circ: '°',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', theta: 'θ', lambda: 'λ', mu: 'μ', pi: 'π',
+  sigma: 'σ', Sigma: 'Σ', Omega: 'Ω',
+  '{': '{', '}': '}', '$': '$', '%': '%', '_': '_', '&': '&', '#': '#', '\\': '\\',
+  ',': ' ', ';': ' ', ' ': ' ', quad: '  ',
+};
+
+// Commands that take one argument, and the node they make
+const ARGUMENT_COMMANDS: Record<string, 'overline' | 'sqrt' | 'text'> = {
+  overline: 'overline',
+  bar: 'overline',
+  sqrt: 'sqrt',
+  text: 'text',
+  mathrm: 'text',
+  textrm: 'text',
+};
+
+// Adjacent text is merged so it renders as one run
+const mergeText = (nodes: MathNode[]) =>
+  nodes.reduce<MathNode[]>((merged, node) => {
+    const last = merged[merged.length - 1];
+    if (typeof node === 'string' && typeof last === 'string') {
+      merged[merged.length - 1] = last + node;
+    } else {
+      merged.push(node);
+    }
+    return merged;
+  }, []);
+
+export function parseTex(tex: string): MathNode[] {
+  let i = 0;
+
+  const parseSequence = (inGroup: boolean): MathNode[] => {
+    const nodes: MathNode[] = [];
+    while (i < tex.length) {
+      if (tex[i] === '}') {
+        i++;
+        // A stray closing brace outside a group is dropped
+        if (inGroup) break;
+        continue;
+      }
+      nodes.push(...parseItem());
+    }
+    return mergeText(nodes);
+  };
+
+  // The argument of ^, _ or a command: a {group}, a command or one character
+  const parseArgument = (): MathNode[] => {
+    while (tex[i] === ' ') i++;
+    return i < tex.length ? mergeText(parseItem()) : [];
+  };
+
+  const parseItem = (): MathNode[] => {
+    const char = tex[i];
+    if (char === '{') {
+      i++;
+      return parseSequence(true);
+    }
+    if (char === '^' || char === '_') {
+      i++;
+      return [{ type: char === '^' ? 'sup' : 'sub', children: parseArgument() }];
+    }
+    if (char === '\\') {
+      i++;
+      const name = /^[A-Za-z]+/.exec(tex.slice(i))?.[0] ?? tex[i] ?? '';
+      i += name.length;
+      if (name === 'frac') {
+        const numerator = parseArgument();
+        return [{ type: 'frac', numerator, denominator: parseArgument() }];
+      }
+      if (ARGUMENT_COMMANDS[name]) return [{ type: ARGUMENT_COMMANDS[name], children: parseArgument() }];
+      if (name in SYMBOLS) return [SYMBOLS[name]];
+      // Unknown commands are shown as written
+      return [`\\${name}`];
+    }
+    i++;
+    return [char];
+  };
+
+  return parseSequence(false);
+}
+
+const MATH_SPAN = /(?<!\\)\$((?:\\.|[^$\\])+)\$/y;
+
+const isMathSpan = (tex: string, next: string) =>
+  /[\\^_]/.test(tex) && !/^\s|\s$/.test(tex) && !/\d/.test(next);
+
+// The math spans in the text; a $ that doesn't open one is plain text
+function findMath(text: string) {
+  const spans: { index: number; length: number; tex: string }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== '$') continue;
+    MATH_SPAN.lastIndex = i;
+    const match = MATH_SPAN.exec(text);
+    if (match && isMathSpan(match[1], text.charAt(MATH_SPAN.lastIndex))) {
+      spans.push({ index: i, length: match[0].length, tex: match[1] });
+      i = MATH_SPAN.lastIndex - 1;
+    }
+  }
+  return spans;
+}
+
+export function hasMath(text: string) {
+  return findMath(text).length > 0;
+}
+
+// Plain text and math, in order
+export function splitMath(text: string): MathSegment[] {
+  const segments: MathSegment[] = [];
+  const pushText = (plain: string) => {
+    if (plain) segments.push({ type: 'text', text: plain.replace(/\\\$/g, '$') });
+  };
+
+  let position = 0;
+  for (const span of findMath(text)) {
+    pushText(text.slice(position, span.index));
+    segments.push({ type: 'math', nodes: parseTex(span.tex) });
+    position = span.index + span.length;
+  }
+  pushText(text.slice(position));
+
+  return segments;
+}
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', n: 'ⁿ', i: 'ⁱ',
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎',
+  a: 'ₐ', e: 'ₑ', h: 'ₕ', k: 'ₖ', l: 'ₗ', m: 'ₘ', n: 'ₙ', o: 'ₒ', p: 'ₚ', s: 'ₛ', t: 'ₜ', x: 'ₓ',
+};
+
+const grouped = (text: string) => [...text].length > 1 ? `(${text})` : text;
+
+const script = (text: string, characters: Record<string, string>, marker: string) =>
+  [...text].every(c => characters[c]) ? [...text].map(c => characters[c]).join('') : `${marker}${grouped(text)}`;
+
+const nodesToText = (nodes: MathNode[]): string =>
+  nodes.map(node => {
+    if (typeof node === 'string') return node;
+    switch (node.type) {
+      case 'sup': return script(nodesToText(node.children), SUPERSCRIPTS, '^');
+      case 'sub': return script(nodesToText(node.children), SUBSCRIPTS, '_');
+      // A combining overline after each character draws a bar across them
+      case 'overline': return [...nodesToText(node.children)].map(c => c === ' ' ? c : `${c}̅`).join('');
+      case 'sqrt': return `√${grouped(nodesToText(node.children))}`;
+      case 'frac': return `${grouped(nodesToText(node.numerator))}/${grouped(nodesToText(node.denominator))}`;
+      default: return nodesToText(node.children);
+    }
+  }).join('');
+
+// The text with math written in Unicode, for places that can only draw plain
+// text such as the leaderboard image
+export function mathToPlainText(text: string) {
+  return splitMath(text).map(segment => segment.type === 'math' ? nodesToText(segment.nodes) : segment.text).join('');
+}
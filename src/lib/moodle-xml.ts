@@ -0,0 +1,366 @@
+import { Question } from '@/lib/question-editor';
+import { DEFAULT_NUMERIC_SETTINGS, DEFAULT_SHORT_ANSWER_SETTINGS, QUESTION_TYPE_OPTIONS, TRUE_FALSE_ANSWERS } from '@/lib/question-types';
+import {
+  ExportedQuiz,
+  QuizFile,
+  TransferQuestion,
+  TransferReportLine,
+  base64ToBlob,
+  blobToBase64,
+  choiceWeights,
+  escapeHtml,
+  htmlToText,
+  imageExtension,
+  imageType,
+  importedQuestion,
+  lostParts,
+  reportLine,
+  textToHtml,
+  validatedQuestion,
+  weightedScoring,
+} from '@/lib/quiz-transfer';
+
+// Moodle XML as Moodle's question bank exports it: a <quiz> of
+// <question type="..."> elements. Text is usually HTML; its images are
+// embedded as base64 <file> elements and shown with @@PLUGINFILE@@/name.
+
+const children = (parent: Element, name: string) =>
+  Array.from(parent.children).filter(child => child.localName === name);
+
+const child = (parent: Element | null, name: string) =>
+  (parent && children(parent, name)[0]) ?? null;
+
+const textOf = (parent: Element | null, name: string) => child(parent, name)?.textContent ?? '';
+
+const PLUGINFILE = '@@PLUGINFILE@@';
+
+function embeddedImage(source: string, files: Element[]): Blob | null {
+  const dataUri = source.match(/^data:([^;,]+);base64,([\s\S]*)$/);
+  if (dataUri) return base64ToBlob(dataUri[2], dataUri[1]);
+  if (!source.startsWith(`${PLUGINFILE}/`)) return null;
+
+  let path: string;
+  try {
+    path = decodeURIComponent(source.slice(PLUGINFILE.length));
+  } catch {
+    return null;
+  }
+  const file = files.find(f => `${f.getAttribute('path') ?? '/'}${f.getAttribute('name')}` === path);
+  const type = imageType(file?.getAttribute('name') ?? '');
+  return file && type ? base64ToBlob(file.textContent ?? '', type) : null;
+}
+
+interface RichText {
+  text: string;
+  images: Blob[];
+  notes: string[];
+}
+
+// Text of a <questiontext>, <generalfeedback>, <answer> or <subquestion>
+function readRichText(element: Element | null, part: string): RichText {
+  if (!element) return { text: '', images: [], notes: [] };
+  const raw = textOf(element, 'text');
+  if (element.getAttribute('format') !== 'html') {
+    return { text: raw.trim(), images: [], notes: [] };
+  }
+
+  const { text, images: sources, formatted } = htmlToText(raw);
+  const files = children(element, 'file');
+  const notes = formatted ? [`Formatting in the ${part} was removed`] : [];
+  const images: Blob[] = [];
+  for (const source of sources) {
+    const image = embeddedImage(source, files);
+    if (image) {
+      images.push(image);
+    } else {
+      notes.push(`The image ${source} in the ${part} is not embedded in the file`);
+    }
+  }
+  return { text, images, notes };
+}
+
+const IMPORTABLE_TYPES = ['multichoice', 'truefalse', 'shortanswer', 'numerical', 'matching'];
+
+function readQuestion(element: Element, type: string, line: TransferReportLine): TransferQuestion | null {
+  const questionText = readRichText(child(element, 'questiontext'), 'question text');
+  line.text = questionText.text;
+
+  if (!IMPORTABLE_TYPES.includes(type)) {
+    line.skipped = true;
+    line.notes.push(type === 'description' ? 'Descriptions are not questions' : `Moodle "${type}" questions are not supported`);
+    return null;
+  }
+
+  const feedback = readRichText(child(element, 'generalfeedback'), 'feedback');
+  const notes = [...questionText.notes, ...feedback.notes];
+  if (questionText.images.length > 1) notes.push('Only the first image of the question text is imported');
+  if (feedback.images.length > 1) notes.push('Only the first image of the feedback is imported');
+  if (children(element, 'hint').some(hint => textOf(hint, 'text').trim())) notes.push('Hints are not imported');
+
+  const answers = children(element, 'answer').map(answer => ({
+    element: answer,
+    fraction: Number(answer.getAttribute('fraction') ?? 0),
+    ...readRichText(answer, 'answers'),
+  }));
+  notes.push(...answers.flatMap(a => a.notes));
+  if (answers.some(a => a.images.length > 0)) notes.push('Images in answers are not imported');
+  if (answers.some(a => textOf(child(a.element, 'feedback'), 'text').trim())) notes.push('Feedback on answers is not imported');
+
+  let question: Question;
+  const fields = {
+    question_text: questionText.text,
+    points: Number(textOf(element, 'defaultgrade')) || 1,
+    explanation: feedback.text || null,
+  };
+
+  if (type === 'multichoice' && ['false', '0'].includes(textOf(element, 'single').trim())) {
+    const { scoring, note } = weightedScoring(answers.map(a => a.fraction));
+    if (note) notes.push(note);
+    question = importedQuestion({
+      ...fields,
+      question_type: 'multiple',
+      settings: { multiple_scoring: scoring },
+      answers: answers.map((a, i) => ({ answer_text: a.text, is_correct: a.fraction > 0, order_index: i })),
+    });
+  } else if (type === 'multichoice') {
+    if (answers.some(a => a.fraction > 0 && a.fraction < 100)) notes.push('Partly correct answers are counted as wrong');
+    question = importedQuestion({
+      ...fields,
+      question_type: 'single',
+      answers: answers.map((a, i) => ({ answer_text: a.text, is_correct: a.fraction >= 100, order_index: i })),
+    });
+  } else if (type === 'truefalse') {
+    const trueIsCorrect = (answers.find(a => a.text.toLowerCase() === 'true')?.fraction ?? 0) >= 100;
+    question = importedQuestion({
+      ...fields,
+      question_type: 'true_false',
+      answers: TRUE_FALSE_ANSWERS.map((a, i) => ({
+        answer_text: a.answer_text,
+        is_correct: i === 0 ? trueIsCorrect : !trueIsCorrect,
+        order_index: i,
+      })),
+    });
+  } else if (type === 'shortanswer') {
+    if (answers.some(a => a.fraction > 0 && a.fraction < 100)) notes.push('Partly correct answers are left out');
+    if (answers.some(a => a.text.includes('*'))) notes.push('The * wildcard is matched as a plain *');
+    question = importedQuestion({
+      ...fields,
+      question_type: 'short_answer',
+      settings: { ...DEFAULT_SHORT_ANSWER_SETTINGS, case_sensitive: textOf(element, 'usecase').trim() === '1' },
+      answers: answers
+        .filter(a => a.fraction >= 100)
+        .map((a, i) => ({ answer_text: a.text, is_correct: true, order_index: i })),
+    });
+  } else if (type === 'numerical') {
+    const correct = answers.find(a => a.fraction >= 100 && a.text !== '*');
+    if (answers.length > 1) notes.push('Only the fully correct number is imported');
+    const units = children(child(element, 'units') ?? element, 'unit');
+    const unit = units.find(u => Number(textOf(u, 'multiplier')) === 1);
+    if (units.length > (unit ? 1 : 0)) notes.push('Units other than the main unit are not imported');
+    question = importedQuestion({
+      ...fields,
+      question_type: 'numeric',
+      settings: {
+        ...DEFAULT_NUMERIC_SETTINGS,
+        tolerance: Math.abs(Number(textOf(correct?.element ?? null, 'tolerance'))) || 0,
+        ...(unit && textOf(unit, 'unit_name').trim() ? { unit: textOf(unit, 'unit_name').trim() } : {}),
+      },
+      answers: correct ? [{ answer_text: correct.text, is_correct: true, order_index: 0 }] : [],
+    });
+  } else {
+    const pairs = children(element, 'subquestion').map(subquestion => ({
+      left: readRichText(subquestion, 'pairs'),
+      right: textOf(child(subquestion, 'answer'), 'text').trim(),
+    }));
+    notes.push(...pairs.flatMap(p => p.left.notes));
+    question = importedQuestion({
+      ...fields,
+      question_type: 'matching',
+      settings: { partial_credit: true },
+      // Subquestions without text only add distractors to the right column
+      answers: pairs
+        .filter(p => p.left.text || p.right)
+        .map((p, i) => ({ answer_text: p.left.text, match_text: p.right, is_correct: !!p.left.text, order_index: i })),
+    });
+  }
+
+  line.notes.push(...new Set(notes));
+  return validatedQuestion(line, {
+    question,
+    image: questionText.images[0] ?? null,
+    explanationImage: feedback.images[0] ?? null,
+  });
+}
+
+export function readMoodleXml(text: string): QuizFile {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  const root = xml.documentElement;
+  if (xml.getElementsByTagName('parsererror').length > 0 || root.localName !== 'quiz') {
+    throw new Error('The file is not a Moodle XML quiz');
+  }
+
+  let title: string | null = null;
+  const questions: TransferQuestion[] = [];
+  const report: TransferReportLine[] = [];
+
+  for (const element of children(root, 'question')) {
+    const type = element.getAttribute('type') ?? '';
+    if (type === 'category') {
+      // "$course$/top/Chapter 5" names the quiz after its last category
+      const category = textOf(child(element, 'category'), 'text').split('/').pop()?.trim();
+      if (!title && category && category !== 'top' && !category.startsWith('$')) title = category;
+      continue;
+    }
+
+    const name = textOf(child(element, 'name'), 'text').trim();
+    const line = reportLine(name || `Question ${report.length + 1}`, '');
+    report.push(line);
+    const question = readQuestion(element, type, line);
+    if (question) questions.push(question);
+  }
+
+  return { title, description: null, questions, report };
+}
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// An HTML text element with its image embedded
+async function richText(tag: string, html: string, image: Blob | null, imageName: string) {
+  if (!image) {
+    return `<${tag} format="html"><text>${cdata(html)}</text></${tag}>`;
+  }
+  const fileName = `${imageName}.${imageExtension(image)}`;
+  return [
+    `<${tag} format="html">`,
+    `<text>${cdata(`${html}<p><img src="${PLUGINFILE}/${fileName}" alt=""></p>`)}</text>`,
+    `<file name="${fileName}" path="/" encoding="base64">${await blobToBase64(image)}</file>`,
+    `</${tag}>`,
+  ].join('\n');
+}
+
+const answerXml = (fraction: number, text: string, format = 'html') =>
+  `<answer fraction="${fraction}" format="${format}"><text>${format === 'html' ? cdata(textToHtml(text)) : escapeHtml(text)}</text></answer>`;
+
+// The type-specific part of a question, or null when Moodle has no such type
+function questionBody(question: Question, notes: string[]): { type: string; xml: string[] } | null {
+  const answers = question.answers.filter(a => a.answer_text.trim());
+
+  switch (question.question_type) {
+    case 'single':
+      return {
+        type: 'multichoice',
+        xml: [
+          '<single>true</single>',
+          '<shuffleanswers>true</shuffleanswers>',
+          '<answernumbering>abc</answernumbering>',
+          ...answers.map(a => answerXml(a.is_correct ? 100 : 0, a.answer_text)),
+        ],
+      };
+    case 'multiple': {
+      const scoring = question.settings.multiple_scoring ?? 'all_or_nothing';
+      if (scoring !== 'right_minus_wrong') notes.push('Moodle scores it with a share of the points for each correct answer');
+      const weights = choiceWeights(answers);
+      return {
+        type: 'multichoice',
+        xml: [
+          '<single>false</single>',
+          '<shuffleanswers>true</shuffleanswers>',
+          '<answernumbering>abc</answernumbering>',
+          ...answers.map((a, i) => answerXml(weights[i], a.answer_text)),
+        ],
+      };
+    }
+    case 'true_false': {
+      const trueIsCorrect = question.answers[0]?.is_correct ?? true;
+      return {
+        type: 'truefalse',
+        xml: [answerXml(trueIsCorrect ? 100 : 0, 'true', 'moodle_auto_format'), answerXml(trueIsCorrect ? 0 : 100, 'false', 'moodle_auto_format')],
+      };
+    }
+    case 'short_answer':
+      if (question.settings.match === 'fuzzy') notes.push('Answers with small typos are no longer accepted');
+      if (question.settings.match === 'regex') notes.push('Patterns are matched as plain text');
+      return {
+        type: 'shortanswer',
+        xml: [
+          `<usecase>${question.settings.case_sensitive ? 1 : 0}</usecase>`,
+          ...answers.map(a => answerXml(100, a.answer_text, 'moodle_auto_format')),
+        ],
+      };
+    case 'numeric': {
+      if ((question.settings.base ?? 10) !== 10) return null;
+      const value = Number(answers[0]?.answer_text.replace(/[\s_]/g, ''));
+      const tolerance = question.settings.tolerance_type === 'percent'
+        ? Math.abs(value) * (question.settings.tolerance ?? 0) / 100
+        : question.settings.tolerance ?? 0;
+      return {
+        type: 'numerical',
+        xml: [
+          `<answer fraction="100" format="moodle_auto_format"><text>${value}</text><tolerance>${tolerance}</tolerance></answer>`,
+          ...(question.settings.unit ? [`<units><unit><multiplier>1</multiplier><unit_name>${escapeHtml(question.settings.unit)}</unit_name></unit></units>`] : []),
+        ],
+      };
+    }
+    case 'matching':
+      if (!question.settings.partial_credit) notes.push('Moodle gives credit for each pair that is right');
+      return {
+        type: 'matching',
+        xml: [
+          '<shuffleanswers>true</shuffleanswers>',
+          ...question.answers
+            .filter(a => (a.is_correct && a.answer_text.trim()) || (!a.is_correct && a.match_text?.trim()))
+            .map(a => `<subquestion format="html"><text>${a.is_correct ? cdata(textToHtml(a.answer_text)) : ''}</text><answer><text>${escapeHtml(a.match_text ?? '')}</text></answer></subquestion>`),
+        ],
+      };
+    default:
+      return null;
+  }
+}
+
+export async function writeMoodleXml(quiz: QuizFile): Promise<ExportedQuiz> {
+  const report: TransferReportLine[] = [];
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<quiz>',
+    // Moodle files questions into a category named after the quiz
+    `<question type="category"><category><text>${escapeHtml(`$course$/top/${(quiz.title ?? 'Quiz').replace(/\//g, '-')}`)}</text></category></question>`,
+  ];
+
+  for (const [index, { question, image, explanationImage }] of quiz.questions.entries()) {
+    const line = reportLine(`Question ${index + 1}`, question.question_text);
+    report.push(line);
+
+    const body = questionBody(question, line.notes);
+    if (!body) {
+      line.skipped = true;
+      line.notes = [question.question_type === 'numeric'
+        ? 'Moodle numbers can only be decimal'
+        : `${QUESTION_TYPE_OPTIONS.find(o => o.value === question.question_type)?.label} questions have no Moodle XML equivalent`];
+      continue;
+    }
+
+    line.notes.push(...lostParts({ question, image, explanationImage }, ['images', 'explanation', 'points']));
+    if ((question.image_url && !image) || (question.explanation_image_url && !explanationImage)) {
+      line.notes.push('An image could not be downloaded');
+    }
+    if (question.answers.some(a => a.pinned)) line.notes.push('Pinned answers are shuffled with the rest');
+
+    let questionHtml = textToHtml(question.question_text);
+    if (question.code?.trim()) {
+      questionHtml += `<pre><code>${escapeHtml(question.code)}</code></pre>`;
+    }
+
+    xml.push(
+      `<question type="${body.type}">`,
+      `<name><text>Question ${index + 1}</text></name>`,
+      await richText('questiontext', questionHtml, image, `question-${index + 1}`),
+      await richText('generalfeedback', question.explanation ? textToHtml(question.explanation) : '', explanationImage, `feedback-${index + 1}`),
+      `<defaultgrade>${question.points}</defaultgrade>`,
+      ...body.xml,
+      '</question>',
+    );
+  }
+
+  xml.push('</quiz>', '');
+  return { file: new Blob([xml.join('\n')], { type: 'application/xml' }), report };
+}
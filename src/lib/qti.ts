@@ -0,0 +1,883 @@
+import { CODE_LANGUAGES, CodeLanguage } from '@/lib/code-highlight';
+import { Answer, Question } from '@/lib/question-editor';
+import {
+  DEFAULT_NUMERIC_SETTINGS,
+  DEFAULT_SHORT_ANSWER_SETTINGS,
+  HotspotRegion,
+  QUESTION_TYPE_OPTIONS,
+  TRUE_FALSE_ANSWERS,
+  parseClozeBlanks,
+  splitClozeText,
+} from '@/lib/question-types';
+import {
+  ExportedQuiz,
+  QuizFile,
+  TransferQuestion,
+  TransferReportLine,
+  escapeHtml,
+  imageExtension,
+  imageType,
+  importedQuestion,
+  reportLine,
+  validatedQuestion,
+} from '@/lib/quiz-transfer';
+import { readZip, writeZip } from '@/lib/zip';
+
+// IMS QTI content packages: a zip whose imsmanifest.xml lists one
+// assessmentItem file per question with its images, and an assessmentTest
+// that keeps the quiz title and the question order. QTI 2.1 and 3.0 describe
+// items the same way, but 3.0 spells names in kebab case with a qti- prefix
+// (responseDeclaration -> qti-response-declaration). Items are built and read
+// with the 2.1 names and converted when written.
+//
+// Each item scores from 0 to 1 in SCORE; MAXSCORE holds the question's points.
+
+export type QtiVersion = '2.1' | '3.0';
+
+const QTI: Record<QtiVersion, {
+  namespace: string;
+  schema: string;
+  manifestNamespace: string;
+  itemType: string;
+  testType: string;
+  template: (name: string) => string;
+}> = {
+  '2.1': {
+    namespace: 'http://www.imsglobal.org/xsd/imsqti_v2p1',
+    schema: 'http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd',
+    manifestNamespace: 'http://www.imsglobal.org/xsd/imscp_v1p1',
+    itemType: 'imsqti_item_xmlv2p1',
+    testType: 'imsqti_test_xmlv2p1',
+    template: name => `http://www.imsglobal.org/question/qti_v2p1/rptemplates/${name}`,
+  },
+  '3.0': {
+    namespace: 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0',
+    schema: 'https://purl.imsglobal.org/spec/qti/v3p0/schema/xsd/imsqti_asiv3p0_v1p0.xsd',
+    manifestNamespace: 'http://www.imsglobal.org/xsd/qti/qtiv3p0/imscp_v1p1',
+    itemType: 'imsqti_item_xmlv3p0',
+    testType: 'imsqti_test_xmlv3p0',
+    template: name => `https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/${name}.xml`,
+  },
+};
+
+const XSI = 'http://www.w3.org/2001/XMLSchema-instance';
+
+// XHTML elements keep their names in both versions
+const HTML_ELEMENTS = ['p', 'br', 'img', 'pre', 'code', 'object', 'div', 'span', 'b', 'i', 'strong', 'em', 'sub', 'sup', 'u', 'ul', 'ol', 'li', 'a', 'table', 'tbody', 'thead', 'tr', 'td', 'th', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+const kebab = (name: string) => name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+const camel = (name: string) => name.replace(/-([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+
+// ---- Writing ----
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string | number | undefined>;
+  // Strings are text
+  children: (XmlElement | string)[];
+}
+
+const x = (name: string, attributes: XmlElement['attributes'] = {}, ...children: (XmlElement | string | null)[]): XmlElement => ({
+  name,
+  attributes,
+  children: children.filter((child): child is XmlElement | string => child !== null && child !== ''),
+});
+
+// Elements holding text or preformatted code are written on one line, so no
+// whitespace is added to their content
+function serialize(element: XmlElement, version: QtiVersion | null, indent: string | null = ''): string {
+  const qti3 = version === '3.0';
+  const name = qti3 && !HTML_ELEMENTS.includes(element.name) ? `qti-${kebab(element.name)}` : element.name;
+  const attributes = Object.entries(element.attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${qti3 && !key.includes(':') ? kebab(key) : key}="${escapeHtml(String(value))}"`)
+    .join('');
+  const content = (child: XmlElement | string, childIndent: string | null) =>
+    typeof child === 'string' ? escapeHtml(child) : serialize(child, version, childIndent);
+
+  if (element.children.length === 0) return `${indent ?? ''}<${name}${attributes}/>`;
+  if (indent === null || ['p', 'pre'].includes(element.name) || element.children.some(c => typeof c === 'string')) {
+    return `${indent ?? ''}<${name}${attributes}>${element.children.map(c => content(c, null)).join('')}</${name}>`;
+  }
+  return [
+    `${indent}<${name}${attributes}>`,
+    ...element.children.map(c => content(c, `${indent}  `)),
+    `${indent}</${name}>`,
+  ].join('\n');
+}
+
+const xmlFile = (element: XmlElement, version: QtiVersion | null) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${serialize(element, version)}\n`;
+
+// "a\nb" -> a<br/>b
+const lines = (text: string) =>
+  text.split('\n').flatMap((line, i): (XmlElement | string)[] => (i === 0 ? [line] : [x('br'), line]));
+
+// Text and inline interactions as paragraphs; blank lines separate paragraphs
+function paragraphs(tokens: (XmlElement | string)[]): XmlElement[] {
+  const result: (XmlElement | string)[][] = [[]];
+  for (const token of tokens) {
+    if (typeof token !== 'string') {
+      result[result.length - 1].push(token);
+      continue;
+    }
+    token.split(/\n{2,}/).forEach((chunk, i) => {
+      if (i > 0) result.push([]);
+      result[result.length - 1].push(...lines(chunk));
+    });
+  }
+  return result
+    .filter(children => children.some(c => typeof c !== 'string' || c.trim()))
+    .map(children => x('p', {}, ...children));
+}
+
+const values = (items: string[]) => items.map(item => x('value', {}, item));
+
+const responseDeclaration = (
+  identifier: string,
+  cardinality: string,
+  baseType: string,
+  correct: string[],
+  ...rest: XmlElement[]
+) => x('responseDeclaration', { identifier, cardinality, baseType }, x('correctResponse', {}, ...values(correct)), ...rest);
+
+const mapping = (entries: { key: string; value: number }[], caseSensitive?: boolean) =>
+  x('mapping', { defaultValue: 0, lowerBound: 0, upperBound: 1 }, ...entries.map(entry => x('mapEntry', {
+    mapKey: entry.key,
+    mappedValue: Number(entry.value.toFixed(5)),
+    caseSensitive: caseSensitive === undefined ? undefined : String(caseSensitive),
+  })));
+
+const setScore = (value: XmlElement) => x('setOutcomeValue', { identifier: 'SCORE' }, value);
+const baseValue = (baseType: string, value: string | number) => x('baseValue', { baseType }, String(value));
+
+// SCORE is 1 when the condition holds and 0 otherwise
+const scoreIf = (condition: XmlElement) =>
+  x('responseProcessing', {}, x('responseCondition', {},
+    x('responseIf', {}, condition, setScore(baseValue('float', 1))),
+    x('responseElse', {}, setScore(baseValue('float', 0))),
+  ));
+
+async function imageSize(image: Blob): Promise<{ width: number; height: number } | null> {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return null;
+  }
+}
+
+interface ItemParts {
+  declarations: XmlElement[];
+  body: XmlElement[];
+  processing: XmlElement;
+  // The image is shown by the interaction, not above it
+  showsImage?: boolean;
+}
+
+const templateProcessing = (version: QtiVersion, name: string) =>
+  x('responseProcessing', { template: QTI[version].template(name) });
+
+async function itemParts(transfer: TransferQuestion, version: QtiVersion, imagePath: string | null, notes: string[]): Promise<ItemParts | string> {
+  const { question } = transfer;
+  const answers = question.answers.filter(a => a.answer_text.trim());
+
+  switch (question.question_type) {
+    case 'single':
+    case 'multiple':
+    case 'true_false': {
+      const trueFalse = question.question_type === 'true_false';
+      const ids = answers.map((_, i) => (trueFalse ? ['true', 'false'][i] : `choice-${i + 1}`));
+      const correct = ids.filter((_, i) => answers[i].is_correct);
+      const single = question.question_type !== 'multiple';
+      const scoring = question.settings.multiple_scoring ?? 'all_or_nothing';
+      if (!single && scoring === 'proportional') notes.push('Proportional scoring is exported as all or nothing');
+      if (question.settings.code_answers) notes.push('Answers are shown as plain text instead of code');
+
+      // Right minus wrong is a mapping where wrong choices take a share away
+      const weighted = !single && scoring === 'right_minus_wrong';
+      const share = 1 / Math.max(1, correct.length);
+      return {
+        declarations: [responseDeclaration('RESPONSE', single ? 'single' : 'multiple', 'identifier', correct,
+          ...(weighted ? [mapping(ids.map(id => ({ key: id, value: correct.includes(id) ? share : -share })))] : []))],
+        body: [x('choiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: trueFalse ? 'false' : 'true', maxChoices: single ? 1 : 0 },
+          ...answers.map((a, i) => x('simpleChoice', { identifier: ids[i], fixed: a.pinned ? 'true' : undefined }, ...lines(a.answer_text))))],
+        processing: templateProcessing(version, weighted ? 'map_response' : 'match_correct'),
+      };
+    }
+    case 'short_answer':
+      if (question.settings.match === 'fuzzy') notes.push('Answers with small typos are no longer accepted');
+      if (question.settings.match === 'regex') notes.push('Patterns are matched as plain text');
+      return {
+        declarations: [responseDeclaration('RESPONSE', 'single', 'string', answers.slice(0, 1).map(a => a.answer_text),
+          mapping(answers.map(a => ({ key: a.answer_text, value: 1 })), question.settings.case_sensitive ?? false))],
+        body: [x('p', {}, x('textEntryInteraction', { responseIdentifier: 'RESPONSE' }))],
+        processing: templateProcessing(version, 'map_response'),
+      };
+    case 'numeric': {
+      if ((question.settings.base ?? 10) !== 10) return 'QTI numbers can only be decimal';
+      if (question.settings.unit) notes.push('The unit is not exported');
+      const tolerance = question.settings.tolerance ?? 0;
+      return {
+        declarations: [responseDeclaration('RESPONSE', 'single', 'float', [String(Number(answers[0]?.answer_text.replace(/[\s_]/g, '')))])],
+        body: [x('p', {}, x('textEntryInteraction', { responseIdentifier: 'RESPONSE' }))],
+        processing: scoreIf(x('equal', tolerance > 0
+          ? { toleranceMode: question.settings.tolerance_type === 'percent' ? 'relative' : 'absolute', tolerance: `${tolerance} ${tolerance}` }
+          : { toleranceMode: 'exact' },
+        x('variable', { identifier: 'RESPONSE' }), x('correct', { identifier: 'RESPONSE' }))),
+      };
+    }
+    case 'ordering': {
+      if (question.settings.partial_credit) notes.push('Partial credit is exported as all or nothing');
+      const ids = answers.map((_, i) => `choice-${i + 1}`);
+      return {
+        declarations: [responseDeclaration('RESPONSE', 'ordered', 'identifier', ids)],
+        body: [x('orderInteraction', { responseIdentifier: 'RESPONSE', shuffle: 'true' },
+          ...answers.map((a, i) => x('simpleChoice', { identifier: ids[i] }, ...lines(a.answer_text))))],
+        processing: templateProcessing(version, 'match_correct'),
+      };
+    }
+    case 'matching': {
+      const pairs = question.answers.filter(a => a.is_correct && a.answer_text.trim());
+      const distractors = question.answers.filter(a => !a.is_correct && a.match_text?.trim());
+      const correct = pairs.map((_, i) => `left-${i + 1} right-${i + 1}`);
+      const partial = question.settings.partial_credit ?? false;
+      return {
+        declarations: [responseDeclaration('RESPONSE', 'multiple', 'directedPair', correct,
+          ...(partial ? [mapping(correct.map(key => ({ key, value: 1 / correct.length })))] : []))],
+        body: [x('matchInteraction', { responseIdentifier: 'RESPONSE', shuffle: 'true', maxAssociations: pairs.length },
+          x('simpleMatchSet', {}, ...pairs.map((a, i) =>
+            x('simpleAssociableChoice', { identifier: `left-${i + 1}`, matchMax: 1 }, ...lines(a.answer_text)))),
+          x('simpleMatchSet', {}, ...[...pairs, ...distractors].map((a, i) =>
+            x('simpleAssociableChoice', {
+              identifier: i < pairs.length ? `right-${i + 1}` : `distractor-${i - pairs.length + 1}`,
+              matchMax: 1,
+            }, ...lines(a.match_text ?? '')))),
+        )],
+        processing: templateProcessing(version, partial ? 'map_response' : 'match_correct'),
+      };
+    }
+    case 'cloze': {
+      // Each blank is its own response, scored through a mapping of its
+      // accepted answers; blanks with wrong options are dropdowns
+      const blanks = parseClozeBlanks(question.question_text);
+      const parts = splitClozeText(question.question_text);
+      const declarations: XmlElement[] = [];
+      const tokens: (XmlElement | string)[] = [parts[0]];
+
+      blanks.forEach((accepted, blankIndex) => {
+        const identifier = `RESPONSE_${blankIndex + 1}`;
+        const wrong = question.answers.filter(a => !a.is_correct && a.blank_index === blankIndex && a.answer_text.trim());
+        if (wrong.length > 0) {
+          const ids = [...accepted, ...wrong.map(a => a.answer_text)].map((_, i) => `${identifier}-${i + 1}`);
+          declarations.push(responseDeclaration(identifier, 'single', 'identifier', ids.slice(0, 1),
+            mapping(ids.slice(0, accepted.length).map(key => ({ key, value: 1 })))));
+          tokens.push(x('inlineChoiceInteraction', { responseIdentifier: identifier, shuffle: 'true' },
+            ...[...accepted, ...wrong.map(a => a.answer_text)].map((text, i) => x('inlineChoice', { identifier: ids[i] }, text))));
+        } else {
+          declarations.push(responseDeclaration(identifier, 'single', 'string', accepted.slice(0, 1),
+            mapping(accepted.map(key => ({ key, value: 1 })), question.settings.case_sensitive ?? false)));
+          tokens.push(x('textEntryInteraction', { responseIdentifier: identifier }));
+        }
+        tokens.push(parts[blankIndex + 1]);
+      });
+
+      const total = x('sum', {}, ...declarations.map((_, i) => x('mapResponse', { identifier: `RESPONSE_${i + 1}` })));
+      return {
+        declarations,
+        body: paragraphs(tokens),
+        // Partial credit is the share of blanks filled in right
+        processing: question.settings.partial_credit
+          ? x('responseProcessing', {}, setScore(x('divide', {}, total, baseValue('float', blanks.length))))
+          : scoreIf(x('equal', { toleranceMode: 'exact' }, total, baseValue('float', blanks.length))),
+      };
+    }
+    case 'hotspot': {
+      const size = transfer.image ? await imageSize(transfer.image) : null;
+      if (!transfer.image || !imagePath || !size) return 'The image could not be downloaded';
+      const regions = question.answers.map(a => a.region).filter((region): region is HotspotRegion => !!region);
+      const pixels = (region: HotspotRegion) => [
+        region.x * size.width,
+        region.y * size.height,
+        (region.x + region.width) * size.width,
+        (region.y + region.height) * size.height,
+      ].map(Math.round);
+      const [left, top, right, bottom] = pixels(regions[0]);
+      return {
+        declarations: [responseDeclaration('RESPONSE', 'single', 'point', [`${Math.round((left + right) / 2)} ${Math.round((top + bottom) / 2)}`],
+          x('areaMapping', { defaultValue: 0, lowerBound: 0, upperBound: 1 }, ...regions.map(region =>
+            x('areaMapEntry', { shape: 'rect', coords: pixels(region).join(','), mappedValue: 1 }))))],
+        body: [x('selectPointInteraction', { responseIdentifier: 'RESPONSE', maxChoices: 1 },
+          x('object', { type: transfer.image.type, data: imagePath, width: size.width, height: size.height }))],
+        processing: templateProcessing(version, 'map_response_point'),
+        showsImage: true,
+      };
+    }
+    default:
+      return `${QUESTION_TYPE_OPTIONS.find(o => o.value === question.question_type)?.label} questions have no QTI equivalent`;
+  }
+}
+
+interface PackageFile {
+  name: string;
+  data: Uint8Array;
+}
+
+export async function writeQtiPackage(quiz: QuizFile, version: QtiVersion): Promise<ExportedQuiz> {
+  const { namespace, schema, manifestNamespace, itemType, testType } = QTI[version];
+  const encoder = new TextEncoder();
+  const report: TransferReportLine[] = [];
+  const files: PackageFile[] = [];
+  const resources: XmlElement[] = [];
+  const itemRefs: XmlElement[] = [];
+
+  for (const [index, transfer] of quiz.questions.entries()) {
+    const { question, image, explanationImage } = transfer;
+    const number = index + 1;
+    const line = reportLine(`Question ${number}`, question.question_text);
+    report.push(line);
+
+    const imagePath = image ? `images/question-${number}.${imageExtension(image)}` : null;
+    const explanationPath = explanationImage ? `images/explanation-${number}.${imageExtension(explanationImage)}` : null;
+    const parts = await itemParts(transfer, version, imagePath, line.notes);
+    if (typeof parts === 'string') {
+      line.skipped = true;
+      line.notes = [parts];
+      continue;
+    }
+
+    if ((question.image_url && !image) || (question.explanation_image_url && !explanationImage)) {
+      line.notes.push('An image could not be downloaded');
+    }
+    if (question.time_limit) line.notes.push('The time limit is not exported');
+
+    const identifier = `item-${number}`;
+    const item = x('assessmentItem', {
+      xmlns: namespace,
+      'xmlns:xsi': XSI,
+      'xsi:schemaLocation': `${namespace} ${schema}`,
+      identifier,
+      title: `Question ${number}`,
+      adaptive: 'false',
+      timeDependent: 'false',
+    },
+    ...parts.declarations,
+    x('outcomeDeclaration', { identifier: 'SCORE', cardinality: 'single', baseType: 'float' }, x('defaultValue', {}, x('value', {}, '0'))),
+    x('outcomeDeclaration', { identifier: 'MAXSCORE', cardinality: 'single', baseType: 'float' }, x('defaultValue', {}, x('value', {}, String(question.points)))),
+    question.explanation || explanationPath ? x('outcomeDeclaration', { identifier: 'FEEDBACK', cardinality: 'single', baseType: 'identifier' }) : null,
+    x('itemBody', {},
+      ...(question.question_type === 'cloze' ? [] : paragraphs([question.question_text])),
+      question.code?.trim() ? x('pre', { class: `language-${question.code_language ?? 'plain'}` }, x('code', {}, question.code)) : null,
+      imagePath && !parts.showsImage ? x('p', {}, x('img', { src: imagePath, alt: '' })) : null,
+      ...parts.body,
+    ),
+    parts.processing,
+    question.explanation || explanationPath
+      ? x('modalFeedback', { outcomeIdentifier: 'FEEDBACK', identifier: 'EXPLANATION', showHide: 'show' },
+        ...paragraphs([question.explanation ?? '']),
+        explanationPath ? x('p', {}, x('img', { src: explanationPath, alt: '' })) : null)
+      : null,
+    );
+
+    const itemFiles = [`${identifier}.xml`];
+    files.push({ name: `${identifier}.xml`, data: encoder.encode(xmlFile(item, version)) });
+    for (const [path, blob] of [[imagePath, image], [explanationPath, explanationImage]] as const) {
+      if (path && blob) {
+        files.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+        itemFiles.push(path);
+      }
+    }
+    resources.push(x('resource', { identifier, type: itemType, href: `${identifier}.xml` },
+      ...itemFiles.map(href => x('file', { href }))));
+    itemRefs.push(x('assessmentItemRef', { identifier, href: `${identifier}.xml` }));
+  }
+
+  const title = quiz.title ?? 'Quiz';
+  const test = x('assessmentTest', {
+    xmlns: namespace,
+    'xmlns:xsi': XSI,
+    'xsi:schemaLocation': `${namespace} ${schema}`,
+    identifier: 'test',
+    title,
+  },
+  x('testPart', { identifier: 'part-1', navigationMode: 'nonlinear', submissionMode: 'simultaneous' },
+    x('assessmentSection', { identifier: 'section-1', title, visible: 'true' }, ...itemRefs)),
+  );
+  files.unshift({ name: 'assessment.xml', data: encoder.encode(xmlFile(test, version)) });
+
+  const manifest = x('manifest', { xmlns: manifestNamespace, identifier: 'manifest' },
+    x('metadata', {},
+      x('schema', {}, 'QTI Package'),
+      x('schemaversion', {}, version === '3.0' ? '3.0.0' : '2.1'),
+    ),
+    x('organizations'),
+    x('resources', {},
+      x('resource', { identifier: 'test', type: testType, href: 'assessment.xml' },
+        x('file', { href: 'assessment.xml' }),
+        ...resources.map(resource => x('dependency', { identifierref: String(resource.attributes.identifier) }))),
+      ...resources,
+    ),
+  );
+  files.unshift({ name: 'imsmanifest.xml', data: encoder.encode(xmlFile(manifest, null)) });
+
+  return { file: writeZip(files), report };
+}
+
+// ---- Reading ----
+
+// The 2.1 name of an element of either version
+const qtiName = (element: Element) =>
+  element.localName.startsWith('qti-') ? camel(element.localName.slice(4)) : element.localName;
+
+const qtiChildren = (parent: Element | null, name: string) =>
+  parent ? Array.from(parent.children).filter(child => qtiName(child) === name) : [];
+
+const qtiChild = (parent: Element | null, name: string) => qtiChildren(parent, name)[0] ?? null;
+
+const qtiDescendants = (parent: Element | null, name: string) =>
+  parent ? Array.from(parent.getElementsByTagName('*')).filter(element => qtiName(element) === name) : [];
+
+const qtiAttribute = (element: Element | null, name: string) =>
+  element?.getAttribute(name) ?? element?.getAttribute(kebab(name)) ?? null;
+
+const valuesOf = (parent: Element | null) =>
+  qtiChildren(parent, 'value').map(value => (value.textContent ?? '').trim());
+
+// "extendedTextInteraction" -> "Extended text"
+const interactionLabel = (name: string) => {
+  const words = name.replace(/Interaction$/, '').replace(/[A-Z]/g, letter => ` ${letter.toLowerCase()}`);
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Resolves a link relative to the file it is in: ("items/a.xml", "../img/b.png") -> "img/b.png"
+function resolvePath(from: string, href: string) {
+  let decoded = href;
+  try {
+    decoded = decodeURIComponent(href);
+  } catch {
+    // Kept as written
+  }
+  const parts = from.split('/').slice(0, -1);
+  for (const part of decoded.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+const BLOCK_ELEMENTS = ['p', 'div', 'li', 'ul', 'ol', 'table', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote'];
+const SKIPPED_ELEMENTS = ['prompt', 'modalFeedback', 'feedbackBlock', 'feedbackInline', 'rubricBlock', 'templateBlock', 'templateInline', 'printedVariable'];
+
+interface Content {
+  text: string;
+  images: string[];
+  code: { code: string; language: CodeLanguage } | null;
+  formatted: boolean;
+}
+
+// Text of item content; interactions are left out unless blank gives the
+// text that stands in for them
+function readContent(root: Element | null, blank: (interaction: Element) => string | null = () => null): Content {
+  const content: Content = { text: '', images: [], code: null, formatted: false };
+  const blocks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    const text = current.split('\n').map(line => line.trim()).join('\n').trim();
+    if (text) blocks.push(text);
+    current = '';
+  };
+
+  const walk = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === 3 || child.nodeType === 4) {
+        current += (child.textContent ?? '').replace(/\s+/g, ' ');
+        continue;
+      }
+      if (child.nodeType !== 1) continue;
+
+      const element = child as Element;
+      const name = qtiName(element);
+      if (name === 'br') {
+        current += '\n';
+      } else if (name === 'img') {
+        content.images.push(element.getAttribute('src') ?? '');
+      } else if (name === 'object') {
+        content.images.push(element.getAttribute('data') ?? '');
+      } else if (name === 'pre' && !content.code) {
+        const language = element.getAttribute('class')?.match(/language-(\w+)/)?.[1];
+        content.code = {
+          code: (element.textContent ?? '').replace(/^\n|\n$/g, ''),
+          language: CODE_LANGUAGES.find(l => l.value === language)?.value ?? 'plain',
+        };
+      } else if (name.endsWith('Interaction')) {
+        current += blank(element) ?? '';
+      } else if (SKIPPED_ELEMENTS.includes(name)) {
+        continue;
+      } else if (BLOCK_ELEMENTS.includes(name) || name === 'pre') {
+        flush();
+        walk(element);
+        flush();
+      } else {
+        if (name !== 'span') content.formatted = true;
+        walk(element);
+      }
+    }
+  };
+
+  if (root) walk(root);
+  flush();
+  content.text = blocks.join('\n\n');
+  return content;
+}
+
+const SUPPORTED_INTERACTIONS = [
+  'choiceInteraction',
+  'textEntryInteraction',
+  'inlineChoiceInteraction',
+  'orderInteraction',
+  'matchInteraction',
+  'selectPointInteraction',
+  'hotspotInteraction',
+];
+
+interface ItemContext {
+  declarations: Map<string, Element>;
+  processing: Element | null;
+  notes: string[];
+  image: (src: string) => Blob | null;
+}
+
+// Correct values of a response, taken from the mapping when the item only
+// scores through one
+function correctValues(declaration: Element | null) {
+  const correct = valuesOf(qtiChild(declaration, 'correctResponse'));
+  const mapped = qtiChildren(qtiChild(declaration, 'mapping'), 'mapEntry')
+    .filter(entry => Number(qtiAttribute(entry, 'mappedValue')) > 0)
+    .map(entry => qtiAttribute(entry, 'mapKey') ?? '');
+  return [...new Set([...correct, ...mapped])].filter(Boolean);
+}
+
+const declarationOf = (interaction: Element, context: ItemContext) =>
+  context.declarations.get(qtiAttribute(interaction, 'responseIdentifier') ?? '') ?? null;
+
+const isCaseSensitive = (declaration: Element | null) =>
+  qtiDescendants(declaration, 'mapEntry').some(entry => qtiAttribute(entry, 'caseSensitive') === 'true');
+
+function choiceQuestion(interaction: Element, context: ItemContext): Pick<Question, 'question_type' | 'answers' | 'settings'> {
+  const declaration = declarationOf(interaction, context);
+  const correct = correctValues(declaration);
+  const choices = qtiChildren(interaction, 'simpleChoice').map(choice => ({
+    id: qtiAttribute(choice, 'identifier') ?? '',
+    content: readContent(choice),
+    pinned: qtiAttribute(choice, 'fixed') === 'true',
+  }));
+  if (choices.some(c => c.content.images.length > 0)) context.notes.push('Images in answers are not imported');
+
+  const answers: Answer[] = choices.map((c, i) => ({
+    answer_text: c.content.text,
+    is_correct: correct.includes(c.id),
+    ...(c.pinned ? { pinned: true } : {}),
+    order_index: i,
+  }));
+
+  if (qtiAttribute(declaration, 'cardinality') === 'multiple') {
+    const weighted = qtiDescendants(declaration, 'mapEntry').some(entry => Number(qtiAttribute(entry, 'mappedValue')) < 0);
+    return { question_type: 'multiple', answers, settings: { multiple_scoring: weighted ? 'right_minus_wrong' : 'all_or_nothing' } };
+  }
+
+  const trueFalse = choices.length === 2 && choices.every((c, i) => c.content.text.toLowerCase() === TRUE_FALSE_ANSWERS[i].answer_text.toLowerCase());
+  return trueFalse
+    ? { question_type: 'true_false', answers: answers.map((a, i) => ({ ...a, answer_text: TRUE_FALSE_ANSWERS[i].answer_text })), settings: {} }
+    : { question_type: 'single', answers, settings: {} };
+}
+
+function textEntryQuestion(interaction: Element, context: ItemContext): Pick<Question, 'question_type' | 'answers' | 'settings'> {
+  const declaration = declarationOf(interaction, context);
+  const baseType = qtiAttribute(declaration, 'baseType');
+
+  if (baseType === 'float' || baseType === 'integer') {
+    const equal = qtiDescendants(context.processing, 'equal')[0] ?? null;
+    const mode = qtiAttribute(equal, 'toleranceMode') ?? 'exact';
+    const tolerance = mode === 'exact' ? 0 : Math.abs(Number(qtiAttribute(equal, 'tolerance')?.trim().split(/\s+/)[0])) || 0;
+    return {
+      question_type: 'numeric',
+      answers: valuesOf(qtiChild(declaration, 'correctResponse')).slice(0, 1).map(value => ({ answer_text: value, is_correct: true, order_index: 0 })),
+      settings: { ...DEFAULT_NUMERIC_SETTINGS, tolerance, tolerance_type: mode === 'relative' ? 'percent' : 'absolute' },
+    };
+  }
+
+  return {
+    question_type: 'short_answer',
+    answers: correctValues(declaration).map((answer_text, i) => ({ answer_text, is_correct: true, order_index: i })),
+    settings: { ...DEFAULT_SHORT_ANSWER_SETTINGS, case_sensitive: isCaseSensitive(declaration) },
+  };
+}
+
+function orderQuestion(interaction: Element, context: ItemContext): Pick<Question, 'question_type' | 'answers' | 'settings'> {
+  const correct = valuesOf(qtiChild(declarationOf(interaction, context), 'correctResponse'));
+  const choices = new Map(qtiChildren(interaction, 'simpleChoice').map(choice => [qtiAttribute(choice, 'identifier') ?? '', readContent(choice).text]));
+  return {
+    question_type: 'ordering',
+    answers: correct
+      .filter(id => choices.has(id))
+      .map((id, i) => ({ answer_text: choices.get(id) ?? '', is_correct: true, order_index: i })),
+    settings: { partial_credit: false },
+  };
+}
+
+function matchQuestion(interaction: Element, context: ItemContext): Pick<Question, 'question_type' | 'answers' | 'settings'> {
+  const declaration = declarationOf(interaction, context);
+  const [leftSet, rightSet] = qtiChildren(interaction, 'simpleMatchSet').map(set =>
+    qtiChildren(set, 'simpleAssociableChoice').map(choice => ({ id: qtiAttribute(choice, 'identifier') ?? '', text: readContent(choice).text }))
+  );
+  const pairs = correctValues(declaration).map(value => value.split(/\s+/));
+  const left = (leftSet ?? []).filter(choice => pairs.some(([id]) => id === choice.id));
+  const right = rightSet ?? [];
+
+  if (left.length < (leftSet ?? []).length) context.notes.push('Items without a correct match are left out');
+  if (left.some(choice => pairs.filter(([id]) => id === choice.id).length > 1)) {
+    context.notes.push('Only the first match of each item is imported');
+  }
+
+  const matched = left.map(choice => right.find(r => r.id === pairs.find(([id]) => id === choice.id)?.[1]));
+  const answers: Answer[] = [
+    ...left.map((choice, i) => ({ answer_text: choice.text, match_text: matched[i]?.text ?? '', is_correct: true, order_index: 0 })),
+    // Right-hand choices that match nothing are distractors
+    ...right
+      .filter(choice => !matched.includes(choice))
+      .map(choice => ({ answer_text: '', match_text: choice.text, is_correct: false, order_index: 0 })),
+  ].map((a, i) => ({ ...a, order_index: i }));
+
+  return { question_type: 'matching', answers, settings: { partial_credit: !!qtiChild(declaration, 'mapping') } };
+}
+
+function clozeQuestion(body: Element, interactions: Element[], context: ItemContext): Pick<Question, 'question_type' | 'question_text' | 'answers' | 'settings'> & { content: Content } {
+  const wrongOptions: Answer[] = [];
+  let caseSensitive = false;
+
+  const content = readContent(body, interaction => {
+    const blankIndex = interactions.indexOf(interaction);
+    const declaration = declarationOf(interaction, context);
+    const correct = correctValues(declaration);
+    caseSensitive ||= isCaseSensitive(declaration);
+
+    let accepted = correct;
+    if (qtiName(interaction) === 'inlineChoiceInteraction') {
+      const choices = qtiChildren(interaction, 'inlineChoice').map(choice => ({
+        id: qtiAttribute(choice, 'identifier') ?? '',
+        text: readContent(choice).text,
+      }));
+      accepted = choices.filter(c => correct.includes(c.id)).map(c => c.text);
+      wrongOptions.push(...choices
+        .filter(c => !correct.includes(c.id))
+        .map(c => ({ answer_text: c.text, blank_index: blankIndex, is_correct: false, order_index: 0 })));
+    }
+    if (accepted.some(text => /[|\]]/.test(text))) context.notes.push('Accepted answers with | or ] are cut short');
+    return `[[${accepted.map(text => text.replace(/[|\]]/g, '')).join('|')}]]`;
+  });
+
+  return {
+    question_type: 'cloze',
+    question_text: content.text,
+    answers: wrongOptions.map((a, i) => ({ ...a, order_index: i })),
+    settings: { partial_credit: qtiDescendants(context.processing, 'divide').length > 0, case_sensitive: caseSensitive },
+    content,
+  };
+}
+
+// Regions of a hotspot image as fractions of its size
+function hotspotRegions(interaction: Element, context: ItemContext, size: { width: number; height: number }): HotspotRegion[] {
+  const declaration = declarationOf(interaction, context);
+  const areas = qtiName(interaction) === 'selectPointInteraction'
+    ? qtiDescendants(declaration, 'areaMapEntry').filter(entry => Number(qtiAttribute(entry, 'mappedValue')) > 0)
+    : qtiChildren(interaction, 'hotspotChoice').filter(choice => correctValues(declaration).includes(qtiAttribute(choice, 'identifier') ?? ''));
+
+  return areas.flatMap(area => {
+    const shape = qtiAttribute(area, 'shape');
+    const coords = (qtiAttribute(area, 'coords') ?? '').split(',').map(Number);
+    let box: [number, number, number, number];
+    if (shape === 'rect') {
+      box = [coords[0], coords[1], coords[2], coords[3]];
+    } else if (shape === 'circle' || shape === 'ellipse') {
+      const [cx, cy, rx, ry = rx] = coords;
+      box = [cx - rx, cy - ry, cx + rx, cy + ry];
+      context.notes.push('Round areas are imported as the rectangle around them');
+    } else if (shape === 'poly') {
+      const xs = coords.filter((_, i) => i % 2 === 0);
+      const ys = coords.filter((_, i) => i % 2 === 1);
+      box = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+      context.notes.push('Polygon areas are imported as the rectangle around them');
+    } else {
+      context.notes.push(`Areas shaped "${shape}" are not imported`);
+      return [];
+    }
+    if (box.some(Number.isNaN)) return [];
+
+    const fraction = (value: number) => Number(Math.min(1, Math.max(0, value)).toFixed(4));
+    const [left, top, right, bottom] = [box[0] / size.width, box[1] / size.height, box[2] / size.width, box[3] / size.height].map(fraction);
+    return [{ x: left, y: top, width: fraction(right - left), height: fraction(bottom - top) }];
+  });
+}
+
+async function readItem(item: Element, context: ItemContext, line: TransferReportLine): Promise<TransferQuestion | null> {
+  const skip = (reason: string) => {
+    line.skipped = true;
+    line.notes = [reason];
+    return null;
+  };
+
+  line.label = qtiAttribute(item, 'title') || line.label;
+  const body = qtiChild(item, 'itemBody');
+  const interactions = body ? Array.from(body.getElementsByTagName('*')).filter(e => qtiName(e).endsWith('Interaction')) : [];
+  line.text = readContent(body).text;
+
+  if (qtiChildren(item, 'templateDeclaration').length > 0) return skip('Items with template variables are not supported');
+  if (interactions.length === 0) return skip('The item has no interaction');
+  const unsupported = interactions.find(i => !SUPPORTED_INTERACTIONS.includes(qtiName(i)));
+  if (unsupported) return skip(`${interactionLabel(qtiName(unsupported))} interactions are not supported`);
+
+  const inline = interactions.every(i => ['textEntryInteraction', 'inlineChoiceInteraction'].includes(qtiName(i)));
+  if (interactions.length > 1 && !inline) return skip('Items with more than one interaction are not supported');
+  if (qtiAttribute(item, 'adaptive') === 'true') context.notes.push('Adaptive behaviour is not imported');
+
+  const interaction = interactions[0];
+  const name = qtiName(interaction);
+  // One text entry standing alone is a short answer; in a sentence it is a blank
+  const standsAlone = Array.from(interaction.parentElement?.childNodes ?? [])
+    .every(node => node === interaction || (node.nodeType === 3 && !(node.textContent ?? '').trim()));
+  const isCloze = inline && body && (interactions.length > 1 || name === 'inlineChoiceInteraction' || !standsAlone);
+
+  let content = readContent(body);
+  let fields: Pick<Question, 'question_type' | 'answers' | 'settings'> & { question_text?: string };
+  if (isCloze && body) {
+    ({ content, ...fields } = clozeQuestion(body, interactions, context));
+  } else if (name === 'choiceInteraction') {
+    fields = choiceQuestion(interaction, context);
+  } else if (name === 'textEntryInteraction') {
+    fields = textEntryQuestion(interaction, context);
+  } else if (name === 'orderInteraction') {
+    fields = orderQuestion(interaction, context);
+  } else if (name === 'matchInteraction') {
+    fields = matchQuestion(interaction, context);
+  } else {
+    const src = qtiChild(interaction, 'object')?.getAttribute('data') ?? qtiChild(interaction, 'img')?.getAttribute('src') ?? '';
+    const hotspotImage = context.image(src);
+    const size = hotspotImage ? await imageSize(hotspotImage) : null;
+    if (!hotspotImage || !size) return skip('The image to click on is missing from the package');
+    content.images.unshift(src);
+    fields = {
+      question_type: 'hotspot',
+      answers: hotspotRegions(interaction, context, size).map((region, i) => ({ answer_text: '', region, is_correct: true, order_index: i })),
+      settings: {},
+    };
+  }
+
+  // Text of a block interaction's prompt follows the item's own text
+  const prompt = readContent(qtiChild(interaction, 'prompt')).text;
+  const questionText = fields.question_text ?? [content.text, prompt].filter(Boolean).join('\n\n');
+  line.text = questionText;
+
+  const images = content.images.map(src => ({ src, blob: context.image(src) }));
+  images.filter(i => !i.blob).forEach(i => context.notes.push(`The image ${i.src} is missing from the package`));
+  if (images.filter(i => i.blob).length > 1) context.notes.push('Only the first image of the question is imported');
+  if (content.formatted) context.notes.push('Formatting was removed');
+
+  const feedback = readContent(qtiChildren(item, 'modalFeedback')[0] ?? null);
+  if (qtiChildren(item, 'modalFeedback').length > 1) context.notes.push('Only the first feedback is imported as the explanation');
+  if (qtiDescendants(body, 'feedbackInline').length + qtiDescendants(body, 'feedbackBlock').length > 0) {
+    context.notes.push('Feedback inside the question is not imported');
+  }
+
+  const maxScore = Number(valuesOf(qtiChild(qtiChildren(item, 'outcomeDeclaration')
+    .find(declaration => qtiAttribute(declaration, 'identifier') === 'MAXSCORE') ?? null, 'defaultValue'))[0]);
+
+  line.notes.push(...new Set(context.notes));
+  return validatedQuestion(line, {
+    question: importedQuestion({
+      ...fields,
+      question_text: questionText,
+      points: maxScore > 0 ? maxScore : 1,
+      code: content.code?.code ?? null,
+      code_language: content.code?.language ?? null,
+      explanation: feedback.text || null,
+    }),
+    image: images.find(i => i.blob)?.blob ?? null,
+    explanationImage: feedback.images.map(src => context.image(src)).find(Boolean) ?? null,
+  });
+}
+
+export async function readQtiPackage(data: ArrayBuffer): Promise<QuizFile> {
+  const files = await readZip(data);
+  const decoder = new TextDecoder();
+  const parser = new DOMParser();
+  const xml = (path: string) => {
+    const file = files.get(path);
+    if (!file) return null;
+    const document = parser.parseFromString(decoder.decode(file), 'application/xml');
+    return document.getElementsByTagName('parsererror').length > 0 ? null : document.documentElement;
+  };
+
+  let title: string | null = null;
+  let itemPaths: string[] = [];
+
+  const manifestPath = [...files.keys()].filter(path => /(^|\/)imsmanifest\.xml$/.test(path)).sort((a, b) => a.length - b.length)[0];
+  const manifest = manifestPath ? xml(manifestPath) : null;
+  if (manifest) {
+    const resources = Array.from(manifest.getElementsByTagName('*')).filter(e => e.localName === 'resource');
+    itemPaths = resources
+      .filter(r => r.getAttribute('type')?.startsWith('imsqti_item'))
+      .map(r => resolvePath(manifestPath, r.getAttribute('href') ?? ''));
+
+    // The test keeps the quiz title and puts the items in order
+    const testResource = resources.find(r => r.getAttribute('type')?.startsWith('imsqti_test'));
+    const testPath = testResource ? resolvePath(manifestPath, testResource.getAttribute('href') ?? '') : null;
+    const test = testPath ? xml(testPath) : null;
+    if (test && testPath) {
+      title = qtiAttribute(test, 'title');
+      const ordered = qtiDescendants(test, 'assessmentItemRef').map(ref => resolvePath(testPath, qtiAttribute(ref, 'href') ?? ''));
+      itemPaths = [...ordered.filter(path => itemPaths.includes(path)), ...itemPaths.filter(path => !ordered.includes(path))];
+    }
+  } else {
+    // Without a manifest every item file in the zip is read, by name
+    itemPaths = [...files.keys()]
+      .filter(path => {
+        const root = path.endsWith('.xml') ? xml(path) : null;
+        return !!root && qtiName(root) === 'assessmentItem';
+      })
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }
+
+  if (itemPaths.length === 0) throw new Error('The file is not a QTI package');
+
+  const questions: TransferQuestion[] = [];
+  const report: TransferReportLine[] = [];
+  for (const path of itemPaths) {
+    const line = reportLine(`Question ${report.length + 1}`, '');
+    report.push(line);
+
+    const item = xml(path);
+    if (!item || qtiName(item) !== 'assessmentItem') {
+      line.skipped = true;
+      line.notes.push(item ? `${path} is not a QTI item` : `${path} is missing or not valid XML`);
+      continue;
+    }
+
+    const context: ItemContext = {
+      declarations: new Map(qtiChildren(item, 'responseDeclaration').map(d => [qtiAttribute(d, 'identifier') ?? '', d])),
+      processing: qtiChild(item, 'responseProcessing'),
+      notes: [],
+      image: src => {
+        const file = files.get(resolvePath(path, src));
+        const type = imageType(src);
+        return file && type ? new Blob([file], { type }) : null;
+      },
+    };
+    const question = await readItem(item, context, line);
+    if (question) questions.push(question);
+  }
+
+  return { title, description: null, questions, report };
+}
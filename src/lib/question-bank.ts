@@ -0,0 +1,88 @@
+import { Database } from '@/integrations/supabase/types';
+
+// The question bank: each teacher's reusable questions, filed by topic, grade,
+// difficulty and free-form tags, and copied into quizzes from the editor
+
+export type BankAnswer = Database['public']['Tables']['bank_answers']['Row'];
+
+export type BankQuestion = Database['public']['Tables']['bank_questions']['Row'] & {
+  bank_answers: BankAnswer[];
+};
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTY_OPTIONS: { value: Difficulty; label: string; className: string }[] = [
+  { value: 'easy', label: 'Easy', className: 'bg-quiz-green/10 text-quiz-green' },
+  { value: 'medium', label: 'Medium', className: 'bg-quiz-yellow/10 text-quiz-yellow' },
+  { value: 'hard', label: 'Hard', className: 'bg-destructive/10 text-destructive' },
+];
+
+// How a bank question is filed; tags are edited as comma-separated text
+export type BankDetails = {
+  topic: string;
+  grade: string;
+  difficulty: Difficulty | null;
+  tags: string;
+};
+
+export const EMPTY_BANK_DETAILS: BankDetails = { topic: '', grade: '', difficulty: null, tags: '' };
+
+export function bankDetailsFrom(question: Pick<BankQuestion, 'topic' | 'grade' | 'difficulty' | 'tags'>): BankDetails {
+  return {
+    topic: question.topic ?? '',
+    grade: question.grade ?? '',
+    difficulty: question.difficulty as Difficulty | null,
+    tags: question.tags.join(', '),
+  };
+}
+
+// The details as saved on bank_questions
+export function bankDetailsToRow(details: BankDetails) {
+  return {
+    topic: details.topic.trim() || null,
+    grade: details.grade.trim() || null,
+    difficulty: details.difficulty,
+    tags: [...new Set(details.tags.split(',').map(tag => tag.trim()).filter(Boolean))],
+  };
+}
+
+export type BankFilters = {
+  search: string;
+  topic: string;
+  grade: string;
+  difficulty: string;
+  tag: string;
+};
+
+// '' means any value for the select filters
+export const EMPTY_BANK_FILTERS: BankFilters = { search: '', topic: '', grade: '', difficulty: '', tag: '' };
+
+export function matchesBankFilters(question: BankQuestion, filters: BankFilters) {
+  if (filters.topic && question.topic !== filters.topic) return false;
+  if (filters.grade && question.grade !== filters.grade) return false;
+  if (filters.difficulty && question.difficulty !== filters.difficulty) return false;
+  if (filters.tag && !question.tags.includes(filters.tag)) return false;
+
+  const search = filters.search.trim().toLowerCase();
+  if (!search) return true;
+  return [
+    question.question_text,
+    question.topic,
+    question.code,
+    ...question.tags,
+    ...question.bank_answers.flatMap(a => [a.answer_text, a.match_text]),
+  ].some(text => text?.toLowerCase().includes(search));
+}
+
+// Values to offer in the filters and detail fields, sorted
+export function bankFacets(questions: Pick<BankQuestion, 'topic' | 'grade' | 'tags'>[]) {
+  const sorted = (values: (string | null)[]) =>
+    [...new Set(values.filter((value): value is string => !!value))].sort((a, b) => a.localeCompare(b));
+  return {
+    topics: sorted(questions.map(q => q.topic)),
+    grades: sorted(questions.map(q => q.grade)),
+    tags: sorted(questions.flatMap(q => q.tags)),
+  };
+}
+
+export type BankFacets = ReturnType<typeof bankFacets>;
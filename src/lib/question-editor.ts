@@ -0,0 +1,198 @@
+import { Database } from '@/integrations/supabase/types';
+import { CodeLanguage } from '@/lib/code-highlight';
+import { HotspotRegion, QuestionScoring, QuestionSettings, QuestionType, isValidNumber, parseClozeBlanks } from '@/lib/question-types';
+
+// Questions as the quiz editor holds them, before they are saved with save_quiz
+export interface Answer {
+  id?: string;
+  answer_text: string;
+  // Right-hand side of a matching pair
+  match_text?: string | null;
+  // Cloze blank the answer belongs to, counted from 0
+  blank_index?: number | null;
+  // Correct region of a hotspot question
+  region?: HotspotRegion | null;
+  // Choice answer kept at the end when answers are shuffled
+  pinned?: boolean;
+  is_correct: boolean;
+  order_index: number;
+}
+
+export interface Question {
+  id?: string;
+  question_text: string;
+  question_type: QuestionType;
+  image_url: string | null;
+  time_limit: number | null;
+  // Weight of the question in the score
+  points: number;
+  settings: QuestionSettings;
+  // Code shown with the question, highlighted for its language
+  code: string | null;
+  code_language: CodeLanguage | null;
+  // Shown to students when they review their answers
+  explanation: string | null;
+  explanation_image_url: string | null;
+  // Question pools can draw a set number of questions from each section
+  section: string | null;
+  // Bank question this one was copied from, or last saved to
+  bank_question_id: string | null;
+  // Only changed by regrading; new questions take it when a quiz is copied
+  scoring?: QuestionScoring;
+  order_index: number;
+  answers: Answer[];
+}
+
+type QuestionRow = Database['public']['Tables']['questions']['Row'] & {
+  answers: Database['public']['Tables']['answers']['Row'][];
+};
+
+// A saved question, loaded with its answers, as the editor holds it
+export const toEditorQuestion = (q: QuestionRow): Question => ({
+  id: q.id,
+  question_text: q.question_text,
+  question_type: q.question_type,
+  image_url: q.image_url,
+  time_limit: q.time_limit,
+  points: Number(q.points ?? 1),
+  settings: (q.settings || {}) as QuestionSettings,
+  code: q.code,
+  code_language: q.code_language as CodeLanguage | null,
+  explanation: q.explanation,
+  explanation_image_url: q.explanation_image_url,
+  section: q.section,
+  bank_question_id: q.bank_question_id,
+  scoring: q.scoring,
+  order_index: q.order_index,
+  answers: [...(q.answers || [])]
+    .sort((a, b) => a.order_index - b.order_index)
+    .map(a => ({
+      id: a.id,
+      answer_text: a.answer_text,
+      match_text: a.match_text,
+      blank_index: a.blank_index,
+      region: a.region as HotspotRegion | null,
+      pinned: a.pinned,
+      is_correct: a.is_correct,
+      order_index: a.order_index,
+    })),
+});
+
+// Cloze accepted answers are written in the question text, so they are rebuilt
+// from the markers on save. The editor only keeps the dropdown wrong options.
+export const clozeAnswers = (q: Question): Answer[] => {
+  const blanks = parseClozeBlanks(q.question_text);
+  const accepted = blanks.flatMap((texts, blankIndex) =>
+    [...new Set(texts)].map(answer_text => ({
+      id: q.answers.find(a => a.is_correct && a.blank_index === blankIndex && a.answer_text === answer_text)?.id,
+      answer_text,
+      blank_index: blankIndex,
+      is_correct: true,
+      order_index: 0,
+    }))
+  );
+  const wrong = q.answers.filter(a => !a.is_correct && a.answer_text.trim() && (a.blank_index ?? 0) < blanks.length);
+  return [...accepted, ...wrong].map((a, i) => ({ ...a, order_index: i }));
+};
+
+// A question as save_quiz and save_bank_question take it
+export const questionPayload = (q: Question) => ({
+  question_text: q.question_text,
+  question_type: q.question_type,
+  image_url: q.image_url,
+  time_limit: q.time_limit,
+  points: q.points,
+  settings: q.settings,
+  code: q.code?.trim() ? q.code : null,
+  code_language: q.code?.trim() ? q.code_language ?? 'python' : null,
+  explanation: q.explanation?.trim() ? q.explanation : null,
+  explanation_image_url: q.explanation_image_url,
+  scoring: q.scoring ?? 'standard',
+  answers: (q.question_type === 'cloze'
+    ? clozeAnswers(q)
+    : q.answers.filter(a => a.answer_text.trim() || a.match_text?.trim() || a.region)
+  ).map(a => ({
+    id: a.id ?? null,
+    answer_text: a.answer_text,
+    match_text: a.match_text ?? null,
+    blank_index: a.blank_index ?? null,
+    region: a.region ?? null,
+    pinned: a.pinned ?? false,
+    is_correct: a.is_correct,
+  })),
+});
+
+// What stops a question from being saved, finishing "Question 3 ...", or null
+// when it can be saved. Imports check questions with the same rules.
+export function questionProblem(q: Question): string | null {
+  if (!q.question_text.trim()) {
+    return 'is empty';
+  }
+  if (!(q.points > 0 && q.points <= 100)) {
+    return 'needs between 0 and 100 points';
+  }
+  if (q.question_type === 'matching') {
+    const pairs = q.answers.filter(a => a.is_correct && (a.answer_text.trim() || a.match_text?.trim()));
+    if (pairs.some(a => !a.answer_text.trim() || !a.match_text?.trim())) {
+      return 'has a pair with an empty side';
+    }
+    if (pairs.length < 2) {
+      return 'needs at least 2 pairs';
+    }
+    return null;
+  }
+  if (q.question_type === 'hotspot') {
+    if (!q.image_url) {
+      return 'needs an image to click on';
+    }
+    if (!q.answers.some(a => a.region)) {
+      return 'needs at least one correct region';
+    }
+    return null;
+  }
+  if (q.question_type === 'cloze') {
+    const blanks = parseClozeBlanks(q.question_text);
+    if (blanks.length === 0) {
+      return 'needs at least one [[blank]]';
+    }
+    if (blanks.some(accepted => accepted.length === 0)) {
+      return 'has a blank with no accepted answer';
+    }
+    return null;
+  }
+  if (q.question_type === 'ordering') {
+    if (q.answers.filter(a => a.answer_text.trim()).length < 2) {
+      return 'needs at least 2 items';
+    }
+    return null;
+  }
+  if (q.question_type === 'numeric') {
+    if (!isValidNumber(q.answers[0]?.answer_text ?? '', q.settings.base)) {
+      return 'needs a valid correct value';
+    }
+    return null;
+  }
+  if (q.question_type === 'short_answer') {
+    const accepted = q.answers.filter(a => a.answer_text.trim());
+    if (accepted.length === 0) {
+      return 'needs at least one accepted answer';
+    }
+    if (q.settings.match === 'regex') {
+      for (const a of accepted) {
+        try {
+          new RegExp(a.answer_text);
+        } catch {
+          return `has an invalid pattern: ${a.answer_text}`;
+        }
+      }
+    }
+    return null;
+  }
+  if (q.answers.filter(a => a.answer_text.trim()).length < 2) {
+    return 'needs at least 2 answers';
+  }
+  if (!q.answers.some(a => a.is_correct)) {
+    return 'needs at least one correct answer';
+  }
+  return null;
+}
@@ -0,0 +1,84 @@
+import imageCompression from 'browser-image-compression';
+import { supabase } from '@/integrations/supabase/client';
+
+// Question images live in the question-images bucket. Quiz questions copied
+// from the question bank point at the same files as the bank question, so an
+// image is only removed once no question shows it any more.
+
+export async function compressQuestionImage(file: File): Promise<File> {
+  return imageCompression(file, {
+    maxSizeMB: 1, // Maximum file size in MB (after compression)
+    maxWidthOrHeight: 1920, // Maximum width or height in pixels
+    useWebWorker: true, // Use web worker for better performance
+    fileType: file.type === 'image/png'
+      ? 'image/png' // Keep PNG for transparency
+      : 'image/jpeg', // Convert to JPEG for better compression
+    initialQuality: 0.8, // 80% quality (good balance between size and quality)
+  });
+}
+
+// Uploads an image into the folder (usually the quiz id) and returns its public URL
+export async function storeQuestionImage(file: Blob, folder: string): Promise<string> {
+  // Determine file extension based on the file type; the random part keeps
+  // images uploaded in the same millisecond apart
+  const fileExt = file.type.includes('png') ? 'png' : 'jpg';
+  const fileName = `${folder}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('question-images')
+    .upload(fileName, file, {
+      contentType: file.type,
+    });
+
+  if (uploadError) throw uploadError;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('question-images')
+    .getPublicUrl(fileName);
+
+  return publicUrl;
+}
+
+// Compresses and uploads an image that came with an import; if compression
+// fails the original is uploaded
+export async function uploadQuestionImage(file: File, folder: string): Promise<string> {
+  let compressedFile: File;
+  try {
+    compressedFile = await compressQuestionImage(file);
+  } catch (compressionError) {
+    console.error('Compression error:', compressionError);
+    compressedFile = file;
+  }
+  return storeQuestionImage(compressedFile, folder);
+}
+
+// Supabase storage URL format: https://[project].supabase.co/storage/v1/object/public/question-images/[path]
+const extractFilePathFromUrl = (url: string): string | null => {
+  const match = url.match(/question-images\/(.+)$/);
+  return match ? match[1] : null;
+};
+
+export async function deleteQuestionImage(imageUrl: string | null): Promise<void> {
+  if (!imageUrl) return;
+
+  const filePath = extractFilePathFromUrl(imageUrl);
+  if (!filePath) return;
+
+  try {
+    const { data: inUse, error: inUseError } = await supabase.rpc('question_image_in_use', {
+      p_image_url: imageUrl,
+    });
+
+    if (inUseError) throw inUseError;
+    if (inUse) return;
+
+    const { error } = await supabase.storage
+      .from('question-images')
+      .remove([filePath]);
+
+    if (error) throw error;
+  } catch (error) {
+    // Don't throw - we don't want to block the operation if image deletion fails
+    console.error('Error deleting image from storage:', error);
+  }
+}
@@ -0,0 +1,38 @@
+// Question pools: each student gets a random draw of the quiz's questions,
+// made by draw_attempt_questions when the attempt starts
+
+export type QuestionPool = {
+  mode: 'all' | 'count' | 'sections';
+  // Questions drawn from the whole quiz when mode is 'count'
+  draw_count: number | null;
+  // Questions drawn from each section when mode is 'sections'; '' is the
+  // questions without a section
+  section_draws: Record<string, number>;
+};
+
+// The pool as stored on quiz_sessions
+export function poolToQuiz(pool: QuestionPool) {
+  return {
+    draw_count: pool.mode === 'count' ? pool.draw_count : null,
+    section_draws: pool.mode === 'sections'
+      ? Object.fromEntries(Object.entries(pool.section_draws).filter(([, count]) => count > 0))
+      : {},
+  };
+}
+
+// Editor state for the pool stored on a quiz
+export function poolFromQuiz(drawCount: number | null, sectionDraws: Record<string, number> | null): QuestionPool {
+  const draws = sectionDraws ?? {};
+  return {
+    mode: Object.keys(draws).length > 0 ? 'sections' : drawCount ? 'count' : 'all',
+    draw_count: drawCount,
+    section_draws: draws,
+  };
+}
+
+// Questions each student gets under the pool
+export function poolSize(pool: QuestionPool, questionCount: number) {
+  if (pool.mode === 'count') return pool.draw_count ?? 0;
+  if (pool.mode === 'sections') return Object.values(pool.section_draws).reduce((sum, count) => sum + count, 0);
+  return questionCount;
+}
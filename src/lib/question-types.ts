@@ -0,0 +1,119 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type QuestionType = Database['public']['Enums']['question_type'];
+
+// Set when regrading: accept_any takes any response made of correct answers,
+// dropped questions don't count
+export type QuestionScoring = Database['public']['Enums']['question_scoring'];
+
+export const QUESTION_SCORINGS: QuestionScoring[] = ['standard', 'accept_any', 'dropped'];
+
+export type NumberBase = 2 | 8 | 10 | 16;
+
+export type MultipleScoring = 'all_or_nothing' | 'proportional' | 'right_minus_wrong';
+
+// Hotspot points and regions are fractions (0 to 1) of the image's width and
+// height, so they don't depend on how large the image is shown
+export type HotspotPoint = { x: number; y: number };
+export type HotspotRegion = HotspotPoint & { width: number; height: number };
+
+export const QUESTION_TYPE_OPTIONS: { value: QuestionType; label: string }[] = [
+  { value: 'single', label: 'Single Answer' },
+  { value: 'multiple', label: 'Multiple Answers' },
+  { value: 'true_false', label: 'True / False' },
+  { value: 'short_answer', label: 'Short Answer' },
+  { value: 'numeric', label: 'Numeric' },
+  { value: 'ordering', label: 'Ordering' },
+  { value: 'matching', label: 'Matching Pairs' },
+  { value: 'cloze', label: 'Fill in the Blanks' },
+  { value: 'hotspot', label: 'Image Hotspot' },
+];
+
+// Type-specific options stored in questions.settings
+export type QuestionSettings = {
+  // Short answer matching
+  case_sensitive?: boolean;
+  match?: 'exact' | 'fuzzy' | 'regex';
+  fuzzy_distance?: number;
+  // Numeric answers
+  base?: NumberBase;
+  tolerance?: number;
+  tolerance_type?: 'absolute' | 'percent';
+  unit?: string;
+  // Ordering, matching and cloze: credit for each neighbouring pair, matched
+  // pair or blank that is right, instead of all or nothing
+  partial_credit?: boolean;
+  // Choice and short answers are shown as code (monospace, spacing kept)
+  code_answers?: boolean;
+  // Multiple answers: how a partly right selection is scored
+  multiple_scoring?: MultipleScoring;
+};
+
+export const DEFAULT_SHORT_ANSWER_SETTINGS: QuestionSettings = {
+  case_sensitive: false,
+  match: 'exact',
+  fuzzy_distance: 1,
+};
+
+export const DEFAULT_NUMERIC_SETTINGS: QuestionSettings = {
+  base: 10,
+  tolerance: 0,
+  tolerance_type: 'absolute',
+};
+
+export const NUMBER_BASES: { base: NumberBase; label: string; labelSi: string; prefix: string; digits: string }[] = [
+  { base: 10, label: 'Decimal', labelSi: 'දශමය', prefix: '', digits: '0-9' },
+  { base: 2, label: 'Binary', labelSi: 'ද්වීමය', prefix: '0b', digits: '0-1' },
+  { base: 8, label: 'Octal', labelSi: 'අෂ්ටමය', prefix: '0o', digits: '0-7' },
+  { base: 16, label: 'Hexadecimal', labelSi: 'ෂඩ්දශමය', prefix: '0x', digits: '0-9A-F' },
+];
+
+// Mirrors grade_multiple
+export const MULTIPLE_SCORING_OPTIONS: { value: MultipleScoring; label: string; description: string }[] = [
+  { value: 'all_or_nothing', label: 'All or nothing', description: 'Full points only when exactly the correct answers are chosen' },
+  { value: 'proportional', label: 'Proportional', description: 'Credit for each answer rightly chosen or rightly left out' },
+  { value: 'right_minus_wrong', label: 'Right minus wrong', description: 'Each correct choice earns a share, each wrong choice takes one away' },
+];
+
+// True/False questions store these two answers in this order
+export const TRUE_FALSE_ANSWERS = [
+  { answer_text: 'True', label: 'True', labelSi: 'සත්‍ය' },
+  { answer_text: 'False', label: 'False', labelSi: 'අසත්‍ය' },
+];
+
+// Question types where a student picks exactly one answer
+export function isSingleChoice(type: QuestionType) {
+  return type === 'single' || type === 'true_false';
+}
+
+// Question types where a student types the response instead of picking answers
+export function isTextResponse(type: QuestionType) {
+  return type === 'short_answer' || type === 'numeric';
+}
+
+// Mirrors parse_number_in_base: spaces and underscores between digits and a
+// 0b/0o/0x prefix are allowed, and only decimal numbers can have a fraction
+export function isValidNumber(text: string, base: NumberBase = 10) {
+  const digits = text.replace(/[\s_]/g, '').toLowerCase().replace(/^[+-]/, '');
+  if (base === 10) return /^(\d+(\.\d*)?|\.\d+)$/.test(digits);
+
+  const { prefix, digits: range } = NUMBER_BASES.find(b => b.base === base)!;
+  const unprefixed = digits.startsWith(prefix) ? digits.slice(prefix.length) : digits;
+  return new RegExp(`^[${range}]+$`, 'i').test(unprefixed);
+}
+
+// Cloze blanks are written inline as [[answer]], with other accepted answers
+// separated by |, e.g. [[CPU|processor]]. Students get every marker emptied.
+const CLOZE_MARKER = /\[\[([^\]]*)\]\]/g;
+
+// Accepted answers of each blank, in order
+export function parseClozeBlanks(text: string) {
+  return [...text.matchAll(CLOZE_MARKER)].map(match =>
+    match[1].split('|').map(answer => answer.trim()).filter(Boolean)
+  );
+}
+
+// The text around the blanks: blank i sits between parts i and i + 1
+export function splitClozeText(text: string) {
+  return text.split(/\[\[[^\]]*\]\]/);
+}
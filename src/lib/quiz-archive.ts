@@ -0,0 +1,265 @@
+import { Answer, Question } from '@/lib/question-editor';
+import { QUESTION_SCORINGS, QUESTION_TYPE_OPTIONS, QuestionScoring } from '@/lib/question-types';
+import { CODE_LANGUAGES } from '@/lib/code-highlight';
+import {
+  ExportedQuiz,
+  QuizFile,
+  QuizSettings,
+  TransferQuestion,
+  TransferReportLine,
+  imageExtension,
+  imageType,
+  importedQuestion,
+  reportLine,
+  validatedQuestion,
+} from '@/lib/quiz-transfer';
+import { readZip, writeZip } from '@/lib/zip';
+
+// Quizioo's own quiz archive, for backups and for moving a quiz to another
+// teacher's account: a zip with quiz.json and the images it points to.
+// quiz.json names the version of its format; archives made by older versions
+// are upgraded one version at a time before they are read.
+
+export const ARCHIVE_VERSION = 1;
+const ARCHIVE_FORMAT = 'quizioo-quiz';
+export const ARCHIVE_FILE = 'quiz.json';
+
+type ArchiveAnswer = Omit<Answer, 'id' | 'order_index'>;
+
+interface ArchiveQuestion extends Omit<Question, 'id' | 'image_url' | 'explanation_image_url' | 'bank_question_id' | 'scoring' | 'order_index' | 'answers'> {
+  // Paths of the images in the zip
+  image: string | null;
+  explanation_image: string | null;
+  // How regrading left the question; archives without it are scored as standard
+  scoring?: QuestionScoring;
+  answers: ArchiveAnswer[];
+}
+
+interface QuizArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  quiz: {
+    title: string;
+    description: string | null;
+    settings: Partial<QuizSettings> | null;
+  };
+  questions: ArchiveQuestion[];
+}
+
+type ArchiveJson = Record<string, unknown> & { version: number };
+
+// Upgrades quiz.json from the version it is keyed by to the next one. Add an
+// entry whenever the format changes, e.g. when a question type is renamed or
+// its settings are reshaped.
+const MIGRATIONS: Record<number, (archive: ArchiveJson) => ArchiveJson> = {};
+
+const REVIEW_RELEASES = ['never', 'after_completion', 'after_deadline'];
+
+type FieldChecks<T> = { [K in keyof T]-?: (value: unknown) => boolean };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isCount = (value: unknown, min: number) => Number.isInteger(value) && (value as number) >= min;
+const isText = (value: unknown) => typeof value === 'string';
+const isFlag = (value: unknown) => typeof value === 'boolean';
+const orNull = (check: (value: unknown) => boolean) => (value: unknown) => value === null || check(value);
+
+// Checks each quiz option of an archive before it goes into the new quiz;
+// anything else in quiz.json's settings is left out
+const SETTING_CHECKS: FieldChecks<QuizSettings> = {
+  duration_seconds: orNull(value => isCount(value, 1)),
+  shuffle_questions: isFlag,
+  shuffle_answers: isFlag,
+  negative_marking: value => typeof value === 'number' && value >= 0 && value <= 1,
+  review_release: value => typeof value === 'string' && REVIEW_RELEASES.includes(value),
+  draw_count: orNull(value => isCount(value, 1)),
+  section_draws: value => isRecord(value) && Object.values(value).every(count => isCount(count, 0)),
+};
+
+// The same for the fields of each question and answer. Ids and image URLs
+// only mean something in the account that exported the quiz, so they are
+// never read from an archive.
+const QUESTION_CHECKS: FieldChecks<Omit<ArchiveQuestion, 'question_text' | 'question_type' | 'answers'>> = {
+  time_limit: orNull(value => isCount(value, 1)),
+  points: value => typeof value === 'number' && value > 0 && value <= 100,
+  settings: isRecord,
+  code: orNull(isText),
+  code_language: orNull(value => CODE_LANGUAGES.some(language => language.value === value)),
+  explanation: orNull(isText),
+  section: orNull(isText),
+  image: orNull(isText),
+  explanation_image: orNull(isText),
+  scoring: value => QUESTION_SCORINGS.includes(value as QuestionScoring),
+};
+
+const ANSWER_CHECKS: FieldChecks<ArchiveAnswer> = {
+  answer_text: isText,
+  match_text: orNull(isText),
+  blank_index: orNull(value => isCount(value, 0)),
+  region: orNull(value => isRecord(value)
+    && ['x', 'y', 'width', 'height'].every(key => typeof value[key] === 'number')),
+  pinned: isFlag,
+  is_correct: isFlag,
+};
+
+// Keeps the fields that pass their check; the others are noted and left to
+// the defaults
+function readFields<T>(record: Record<string, unknown>, checks: FieldChecks<T>, label: string, notes: string[]): Partial<T> {
+  const checked: Partial<Record<keyof T, unknown>> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const check = checks[key as keyof T];
+    if (!check) {
+      notes.push(`The ${label} "${key}" is not part of a quiz archive and was ignored`);
+    } else if (!check(value)) {
+      notes.push(`The ${label} "${key}" has an invalid value (${JSON.stringify(value)}); the default is used`);
+    } else {
+      checked[key as keyof T] = value;
+    }
+  }
+  return checked as Partial<T>;
+}
+
+function readSettings(settings: unknown, notes: string[]): Partial<QuizSettings> {
+  if (settings === null || settings === undefined) return {};
+  if (!isRecord(settings)) {
+    notes.push('The quiz settings could not be read; the new quiz uses the defaults');
+    return {};
+  }
+  return readFields(settings, SETTING_CHECKS, 'setting', notes);
+}
+
+export async function writeQuizArchive(quiz: QuizFile): Promise<ExportedQuiz> {
+  const files: { name: string; data: Uint8Array }[] = [];
+  const report: TransferReportLine[] = [];
+  const questions: ArchiveQuestion[] = [];
+
+  const addImage = async (image: Blob | null, name: string) => {
+    if (!image) return null;
+    const path = `images/${name}.${imageExtension(image)}`;
+    files.push({ name: path, data: new Uint8Array(await image.arrayBuffer()) });
+    return path;
+  };
+
+  for (const [index, { question, image, explanationImage }] of quiz.questions.entries()) {
+    const line = reportLine(`Question ${index + 1}`, question.question_text);
+    report.push(line);
+    if ((question.image_url && !image) || (question.explanation_image_url && !explanationImage)) {
+      line.notes.push('An image could not be downloaded');
+    }
+
+    // Ids, image URLs and the bank link only mean something in this account
+    const { id, image_url, explanation_image_url, bank_question_id, order_index, answers, scoring, ...fields } = question;
+    questions.push({
+      ...fields,
+      image: await addImage(image, `question-${index + 1}`),
+      explanation_image: await addImage(explanationImage, `explanation-${index + 1}`),
+      scoring: scoring ?? 'standard',
+      answers: answers.map(({ id: answerId, order_index: answerOrder, ...answer }) => answer),
+    });
+  }
+
+  const archive: QuizArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    quiz: {
+      title: quiz.title ?? 'Quiz',
+      description: quiz.description,
+      settings: quiz.settings ?? null,
+    },
+    questions,
+  };
+  files.unshift({ name: ARCHIVE_FILE, data: new TextEncoder().encode(JSON.stringify(archive, null, 2)) });
+
+  return { file: writeZip(files), report };
+}
+
+export async function readQuizArchive(data: ArrayBuffer): Promise<QuizFile> {
+  const files = await readZip(data);
+  const json = files.get(ARCHIVE_FILE);
+  if (!json) throw new Error('The file is not a Quizioo quiz archive');
+
+  let archive: ArchiveJson;
+  try {
+    archive = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error(`${ARCHIVE_FILE} in the archive is not valid JSON`);
+  }
+  if (archive?.format !== ARCHIVE_FORMAT || typeof archive.version !== 'number') {
+    throw new Error('The file is not a Quizioo quiz archive');
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new Error('The archive was made by a newer version of Quizioo. Reload the page to update the app, then import it again.');
+  }
+  while (archive.version < ARCHIVE_VERSION) {
+    const migrate = MIGRATIONS[archive.version];
+    if (!migrate) throw new Error(`Archives of version ${archive.version} can no longer be imported`);
+    archive = { ...migrate(archive), version: archive.version + 1 };
+  }
+
+  const { quiz, questions: archived } = archive as unknown as QuizArchive;
+  if (!quiz || !Array.isArray(archived)) throw new Error(`${ARCHIVE_FILE} in the archive is incomplete`);
+
+  const notes: string[] = [];
+  const settings = readSettings(quiz.settings, notes);
+
+  const questions: TransferQuestion[] = [];
+  const report: TransferReportLine[] = [];
+  for (const [index, archivedQuestion] of archived.entries()) {
+    const line = reportLine(`Question ${index + 1}`, archivedQuestion?.question_text ?? '');
+    report.push(line);
+
+    if (!isRecord(archivedQuestion) || typeof archivedQuestion.question_text !== 'string'
+      || !Array.isArray(archivedQuestion.answers) || !archivedQuestion.answers.every(isRecord)) {
+      line.skipped = true;
+      line.notes.push('The question is incomplete');
+      continue;
+    }
+    const { question_text, question_type, answers, ...rest } = archivedQuestion;
+    if (!QUESTION_TYPE_OPTIONS.some(o => o.value === question_type)) {
+      line.skipped = true;
+      line.notes.push(`"${question_type}" questions are not supported`);
+      continue;
+    }
+    const { image = null, explanation_image = null, ...fields } = readFields(rest, QUESTION_CHECKS, 'field', line.notes);
+
+    const imageBlob = (path: string | null) => {
+      if (!path) return null;
+      const file = files.get(path);
+      const type = imageType(path);
+      if (!file || !type) {
+        line.notes.push(`The image ${path} is missing from the archive`);
+        return null;
+      }
+      return new Blob([file], { type });
+    };
+
+    const question = validatedQuestion(line, {
+      question: importedQuestion({
+        ...fields,
+        question_text,
+        question_type,
+        order_index: index,
+        answers: answers.map((answer, i) => ({
+          answer_text: '',
+          is_correct: false,
+          ...readFields(answer, ANSWER_CHECKS, 'answer field', line.notes),
+          order_index: i,
+        })),
+      }),
+      image: imageBlob(image),
+      explanationImage: imageBlob(explanation_image),
+    });
+    if (question) questions.push(question);
+  }
+
+  return {
+    title: quiz.title ?? null,
+    description: quiz.description ?? null,
+    settings,
+    notes,
+    questions,
+    report,
+  };
+}
@@ -0,0 +1,99 @@
+import { readAiken, writeAiken } from '@/lib/aiken';
+import { readGift, writeGift } from '@/lib/gift';
+import { readMoodleXml, writeMoodleXml } from '@/lib/moodle-xml';
+import { readQtiPackage, writeQtiPackage } from '@/lib/qti';
+import { ARCHIVE_FILE, readQuizArchive, writeQuizArchive } from '@/lib/quiz-archive';
+import { ExportedQuiz, QuizFile } from '@/lib/quiz-transfer';
+import { readZip } from '@/lib/zip';
+
+export type QuizFormatId = 'quizioo' | 'moodle_xml' | 'qti_3_0' | 'qti_2_1' | 'gift' | 'aiken';
+
+export interface QuizFormat {
+  id: QuizFormatId;
+  label: string;
+  description: string;
+  extension: string;
+  // File types offered when choosing a file to import
+  accept: string;
+  read: (file: File) => Promise<QuizFile>;
+  write: (quiz: QuizFile) => Promise<ExportedQuiz>;
+}
+
+export const QUIZ_FORMATS: QuizFormat[] = [
+  {
+    id: 'quizioo',
+    label: 'Quizioo archive',
+    description: 'The whole quiz with its settings, to back it up or share it with another teacher',
+    extension: 'zip',
+    accept: '.zip,application/zip',
+    read: async file => readQuizArchive(await file.arrayBuffer()),
+    write: writeQuizArchive,
+  },
+  {
+    id: 'moodle_xml',
+    label: 'Moodle XML',
+    description: 'Keeps feedback, points and images',
+    extension: 'xml',
+    accept: '.xml,application/xml,text/xml',
+    read: async file => readMoodleXml(await file.text()),
+    write: writeMoodleXml,
+  },
+  {
+    id: 'qti_3_0',
+    label: 'IMS QTI 3.0',
+    description: 'Zip package for assessment platforms, with points, feedback and images',
+    extension: 'zip',
+    accept: '.zip,application/zip',
+    read: async file => readQtiPackage(await file.arrayBuffer()),
+    write: quiz => writeQtiPackage(quiz, '3.0'),
+  },
+  {
+    id: 'qti_2_1',
+    label: 'IMS QTI 2.1',
+    description: 'The earlier QTI version most platforms still import',
+    extension: 'zip',
+    accept: '.zip,application/zip',
+    read: async file => readQtiPackage(await file.arrayBuffer()),
+    write: quiz => writeQtiPackage(quiz, '2.1'),
+  },
+  {
+    id: 'gift',
+    label: 'GIFT',
+    description: 'Moodle\'s plain text format, without images or points',
+    extension: 'txt',
+    accept: '.txt,.gift,text/plain',
+    read: async file => readGift(await file.text()),
+    write: writeGift,
+  },
+  {
+    id: 'aiken',
+    label: 'Aiken',
+    description: 'Plain text with single answer questions only',
+    extension: 'txt',
+    accept: '.txt,text/plain',
+    read: async file => readAiken(await file.text()),
+    write: writeAiken,
+  },
+];
+
+// GIFT and Aiken are both .txt files; Aiken files are told apart by their
+// ANSWER: lines. Zip files are Quizioo archives when they hold quiz.json, and
+// otherwise QTI packages, which name their version in the manifest.
+export async function detectQuizFormat(file: File): Promise<QuizFormat | null> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const format = (id: QuizFormatId) => QUIZ_FORMATS.find(f => f.id === id) ?? null;
+
+  if (extension === 'xml') return format('moodle_xml');
+  if (extension === 'gift') return format('gift');
+  if (extension === 'zip') {
+    const files = await readZip(await file.arrayBuffer()).catch(() => null);
+    if (!files) return null;
+    if (files.has(ARCHIVE_FILE)) return format('quizioo');
+    const manifest = [...files].find(([path]) => path.endsWith('imsmanifest.xml'))?.[1];
+    return manifest && /imsqti_(item|test)_xmlv2/.test(new TextDecoder().decode(manifest)) ? format('qti_2_1') : format('qti_3_0');
+  }
+  if (extension === 'txt') {
+    return /^\s*ANSWER\s*:\s*[A-Z]\s*$/im.test(await file.text()) ? format('aiken') : format('gift');
+  }
+  return null;
+}
@@ -0,0 +1,361 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { Answer, Question, questionPayload, questionProblem, toEditorQuestion } from '@/lib/question-editor';
+import { deleteQuestionImage, uploadQuestionImage } from '@/lib/question-images';
+import { MultipleScoring } from '@/lib/question-types';
+
+// Quizzes moved in and out of the app as files in other quiz formats. Each
+// format reads a file into a QuizFile and writes one back out; whatever a
+// format can't hold is reported per question instead of being dropped quietly.
+
+export interface TransferQuestion {
+  question: Question;
+  image: Blob | null;
+  explanationImage: Blob | null;
+}
+
+export interface TransferReportLine {
+  // Where the question is, e.g. "Question 3" or its name in the file
+  label: string;
+  text: string;
+  // The question was left out; the notes say why
+  skipped: boolean;
+  // Parts of the question that were not carried over
+  notes: string[];
+}
+
+// Quiz options kept by a full archive; the other formats only hold questions
+export type QuizSettings = Pick<
+  Database['public']['Tables']['quiz_sessions']['Row'],
+  'duration_seconds' | 'shuffle_questions' | 'shuffle_answers' | 'negative_marking' | 'review_release' | 'draw_count' | 'section_draws'
+>;
+
+export interface QuizFile {
+  title: string | null;
+  description: string | null;
+  settings?: Partial<QuizSettings>;
+  // Problems with the file outside its questions
+  notes?: string[];
+  questions: TransferQuestion[];
+  // One line for every question in the file, including skipped ones
+  report: TransferReportLine[];
+}
+
+export interface ExportedQuiz {
+  file: Blob;
+  report: TransferReportLine[];
+}
+
+export const reportLine = (label: string, text: string): TransferReportLine => ({
+  label,
+  text,
+  skipped: false,
+  notes: [],
+});
+
+// A new question with the editor's defaults, for formats to fill in
+export const importedQuestion = (fields: Pick<Question, 'question_text' | 'question_type' | 'answers'> & Partial<Question>): Question => ({
+  image_url: null,
+  time_limit: null,
+  points: 1,
+  settings: {},
+  code: null,
+  code_language: null,
+  explanation: null,
+  explanation_image_url: null,
+  section: null,
+  bank_question_id: null,
+  order_index: 0,
+  ...fields,
+});
+
+// Adds an imported question unless the editor couldn't save it either
+export function validatedQuestion(line: TransferReportLine, transfer: TransferQuestion): TransferQuestion | null {
+  // Images travel as blobs until the quiz is created, so one stands in for the URL
+  const { question, image } = transfer;
+  const problem = questionProblem(image && !question.image_url ? { ...question, image_url: 'pending-upload' } : question);
+  if (!problem) return transfer;
+  line.skipped = true;
+  line.notes.push(`The question ${problem}`);
+  return null;
+}
+
+// Notes for the parts of a question a format has no place for
+export function lostParts({ question }: TransferQuestion, kept: ('images' | 'explanation' | 'points')[]): string[] {
+  const notes: string[] = [];
+  if (!kept.includes('images') && (question.image_url || question.explanation_image_url)) {
+    notes.push('Images are not exported');
+  }
+  if (!kept.includes('explanation') && question.explanation) {
+    notes.push('The explanation is not exported');
+  }
+  if (!kept.includes('points') && question.points !== 1) {
+    notes.push(`The points (${question.points}) are not exported`);
+  }
+  if (question.time_limit) {
+    notes.push('The time limit is not exported');
+  }
+  return notes;
+}
+
+// Formats without a place for code get it below the question text
+export const textWithCode = (question: Question) =>
+  question.code?.trim() ? `${question.question_text}\n\n${question.code}` : question.question_text;
+
+// Moodle-style percentages for the answers of a multiple answer question:
+// correct answers share 100, each wrong one takes a correct one's share away
+export function choiceWeights(answers: Answer[]): number[] {
+  const share = 100 / Math.max(1, answers.filter(a => a.is_correct).length);
+  return answers.map(a => Number((a.is_correct ? share : -share).toFixed(5)));
+}
+
+// Scoring of an imported multiple answer question with the given answer
+// percentages; Moodle only takes marks away when wrong answers are negative
+export function weightedScoring(weights: number[]): { scoring: MultipleScoring; note: string | null } {
+  const positive = weights.filter(w => w > 0);
+  if (weights.some(w => w < 0)) {
+    return {
+      scoring: 'right_minus_wrong',
+      note: positive.some(w => w !== positive[0]) ? 'Unequal answer weights are scored as equal shares' : null,
+    };
+  }
+  return {
+    scoring: 'all_or_nothing',
+    note: weights.some(w => w === 0) ? 'Partial credit without penalties for wrong answers is scored all or nothing' : null,
+  };
+}
+
+// Tags that only lay the text out; anything else is formatting that is lost
+const PLAIN_TAGS = ['p', 'br', 'div', 'span', 'img'];
+const BLOCK_TAGS = ['p', 'div', 'li', 'pre', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+// Plain text of HTML question text, with the sources of the images it shows
+export function htmlToText(html: string): { text: string; images: string[]; formatted: boolean } {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const elements = Array.from(body.querySelectorAll('*'));
+  const images = Array.from(body.querySelectorAll('img')).map(img => img.getAttribute('src') ?? '');
+  const formatted = elements.some(element => !PLAIN_TAGS.includes(element.localName));
+
+  body.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  elements
+    .filter(element => BLOCK_TAGS.includes(element.localName))
+    .forEach(element => element.append('\n'));
+
+  const text = (body.textContent ?? '')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { text, images, formatted };
+}
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const textToHtml = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // In chunks, so large images don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBlob(data: string, type: string): Blob {
+  const binary = atob(data.replace(/\s/g, ''));
+  return new Blob([Uint8Array.from(binary, char => char.charCodeAt(0))], { type });
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+export const imageType = (fileName: string) =>
+  IMAGE_TYPES[fileName.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+export const imageExtension = (blob: Blob) =>
+  Object.keys(IMAGE_TYPES).find(extension => IMAGE_TYPES[extension] === blob.type) ?? 'png';
+
+// "Chapter 5: Networks" -> "Chapter-5-Networks", keeping non-Latin letters
+export const exportFileName = (title: string, extension: string) =>
+  `${title.replace(/[\\/:*?"<>|]+/g, '').trim().replace(/\s+/g, '-') || 'quiz'}.${extension}`;
+
+export function downloadFile(file: Blob, fileName: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(file);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+async function fetchImage(url: string | null, attempts = 1): Promise<Blob | null> {
+  if (!url) return null;
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      return await response.blob();
+    } catch (error) {
+      // The question is still exported; formats report the missing image
+      console.error('Error downloading image:', error);
+    }
+  }
+  return null;
+}
+
+// A saved quiz with its questions and their images, ready to be written out.
+// A copy of the quiz needs every image, since it must not share the files of
+// the original; each is tried a few times before loading fails.
+export async function loadQuizFile(quizId: string, { forCopy = false } = {}): Promise<QuizFile> {
+  const [quizRes, questionsRes] = await Promise.all([
+    supabase
+      .from('quiz_sessions')
+      .select('title, description, duration_seconds, shuffle_questions, shuffle_answers, negative_marking, review_release, draw_count, section_draws')
+      .eq('id', quizId)
+      .single(),
+    supabase.from('questions').select('*, answers(*)').eq('quiz_session_id', quizId).order('order_index'),
+  ]);
+
+  if (quizRes.error) throw quizRes.error;
+  if (questionsRes.error) throw questionsRes.error;
+
+  const questions = await Promise.all(
+    (questionsRes.data || []).map(async (row, index) => {
+      const question = toEditorQuestion(row);
+      const attempts = forCopy ? 3 : 1;
+      const image = await fetchImage(question.image_url, attempts);
+      const explanationImage = await fetchImage(question.explanation_image_url, attempts);
+      if (forCopy && ((question.image_url && !image) || (question.explanation_image_url && !explanationImage))) {
+        throw new Error(`An image of question ${index + 1} could not be copied. Check your connection and try again.`);
+      }
+      return { question, image, explanationImage };
+    })
+  );
+
+  const { title, description, ...settings } = quizRes.data;
+  return {
+    title,
+    description,
+    settings,
+    questions,
+    report: [],
+  };
+}
+
+export interface ImportedQuizDetails {
+  teacherId: string;
+  title: string;
+  description: string | null;
+  groupIds: string[];
+  // ISO timestamp
+  deadline: string;
+  settings?: Partial<QuizSettings>;
+}
+
+// Creates a quiz session holding the imported questions and returns its id.
+// The session gets its own access code; if saving the questions fails the
+// session and its uploaded images are removed again.
+export async function createImportedQuiz(details: ImportedQuizDetails, questions: TransferQuestion[]): Promise<string> {
+  const { data: quiz, error: quizError } = await supabase.from('quiz_sessions').insert({
+    duration_seconds: 1800,
+    ...details.settings,
+    title: details.title,
+    description: details.description,
+    group_id: details.groupIds[0], // Keep for backward compatibility
+    deadline: details.deadline,
+    teacher_id: details.teacherId,
+    access_code: '', // Will be auto-generated
+  }).select('id').single();
+
+  if (quizError) throw quizError;
+
+  const uploaded: string[] = [];
+  const upload = async (image: Blob, name: string) => {
+    const url = await uploadQuestionImage(new File([image], name, { type: image.type }), quiz.id);
+    uploaded.push(url);
+    return url;
+  };
+
+  try {
+    const payload = [];
+    for (const [index, { question, image, explanationImage }] of questions.entries()) {
+      const imageUrl = image
+        ? await upload(image, `image-${index + 1}.${imageExtension(image)}`)
+        : question.image_url;
+      const explanationImageUrl = explanationImage
+        ? await upload(explanationImage, `explanation-${index + 1}.${imageExtension(explanationImage)}`)
+        : question.explanation_image_url;
+      payload.push({
+        ...questionPayload({ ...question, image_url: imageUrl, explanation_image_url: explanationImageUrl }),
+        id: null,
+        section: question.section?.trim() || null,
+        bank_question_id: null,
+      });
+    }
+
+    const { error: saveError } = await supabase.rpc('save_quiz', {
+      p_quiz_session_id: quiz.id,
+      p_title: details.title,
+      p_description: details.description,
+      p_group_ids: details.groupIds,
+      p_questions: payload,
+    });
+
+    if (saveError) throw saveError;
+  } catch (error) {
+    await supabase.from('quiz_sessions').delete().eq('id', quiz.id);
+    await Promise.all(uploaded.map(url => deleteQuestionImage(url)));
+    throw error;
+  }
+
+  return quiz.id;
+}
+
+// Removes a quiz made by createImportedQuiz along with its images
+async function removeImportedQuiz(quizId: string) {
+  const { data: questions } = await supabase
+    .from('questions')
+    .select('image_url, explanation_image_url')
+    .eq('quiz_session_id', quizId);
+
+  const { error } = await supabase.from('quiz_sessions').delete().eq('id', quizId);
+  if (error) throw error;
+
+  await Promise.all(
+    (questions || [])
+      .flatMap(q => [q.image_url, q.explanation_image_url])
+      .map(url => deleteQuestionImage(url))
+  );
+}
+
+// Creates a quiz for each set of details from the same questions. Either all
+// of them are created or, when one fails, those already made are removed again.
+export async function createImportedQuizzes(details: ImportedQuizDetails[], questions: TransferQuestion[]): Promise<string[]> {
+  const created: string[] = [];
+  try {
+    for (const quizDetails of details) {
+      created.push(await createImportedQuiz(quizDetails, questions));
+    }
+  } catch (error) {
+    const failed = (await Promise.allSettled(created.map(id => removeImportedQuiz(id))))
+      .filter((removal): removal is PromiseRejectedResult => removal.status === 'rejected');
+    if (failed.length === 0) throw error;
+    failed.forEach(removal => console.error('Error removing quiz copy:', removal.reason));
+    throw new Error(`${(error as Error).message}. ${failed.length} of the quizzes already created could not be removed again; delete them from the Quizzes page.`);
+  }
+  return created;
+}
@@ -0,0 +1,34 @@
+// Seeded shuffling, so a student's questions and answers come out in the same
+// order every time the attempt is loaded
+
+// Mixes a seed and a key (such as a question id) into a new 32-bit seed
+export function mixSeed(seed: number, key: string) {
+  let hash = seed ^ 0x9e3779b9;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small and fast, and plenty random for ordering a quiz
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates on a copy; items that are pinned keep their order at the end
+export function seededShuffle<T>(items: T[], seed: number, isPinned: (item: T) => boolean = () => false) {
+  const random = seededRandom(seed);
+  const shuffled = items.filter(item => !isPinned(item));
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return [...shuffled, ...items.filter(isPinned)];
+}
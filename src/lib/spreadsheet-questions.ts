@@ -0,0 +1,131 @@
+import { Answer, Question, questionProblem } from '@/lib/question-editor';
+import { DEFAULT_SHORT_ANSWER_SETTINGS, QUESTION_TYPE_OPTIONS, QuestionType, TRUE_FALSE_ANSWERS } from '@/lib/question-types';
+
+// Question spreadsheets: one question per row under a header row naming the
+// columns. Column names are matched without regard to case or spacing.
+export const SPREADSHEET_COLUMNS: { name: string; description: string }[] = [
+  { name: 'question', description: 'The question text (required)' },
+  { name: 'type', description: 'single, multiple, true_false or short_answer. When empty, the correct column decides between single and multiple.' },
+  { name: 'answer 1, answer 2, ...', description: 'The answers, one per column, as many as needed. Short answer questions list their accepted answers; True/False questions can leave them empty.' },
+  { name: 'correct', description: 'Numbers or letters of the correct answers, e.g. 2 or A, C. True/False questions can say True or False.' },
+  { name: 'points', description: 'Points for the question; 1 when empty' },
+  { name: 'explanation', description: 'Shown to students when they review their answers' },
+  { name: 'image', description: 'File name of an image chosen together with the spreadsheet' },
+];
+
+const IMPORTABLE_TYPES: QuestionType[] = ['single', 'multiple', 'true_false', 'short_answer'];
+
+export type SpreadsheetRow = {
+  // Row number in the spreadsheet, counted from 1 like spreadsheet programs do
+  row: number;
+  question: Question;
+  // Image file named in the image column
+  imageName: string | null;
+  errors: string[];
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/[\s/-]+/g, '_');
+
+// Type names as written in the type column: the value or the editor's label
+const parseType = (text: string): QuestionType | null | undefined => {
+  if (!text.trim()) return undefined;
+  const name = normalize(text);
+  const option = QUESTION_TYPE_OPTIONS.find(o => o.value === name || normalize(o.label) === name);
+  return option && IMPORTABLE_TYPES.includes(option.value) ? option.value : null;
+};
+
+// "A, C" or "1;3" -> [0, 2]; NaN marks a marker that is neither
+const parseCorrect = (text: string) =>
+  text
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(marker => (/^\d+$/.test(marker) ? Number(marker) - 1 : /^[a-z]$/i.test(marker) ? marker.toUpperCase().charCodeAt(0) - 65 : NaN));
+
+export function spreadsheetQuestions(rows: string[][]): SpreadsheetRow[] {
+  const [header = [], ...body] = rows;
+  const columns = header.map(normalize);
+  const column = (name: string) => columns.indexOf(name);
+  const answerColumns = columns
+    .map((name, index) => ({ number: Number(name.match(/^answer_?(\d+)$/)?.[1]), index }))
+    .filter(c => c.number > 0)
+    .sort((a, b) => a.number - b.number)
+    .map(c => c.index);
+
+  if (column('question') < 0) {
+    throw new Error('The first row needs a "question" column');
+  }
+
+  const cell = (row: string[], name: string) => (column(name) >= 0 ? (row[column(name)] ?? '').trim() : '');
+
+  return body
+    .map((cells, index) => ({ cells, row: index + 2 }))
+    .filter(({ cells }) => cells.some(c => c.trim()))
+    .map(({ cells, row }) => {
+      const errors: string[] = [];
+      // Empty answer cells are kept until the correct markers are matched up
+      const answerTexts = answerColumns.map(index => (cells[index] ?? '').trim());
+      const correctText = cell(cells, 'correct');
+      const typeText = cell(cells, 'type');
+
+      let type = parseType(typeText);
+      if (type === null) {
+        errors.push(`Unknown type "${typeText}"`);
+      }
+      const trueFalseMarker = ['true', 'false'].includes(correctText.toLowerCase());
+      if (!type) {
+        type = trueFalseMarker ? 'true_false' : parseCorrect(correctText).length > 1 ? 'multiple' : 'single';
+      }
+
+      let answers: Answer[];
+      if (type === 'short_answer') {
+        // Every accepted answer counts as correct
+        answers = answerTexts.filter(Boolean).map((answer_text, i) => ({ answer_text, is_correct: true, order_index: i }));
+      } else {
+        const texts = type === 'true_false' ? TRUE_FALSE_ANSWERS.map(a => a.answer_text) : answerTexts;
+        const correct = trueFalseMarker && type === 'true_false'
+          ? [correctText.toLowerCase() === 'true' ? 0 : 1]
+          : parseCorrect(correctText);
+
+        if (correct.some(index => Number.isNaN(index))) {
+          errors.push(`Correct answers "${correctText}" should be numbers or letters`);
+        } else if (correct.some(index => !texts[index])) {
+          errors.push(`Correct answers "${correctText}" refer to an answer that is not there`);
+        }
+        if (type === 'single' || type === 'true_false') {
+          if (correct.length > 1) errors.push('Only one answer can be correct');
+        }
+        answers = texts
+          .map((answer_text, i) => ({ answer_text, is_correct: correct.includes(i) }))
+          .filter(a => a.answer_text)
+          .map((a, i) => ({ ...a, order_index: i }));
+      }
+
+      const pointsText = cell(cells, 'points');
+      const points = pointsText ? Number(pointsText.replace(',', '.')) : 1;
+      if (Number.isNaN(points)) {
+        errors.push(`Points "${pointsText}" should be a number`);
+      }
+
+      const question: Question = {
+        question_text: cell(cells, 'question'),
+        question_type: type,
+        image_url: null,
+        time_limit: null,
+        points: Number.isNaN(points) ? 1 : points,
+        settings: type === 'short_answer' ? { ...DEFAULT_SHORT_ANSWER_SETTINGS } : {},
+        code: null,
+        code_language: null,
+        explanation: cell(cells, 'explanation') || null,
+        explanation_image_url: null,
+        section: null,
+        bank_question_id: null,
+        order_index: 0,
+        answers,
+      };
+
+      const problem = questionProblem(question);
+      if (problem) errors.push(`Question ${problem}`);
+
+      return { row, question, imageName: cell(cells, 'image') || null, errors };
+    });
+}
@@ -0,0 +1,145 @@
+import { readZip } from '@/lib/zip';
+
+// Reads the rows of a CSV file or of the first worksheet of an XLSX workbook
+// as text cells. Rows are as long as their last filled cell.
+
+// CSV as Excel and Google Sheets write it: quoted cells can hold the
+// delimiter, line breaks and "" for a quote. Excel uses ; where the decimal
+// separator is a comma, so the delimiter is taken from the first line.
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell]);
+
+  return rows;
+}
+
+const elements = (parent: Document | Element, name: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+// Text of a shared or inline string; phonetic runs (<rPh>) are not part of it
+const stringText = (item: Element) =>
+  elements(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+
+// "BC12" -> 54 (columns counted from 0)
+const columnIndex = (reference: string) =>
+  reference
+    .replace(/\d+$/, '')
+    .toUpperCase()
+    .split('')
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+export async function readXlsx(data: ArrayBuffer): Promise<string[][]> {
+  const files = await readZip(data);
+  const decoder = new TextDecoder();
+  const parser = new DOMParser();
+  const xml = (path: string) => {
+    const file = files.get(path);
+    return file ? parser.parseFromString(decoder.decode(file), 'application/xml') : null;
+  };
+
+  const workbook = xml('xl/workbook.xml');
+  const relationships = xml('xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) throw new Error('The file is not an Excel workbook');
+
+  // The first sheet tab, found through the workbook's relationships
+  const sheetId = elements(workbook, 'sheet')[0]?.getAttributeNS(
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    'id'
+  );
+  const target = elements(relationships, 'Relationship')
+    .find(r => r.getAttribute('Id') === sheetId)
+    ?.getAttribute('Target');
+  if (!target) throw new Error('The workbook has no worksheets');
+  const sheet = xml(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  if (!sheet) throw new Error('The workbook has no worksheets');
+
+  const sharedStringsXml = xml('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? elements(sharedStringsXml, 'si').map(stringText) : [];
+
+  const rows: string[][] = [];
+  for (const rowElement of elements(sheet, 'row')) {
+    // Empty rows are not written, so the row number places the row
+    const rowIndex = Number(rowElement.getAttribute('r') ?? rows.length + 1) - 1;
+    const row: string[] = [];
+
+    elements(rowElement, 'c').forEach((cellElement, position) => {
+      const reference = cellElement.getAttribute('r');
+      const value = elements(cellElement, 'v')[0]?.textContent ?? '';
+      let text: string;
+      switch (cellElement.getAttribute('t')) {
+        case 's':
+          text = sharedStrings[Number(value)] ?? '';
+          break;
+        case 'inlineStr':
+          text = elements(cellElement, 'is')[0] ? stringText(elements(cellElement, 'is')[0]) : '';
+          break;
+        case 'b':
+          text = value === '1' ? 'TRUE' : 'FALSE';
+          break;
+        default:
+          text = value;
+      }
+      row[reference ? columnIndex(reference) : position] = text;
+    });
+
+    rows[rowIndex] = Array.from(row, cell => cell ?? '');
+  }
+
+  return Array.from(rows, row => row ?? []);
+}
+
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsx(await file.arrayBuffer());
+  }
+  if (!/\.(csv|txt)$/i.test(file.name)) {
+    throw new Error('Choose a .csv or .xlsx file');
+  }
+
+  // The decoder drops a byte order mark
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(await file.arrayBuffer());
+  } catch {
+    // Sinhala text only survives in UTF-8
+    throw new Error('The CSV file is not UTF-8. In Excel, save it as "CSV UTF-8".');
+  }
+  return parseCsv(text);
+}
@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Scores can be fractional when questions give partial credit
+export function formatScore(score: number) {
+  return String(Math.round(score * 100) / 100);
+}
+
+export function percentageColor(percentage: number) {
+  if (percentage >= 80) return "text-quiz-green";
+  if (percentage >= 60) return "text-quiz-blue";
+  if (percentage >= 40) return "text-quiz-yellow";
+  return "text-destructive";
+}
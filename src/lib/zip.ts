@@ -0,0 +1,144 @@
+// Minimal zip support for the file formats quizzes are imported from and
+// exported to (XLSX workbooks and QTI packages are zip files). Reading handles
+// stored and deflated entries, which is all spreadsheet programs write;
+// writing only stores. Zip64 archives are not supported.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Every file in the archive by its path; folders are left out
+export async function readZip(data: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the end, before a comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The file is not a zip archive');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('The zip archive is damaged');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error('The zip archive is damaged');
+    }
+
+    // The local header can have a different extra field than the central one
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const content = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, content);
+    } else if (method === 8) {
+      files.set(name, await inflateRaw(content));
+    } else {
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+  }
+
+  return files;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Entries are stored uncompressed: packages are mostly images, which are
+// compressed already
+export function writeZip(files: { name: string; data: Uint8Array }[]): Blob {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    // The local header and the central directory entry share most fields
+    const header = (signature: number, size: number) => {
+      const bytes = new Uint8Array(size + name.length);
+      const view = new DataView(bytes.buffer);
+      view.setUint32(0, signature, true);
+      return { bytes, view };
+    };
+
+    const local = header(LOCAL_FILE_HEADER, 30);
+    local.view.setUint16(4, 20, true); // Version needed to extract
+    local.view.setUint16(6, 0x0800, true); // Names are UTF-8
+    local.view.setUint16(10, time, true);
+    local.view.setUint16(12, date, true);
+    local.view.setUint32(14, crc, true);
+    local.view.setUint32(18, file.data.length, true);
+    local.view.setUint32(22, file.data.length, true);
+    local.view.setUint16(26, name.length, true);
+    local.bytes.set(name, 30);
+
+    const entry = header(CENTRAL_DIRECTORY_ENTRY, 46);
+    entry.view.setUint16(4, 20, true); // Version made by
+    entry.view.setUint16(6, 20, true);
+    entry.view.setUint16(8, 0x0800, true);
+    entry.view.setUint16(12, time, true);
+    entry.view.setUint16(14, date, true);
+    entry.view.setUint32(16, crc, true);
+    entry.view.setUint32(20, file.data.length, true);
+    entry.view.setUint32(24, file.data.length, true);
+    entry.view.setUint16(28, name.length, true);
+    entry.view.setUint32(42, offset, true);
+    entry.bytes.set(name, 46);
+
+    parts.push(local.bytes, file.data);
+    central.push(entry.bytes);
+    offset += local.bytes.length + file.data.length;
+  }
+
+  const centralSize = central.reduce((size, entry) => size + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+}
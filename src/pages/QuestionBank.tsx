@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import DashboardLayout from '@/components/dashboard/DashboardLayout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import {
+  BankDetails,
+  BankFilters,
+  BankQuestion,
+  EMPTY_BANK_FILTERS,
+  bankDetailsFrom,
+  bankDetailsToRow,
+  bankFacets,
+  matchesBankFilters,
+} from '@/lib/question-bank';
+import { deleteQuestionImage } from '@/lib/question-images';
+import { toast } from 'sonner';
+import { Library, Tags, Trash2 } from 'lucide-react';
+import BankFilterBar from '@/components/bank/BankFilterBar';
+import BankDetailsFields from '@/components/bank/BankDetailsFields';
+import BankQuestionSummary from '@/components/bank/BankQuestionSummary';
+
+export default function QuestionBank() {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  // Quizzes with a copy of each bank question
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<BankFilters>(EMPTY_BANK_FILTERS);
+  const [editing, setEditing] = useState<{ id: string; details: BankDetails } | null>(null);
+  const [savingDetails, setSavingDetails] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadBank();
+    }
+  }, [user]);
+
+  const loadBank = async () => {
+    if (!user) return;
+
+    try {
+      const { data: bankData, error: bankError } = await supabase
+        .from('bank_questions')
+        .select('*, bank_answers(*)')
+        .eq('teacher_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (bankError) throw bankError;
+
+      const { data: copies, error: copiesError } = await supabase
+        .from('questions')
+        .select('bank_question_id, quiz_session_id, quiz_sessions!inner(teacher_id)')
+        .eq('quiz_sessions.teacher_id', user.id)
+        .not('bank_question_id', 'is', null);
+
+      if (copiesError) throw copiesError;
+
+      const quizzesByQuestion: Record<string, Set<string>> = {};
+      for (const copy of copies || []) {
+        if (!copy.bank_question_id) continue;
+        (quizzesByQuestion[copy.bank_question_id] ??= new Set()).add(copy.quiz_session_id);
+      }
+
+      setQuestions(bankData || []);
+      setUsage(Object.fromEntries(Object.entries(quizzesByQuestion).map(([id, quizzes]) => [id, quizzes.size])));
+    } catch (error) {
+      console.error('Error loading question bank:', error);
+      toast.error('Failed to load question bank');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveDetails = async () => {
+    if (!editing) return;
+
+    setSavingDetails(true);
+    try {
+      const row = bankDetailsToRow(editing.details);
+      const { error } = await supabase
+        .from('bank_questions')
+        .update({ ...row, updated_at: new Date().toISOString() })
+        .eq('id', editing.id);
+
+      if (error) throw error;
+
+      setQuestions(prev => prev.map(q => (q.id === editing.id ? { ...q, ...row } : q)));
+      setEditing(null);
+      toast.success('Question updated');
+    } catch (error) {
+      console.error('Error updating bank question:', error);
+      toast.error('Failed to update question');
+    } finally {
+      setSavingDetails(false);
+    }
+  };
+
+  const deleteQuestion = async (question: BankQuestion) => {
+    const used = usage[question.id] ?? 0;
+    const message = used > 0
+      ? `Delete this question from the bank? The ${used === 1 ? 'quiz' : `${used} quizzes`} using it keep their copies.`
+      : 'Delete this question from the bank?';
+    if (!confirm(message)) return;
+
+    try {
+      const { error } = await supabase.from('bank_questions').delete().eq('id', question.id);
+      if (error) throw error;
+
+      // Images shared with quiz copies stay until those are gone too
+      await deleteQuestionImage(question.image_url);
+      await deleteQuestionImage(question.explanation_image_url);
+
+      setQuestions(prev => prev.filter(q => q.id !== question.id));
+      toast.success('Question deleted');
+    } catch (error) {
+      console.error('Error deleting bank question:', error);
+      toast.error('Failed to delete question');
+    }
+  };
+
+  const facets = bankFacets(questions);
+  const shown = questions.filter(q => matchesBankFilters(q, filters));
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold">Question Bank</h1>
+          <p className="text-muted-foreground">Reuse your questions across quizzes</p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12 text-muted-foreground">Loading...</div>
+        ) : questions.length === 0 ? (
+          <Card className="card-elevated">
+            <CardContent className="py-12 text-center">
+              <Library className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No questions yet</h3>
+              <p className="text-muted-foreground">
+                Use "Save to Bank" on a question in the quiz editor to keep it here
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <BankFilterBar filters={filters} onChange={setFilters} facets={facets} />
+            <p className="text-sm text-muted-foreground">
+              {shown.length === questions.length
+                ? `${questions.length} ${questions.length === 1 ? 'question' : 'questions'}`
+                : `${shown.length} of ${questions.length} questions`}
+            </p>
+
+            <div className="space-y-3">
+              {shown.map(question => (
+                <Card key={question.id} className="card-elevated">
+                  <CardContent className="flex items-start justify-between gap-4 py-4">
+                    <div className="min-w-0 space-y-1">
+                      <BankQuestionSummary question={question} />
+                      <p className="text-xs text-muted-foreground">
+                        {usage[question.id]
+                          ? `Used in ${usage[question.id] === 1 ? '1 quiz' : `${usage[question.id]} quizzes`}`
+                          : 'Not used in a quiz'}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Edit topic and tags"
+                        onClick={() => setEditing({ id: question.id, details: bankDetailsFrom(question) })}
+                      >
+                        <Tags className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:bg-destructive/10"
+                        onClick={() => deleteQuestion(question)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Topic and Tags</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <BankDetailsFields
+              details={editing.details}
+              onChange={(details) => setEditing({ ...editing, details })}
+              facets={facets}
+            />
+          )}
+          <DialogFooter>
+            <Button className="gradient-primary" onClick={saveDetails} disabled={savingDetails}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
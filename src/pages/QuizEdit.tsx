@@ -6,36 +6,102 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Switch } from '@/components/ui/switch';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth-context';
+import {
+  DEFAULT_NUMERIC_SETTINGS,
+  DEFAULT_SHORT_ANSWER_SETTINGS,
+  HotspotRegion,
+  MULTIPLE_SCORING_OPTIONS,
+  MultipleScoring,
+  NUMBER_BASES,
+  NumberBase,
+  QuestionSettings,
+  QUESTION_TYPE_OPTIONS,
+  QuestionType,
+  TRUE_FALSE_ANSWERS,
+  isSingleChoice,
+  isTextResponse,
+  parseClozeBlanks,
+} from '@/lib/question-types';
 import { toast } from 'sonner';
-import { Plus, Trash2, ArrowLeft, Image, GripVertical, Check, Loader2 } from 'lucide-react';
-import imageCompression from 'browser-image-compression';
-
-interface Answer {
-  id?: string;
-  answer_text: string;
-  is_correct: boolean;
-  order_index: number;
-}
-
-interface Question {
-  id?: string;
-  question_text: string;
-  question_type: 'single' | 'multiple';
-  image_url: string | null;
-  order_index: number;
-  answers: Answer[];
-}
+import { Plus, Trash2, ArrowLeft, ArrowRight, ArrowUp, ArrowDown, Image, GripVertical, Check, Loader2, Timer, AlertTriangle, Code, Lightbulb, Pin, Library, FileSpreadsheet } from 'lucide-react';
+import HotspotRegionEditor from '@/components/quiz/HotspotRegionEditor';
+import CodeBlock from '@/components/quiz/CodeBlock';
+import MathText from '@/components/MathText';
+import QuestionPoolEditor from '@/components/quiz/QuestionPoolEditor';
+import BankPicker from '@/components/bank/BankPicker';
+import BankDetailsFields from '@/components/bank/BankDetailsFields';
+import SpreadsheetImportDialog, { ImportMode } from '@/components/quiz/SpreadsheetImportDialog';
+import { CODE_LANGUAGES, CodeLanguage } from '@/lib/code-highlight';
+import { hasMath } from '@/lib/math-notation';
+import { Answer, Question, questionPayload, questionProblem, toEditorQuestion } from '@/lib/question-editor';
+import { QuestionPool, poolFromQuiz, poolSize, poolToQuiz } from '@/lib/question-pool';
+import { BankDetails, BankQuestion, EMPTY_BANK_DETAILS, BankFacets, bankDetailsFrom, bankDetailsToRow, bankFacets } from '@/lib/question-bank';
+import { compressQuestionImage, deleteQuestionImage, storeQuestionImage } from '@/lib/question-images';
+
+type ImageField = 'image_url' | 'explanation_image_url';
 
 interface Group {
   id: string;
   name: string;
 }
 
+interface SaveQuizResult {
+  changed_question_ids: string[];
+  removed_answered_questions: number;
+}
+
+interface RegradePrompt {
+  changedQuestions: number[];
+  removedCount: number;
+}
+
+// Per-question time limits in seconds; null means the question has no limit
+const TIME_LIMIT_OPTIONS = [10, 20, 30, 45, 60, 90, 120];
+
+const MATCH_MODE_OPTIONS: { value: NonNullable<QuestionSettings['match']>; label: string }[] = [
+  { value: 'exact', label: 'Exact match' },
+  { value: 'fuzzy', label: 'Allow typos' },
+  { value: 'regex', label: 'Regular expression' },
+];
+
+const blankAnswers = (count: number): Answer[] =>
+  Array.from({ length: count }, (_, i) => ({ answer_text: '', is_correct: false, order_index: i }));
+
+// A new quiz question copied from the bank; it shares the bank question's images
+const fromBankQuestion = (bq: BankQuestion, orderIndex: number): Question => ({
+  question_text: bq.question_text,
+  question_type: bq.question_type,
+  image_url: bq.image_url,
+  time_limit: bq.time_limit,
+  points: Number(bq.points),
+  settings: (bq.settings || {}) as QuestionSettings,
+  code: bq.code,
+  code_language: bq.code_language as CodeLanguage | null,
+  explanation: bq.explanation,
+  explanation_image_url: bq.explanation_image_url,
+  section: null,
+  bank_question_id: bq.id,
+  order_index: orderIndex,
+  answers: [...bq.bank_answers]
+    .sort((a, b) => a.order_index - b.order_index)
+    .map(a => ({
+      answer_text: a.answer_text,
+      match_text: a.match_text,
+      blank_index: a.blank_index,
+      region: a.region as HotspotRegion | null,
+      pinned: a.pinned,
+      is_correct: a.is_correct,
+      order_index: a.order_index,
+    })),
+});
+
 export default function QuizEdit() {
   const { quizId } = useParams();
   const navigate = useNavigate();
@@ -45,9 +111,16 @@ export default function QuizEdit() {
   const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
   const [availableGroups, setAvailableGroups] = useState<Group[]>([]);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [pool, setPool] = useState<QuestionPool>(poolFromQuiz(null, null));
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [uploadingImage, setUploadingImage] = useState<number | null>(null);
+  const [uploadingImage, setUploadingImage] = useState<{ index: number; field: ImageField } | null>(null);
+  const [regradePrompt, setRegradePrompt] = useState<RegradePrompt | null>(null);
+  const [regrading, setRegrading] = useState(false);
+  const [bankPickerOpen, setBankPickerOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [bankSave, setBankSave] = useState<{ index: number; details: BankDetails; facets: BankFacets } | null>(null);
+  const [savingToBank, setSavingToBank] = useState(false);
 
   useEffect(() => {
     if (quizId && user) {
@@ -67,13 +140,14 @@ export default function QuizEdit() {
       // Load quiz metadata
       const { data: quiz, error: quizError } = await supabase
         .from('quiz_sessions')
-        .select('title, description')
+        .select('title, description, draw_count, section_draws')
         .eq('id', quizId)
         .single();
 
       if (quizError) throw quizError;
       setQuizTitle(quiz.title || '');
       setQuizDescription(quiz.description || '');
+      setPool(poolFromQuiz(quiz.draw_count, quiz.section_draws as Record<string, number>));
 
       // Load available groups
       const { data: groupsData, error: groupsError } = await supabase
@@ -103,23 +177,7 @@ export default function QuizEdit() {
 
       if (questionsError) throw questionsError;
 
-      const formattedQuestions = (questionsData || []).map((q: any) => ({
-        id: q.id,
-        question_text: q.question_text,
-        question_type: q.question_type as 'single' | 'multiple',
-        image_url: q.image_url,
-        order_index: q.order_index,
-        answers: (q.answers || [])
-          .sort((a: any, b: any) => a.order_index - b.order_index)
-          .map((a: any) => ({
-            id: a.id,
-            answer_text: a.answer_text,
-            is_correct: a.is_correct,
-            order_index: a.order_index,
-          })),
-      }));
-
-      setQuestions(formattedQuestions);
+      setQuestions((questionsData || []).map(toEditorQuestion));
     } catch (error: any) {
       console.error('Error loading quiz:', error);
       toast.error(error.message || 'Failed to load quiz');
@@ -133,57 +191,110 @@ export default function QuizEdit() {
       question_text: '',
       question_type: 'single',
       image_url: null,
+      time_limit: null,
+      points: 1,
+      settings: {},
+      code: null,
+      code_language: null,
+      explanation: null,
+      explanation_image_url: null,
+      section: null,
+      bank_question_id: null,
       order_index: questions.length,
-      answers: [
-        { answer_text: '', is_correct: false, order_index: 0 },
-        { answer_text: '', is_correct: false, order_index: 1 },
-        { answer_text: '', is_correct: false, order_index: 2 },
-        { answer_text: '', is_correct: false, order_index: 3 },
-      ],
+      answers: blankAnswers(4),
     };
     setQuestions([...questions, newQuestion]);
   };
 
-  // Helper function to extract file path from Supabase storage URL
-  const extractFilePathFromUrl = (url: string | null): string | null => {
-    if (!url) return null;
+  const addFromBank = (bankQuestions: BankQuestion[]) => {
+    setQuestions([
+      ...questions,
+      ...bankQuestions.map((bq, i) => fromBankQuestion(bq, questions.length + i)),
+    ]);
+    if (bankQuestions.length > 0) {
+      toast.success(bankQuestions.length === 1 ? '1 question added' : `${bankQuestions.length} questions added`);
+    }
+  };
+
+  const importQuestions = async (imported: Question[], mode: ImportMode) => {
+    const kept = mode === 'replace' ? [] : questions;
+    if (mode === 'replace') {
+      // Same as removing each question; images of saved ones go when the quiz is saved
+      for (const q of questions) {
+        await deleteQuestionImage(q.image_url);
+        await deleteQuestionImage(q.explanation_image_url);
+      }
+    }
+    setQuestions([...kept, ...imported.map((q, i) => ({ ...q, order_index: kept.length + i }))]);
+  };
+
+  const openBankSave = async (index: number) => {
+    if (!user) return;
+
     try {
-      // Supabase storage URL format: https://[project].supabase.co/storage/v1/object/public/question-images/[path]
-      const match = url.match(/question-images\/(.+)$/);
-      return match ? match[1] : null;
+      const { data: filed, error } = await supabase
+        .from('bank_questions')
+        .select('id, topic, grade, difficulty, tags')
+        .eq('teacher_id', user.id);
+
+      if (error) throw error;
+
+      // A question that came from the bank keeps how it was filed there
+      const linked = filed?.find(b => b.id === questions[index].bank_question_id);
+      setBankSave({
+        index,
+        details: linked ? bankDetailsFrom(linked) : EMPTY_BANK_DETAILS,
+        facets: bankFacets(filed || []),
+      });
     } catch (error) {
-      console.error('Error extracting file path from URL:', error);
-      return null;
+      console.error('Error loading question bank:', error);
+      toast.error('Failed to load question bank');
     }
   };
 
-  // Helper function to delete image from storage
-  const deleteImageFromStorage = async (imageUrl: string | null): Promise<void> => {
-    if (!imageUrl) return;
-    
-    const filePath = extractFilePathFromUrl(imageUrl);
-    if (!filePath) return;
+  // Saves the question to the bank, replacing the bank question it is linked
+  // to unless asNew is set
+  const saveToBank = async (asNew: boolean) => {
+    if (!bankSave) return;
+    const question = questions[bankSave.index];
 
-    try {
-      const { error } = await supabase.storage
-        .from('question-images')
-        .remove([filePath]);
+    if (!question.question_text.trim()) {
+      toast.error('Enter the question text before saving it to the bank');
+      return;
+    }
 
-      if (error) {
-        console.error('Error deleting image from storage:', error);
-        // Don't throw - we don't want to block the operation if image deletion fails
-      }
+    setSavingToBank(true);
+    try {
+      const { data: bankQuestionId, error } = await supabase.rpc('save_bank_question', {
+        p_question: {
+          ...questionPayload(question),
+          ...bankDetailsToRow(bankSave.details),
+          id: asNew ? null : question.bank_question_id,
+        },
+      });
+
+      if (error) throw error;
+
+      updateQuestion(bankSave.index, { bank_question_id: bankQuestionId });
+      toast.success(asNew || !question.bank_question_id ? 'Saved to question bank' : 'Question bank updated');
+      setBankSave(null);
     } catch (error) {
-      console.error('Error deleting image from storage:', error);
+      console.error('Error saving to question bank:', error);
+      toast.error('Failed to save to question bank');
+    } finally {
+      setSavingToBank(false);
     }
   };
 
   const removeQuestion = async (index: number) => {
     const questionToRemove = questions[index];
     
-    // Delete image from storage if it exists
+    // Delete images from storage if they exist
     if (questionToRemove.image_url) {
-      await deleteImageFromStorage(questionToRemove.image_url);
+      await deleteQuestionImage(questionToRemove.image_url);
+    }
+    if (questionToRemove.explanation_image_url) {
+      await deleteQuestionImage(questionToRemove.explanation_image_url);
     }
     
     // Remove question from state
@@ -196,12 +307,111 @@ export default function QuizEdit() {
     setQuestions(updated);
   };
 
+  const changeQuestionType = (index: number, questionType: QuestionType) => {
+    const question = questions[index];
+    if (question.question_type === questionType) return;
+
+    let answers = question.answers;
+    let settings: QuestionSettings = {};
+    if (questionType === 'true_false') {
+      answers = TRUE_FALSE_ANSWERS.map((a, i) => ({
+        answer_text: a.answer_text,
+        is_correct: false,
+        order_index: i,
+      }));
+    } else if (questionType === 'short_answer') {
+      // Every accepted answer counts as correct
+      answers = [{ answer_text: '', is_correct: true, order_index: 0 }];
+      settings = { ...DEFAULT_SHORT_ANSWER_SETTINGS };
+    } else if (questionType === 'ordering') {
+      // Every item is part of the answer; its position is the correct order
+      answers = blankAnswers(4).map(a => ({ ...a, is_correct: true }));
+      settings = { partial_credit: false };
+    } else if (questionType === 'matching') {
+      // Pairs are correct answers; distractors are added separately
+      answers = blankAnswers(3).map(a => ({ ...a, match_text: '', is_correct: true }));
+      settings = { partial_credit: false };
+    } else if (questionType === 'numeric') {
+      // The single answer holds the correct value
+      answers = [{ answer_text: '', is_correct: true, order_index: 0 }];
+      settings = { ...DEFAULT_NUMERIC_SETTINGS };
+    } else if (questionType === 'cloze') {
+      // Accepted answers live in the question text; answers only hold dropdown options
+      answers = [];
+      settings = { partial_credit: true, case_sensitive: false };
+    } else if (questionType === 'hotspot') {
+      // Each correct region is drawn on the image as its own answer
+      answers = [];
+    } else if (question.question_type === 'true_false') {
+      // Keep True/False as the first two choices and add blanks for the rest
+      answers = [
+        ...answers,
+        { answer_text: '', is_correct: false, order_index: 2 },
+        { answer_text: '', is_correct: false, order_index: 3 },
+      ];
+    } else if (isTextResponse(question.question_type) || ['matching', 'cloze', 'hotspot'].includes(question.question_type)) {
+      answers = blankAnswers(4);
+    } else if (question.question_type === 'ordering') {
+      answers = answers.map(a => ({ ...a, is_correct: false }));
+    }
+
+    updateQuestion(index, { question_type: questionType, answers, settings });
+  };
+
+  const updateSettings = (index: number, updates: QuestionSettings) => {
+    updateQuestion(index, { settings: { ...questions[index].settings, ...updates } });
+  };
+
+  const addAcceptedAnswer = (index: number) => {
+    const answers = questions[index].answers;
+    updateQuestion(index, {
+      answers: [...answers, { answer_text: '', is_correct: true, order_index: answers.length }],
+    });
+  };
+
+  const removeAcceptedAnswer = (qIndex: number, aIndex: number) => {
+    updateQuestion(qIndex, {
+      answers: questions[qIndex].answers.filter((_, i) => i !== aIndex),
+    });
+  };
+
+  const addMatchingItem = (index: number, isPair: boolean) => {
+    const answers = questions[index].answers;
+    updateQuestion(index, {
+      answers: [...answers, { answer_text: '', match_text: '', is_correct: isPair, order_index: answers.length }],
+    });
+  };
+
+  const addHotspotRegion = (index: number, region: HotspotRegion) => {
+    const answers = questions[index].answers;
+    updateQuestion(index, {
+      answers: [
+        ...answers,
+        { answer_text: `Region ${answers.length + 1}`, region, is_correct: true, order_index: answers.length },
+      ],
+    });
+  };
+
+  const addClozeOption = (index: number, blankIndex: number) => {
+    const answers = questions[index].answers;
+    updateQuestion(index, {
+      answers: [...answers, { answer_text: '', blank_index: blankIndex, is_correct: false, order_index: answers.length }],
+    });
+  };
+
+  const moveOrderingItem = (qIndex: number, from: number, to: number) => {
+    const answers = [...questions[qIndex].answers];
+    const [moved] = answers.splice(from, 1);
+    answers.splice(to, 0, moved);
+    updateQuestion(qIndex, { answers: answers.map((a, i) => ({ ...a, order_index: i })) });
+  };
+
   const updateAnswer = (qIndex: number, aIndex: number, updates: Partial<Answer>) => {
     const updated = [...questions];
     updated[qIndex].answers[aIndex] = { ...updated[qIndex].answers[aIndex], ...updates };
     
     // For single answer questions, uncheck others when one is selected
-    if (updates.is_correct && updated[qIndex].question_type === 'single') {
+    if (updates.is_correct && isSingleChoice(updated[qIndex].question_type)) {
       updated[qIndex].answers = updated[qIndex].answers.map((a, i) => ({
         ...a,
         is_correct: i === aIndex,
@@ -211,8 +421,11 @@ export default function QuizEdit() {
     setQuestions(updated);
   };
 
-  const handleImageUpload = async (qIndex: number, file: File) => {
-    setUploadingImage(qIndex);
+  const isUploading = (index: number, field: ImageField = 'image_url') =>
+    uploadingImage?.index === index && uploadingImage.field === field;
+
+  const handleImageUpload = async (qIndex: number, file: File, field: ImageField = 'image_url') => {
+    setUploadingImage({ index: qIndex, field });
     
     try {
       // Check file size before compression (show warning if too large)
@@ -221,21 +434,10 @@ export default function QuizEdit() {
         toast.warning('Large image detected. Compressing...');
       }
 
-      // Compression options
-      const options = {
-        maxSizeMB: 1, // Maximum file size in MB (after compression)
-        maxWidthOrHeight: 1920, // Maximum width or height in pixels
-        useWebWorker: true, // Use web worker for better performance
-        fileType: file.type === 'image/png' 
-          ? 'image/png' // Keep PNG for transparency
-          : 'image/jpeg', // Convert to JPEG for better compression
-        initialQuality: 0.8, // 80% quality (good balance between size and quality)
-      };
-
       // Compress the image
       let compressedFile: File;
       try {
-        compressedFile = await imageCompression(file, options);
+        compressedFile = await compressQuestionImage(file);
         
         // Show compression stats
         const originalSizeMB = (file.size / (1024 * 1024)).toFixed(2);
@@ -252,24 +454,10 @@ export default function QuizEdit() {
         toast.warning('Could not compress image, uploading original');
       }
 
-      // Determine file extension based on compressed file type
-      const fileExt = compressedFile.type.includes('png') ? 'png' : 'jpg';
-      const fileName = `${quizId}/${Date.now()}.${fileExt}`;
-      
       // Upload compressed image
-      const { error: uploadError } = await supabase.storage
-        .from('question-images')
-        .upload(fileName, compressedFile, {
-          contentType: compressedFile.type,
-        });
-
-      if (uploadError) throw uploadError;
+      const publicUrl = await storeQuestionImage(compressedFile, quizId);
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('question-images')
-        .getPublicUrl(fileName);
-
-      updateQuestion(qIndex, { image_url: publicUrl });
+      updateQuestion(qIndex, { [field]: publicUrl });
       toast.success('Image uploaded successfully!');
     } catch (error: any) {
       console.error('Error uploading image:', error);
@@ -279,6 +467,18 @@ export default function QuizEdit() {
     }
   };
 
+  // How many questions each section has, for drawing from the pool
+  const sections = questions.reduce<{ section: string; count: number }[]>((list, q) => {
+    const section = q.section?.trim() ?? '';
+    const entry = list.find(e => e.section === section);
+    if (entry) {
+      entry.count++;
+    } else {
+      list.push({ section, count: 1 });
+    }
+    return list;
+  }, []);
+
   const saveQuiz = async () => {
     // Validate quiz metadata
     if (!quizTitle.trim()) {
@@ -293,70 +493,68 @@ export default function QuizEdit() {
 
     // Validate questions
     for (let i = 0; i < questions.length; i++) {
-      const q = questions[i];
-      if (!q.question_text.trim()) {
-        toast.error(`Question ${i + 1} is empty`);
+      const problem = questionProblem(questions[i]);
+      if (problem) {
+        toast.error(`Question ${i + 1} ${problem}`);
         return;
       }
-      if (q.answers.filter(a => a.answer_text.trim()).length < 2) {
-        toast.error(`Question ${i + 1} needs at least 2 answers`);
+    }
+
+    if (pool.mode === 'count' && !(pool.draw_count && pool.draw_count <= questions.length)) {
+      toast.error(`Questions per student must be between 1 and ${questions.length}`);
+      return;
+    }
+    if (pool.mode === 'sections') {
+      if (poolSize(pool, questions.length) === 0) {
+        toast.error('Draw at least one question from a section');
         return;
       }
-      if (!q.answers.some(a => a.is_correct)) {
-        toast.error(`Question ${i + 1} needs at least one correct answer`);
+      const overdrawn = sections.find(({ section, count }) => (pool.section_draws[section] ?? 0) > count);
+      if (overdrawn) {
+        toast.error(`${overdrawn.section || 'No section'} only has ${overdrawn.count} questions`);
         return;
       }
     }
 
     setSaving(true);
     try {
-      // Update quiz metadata
-      const { error: updateError } = await supabase
-        .from('quiz_sessions')
-        .update({
-          title: quizTitle.trim(),
-          description: quizDescription.trim() || null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', quizId);
-
-      if (updateError) throw updateError;
-
-      // Update group assignments
-      // First, delete all existing assignments
-      const { error: deleteError } = await supabase
-        .from('quiz_session_groups')
-        .delete()
-        .eq('quiz_session_id', quizId);
-
-      if (deleteError) throw deleteError;
-
-      // Then, insert new assignments (validation ensures at least one group is selected)
-      // Double-check for safety - this should never be empty due to validation above
-      if (selectedGroups.length === 0) {
-        throw new Error('At least one group must be assigned to the quiz');
-      }
-
-      const groupAssignments = selectedGroups.map(groupId => ({
-        quiz_session_id: quizId,
-        group_id: groupId,
-      }));
-
-      const { error: insertError } = await supabase
-        .from('quiz_session_groups')
-        .insert(groupAssignments);
-
-      if (insertError) throw insertError;
       // Get existing questions to find which images need to be deleted
       const { data: existingQuestions, error: fetchError } = await supabase
         .from('questions')
-        .select('id, image_url')
+        .select('id, image_url, explanation_image_url')
         .eq('quiz_session_id', quizId);
 
       if (fetchError) throw fetchError;
 
-      // Find questions that are being removed (exist in DB but not in current state)
-      // Only check questions that have IDs (were previously saved)
+      // Questions, answers and group assignments are saved in one transaction.
+      // Rows are matched by id so answers students already gave are kept.
+      const { data: saveResult, error: saveError } = await supabase.rpc('save_quiz', {
+        p_quiz_session_id: quizId,
+        p_title: quizTitle.trim(),
+        p_description: quizDescription.trim() || null,
+        p_group_ids: selectedGroups,
+        p_questions: questions.map(q => ({
+          ...questionPayload(q),
+          id: q.id ?? null,
+          section: q.section?.trim() || null,
+          bank_question_id: q.bank_question_id,
+        })),
+      });
+
+      if (saveError) throw saveError;
+
+      const { error: poolError } = await supabase
+        .from('quiz_sessions')
+        .update(poolToQuiz({
+          ...pool,
+          // Sections that no longer have questions are left out
+          section_draws: Object.fromEntries(sections.map(({ section }) => [section, pool.section_draws[section] ?? 0])),
+        }))
+        .eq('id', quizId);
+
+      if (poolError) throw poolError;
+
+      // Find questions that were removed (exist in DB but not in current state)
       const currentQuestionIds = new Set(
         questions
           .filter(q => q.id) // Only questions that were previously saved
@@ -364,66 +562,45 @@ export default function QuizEdit() {
       );
 
       const questionsToDelete = (existingQuestions || []).filter(
-        (eq: any) => !currentQuestionIds.has(eq.id)
+        (eq) => !currentQuestionIds.has(eq.id)
       );
 
-      // Delete images for removed questions
+      // Delete images for removed questions; images the question bank or
+      // another question still shows are kept
       for (const deletedQuestion of questionsToDelete) {
-        if (deletedQuestion.image_url) {
-          await deleteImageFromStorage(deletedQuestion.image_url);
-        }
+        await deleteQuestionImage(deletedQuestion.image_url);
+        await deleteQuestionImage(deletedQuestion.explanation_image_url);
       }
 
-      // Also check for images that were removed from existing questions
+      // Also check for images that were removed or replaced on existing questions
       for (const currentQ of questions) {
         if (currentQ.id) {
-          // This is an existing question - check if image was removed
-          const existingQ = existingQuestions?.find((eq: any) => eq.id === currentQ.id);
-          if (existingQ?.image_url && !currentQ.image_url) {
-            // Image was removed from this question
-            await deleteImageFromStorage(existingQ.image_url);
+          const existingQ = existingQuestions?.find((eq) => eq.id === currentQ.id);
+          if (existingQ?.image_url && existingQ.image_url !== currentQ.image_url) {
+            await deleteQuestionImage(existingQ.image_url);
+          }
+          if (existingQ?.explanation_image_url && existingQ.explanation_image_url !== currentQ.explanation_image_url) {
+            await deleteQuestionImage(existingQ.explanation_image_url);
           }
         }
       }
 
-      // Delete existing questions (cascade deletes answers)
-      await supabase.from('questions').delete().eq('quiz_session_id', quizId);
-
-      // Insert new questions
-      for (let i = 0; i < questions.length; i++) {
-        const q = questions[i];
-        const { data: questionData, error: questionError } = await supabase
-          .from('questions')
-          .insert({
-            quiz_session_id: quizId,
-            question_text: q.question_text,
-            question_type: q.question_type,
-            image_url: q.image_url,
-            order_index: i,
-          })
-          .select()
-          .single();
-
-        if (questionError) throw questionError;
-
-        // Insert answers
-        const answersToInsert = q.answers
-          .filter(a => a.answer_text.trim())
-          .map((a, j) => ({
-            question_id: questionData.id,
-            answer_text: a.answer_text,
-            is_correct: a.is_correct,
-            order_index: j,
-          }));
-
-        const { error: answersError } = await supabase
-          .from('answers')
-          .insert(answersToInsert);
-
-        if (answersError) throw answersError;
+      toast.success('Quiz saved successfully!');
+
+      // Answered questions whose grading changed need a regrade to update scores
+      const result = saveResult as unknown as SaveQuizResult;
+      const changedQuestions = questions
+        .map((q, index) => (q.id && result.changed_question_ids.includes(q.id) ? index + 1 : null))
+        .filter((n): n is number => n !== null);
+
+      if (changedQuestions.length > 0 || result.removed_answered_questions > 0) {
+        setRegradePrompt({
+          changedQuestions,
+          removedCount: result.removed_answered_questions,
+        });
+        return;
       }
 
-      toast.success('Quiz saved successfully!');
       navigate('/dashboard/quizzes');
     } catch (error) {
       console.error('Error saving quiz:', error);
@@ -433,6 +610,29 @@ export default function QuizEdit() {
     }
   };
 
+  const regradeQuiz = async () => {
+    if (!quizId) return;
+
+    setRegrading(true);
+    try {
+      const { data: changes, error } = await supabase.rpc('regrade_quiz', {
+        p_quiz_session_id: quizId,
+      });
+
+      if (error) throw error;
+
+      const changedCount = changes?.length ?? 0;
+      toast.success(changedCount === 1 ? '1 score updated' : `${changedCount} scores updated`);
+      setRegradePrompt(null);
+      navigate('/dashboard/quizzes');
+    } catch (error) {
+      console.error('Error regrading quiz:', error);
+      toast.error('Failed to regrade quiz');
+    } finally {
+      setRegrading(false);
+    }
+  };
+
   const toggleGroup = (groupId: string) => {
     setSelectedGroups(prev =>
       prev.includes(groupId)
@@ -441,6 +641,9 @@ export default function QuizEdit() {
     );
   };
 
+  // The question being saved to the bank already has a bank copy
+  const bankSaveLinked = bankSave !== null && !!questions[bankSave.index]?.bank_question_id;
+
   const answerColors = ['quiz-btn-red', 'quiz-btn-blue', 'quiz-btn-yellow', 'quiz-btn-green'];
 
   if (loading) {
@@ -528,6 +731,20 @@ export default function QuizEdit() {
           </CardContent>
         </Card>
 
+        <QuestionPoolEditor
+          pool={pool}
+          onChange={setPool}
+          sections={sections}
+          questionCount={questions.length}
+        />
+
+        {/* Sections typed so far, suggested in every question's section field */}
+        <datalist id="quiz-sections">
+          {sections.filter(({ section }) => section).map(({ section }) => (
+            <option key={section} value={section} />
+          ))}
+        </datalist>
+
         {/* Questions */}
         <div className="space-y-6">
           {questions.map((question, qIndex) => (
@@ -538,14 +755,25 @@ export default function QuizEdit() {
                     <GripVertical className="w-5 h-5 text-muted-foreground" />
                     Question {qIndex + 1}
                   </CardTitle>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="text-destructive hover:bg-destructive/10"
-                    onClick={() => removeQuestion(qIndex)}
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={question.bank_question_id ? 'text-primary' : 'text-muted-foreground'}
+                      onClick={() => openBankSave(qIndex)}
+                    >
+                      <Library className="w-4 h-4 mr-1" />
+                      {question.bank_question_id ? 'In Bank' : 'Save to Bank'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:bg-destructive/10"
+                      onClick={() => removeQuestion(qIndex)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -558,30 +786,137 @@ export default function QuizEdit() {
                     placeholder="Enter your question here..."
                     className="min-h-[100px]"
                   />
+                  <p className="text-xs text-muted-foreground">
+                    {'Write math between $ signs, e.g. $x^{2}$, $1011_{2}$, $\\overline{A} \\cdot B$ or $\\frac{1}{2}$'}
+                  </p>
+                  {hasMath(question.question_text) && (
+                    <div className="rounded-xl border bg-muted/50 px-4 py-3 text-lg font-sinhala whitespace-pre-wrap">
+                      <MathText text={question.question_text} />
+                    </div>
+                  )}
+                </div>
+
+                {/* Code Snippet */}
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Code className="w-4 h-4 text-muted-foreground" />
+                    <Label>Code (Optional)</Label>
+                    <Select
+                      value={question.code_language ?? 'python'}
+                      onValueChange={(value) => updateQuestion(qIndex, { code_language: value as CodeLanguage })}
+                    >
+                      <SelectTrigger className="w-36 h-8 ml-auto">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CODE_LANGUAGES.map((language) => (
+                          <SelectItem key={language.value} value={language.value}>
+                            {language.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Textarea
+                    value={question.code ?? ''}
+                    onChange={(e) => updateQuestion(qIndex, { code: e.target.value })}
+                    placeholder={'e.g.\nfor i in range(3):\n    print(i)'}
+                    spellCheck={false}
+                    className="min-h-[80px] font-mono text-sm"
+                  />
+                  {question.code?.trim() && (
+                    <CodeBlock code={question.code} language={question.code_language ?? 'python'} />
+                  )}
+                  {['single', 'multiple', 'short_answer'].includes(question.question_type) && (
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={question.settings.code_answers ?? false}
+                        onCheckedChange={(checked) => updateSettings(qIndex, { code_answers: checked })}
+                      />
+                      <span className="text-sm">Answers are code</span>
+                    </div>
+                  )}
                 </div>
 
                 {/* Question Type */}
                 <div className="flex items-center gap-4">
                   <Label>Answer Type:</Label>
-                  <div className="flex items-center gap-2">
-                    <Switch
-                      checked={question.question_type === 'multiple'}
-                      onCheckedChange={(checked) => 
-                        updateQuestion(qIndex, { question_type: checked ? 'multiple' : 'single' })
-                      }
-                    />
-                    <span className="text-sm">
-                      {question.question_type === 'single' ? 'Single Answer' : 'Multiple Answers'}
-                    </span>
-                  </div>
+                  <Select
+                    value={question.question_type}
+                    onValueChange={(value) => changeQuestionType(qIndex, value as QuestionType)}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {QUESTION_TYPE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Time Limit */}
+                <div className="flex items-center gap-4">
+                  <Label className="flex items-center gap-2">
+                    <Timer className="w-4 h-4 text-muted-foreground" />
+                    Time Limit:
+                  </Label>
+                  <Select
+                    value={question.time_limit === null ? 'none' : String(question.time_limit)}
+                    onValueChange={(value) =>
+                      updateQuestion(qIndex, { time_limit: value === 'none' ? null : parseInt(value) })
+                    }
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No limit</SelectItem>
+                      {[...new Set([...TIME_LIMIT_OPTIONS, ...(question.time_limit ? [question.time_limit] : [])])]
+                        .sort((a, b) => a - b)
+                        .map((seconds) => (
+                          <SelectItem key={seconds} value={String(seconds)}>
+                            {seconds} seconds
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Points and section */}
+                <div className="flex flex-wrap items-center gap-4">
+                  <Label htmlFor={`points-${qIndex}`}>Points:</Label>
+                  <Input
+                    id={`points-${qIndex}`}
+                    type="number"
+                    min={0.5}
+                    max={100}
+                    step={0.5}
+                    value={question.points || ''}
+                    onChange={(e) => updateQuestion(qIndex, { points: parseFloat(e.target.value) || 0 })}
+                    className="w-24"
+                  />
+                  <Label htmlFor={`section-${qIndex}`}>Section:</Label>
+                  <Input
+                    id={`section-${qIndex}`}
+                    list="quiz-sections"
+                    value={question.section ?? ''}
+                    onChange={(e) => updateQuestion(qIndex, { section: e.target.value })}
+                    placeholder="e.g. Networking"
+                    maxLength={100}
+                    className="w-48 font-sinhala"
+                  />
                 </div>
 
                 {/* Image Upload */}
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
                     <Image className="w-4 h-4 text-muted-foreground" />
-                    <Label>Question Image (Optional)</Label>
-                    {uploadingImage === qIndex && (
+                    <Label>{question.question_type === 'hotspot' ? 'Question Image' : 'Question Image (Optional)'}</Label>
+                    {isUploading(qIndex) && (
                       <Loader2 className="w-4 h-4 animate-spin text-primary" />
                     )}
                   </div>
@@ -596,15 +931,18 @@ export default function QuizEdit() {
                         variant="destructive"
                         size="sm"
                         className="absolute top-2 right-2"
-                        disabled={uploadingImage === qIndex}
+                        disabled={isUploading(qIndex)}
                         onClick={async () => {
                           const currentImageUrl = question.image_url;
                           // Delete image from storage
                           if (currentImageUrl) {
-                            await deleteImageFromStorage(currentImageUrl);
+                            await deleteQuestionImage(currentImageUrl);
                           }
-                          // Update state to remove image reference
-                          updateQuestion(qIndex, { image_url: null });
+                          // Update state to remove image reference; hotspot regions belong to the old image
+                          updateQuestion(qIndex, {
+                            image_url: null,
+                            ...(question.question_type === 'hotspot' && { answers: [] }),
+                          });
                         }}
                       >
                         Remove
@@ -615,7 +953,7 @@ export default function QuizEdit() {
                       <Input
                         type="file"
                         accept="image/*"
-                        disabled={uploadingImage === qIndex}
+                        disabled={isUploading(qIndex)}
                         onChange={(e) => {
                           const file = e.target.files?.[0];
                           if (file) {
@@ -628,7 +966,7 @@ export default function QuizEdit() {
                           }
                         }}
                       />
-                      {uploadingImage === qIndex && (
+                      {isUploading(qIndex) && (
                         <p className="text-sm text-muted-foreground">
                           Optimizing and uploading image...
                         </p>
@@ -641,72 +979,706 @@ export default function QuizEdit() {
                 </div>
 
                 {/* Answers */}
-                <div className="space-y-3">
-                  <Label>Answers (click to mark as correct)</Label>
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                    {question.answers.map((answer, aIndex) => (
-                      <div
-                        key={aIndex}
-                        onClick={() => {
-                          if (question.question_type === 'single') {
-                            updateAnswer(qIndex, aIndex, { is_correct: true });
-                          } else {
-                            updateAnswer(qIndex, aIndex, { is_correct: !answer.is_correct });
-                          }
-                        }}
-                        className={`relative rounded-xl p-4 ${answerColors[aIndex]} transition-all cursor-pointer hover:scale-105 ${
-                          answer.is_correct ? 'ring-4 ring-foreground ring-offset-2 shadow-lg' : 'hover:ring-2 hover:ring-foreground/50'
-                        }`}
+                {question.question_type === 'true_false' ? (
+                  <div className="space-y-3">
+                    <Label>Correct answer</Label>
+                    <div className="grid grid-cols-2 gap-3">
+                      {TRUE_FALSE_ANSWERS.map((option, aIndex) => (
+                        <button
+                          key={option.answer_text}
+                          type="button"
+                          onClick={() => updateAnswer(qIndex, aIndex, { is_correct: true })}
+                          className={`rounded-xl p-4 ${aIndex === 0 ? 'quiz-btn-green' : 'quiz-btn-red'} transition-all hover:scale-105 flex items-center justify-center gap-2 font-bold ${
+                            question.answers[aIndex]?.is_correct ? 'ring-4 ring-foreground ring-offset-2 shadow-lg' : 'hover:ring-2 hover:ring-foreground/50'
+                          }`}
+                        >
+                          {question.answers[aIndex]?.is_correct && <Check className="w-5 h-5" />}
+                          {option.label}
+                          <span className="font-sinhala font-normal">· {option.labelSi}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ) : question.question_type === 'short_answer' ? (
+                  <div className="space-y-3">
+                    <Label>Accepted answers</Label>
+                    <div className="space-y-2">
+                      {question.answers.map((answer, aIndex) => (
+                        <div key={aIndex} className="flex items-center gap-2">
+                          <Input
+                            value={answer.answer_text}
+                            onChange={(e) => updateAnswer(qIndex, aIndex, { answer_text: e.target.value })}
+                            placeholder={
+                              question.settings.match === 'regex'
+                                ? 'Pattern, e.g. ram|random access memory'
+                                : `Accepted answer ${aIndex + 1}`
+                            }
+                            className={question.settings.match === 'regex' ? 'font-mono' : 'font-sinhala'}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={question.answers.length <= 1}
+                            onClick={() => removeAcceptedAnswer(qIndex, aIndex)}
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => addAcceptedAnswer(qIndex)}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add accepted answer
+                    </Button>
+                    <div className="flex flex-wrap items-center gap-4">
+                      <Select
+                        value={question.settings.match ?? 'exact'}
+                        onValueChange={(value) =>
+                          updateSettings(qIndex, { match: value as QuestionSettings['match'] })
+                        }
                       >
-                        <div className="flex items-center justify-between mb-2">
-                          {question.question_type === 'single' ? (
-                            <div className="w-5 h-5 rounded-full border-2 border-primary-foreground flex items-center justify-center">
-                              {answer.is_correct && (
-                                <div className="w-3 h-3 rounded-full bg-primary-foreground" />
-                              )}
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MATCH_MODE_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {question.settings.match === 'fuzzy' && (
+                        <Select
+                          value={String(question.settings.fuzzy_distance ?? 1)}
+                          onValueChange={(value) => updateSettings(qIndex, { fuzzy_distance: parseInt(value) })}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {[1, 2, 3].map((distance) => (
+                              <SelectItem key={distance} value={String(distance)}>
+                                {distance === 1 ? '1 typo' : `${distance} typos`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={question.settings.case_sensitive ?? false}
+                          onCheckedChange={(checked) => updateSettings(qIndex, { case_sensitive: checked })}
+                        />
+                        <span className="text-sm">Case sensitive</span>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Extra spaces are ignored and Sinhala text is normalized before matching
+                    </p>
+                  </div>
+                ) : question.question_type === 'hotspot' ? (
+                  <div className="space-y-3">
+                    <Label>Correct regions</Label>
+                    {question.image_url ? (
+                      <>
+                        <p className="text-xs text-muted-foreground">
+                          Drag across the image to mark each spot students can tap
+                        </p>
+                        <HotspotRegionEditor
+                          src={question.image_url}
+                          regions={question.answers.filter(a => a.region).map(a => a.region!)}
+                          onAdd={(region) => addHotspotRegion(qIndex, region)}
+                        />
+                        <div className="space-y-2">
+                          {question.answers.map((answer, aIndex) => (
+                            <div key={aIndex} className="flex items-center gap-2">
+                              <span className="w-8 h-8 shrink-0 rounded-full bg-quiz-green text-primary-foreground flex items-center justify-center text-sm font-bold">
+                                {aIndex + 1}
+                              </span>
+                              <Input
+                                value={answer.answer_text}
+                                onChange={(e) => updateAnswer(qIndex, aIndex, { answer_text: e.target.value })}
+                                placeholder="Name, e.g. USB port"
+                                className="font-sinhala"
+                              />
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removeAcceptedAnswer(qIndex, aIndex)}
+                                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        Upload an image above, then draw the correct regions on it
+                      </p>
+                    )}
+                  </div>
+                ) : question.question_type === 'cloze' ? (
+                  <div className="space-y-3">
+                    <Label>Blanks</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Write each blank in the question text as [[answer]]. Separate other accepted answers
+                      with |, e.g. The [[CPU|processor]] executes instructions fetched from [[RAM]].
+                    </p>
+                    {parseClozeBlanks(question.question_text).length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No blanks yet</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {parseClozeBlanks(question.question_text).map((accepted, blankIndex) => {
+                          const options = question.answers
+                            .map((answer, aIndex) => ({ answer, aIndex }))
+                            .filter(({ answer }) => !answer.is_correct && answer.blank_index === blankIndex);
+                          return (
+                            <div key={blankIndex} className="rounded-xl border p-3 space-y-2">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-sm font-bold">Blank {blankIndex + 1}</span>
+                                {accepted.length === 0 ? (
+                                  <span className="text-sm text-destructive">No accepted answer</span>
+                                ) : accepted.map(text => (
+                                  <span key={text} className="px-2 py-0.5 rounded-full bg-quiz-green/15 text-sm font-sinhala">
+                                    {text}
+                                  </span>
+                                ))}
+                              </div>
+                              {options.map(({ answer, aIndex }) => (
+                                <div key={aIndex} className="flex items-center gap-2">
+                                  <Input
+                                    value={answer.answer_text}
+                                    onChange={(e) => updateAnswer(qIndex, aIndex, { answer_text: e.target.value })}
+                                    placeholder="Wrong option"
+                                    className="font-sinhala"
+                                  />
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => removeAcceptedAnswer(qIndex, aIndex)}
+                                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              ))}
+                              <div className="flex items-center justify-between gap-2">
+                                <Button variant="outline" size="sm" onClick={() => addClozeOption(qIndex, blankIndex)}>
+                                  <Plus className="w-4 h-4 mr-2" />
+                                  Add wrong option
+                                </Button>
+                                <span className="text-xs text-muted-foreground">
+                                  {options.length > 0 ? 'Shown as a dropdown' : 'Students type the answer'}
+                                </span>
+                              </div>
                             </div>
-                          ) : (
-                            <div className={`w-5 h-5 rounded border-2 border-primary-foreground flex items-center justify-center ${
-                              answer.is_correct ? 'bg-primary-foreground' : ''
-                            }`}>
+                          );
+                        })}
+                      </div>
+                    )}
+                    <div className="flex flex-wrap gap-4">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={question.settings.partial_credit ?? false}
+                          onCheckedChange={(checked) => updateSettings(qIndex, { partial_credit: checked })}
+                        />
+                        <span className="text-sm">Partial credit for each correct blank</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={question.settings.case_sensitive ?? false}
+                          onCheckedChange={(checked) => updateSettings(qIndex, { case_sensitive: checked })}
+                        />
+                        <span className="text-sm">Case sensitive</span>
+                      </div>
+                    </div>
+                  </div>
+                ) : question.question_type === 'matching' ? (
+                  <div className="space-y-3">
+                    <Label>Pairs</Label>
+                    <div className="space-y-2">
+                      {question.answers
+                        .map((answer, aIndex) => ({ answer, aIndex }))
+                        .filter(({ answer }) => answer.is_correct)
+                        .map(({ answer, aIndex }, pairIndex, pairs) => (
+                          <div key={aIndex} className="flex items-center gap-2">
+                            <Input
+                              value={answer.answer_text}
+                              onChange={(e) => updateAnswer(qIndex, aIndex, { answer_text: e.target.value })}
+                              placeholder={`Item ${pairIndex + 1}`}
+                              className="font-sinhala"
+                            />
+                            <ArrowRight className="w-4 h-4 shrink-0 text-muted-foreground" />
+                            <Input
+                              value={answer.match_text ?? ''}
+                              onChange={(e) => updateAnswer(qIndex, aIndex, { match_text: e.target.value })}
+                              placeholder={`Match ${pairIndex + 1}`}
+                              className="font-sinhala"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              disabled={pairs.length <= 2}
+                              onClick={() => removeAcceptedAnswer(qIndex, aIndex)}
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => addMatchingItem(qIndex, true)}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add pair
+                    </Button>
+                    <Label className="block pt-2">Distractors (optional)</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Extra options in the right column that don't match any item
+                    </p>
+                    <div className="space-y-2">
+                      {question.answers.map((answer, aIndex) => !answer.is_correct && (
+                        <div key={aIndex} className="flex items-center gap-2">
+                          <Input
+                            value={answer.match_text ?? ''}
+                            onChange={(e) => updateAnswer(qIndex, aIndex, { match_text: e.target.value })}
+                            placeholder="Distractor"
+                            className="font-sinhala"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeAcceptedAnswer(qIndex, aIndex)}
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => addMatchingItem(qIndex, false)}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add distractor
+                    </Button>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={question.settings.partial_credit ?? false}
+                        onCheckedChange={(checked) => updateSettings(qIndex, { partial_credit: checked })}
+                      />
+                      <span className="text-sm">Partial credit for each correct pair</span>
+                    </div>
+                  </div>
+                ) : question.question_type === 'ordering' ? (
+                  <div className="space-y-3">
+                    <Label>Items in the correct order</Label>
+                    <div className="space-y-2">
+                      {question.answers.map((answer, aIndex) => (
+                        <div key={aIndex} className="flex items-center gap-2">
+                          <span className="w-8 h-8 shrink-0 rounded-full bg-muted flex items-center justify-center text-sm font-bold">
+                            {aIndex + 1}
+                          </span>
+                          <Input
+                            value={answer.answer_text}
+                            onChange={(e) => updateAnswer(qIndex, aIndex, { answer_text: e.target.value })}
+                            placeholder={`Item ${aIndex + 1}`}
+                            className="font-sinhala"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={aIndex === 0}
+                            onClick={() => moveOrderingItem(qIndex, aIndex, aIndex - 1)}
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={aIndex === question.answers.length - 1}
+                            onClick={() => moveOrderingItem(qIndex, aIndex, aIndex + 1)}
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={question.answers.length <= 2}
+                            onClick={() => removeAcceptedAnswer(qIndex, aIndex)}
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => addAcceptedAnswer(qIndex)}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add item
+                    </Button>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={question.settings.partial_credit ?? false}
+                        onCheckedChange={(checked) => updateSettings(qIndex, { partial_credit: checked })}
+                      />
+                      <span className="text-sm">Partial credit for neighbouring items in the right order</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Students see the items scrambled and drag them into this order
+                    </p>
+                  </div>
+                ) : question.question_type === 'numeric' ? (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <Label>Correct value</Label>
+                        <Input
+                          value={question.answers[0]?.answer_text ?? ''}
+                          onChange={(e) => updateAnswer(qIndex, 0, { answer_text: e.target.value })}
+                          placeholder={question.settings.base === 2 ? 'e.g. 1101' : 'e.g. 42'}
+                          className="font-mono"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Number base</Label>
+                        <Select
+                          value={String(question.settings.base ?? 10)}
+                          onValueChange={(value) => updateSettings(qIndex, { base: parseInt(value) as NumberBase })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {NUMBER_BASES.map((option) => (
+                              <SelectItem key={option.base} value={String(option.base)}>
+                                {option.label} (base {option.base})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm">Accept within ±</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={question.settings.tolerance ?? 0}
+                        onChange={(e) => updateSettings(qIndex, { tolerance: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-24"
+                      />
+                      <Select
+                        value={question.settings.tolerance_type ?? 'absolute'}
+                        onValueChange={(value) =>
+                          updateSettings(qIndex, { tolerance_type: value as QuestionSettings['tolerance_type'] })
+                        }
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="absolute">absolute</SelectItem>
+                          <SelectItem value="percent">percent</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={question.settings.unit ?? ''}
+                        onChange={(e) => updateSettings(qIndex, { unit: e.target.value || undefined })}
+                        placeholder="Unit (optional), e.g. MB"
+                        className="w-52"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Students answer in the selected base. Non-decimal answers must be whole numbers.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <Label>Answers (click to mark as correct)</Label>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {question.answers.map((answer, aIndex) => (
+                        <div
+                          key={aIndex}
+                          onClick={() => {
+                            if (isSingleChoice(question.question_type)) {
+                              updateAnswer(qIndex, aIndex, { is_correct: true });
+                            } else {
+                              updateAnswer(qIndex, aIndex, { is_correct: !answer.is_correct });
+                            }
+                          }}
+                          className={`relative rounded-xl p-4 ${answerColors[aIndex]} transition-all cursor-pointer hover:scale-105 ${
+                            answer.is_correct ? 'ring-4 ring-foreground ring-offset-2 shadow-lg' : 'hover:ring-2 hover:ring-foreground/50'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between mb-2">
+                            {isSingleChoice(question.question_type) ? (
+                              <div className="w-5 h-5 rounded-full border-2 border-primary-foreground flex items-center justify-center">
+                                {answer.is_correct && (
+                                  <div className="w-3 h-3 rounded-full bg-primary-foreground" />
+                                )}
+                              </div>
+                            ) : (
+                              <div className={`w-5 h-5 rounded border-2 border-primary-foreground flex items-center justify-center ${
+                                answer.is_correct ? 'bg-primary-foreground' : ''
+                              }`}>
+                                {answer.is_correct && (
+                                  <Check className="w-4 h-4 text-inherit" />
+                                )}
+                              </div>
+                            )}
+                            <div className="flex items-center gap-1">
+                              <button
+                                type="button"
+                                title={answer.pinned ? 'Pinned to the end when answers are shuffled' : 'Pin to the end when answers are shuffled'}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  updateAnswer(qIndex, aIndex, { pinned: !answer.pinned });
+                                }}
+                                className={`rounded p-1 text-primary-foreground transition-opacity ${
+                                  answer.pinned ? 'bg-primary-foreground/30' : 'opacity-50 hover:opacity-100'
+                                }`}
+                              >
+                                <Pin className="w-4 h-4" />
+                              </button>
                               {answer.is_correct && (
-                                <Check className="w-4 h-4 text-inherit" />
+                                <Check className="w-5 h-5 text-primary-foreground" />
                               )}
                             </div>
-                          )}
-                          {answer.is_correct && (
-                            <Check className="w-5 h-5 text-primary-foreground" />
+                          </div>
+                          <Input
+                            value={answer.answer_text}
+                            onChange={(e) => {
+                              e.stopPropagation();
+                              updateAnswer(qIndex, aIndex, { answer_text: e.target.value });
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                            placeholder={`Answer ${aIndex + 1}`}
+                            className="bg-transparent border-0 text-inherit placeholder:text-inherit/50 font-medium text-center"
+                          />
+                          {hasMath(answer.answer_text) && (
+                            <p className="mt-1 text-center font-medium">
+                              <MathText text={answer.answer_text} />
+                            </p>
                           )}
                         </div>
-                        <Input
-                          value={answer.answer_text}
-                          onChange={(e) => {
-                            e.stopPropagation();
-                            updateAnswer(qIndex, aIndex, { answer_text: e.target.value });
-                          }}
-                          onClick={(e) => e.stopPropagation()}
-                          placeholder={`Answer ${aIndex + 1}`}
-                          className="bg-transparent border-0 text-inherit placeholder:text-inherit/50 font-medium text-center"
-                        />
+                      ))}
+                    </div>
+                    {question.question_type === 'multiple' && (
+                      <div className="flex flex-wrap items-center gap-4">
+                        <Label>Scoring:</Label>
+                        <Select
+                          value={question.settings.multiple_scoring ?? 'all_or_nothing'}
+                          onValueChange={(value) => updateSettings(qIndex, { multiple_scoring: value as MultipleScoring })}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MULTIPLE_SCORING_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <span className="text-xs text-muted-foreground">
+                          {MULTIPLE_SCORING_OPTIONS.find(o => o.value === (question.settings.multiple_scoring ?? 'all_or_nothing'))?.description}
+                        </span>
                       </div>
-                    ))}
+                    )}
+                  </div>
+                )}
+
+                {/* Explanation */}
+                <div className="space-y-2 pt-4 border-t">
+                  <div className="flex items-center gap-2">
+                    <Lightbulb className="w-4 h-4 text-muted-foreground" />
+                    <Label>Explanation (Optional)</Label>
+                    {isUploading(qIndex, 'explanation_image_url') && (
+                      <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                    )}
                   </div>
+                  <Textarea
+                    value={question.explanation ?? ''}
+                    onChange={(e) => updateQuestion(qIndex, { explanation: e.target.value })}
+                    placeholder="Why is this the answer? Students see it when they review their answers."
+                    maxLength={2000}
+                    className="min-h-[80px] font-sinhala"
+                  />
+                  {question.explanation_image_url ? (
+                    <div className="relative inline-block">
+                      <img
+                        src={question.explanation_image_url}
+                        alt="Explanation"
+                        className="max-h-40 rounded-xl object-contain"
+                      />
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="absolute top-2 right-2"
+                        disabled={isUploading(qIndex, 'explanation_image_url')}
+                        onClick={async () => {
+                          await deleteQuestionImage(question.explanation_image_url);
+                          updateQuestion(qIndex, { explanation_image_url: null });
+                        }}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <Input
+                      type="file"
+                      accept="image/*"
+                      disabled={isUploading(qIndex, 'explanation_image_url')}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) {
+                          if (!file.type.startsWith('image/')) {
+                            toast.error('Please select a valid image file');
+                            return;
+                          }
+                          handleImageUpload(qIndex, file, 'explanation_image_url');
+                        }
+                      }}
+                    />
+                  )}
                 </div>
               </CardContent>
             </Card>
           ))}
 
-          {/* Add Question Button */}
-          <Button
-            variant="outline"
-            className="w-full h-24 border-2 border-dashed border-primary/30 hover:border-primary hover:bg-primary/5 btn-bounce"
-            onClick={addQuestion}
-          >
-            <Plus className="w-6 h-6 mr-2" />
-            Add Question
-          </Button>
+          {/* Add Question Buttons */}
+          <div className="grid gap-4 sm:grid-cols-[2fr_1fr_1fr]">
+            <Button
+              variant="outline"
+              className="w-full h-24 border-2 border-dashed border-primary/30 hover:border-primary hover:bg-primary/5 btn-bounce"
+              onClick={addQuestion}
+            >
+              <Plus className="w-6 h-6 mr-2" />
+              Add Question
+            </Button>
+            <Button
+              variant="outline"
+              className="w-full h-24 border-2 border-dashed border-primary/30 hover:border-primary hover:bg-primary/5 btn-bounce"
+              onClick={() => setBankPickerOpen(true)}
+            >
+              <Library className="w-6 h-6 mr-2" />
+              Add from Bank
+            </Button>
+            <Button
+              variant="outline"
+              className="w-full h-24 border-2 border-dashed border-primary/30 hover:border-primary hover:bg-primary/5 btn-bounce"
+              onClick={() => setImportOpen(true)}
+            >
+              <FileSpreadsheet className="w-6 h-6 mr-2" />
+              Import Spreadsheet
+            </Button>
+          </div>
         </div>
       </div>
+
+      <BankPicker
+        open={bankPickerOpen}
+        onOpenChange={setBankPickerOpen}
+        usedIds={questions.map(q => q.bank_question_id).filter((id): id is string => !!id)}
+        onAdd={addFromBank}
+      />
+
+      <SpreadsheetImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        quizId={quizId}
+        hasQuestions={questions.length > 0}
+        onImport={importQuestions}
+      />
+
+      {/* File a question in the question bank */}
+      <Dialog open={bankSave !== null} onOpenChange={(open) => !open && setBankSave(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {bankSaveLinked ? 'Update Question Bank' : 'Save to Question Bank'}
+            </DialogTitle>
+            <DialogDescription>
+              {bankSaveLinked
+                ? 'Replace the bank copy of this question with this version, or save this version as a new bank question.'
+                : 'Keep this question in your bank to add it to other quizzes.'}
+            </DialogDescription>
+          </DialogHeader>
+          {bankSave && (
+            <BankDetailsFields
+              details={bankSave.details}
+              onChange={(details) => setBankSave({ ...bankSave, details })}
+              facets={bankSave.facets}
+            />
+          )}
+          <DialogFooter className="gap-2">
+            {bankSaveLinked && (
+              <Button variant="outline" onClick={() => saveToBank(true)} disabled={savingToBank}>
+                Save as New
+              </Button>
+            )}
+            <Button className="gradient-primary" onClick={() => saveToBank(false)} disabled={savingToBank}>
+              {savingToBank && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {bankSaveLinked ? 'Update Bank Question' : 'Save to Bank'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Regrade prompt after the answer key of answered questions changed */}
+      <Dialog
+        open={regradePrompt !== null}
+        onOpenChange={(open) => {
+          if (!open && !regrading) {
+            setRegradePrompt(null);
+            navigate('/dashboard/quizzes');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-orange-500" />
+              Regrade existing results?
+            </DialogTitle>
+            <DialogDescription>
+              Students have already answered questions affected by this edit. Their scores still reflect the old answer key.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="text-sm space-y-1 list-disc pl-5">
+            {regradePrompt && regradePrompt.changedQuestions.length > 0 && (
+              <li>
+                Answer key changed for {regradePrompt.changedQuestions.length === 1 ? 'question' : 'questions'}{' '}
+                {regradePrompt.changedQuestions.join(', ')}
+              </li>
+            )}
+            {regradePrompt && regradePrompt.removedCount > 0 && (
+              <li>
+                {regradePrompt.removedCount} answered {regradePrompt.removedCount === 1 ? 'question was' : 'questions were'} removed
+              </li>
+            )}
+          </ul>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              disabled={regrading}
+              onClick={() => {
+                setRegradePrompt(null);
+                navigate('/dashboard/quizzes');
+              }}
+            >
+              Keep current scores
+            </Button>
+            <Button onClick={regradeQuiz} className="gradient-primary" disabled={regrading}>
+              {regrading ? 'Regrading...' : 'Regrade now'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </DashboardLayout>
   );
 }
@@ -1,16 +1,78 @@
 import { useEffect, useState, useRef } from 'react';
 import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { CheckCircle, XCircle, Trophy, Clock } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { CheckCircle, XCircle, Trophy, Clock, Timer, Lock, MinusCircle, BookOpen } from 'lucide-react';
+import { cn, formatScore } from '@/lib/utils';
+import {
+  HotspotPoint,
+  NUMBER_BASES,
+  NumberBase,
+  QuestionType,
+  TRUE_FALSE_ANSWERS,
+  isSingleChoice,
+  isTextResponse,
+  isValidNumber,
+  splitClozeText,
+} from '@/lib/question-types';
 import confetti from 'canvas-confetti';
 import Footer from '@/components/Footer';
+import OrderingList from '@/components/quiz/OrderingList';
+import MatchingBoard from '@/components/quiz/MatchingBoard';
+import ClozeText from '@/components/quiz/ClozeText';
+import HotspotImage from '@/components/quiz/HotspotImage';
+import CodeBlock from '@/components/quiz/CodeBlock';
+import MathText from '@/components/MathText';
+import AnswerReview from '@/components/quiz/AnswerReview';
+import { CodeLanguage } from '@/lib/code-highlight';
+import { mixSeed, seededShuffle } from '@/lib/shuffle';
 
-interface Answer { id: string; answer_text: string; is_correct: boolean; }
-interface Question { id: string; question_text: string; question_type: 'single' | 'multiple'; image_url: string | null; answers: Answer[]; }
+interface Answer { id: string; answer_text: string; order_index: number; blank_index: number | null; pinned: boolean; }
+interface MatchOption { id: string; match_text: string; order_index: number; }
+type AnswerFormat = { base: NumberBase; unit: string | null };
+type ShuffleSettings = { shuffle_questions: boolean; shuffle_answers: boolean };
+interface Question { id: string; question_text: string; question_type: QuestionType; image_url: string | null; time_limit: number | null; answer_format: AnswerFormat | null; code: string | null; code_language: CodeLanguage | null; code_answers: boolean | null; points: number; answers: Answer[]; matches: MatchOption[]; }
+
+// Ordering questions start with every item in the order it is listed
+const initialSelection = (q?: Question) =>
+  q?.question_type === 'ordering' ? q.answers.map(a => a.id) : [];
+
+// What the button asks for while the question has no answer yet
+const answerPrompt = (type?: QuestionType) => {
+  if (type && isTextResponse(type)) return 'Type your answer';
+  if (type === 'matching') return 'Match every item';
+  if (type === 'cloze') return 'Fill in a blank';
+  if (type === 'hotspot') return 'Tap the image';
+  return 'Select an answer';
+};
+
+// The attempt's seed decides the order, so a reload shows the same one. Only
+// choice answers and matching columns are shuffled; ordering and cloze items
+// are already listed in an order that gives nothing away
+const orderForAttempt = (questions: Question[], quiz: ShuffleSettings, seed: number) => {
+  const ordered = quiz.shuffle_questions ? seededShuffle(questions, seed) : questions;
+  if (!quiz.shuffle_answers) return ordered;
+  return ordered.map(q => {
+    if (q.question_type === 'single' || q.question_type === 'multiple') {
+      return { ...q, answers: seededShuffle(q.answers, mixSeed(seed, q.id), a => a.pinned) };
+    }
+    if (q.question_type === 'matching') {
+      return {
+        ...q,
+        answers: seededShuffle(q.answers, mixSeed(seed, q.id)),
+        matches: seededShuffle(q.matches, mixSeed(seed, `${q.id}:matches`)),
+      };
+    }
+    return q;
+  });
+};
+
+// Cloze questions start with every blank empty
+const initialBlanks = (q?: Question) =>
+  q?.question_type === 'cloze' ? splitClozeText(q.question_text).slice(1).map(() => '') : [];
 
 export default function QuizPlay() {
   const { accessCode } = useParams();
@@ -22,19 +84,78 @@ export default function QuizPlay() {
   const [student, setStudent] = useState<any>(null);
   const [attempt, setAttempt] = useState<any>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  // What each question is worth, shown before the attempt starts
+  const [questionPoints, setQuestionPoints] = useState<number[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [selectedAnswers, setSelectedAnswers] = useState<string[]>([]);
-  const [savedQuestionIds, setSavedQuestionIds] = useState<Set<string>>(new Set());
+  const [savedAnswers, setSavedAnswers] = useState<Record<string, string[]>>({});
+  const [responseText, setResponseText] = useState('');
+  const [savedResponses, setSavedResponses] = useState<Record<string, string>>({});
+  // Matching questions: right-hand item id for each left-hand answer id
+  const [matchedPairs, setMatchedPairs] = useState<Record<string, string>>({});
+  const [savedPairs, setSavedPairs] = useState<Record<string, Record<string, string>>>({});
+  // Cloze questions: the response typed or chosen for each blank
+  const [blankResponses, setBlankResponses] = useState<string[]>([]);
+  const [savedBlanks, setSavedBlanks] = useState<Record<string, string[]>>({});
+  // Hotspot questions: the point tapped on the image
+  const [tapPoint, setTapPoint] = useState<HotspotPoint | null>(null);
+  const [savedPoints, setSavedPoints] = useState<Record<string, HotspotPoint>>({});
   const [score, setScore] = useState(0);
   const [finished, setFinished] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   const [timeTaken, setTimeTaken] = useState(0);
-  const startTimeRef = useRef<number>(Date.now());
+  // Local clock time at which the attempt expires, derived from the server clock
+  const expiresAtRef = useRef<number | null>(null);
+  const attemptWindowRef = useRef<number>(1800);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [questionTimeRemaining, setQuestionTimeRemaining] = useState<number | null>(null);
+  const [timedOutQuestionIds, setTimedOutQuestionIds] = useState<Set<string>>(new Set());
+  const questionExpiresAtRef = useRef<number | null>(null);
+  const openQuestionIdRef = useRef<string | null>(null);
 
   useEffect(() => { loadQuiz(); }, [accessCode, studentCode]);
 
+  // Start the per-question clock whenever a question is shown
+  useEffect(() => {
+    const q = questions[currentIndex];
+    if (!q || !attempt || finished || loading) return;
+    openQuestion(q);
+  }, [currentIndex, attempt?.id, finished, loading]);
+
+  // Per-question countdown, running alongside the whole-quiz timer
+  useEffect(() => {
+    if (questionTimeRemaining === null || finished || loading) return;
+
+    if (questionTimeRemaining <= 0) {
+      handleQuestionTimeUp();
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      if (questionExpiresAtRef.current === null) return;
+      setQuestionTimeRemaining(Math.max(0, Math.ceil((questionExpiresAtRef.current - Date.now()) / 1000)));
+    }, 1000);
+
+    return () => clearTimeout(timeout);
+  }, [questionTimeRemaining, finished, loading]);
+
+  // Background tabs throttle timers, so resync with the server when the student returns
+  useEffect(() => {
+    if (!attempt || finished) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        syncTimer(attempt.id);
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [attempt, finished]);
+
   // Timer effect
   useEffect(() => {
     if (timeRemaining === null || finished || loading) {
@@ -56,14 +177,10 @@ export default function QuizPlay() {
           handleTimeUp();
           return 0;
         }
-        const newRemaining = prev - 1;
-        // Calculate time taken based on duration - remaining time
-        if (quiz) {
-          const durationSeconds = (quiz as any).duration_seconds || 1800;
-          const calculatedTime = durationSeconds - newRemaining;
-          setTimeTaken(Math.max(0, calculatedTime));
-        }
-        return newRemaining;
+        // Count down against the synced expiry rather than decrementing, so a
+        // delayed tick never gives the student extra time
+        if (expiresAtRef.current === null) return prev - 1;
+        return Math.max(0, Math.ceil((expiresAtRef.current - Date.now()) / 1000));
       });
     }, 1000);
 
@@ -75,12 +192,199 @@ export default function QuizPlay() {
     };
   }, [timeRemaining, finished, loading]);
 
+  const syncTimer = async (attemptId: string) => {
+    const { data, error } = await supabase.rpc('get_attempt_timer', {
+      p_attempt_id: attemptId,
+      p_student_code: studentCode,
+    });
+
+    if (error || !data?.[0]) {
+      console.error('Error syncing timer:', error);
+      return;
+    }
+
+    // Use the server's clock for the remaining time so a wrong device clock doesn't matter
+    const { started_at, expires_at, server_time } = data[0];
+    const expiresAt = new Date(expires_at).getTime();
+    const remainingMs = Math.max(0, expiresAt - new Date(server_time).getTime());
+
+    expiresAtRef.current = Date.now() + remainingMs;
+    attemptWindowRef.current = Math.max(1, Math.round((expiresAt - new Date(started_at).getTime()) / 1000));
+    setTimeRemaining(Math.ceil(remainingMs / 1000));
+  };
+
+  const stopQuestionTimer = () => {
+    questionExpiresAtRef.current = null;
+    setQuestionTimeRemaining(null);
+  };
+
+  const openQuestion = async (q: Question) => {
+    openQuestionIdRef.current = q.id;
+    stopQuestionTimer();
+
+    const { data, error } = await supabase.rpc('open_question', {
+      p_attempt_id: attempt.id,
+      p_student_code: studentCode,
+      p_question_id: q.id,
+    });
+
+    // Ignore the response if the student has already moved on
+    if (openQuestionIdRef.current !== q.id) return;
+    if (error || !data?.[0]) {
+      console.error('Error opening question:', error);
+      return;
+    }
+
+    const { expires_at, server_time, timed_out } = data[0];
+    if (timed_out) {
+      setTimedOutQuestionIds(prev => new Set(prev).add(q.id));
+      return;
+    }
+    if (!expires_at || isSaved(q.id)) return;
+
+    const remainingMs = Math.max(0, new Date(expires_at).getTime() - new Date(server_time).getTime());
+    questionExpiresAtRef.current = Date.now() + remainingMs;
+    setQuestionTimeRemaining(Math.ceil(remainingMs / 1000));
+  };
+
+  const handleQuestionTimeUp = async () => {
+    const q = questions[currentIndex];
+    stopQuestionTimer();
+    if (!q || !attempt) return;
+
+    toast.error("Time's up for this question!");
+    // Submit whatever was selected before the question locks
+    if (hasResponse()) {
+      await saveAnswer();
+    }
+
+    await supabase.rpc('expire_question', {
+      p_attempt_id: attempt.id,
+      p_student_code: studentCode,
+      p_question_id: q.id,
+    });
+    setTimedOutQuestionIds(prev => new Set(prev).add(q.id));
+
+    await goToNextQuestion();
+  };
+
+  const loadQuestions = async (attemptId: string): Promise<Question[]> => {
+    // Only the questions drawn for the attempt, without the answer key
+    const { data, error } = await supabase.rpc('get_attempt_questions', {
+      p_attempt_id: attemptId,
+      p_student_code: studentCode,
+    });
+    if (error) throw error;
+
+    return ((data as unknown as Question[]) || []).map(q => ({
+      ...q,
+      answer_format: q.answer_format as AnswerFormat | null,
+      points: Number(q.points ?? 1),
+      answers: [...(q.answers || [])].sort((a, b) => a.order_index - b.order_index),
+      matches: [...(q.matches || [])].sort((a, b) => a.order_index - b.order_index),
+    })) as Question[];
+  };
+
+  // Attempts are created (or resumed) and scored by the database
+  const startAttempt = async (quizData: ShuffleSettings & { id: string }, resuming: boolean) => {
+    const { data: activeAttempt, error: attemptError } = await supabase.rpc('start_quiz_attempt', {
+      p_quiz_session_id: quizData.id,
+      p_student_code: studentCode,
+    });
+    if (attemptError) throw attemptError;
+
+    setAttempt(activeAttempt);
+    setScore(activeAttempt.score ?? 0);
+
+    // The attempt ran out of time while the student was away and has been closed
+    if (activeAttempt.completed_at) {
+      setTimeTaken(activeAttempt.time_taken_seconds || 0);
+      setFinished(true);
+      return;
+    }
+
+    const questionsData = orderForAttempt(await loadQuestions(activeAttempt.id), quizData, activeAttempt.shuffle_seed);
+    setQuestions(questionsData);
+    setSelectedAnswers(initialSelection(questionsData[0]));
+    setBlankResponses(initialBlanks(questionsData[0]));
+
+    if (resuming) {
+      // Load existing answers to mark questions as saved
+      const { data: existingAnswers } = await supabase.rpc('get_attempt_answers', {
+        p_attempt_id: activeAttempt.id,
+        p_student_code: studentCode,
+      });
+
+      // Group answers by question
+      const questionAnswers: Record<string, string[]> = {};
+      const questionResponses: Record<string, string> = {};
+      const questionPairs: Record<string, Record<string, string>> = {};
+      const questionBlanks: Record<string, string[]> = {};
+      const questionTapPoints: Record<string, HotspotPoint> = {};
+      const clozeQuestionIds = new Set(questionsData.filter(q => q.question_type === 'cloze').map(q => q.id));
+      (existingAnswers || []).forEach(sa => {
+        if (sa.answer_id && sa.match_id) {
+          questionPairs[sa.question_id] = { ...questionPairs[sa.question_id], [sa.answer_id]: sa.match_id };
+        } else if (sa.point_x !== null && sa.point_y !== null) {
+          questionTapPoints[sa.question_id] = { x: sa.point_x, y: sa.point_y };
+        } else if (sa.answer_id) {
+          questionAnswers[sa.question_id] = [...(questionAnswers[sa.question_id] || []), sa.answer_id];
+        } else if (clozeQuestionIds.has(sa.question_id)) {
+          // Blank responses come back in blank order
+          questionBlanks[sa.question_id] = [...(questionBlanks[sa.question_id] || []), sa.response_text ?? ''];
+        } else if (sa.response_text !== null) {
+          questionResponses[sa.question_id] = sa.response_text;
+        }
+      });
+      setSavedAnswers(questionAnswers);
+      setSavedResponses(questionResponses);
+      setSavedPairs(questionPairs);
+      setSavedBlanks(questionBlanks);
+      setSavedPoints(questionTapPoints);
+
+      // Load selected answers for current question if already answered
+      const currentQ = questionsData[0];
+      if (currentQ && questionAnswers[currentQ.id]) {
+        setSelectedAnswers(questionAnswers[currentQ.id]);
+      }
+      if (currentQ && questionResponses[currentQ.id] !== undefined) {
+        setResponseText(questionResponses[currentQ.id]);
+      }
+      if (currentQ && questionPairs[currentQ.id]) {
+        setMatchedPairs(questionPairs[currentQ.id]);
+      }
+      if (currentQ && questionBlanks[currentQ.id]) {
+        setBlankResponses(questionBlanks[currentQ.id]);
+      }
+      if (currentQ && questionTapPoints[currentQ.id]) {
+        setTapPoint(questionTapPoints[currentQ.id]);
+      }
+    }
+
+    // Initialize timer from the server's expiry for this attempt
+    await syncTimer(activeAttempt.id);
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      await startAttempt(quiz, false);
+    } catch (error) {
+      console.error(error);
+      toast.error('Error starting quiz');
+    } finally {
+      setStarting(false);
+    }
+  };
+
   const loadQuiz = async () => {
     if (!accessCode || !studentCode) { navigate('/'); return; }
     
     try {
       const { data: quizData } = await supabase.from('quiz_sessions').select('*').eq('access_code', accessCode).maybeSingle();
-      if (!quizData || new Date(quizData.deadline) < new Date()) { toast.error('Quiz not available'); navigate('/'); return; }
+      if (!quizData) { toast.error('Quiz not available'); navigate('/'); return; }
+      // After the deadline students can still open their finished attempt to review it
+      const closed = new Date(quizData.deadline) < new Date();
       setQuiz(quizData);
 
       // Get student first
@@ -121,94 +425,30 @@ export default function QuizPlay() {
       setStudent(studentData);
 
       const { data: existingAttempt } = await supabase.from('quiz_attempts').select('*').eq('quiz_session_id', quizData.id).eq('student_id', studentData.id).maybeSingle();
+      if (closed && !existingAttempt?.completed_at) { toast.error('Quiz not available'); navigate('/'); return; }
       if (existingAttempt?.completed_at) { 
         // Always use the saved score from database for completed quizzes
-        const savedScore = existingAttempt.score !== null && existingAttempt.score !== undefined 
-          ? existingAttempt.score 
-          : 0;
-        setScore(savedScore); 
+        setScore(existingAttempt.score ?? 0); 
         setAttempt(existingAttempt);
         // Load questions to show score properly
-        const { data: questionsData } = await supabase.from('questions').select('*, answers(*)').eq('quiz_session_id', quizData.id).order('order_index');
-        setQuestions(questionsData || []);
-        setTimeTaken((existingAttempt as any).time_taken_seconds || 0);
+        setQuestions(await loadQuestions(existingAttempt.id));
+        setTimeTaken(existingAttempt.time_taken_seconds || 0);
         setFinished(true); 
         setLoading(false); 
         return; 
       }
 
-      const { data: questionsData } = await supabase.from('questions').select('*, answers(*)').eq('quiz_session_id', quizData.id).order('order_index');
-      setQuestions(questionsData || []);
-
-      if (existingAttempt) { 
-        setAttempt(existingAttempt);
-        startTimeRef.current = new Date(existingAttempt.started_at).getTime();
-        
-        // Use saved score from database if available, otherwise recalculate
-        if (existingAttempt.score !== null && existingAttempt.score !== undefined) {
-          setScore(existingAttempt.score);
-        }
-        
-        // Load existing answers to mark questions as saved
-        const { data: existingAnswers } = await supabase
-          .from('student_answers')
-          .select('question_id, answer_id')
-          .eq('attempt_id', existingAttempt.id);
-        
-        if (existingAnswers && questionsData) {
-          const savedIds = new Set(existingAnswers.map(a => a.question_id));
-          setSavedQuestionIds(savedIds);
-          
-          // Group answers by question
-          const questionAnswers = new Map<string, string[]>();
-          existingAnswers.forEach(sa => {
-            if (!questionAnswers.has(sa.question_id)) {
-              questionAnswers.set(sa.question_id, []);
-            }
-            questionAnswers.get(sa.question_id)?.push(sa.answer_id);
-          });
-          
-          // Only recalculate score if not already saved in database
-          if (existingAttempt.score === null || existingAttempt.score === undefined) {
-            let currentScore = 0;
-            questionsData.forEach(q => {
-              const userAnswerIds = questionAnswers.get(q.id) || [];
-              if (userAnswerIds.length > 0) {
-                const correctIds = q.answers.filter(a => a.is_correct).map(a => a.id);
-                const isCorrect = q.question_type === 'single'
-                  ? correctIds.includes(userAnswerIds[0])
-                  : correctIds.length === userAnswerIds.length && correctIds.every(id => userAnswerIds.includes(id));
-                if (isCorrect) currentScore++;
-              }
-            });
-            
-            setScore(currentScore);
-            
-            // Update score in database
-            await supabase.from('quiz_attempts')
-              .update({ score: currentScore })
-              .eq('id', existingAttempt.id);
-          }
-          
-          // Load selected answers for current question if already answered
-          const currentQ = questionsData[0];
-          if (currentQ && questionAnswers.has(currentQ.id)) {
-            setSelectedAnswers(questionAnswers.get(currentQ.id) || []);
-          }
-        }
+      // New attempts wait on the start screen so the rules are read before the clock runs
+      if (existingAttempt) {
+        await startAttempt(quizData, true);
       } else {
-        const { data: newAttempt } = await supabase.from('quiz_attempts').insert({ 
-          quiz_session_id: quizData.id, 
-          student_id: studentData.id, 
-          total_questions: questionsData?.length || 0 
-        }).select().single();
-        setAttempt(newAttempt);
-        startTimeRef.current = Date.now();
+        const { data: points, error: pointsError } = await supabase.rpc('get_quiz_question_points', {
+          p_quiz_session_id: quizData.id,
+          p_student_code: studentCode,
+        });
+        if (pointsError) throw pointsError;
+        setQuestionPoints((points || []).map(Number));
       }
-
-      // Initialize timer
-      const durationSeconds = (quizData as any).duration_seconds || 1800;
-      setTimeRemaining(durationSeconds);
     } catch (error) { console.error(error); toast.error('Error loading quiz'); }
     finally { setLoading(false); }
   };
@@ -216,7 +456,7 @@ export default function QuizPlay() {
   const handleTimeUp = async () => {
     toast.error('Time is up! Submitting your quiz...');
     // Auto-save current answer if selected
-    if (selectedAnswers.length > 0 && attempt) {
+    if (hasResponse() && attempt) {
       await saveAnswer();
     }
     // Finish quiz
@@ -225,170 +465,118 @@ export default function QuizPlay() {
 
   const handleAnswer = (answerId: string) => {
     const q = questions[currentIndex];
-    if (q.question_type === 'single') {
+    if (timedOutQuestionIds.has(q.id)) return;
+    if (isSingleChoice(q.question_type)) {
       setSelectedAnswers([answerId]);
     } else {
       setSelectedAnswers(prev => prev.includes(answerId) ? prev.filter(id => id !== answerId) : [...prev, answerId]);
     }
   };
 
-  const saveAnswer = async () => {
-    if (selectedAnswers.length === 0 || !attempt) return;
+  // Whether the current question has an answer to submit
+  const hasResponse = () => {
+    const q = questions[currentIndex];
+    if (q?.question_type === 'numeric') return isValidNumber(responseText, q.answer_format?.base);
+    if (q && isTextResponse(q.question_type)) return responseText.trim() !== '';
+    if (q?.question_type === 'ordering') return selectedAnswers.length === q.answers.length;
+    if (q?.question_type === 'matching') return q.answers.every(a => matchedPairs[a.id]);
+    if (q?.question_type === 'cloze') return blankResponses.some(r => r.trim() !== '');
+    if (q?.question_type === 'hotspot') return tapPoint !== null;
+    return selectedAnswers.length > 0;
+  };
+
+  const isSaved = (questionId: string) =>
+    !!savedAnswers[questionId] || savedResponses[questionId] !== undefined || !!savedPairs[questionId] ||
+    !!savedBlanks[questionId] || !!savedPoints[questionId];
+
+  // Returns whether the quiz can move on from the current question
+  const saveAnswer = async (): Promise<boolean> => {
+    if (!hasResponse() || !attempt) return false;
 
     const q = questions[currentIndex];
-    if (!q) return;
-
-    // Skip if already saved for this question
-    if (savedQuestionIds.has(q.id)) return;
-
-    // Calculate if answer is correct
-    const correctIds = q.answers.filter(a => a.is_correct).map(a => a.id);
-    const isCorrect = q.question_type === 'single' 
-      ? correctIds.includes(selectedAnswers[0])
-      : correctIds.length === selectedAnswers.length && correctIds.every(id => selectedAnswers.includes(id));
-
-    // Update score if correct
-    let newScore = score;
-    if (isCorrect) {
-      newScore = score + 1;
-      setScore(newScore);
-    }
+    if (!q) return false;
 
-    // Save answer to database
-    await supabase.from('student_answers').insert(
-      selectedAnswers.map(aid => ({ 
-        attempt_id: attempt.id, 
-        question_id: q.id, 
-        answer_id: aid, 
-        is_correct: q.answers.find(a => a.id === aid)?.is_correct || false 
-      }))
-    );
+    // Skip if already saved for this question or locked after timing out
+    if (isSaved(q.id) || timedOutQuestionIds.has(q.id)) return true;
 
-    // Update score in database immediately
-    const { error: scoreError } = await supabase.from('quiz_attempts')
-      .update({ score: newScore })
-      .eq('id', attempt.id);
-    
-    if (scoreError) {
-      console.error('Error updating score:', scoreError);
-    } else {
-      console.log('Answer saved. Question:', q.id, 'Correct:', isCorrect, 'New score:', newScore);
+    // Correctness is decided by the database; only the updated score comes
+    // back, and it is only shown when the review allows it
+    const { data: newScore, error } = await supabase.rpc('submit_quiz_answer', {
+      p_attempt_id: attempt.id,
+      p_student_code: studentCode,
+      p_question_id: q.id,
+      ...(isTextResponse(q.question_type)
+        ? { p_response_text: responseText }
+        : q.question_type === 'matching'
+          ? { p_answer_ids: Object.keys(matchedPairs), p_match_ids: Object.values(matchedPairs) }
+          : q.question_type === 'cloze'
+            ? { p_blank_responses: blankResponses }
+            : q.question_type === 'hotspot' && tapPoint
+              ? { p_point_x: tapPoint.x, p_point_y: tapPoint.y }
+              : { p_answer_ids: selectedAnswers }),
+    });
+
+    if (error) {
+      // Late answers are rejected by the server; let the timer submit the quiz
+      if (error.hint === 'attempt_expired') {
+        setTimeRemaining(0);
+        return false;
+      }
+      if (error.hint === 'question_expired') {
+        toast.error("Time's up for this question!");
+        setTimedOutQuestionIds(prev => new Set(prev).add(q.id));
+        return true;
+      }
+      console.error('Error saving answer:', error);
+      toast.error(error.message || 'Failed to save answer');
+      return false;
     }
 
+    setScore(newScore);
+
     // Mark this question as saved
-    setSavedQuestionIds(prev => new Set(prev).add(q.id));
+    if (isTextResponse(q.question_type)) {
+      setSavedResponses(prev => ({ ...prev, [q.id]: responseText.trim() }));
+    } else if (q.question_type === 'matching') {
+      setSavedPairs(prev => ({ ...prev, [q.id]: matchedPairs }));
+    } else if (q.question_type === 'cloze') {
+      setSavedBlanks(prev => ({ ...prev, [q.id]: blankResponses.map(r => r.trim()) }));
+    } else if (q.question_type === 'hotspot' && tapPoint) {
+      setSavedPoints(prev => ({ ...prev, [q.id]: tapPoint }));
+    } else {
+      setSavedAnswers(prev => ({ ...prev, [q.id]: selectedAnswers }));
+    }
+    return true;
   };
 
   const finishQuiz = async () => {
     // Save last answer if not already saved
-    let finalScore = score;
-    if (selectedAnswers.length > 0 && attempt) {
-      const q = questions[currentIndex];
-      if (q && !savedQuestionIds.has(q.id)) {
-        // Calculate if last answer is correct
-        const correctIds = q.answers.filter(a => a.is_correct).map(a => a.id);
-        const isCorrect = q.question_type === 'single' 
-          ? correctIds.includes(selectedAnswers[0])
-          : correctIds.length === selectedAnswers.length && correctIds.every(id => selectedAnswers.includes(id));
-        
-        // Update score if correct
-        if (isCorrect) {
-          finalScore = score + 1;
-          setScore(finalScore);
-        }
-        
-        // Save answer to database
-        await supabase.from('student_answers').insert(
-          selectedAnswers.map(aid => ({ 
-            attempt_id: attempt.id, 
-            question_id: q.id, 
-            answer_id: aid, 
-            is_correct: q.answers.find(a => a.id === aid)?.is_correct || false 
-          }))
-        );
-        
-        // Mark as saved
-        setSavedQuestionIds(prev => new Set(prev).add(q.id));
-      }
-    }
-    
-    // Recalculate score from all saved answers to ensure accuracy
-    const { data: allAnswers } = await supabase
-      .from('student_answers')
-      .select('question_id, answer_id')
-      .eq('attempt_id', attempt.id);
-    
-    if (allAnswers && questions.length > 0) {
-      const questionAnswers = new Map<string, string[]>();
-      allAnswers.forEach(sa => {
-        if (!questionAnswers.has(sa.question_id)) {
-          questionAnswers.set(sa.question_id, []);
-        }
-        questionAnswers.get(sa.question_id)?.push(sa.answer_id);
-      });
-      
-      let calculatedScore = 0;
-      questions.forEach(q => {
-        const userAnswerIds = questionAnswers.get(q.id) || [];
-        if (userAnswerIds.length > 0) {
-          const correctIds = q.answers.filter(a => a.is_correct).map(a => a.id);
-          const isCorrect = q.question_type === 'single'
-            ? correctIds.includes(userAnswerIds[0])
-            : correctIds.length === userAnswerIds.length && correctIds.every(id => userAnswerIds.includes(id));
-          if (isCorrect) calculatedScore++;
-        }
-      });
-      
-      finalScore = calculatedScore;
-      setScore(finalScore);
+    if (hasResponse() && attempt) {
+      await saveAnswer();
     }
     
-    // Stop timer immediately
+    // Stop timers immediately
+    stopQuestionTimer();
     if (timerIntervalRef.current) {
       clearInterval(timerIntervalRef.current);
       timerIntervalRef.current = null;
     }
     
-    // Calculate time taken accurately
-    // If timer is still running, use duration - remaining time
-    // Otherwise use elapsed time
-    let finalTimeTaken: number;
-    if (timeRemaining !== null && quiz) {
-      const durationSeconds = (quiz as any).duration_seconds || 1800;
-      finalTimeTaken = durationSeconds - timeRemaining;
-    } else {
-      // Fallback to elapsed time if timer was already stopped
-      finalTimeTaken = Math.floor((Date.now() - startTimeRef.current) / 1000);
-    }
-    
-    // Ensure time taken is not negative and is accurate
-    finalTimeTaken = Math.max(0, finalTimeTaken);
-    
-    const completedAt = new Date().toISOString();
-    
-    // Save final score to database
-    const { error, data: updatedAttempt } = await supabase.from('quiz_attempts').update({ 
-      score: finalScore, 
-      completed_at: completedAt,
-      time_taken_seconds: finalTimeTaken
-    }).eq('id', attempt.id).select().single();
+    // The final score and time taken are calculated by the database
+    const { data: completedAttempt, error } = await supabase.rpc('finish_quiz_attempt', {
+      p_attempt_id: attempt.id,
+      p_student_code: studentCode,
+    });
     
     if (error) {
       console.error('Error updating quiz attempt:', error);
       toast.error('Error saving quiz results');
     } else {
-      // Verify the score was saved correctly
-      console.log('Quiz completed with score:', finalScore, 'Saved score:', updatedAttempt?.score);
-      if (updatedAttempt && updatedAttempt.score !== finalScore) {
-        console.warn('Score mismatch! Calculated:', finalScore, 'Saved:', updatedAttempt.score);
-        // Retry saving with correct score
-        await supabase.from('quiz_attempts').update({ 
-          score: finalScore
-        }).eq('id', attempt.id);
-      }
+      setAttempt(completedAttempt);
+      setScore(completedAttempt.score ?? 0);
+      setTimeTaken(completedAttempt.time_taken_seconds || 0);
     }
     
-    setTimeTaken(finalTimeTaken);
     setFinished(true);
     setTimeRemaining(null); // Clear timer
     triggerConfetti();
@@ -396,31 +584,26 @@ export default function QuizPlay() {
 
   const nextQuestion = async () => {
     // Save current answer before moving to next question
-    if (selectedAnswers.length > 0 && attempt) {
-      await saveAnswer();
+    if (hasResponse() && attempt) {
+      const saved = await saveAnswer();
+      if (!saved) return;
     }
 
+    await goToNextQuestion();
+  };
+
+  const goToNextQuestion = async () => {
     if (currentIndex < questions.length - 1) { 
       const nextIndex = currentIndex + 1;
       setCurrentIndex(nextIndex);
       
       // Load existing answer for next question if it was already answered
       const nextQuestion = questions[nextIndex];
-      if (nextQuestion && savedQuestionIds.has(nextQuestion.id)) {
-        const { data: existingAnswers } = await supabase
-          .from('student_answers')
-          .select('answer_id')
-          .eq('attempt_id', attempt.id)
-          .eq('question_id', nextQuestion.id);
-        
-        if (existingAnswers && existingAnswers.length > 0) {
-          setSelectedAnswers(existingAnswers.map(a => a.answer_id));
-        } else {
-          setSelectedAnswers([]);
-        }
-      } else {
-        setSelectedAnswers([]);
-      }
+      setSelectedAnswers((nextQuestion && savedAnswers[nextQuestion.id]) || initialSelection(nextQuestion));
+      setResponseText((nextQuestion && savedResponses[nextQuestion.id]) || '');
+      setMatchedPairs((nextQuestion && savedPairs[nextQuestion.id]) || {});
+      setBlankResponses((nextQuestion && savedBlanks[nextQuestion.id]) || initialBlanks(nextQuestion));
+      setTapPoint((nextQuestion && savedPoints[nextQuestion.id]) || null);
     } else {
       // If this is the last question, finish the quiz
       await finishQuiz();
@@ -458,12 +641,35 @@ export default function QuizPlay() {
 
   const colors = ['bg-quiz-red', 'bg-quiz-blue', 'bg-quiz-yellow', 'bg-quiz-green'];
   const currentQ = questions[currentIndex];
+  const isLocked = !!currentQ && timedOutQuestionIds.has(currentQ.id);
+  const numberFormat = NUMBER_BASES.find(b => b.base === (currentQ?.answer_format?.base ?? 10))!;
+  const invalidNumber = currentQ?.question_type === 'numeric' && responseText.trim() !== '' && !hasResponse();
 
   if (loading) return <div className="min-h-screen gradient-hero flex items-center justify-center text-primary-foreground text-xl">Loading...</div>;
 
+  if (finished && reviewing) {
+    return (
+      <div className="min-h-screen gradient-hero flex flex-col">
+        <div className="flex-1 p-4">
+          <AnswerReview
+            attemptId={attempt.id}
+            studentCode={studentCode!}
+            negativeMarking={Number(quiz?.negative_marking ?? 0)}
+            onBack={() => setReviewing(false)}
+          />
+        </div>
+        <Footer transparent />
+      </div>
+    );
+  }
+
   if (finished) {
-    const percentage = questions.length > 0 ? Math.round((score / questions.length) * 100) : 0;
+    const maxPoints = Number(attempt?.max_points ?? questions.length);
+    const percentage = maxPoints > 0 ? Math.round((score / maxPoints) * 100) : 0;
     const isAlreadyCompleted = attempt?.completed_at && new Date(attempt.completed_at).getTime() < Date.now() - 5000; // Completed more than 5 seconds ago
+    // Mirrors the release check in get_attempt_review
+    const reviewOpen = quiz?.review_release === 'after_completion'
+      || (quiz?.review_release === 'after_deadline' && new Date(quiz.deadline) < new Date());
     
     return (
       <div className="min-h-screen gradient-hero flex flex-col">
@@ -491,7 +697,7 @@ export default function QuizPlay() {
               )}
               
               <div className="space-y-4">
-                <div className="text-5xl font-bold text-primary">{score}/{questions.length}</div>
+                <div className="text-5xl font-bold text-primary">{formatScore(score)}/{formatScore(maxPoints)}</div>
                 <div className="flex items-center justify-center gap-2">
                   <div className={cn(
                     "w-3 h-3 rounded-full",
@@ -502,6 +708,9 @@ export default function QuizPlay() {
                   )} />
                   <p className="text-lg font-semibold">{percentage}% correct</p>
                 </div>
+                {Number(quiz?.negative_marking ?? 0) > 0 && (
+                  <p className="text-xs text-muted-foreground">Net score after negative marking</p>
+                )}
                 
                 {percentage >= 80 && (
                   <p className="text-quiz-green font-bold text-xl animate-pulse">Excellent Work! 🎉</p>
@@ -529,6 +738,22 @@ export default function QuizPlay() {
                   </div>
                 )}
               </div>
+
+              {reviewOpen && (
+                <Button
+                  variant="outline"
+                  onClick={() => setReviewing(true)}
+                  className="w-full btn-bounce h-12 text-lg"
+                >
+                  <BookOpen className="w-5 h-5 mr-2" />
+                  Review Answers
+                </Button>
+              )}
+              {!reviewOpen && quiz?.review_release === 'after_deadline' && (
+                <p className="text-sm text-muted-foreground">
+                  Open this page again after {new Date(quiz.deadline).toLocaleString()} to review your answers.
+                </p>
+              )}
               
               <Button 
                 onClick={() => navigate('/')} 
@@ -544,6 +769,87 @@ export default function QuizPlay() {
     );
   }
 
+  if (!attempt) {
+    // With a question pool the questions aren't drawn yet, so the points are
+    // only known up front when every question is worth the same
+    const sectionDraws = Object.values((quiz?.section_draws ?? {}) as Record<string, number>);
+    const drawCount = sectionDraws.length > 0 ? sectionDraws.reduce((sum, count) => sum + count, 0) : quiz?.draw_count ?? null;
+    const questionCount = drawCount === null ? questionPoints.length : Math.min(drawCount, questionPoints.length);
+    const samePoints = questionPoints.every(points => points === questionPoints[0]);
+    const totalPoints = drawCount === null
+      ? questionPoints.reduce((sum, points) => sum + points, 0)
+      : samePoints ? questionCount * (questionPoints[0] ?? 1) : null;
+    const negativeMarking = Number(quiz?.negative_marking ?? 0);
+
+    return (
+      <div className="min-h-screen gradient-hero flex flex-col">
+        <div className="flex-1 flex items-center justify-center p-4">
+          <Card className="w-full max-w-md card-elevated animate-bounce-in text-center">
+            <CardContent className="pt-8 pb-8 space-y-6">
+              <div>
+                <h1 className="text-3xl font-bold">{quiz?.title}</h1>
+                {quiz?.description && (
+                  <p className="mt-2 text-muted-foreground font-sinhala">{quiz.description}</p>
+                )}
+              </div>
+
+              <div className={cn("grid gap-3 text-sm", totalPoints === null ? "grid-cols-2" : "grid-cols-3")}>
+                <div className="p-3 rounded-xl bg-muted/50">
+                  <p className="text-2xl font-bold">{questionCount}</p>
+                  <p className="text-muted-foreground">Questions</p>
+                </div>
+                {totalPoints !== null && (
+                  <div className="p-3 rounded-xl bg-muted/50">
+                    <p className="text-2xl font-bold">{formatScore(totalPoints)}</p>
+                    <p className="text-muted-foreground">Points</p>
+                  </div>
+                )}
+                <div className="p-3 rounded-xl bg-muted/50">
+                  <p className="text-2xl font-bold">{Math.floor((quiz?.duration_seconds || 1800) / 60)}m</p>
+                  <p className="text-muted-foreground">Time</p>
+                </div>
+              </div>
+
+              {negativeMarking > 0 ? (
+                <div className="p-4 rounded-xl border-2 border-destructive/40 bg-destructive/5 text-left space-y-2">
+                  <p className="flex items-center gap-2 font-bold text-destructive">
+                    <MinusCircle className="w-5 h-5" />
+                    Negative marking
+                  </p>
+                  <p className="text-sm">
+                    A wrong answer loses {Math.round(negativeMarking * 100)}% of the question's points.
+                    Unanswered questions score 0, and your total never goes below 0.
+                  </p>
+                  <p className="text-sm font-sinhala text-muted-foreground">
+                    වැරදි පිළිතුරකට ප්‍රශ්නයේ ලකුණුවලින් {Math.round(negativeMarking * 100)}% ක් අඩු වේ.
+                    පිළිතුරු නොදුන් ප්‍රශ්නවලට ලකුණු අඩු නොවේ.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Wrong answers don't lose points · <span className="font-sinhala">වැරදි පිළිතුරුවලට ලකුණු අඩු නොවේ</span>
+                </p>
+              )}
+
+              <p className="text-sm text-muted-foreground">
+                The timer starts when you press Start · <span className="font-sinhala">ආරම්භ කළ විට කාලය ගණන් වේ</span>
+              </p>
+
+              <Button
+                onClick={handleStart}
+                disabled={starting || questionPoints.length === 0}
+                className="w-full gradient-primary btn-bounce h-12 text-lg"
+              >
+                {starting ? 'Starting...' : 'Start Quiz'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+        <Footer transparent />
+      </div>
+    );
+  }
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -551,14 +857,18 @@ export default function QuizPlay() {
   };
 
   const getTimeColor = () => {
-    if (timeRemaining === null || !quiz) return '';
-    const totalDuration = (quiz as any).duration_seconds || 1800;
-    const percentage = (timeRemaining / totalDuration) * 100;
+    if (timeRemaining === null) return '';
+    const percentage = (timeRemaining / attemptWindowRef.current) * 100;
     if (percentage <= 20) return 'text-destructive animate-pulse';
     if (percentage <= 40) return 'text-quiz-yellow';
     return 'text-primary-foreground';
   };
 
+  // The running score tells whether each answer scored, so it is only shown
+  // when answers are released as soon as the quiz is done; saved answers
+  // can't be changed, so it reveals nothing the review won't show moments later
+  const showRunningScore = quiz?.review_release === 'after_completion';
+
   return (
     <div className="min-h-screen gradient-hero flex flex-col">
       <div className="flex-1 p-4">
@@ -567,6 +877,11 @@ export default function QuizPlay() {
         <div className="flex justify-between items-center mb-2 text-primary-foreground">
           <div className="flex items-center gap-2">
             <span className="font-bold text-lg">Question {currentIndex + 1} of {questions.length}</span>
+            {currentQ && (
+              <span className="text-sm px-2 py-0.5 rounded-md bg-primary/20">
+                {formatScore(currentQ.points)} {currentQ.points === 1 ? 'point' : 'points'}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-4">
             {timeRemaining !== null && (
@@ -575,10 +890,12 @@ export default function QuizPlay() {
                 {formatTime(timeRemaining)}
               </div>
             )}
-            <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-primary/20">
-              <Trophy className="w-4 h-4" />
-              <span className="font-bold">Score: {score}</span>
-            </div>
+            {showRunningScore && (
+              <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-primary/20">
+                <Trophy className="w-4 h-4" />
+                <span className="font-bold">Score: {formatScore(score)}</span>
+              </div>
+            )}
           </div>
         </div>
         {/* Progress bar */}
@@ -592,7 +909,36 @@ export default function QuizPlay() {
 
       <Card className="flex-1 card-elevated animate-slide-up">
         <CardContent className="h-full flex flex-col p-6 md:p-8">
-          {currentQ?.image_url && (
+          {questionTimeRemaining !== null && currentQ?.time_limit && (
+            <div className="mb-4 space-y-2">
+              <div className={cn(
+                'flex items-center justify-center gap-2 font-bold',
+                questionTimeRemaining <= 5 ? 'text-destructive animate-pulse' : 'text-muted-foreground'
+              )}>
+                <Timer className="w-4 h-4" />
+                {questionTimeRemaining}s
+              </div>
+              <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+                <div
+                  className={cn(
+                    'h-full transition-all duration-1000 ease-linear',
+                    questionTimeRemaining <= 5 ? 'bg-destructive' : 'bg-primary'
+                  )}
+                  style={{ width: `${Math.min(100, (questionTimeRemaining / currentQ.time_limit) * 100)}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {isLocked && (
+            <div className="mb-4 flex items-center justify-center gap-2 p-3 rounded-xl bg-muted text-muted-foreground">
+              <Lock className="w-4 h-4" />
+              <span>Time's up for this question</span>
+              <span className="font-sinhala">· කාලය අවසන්</span>
+            </div>
+          )}
+
+          {currentQ?.image_url && currentQ.question_type !== 'hotspot' && (
             <div className="mb-6 flex justify-center">
               <img 
                 src={currentQ.image_url} 
@@ -603,38 +949,170 @@ export default function QuizPlay() {
           )}
           
           <h2 className="text-xl md:text-2xl font-bold text-center mb-8 font-sinhala min-h-[3rem] flex items-center justify-center">
-            {currentQ?.question_text}
+            {currentQ?.question_type === 'cloze' ? 'Fill in the blanks' : <MathText text={currentQ?.question_text ?? ''} />}
           </h2>
+
+          {currentQ?.code && (
+            <CodeBlock code={currentQ.code} language={currentQ.code_language ?? 'plain'} className="-mt-4 mb-6" />
+          )}
           
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 flex-1 mb-6">
-            {currentQ?.answers.map((ans, i) => (
-              <button 
-                key={ans.id} 
-                onClick={() => handleAnswer(ans.id)} 
-                className={cn(
-                  'relative p-6 rounded-2xl text-lg font-bold transition-all duration-200 min-h-[80px] flex items-center justify-center',
-                  colors[i % 4],
-                  selectedAnswers.includes(ans.id) && 'ring-4 ring-foreground shadow-xl',
-                  'hover:brightness-110 hover:shadow-lg active:scale-[0.98]'
+          {currentQ?.question_type === 'true_false' ? (
+            <div className="grid grid-cols-2 gap-4 flex-1 mb-6">
+              {currentQ.answers.map((ans, i) => {
+                const option = TRUE_FALSE_ANSWERS.find(o => o.answer_text === ans.answer_text);
+                const Icon = i === 0 ? CheckCircle : XCircle;
+                return (
+                  <button
+                    key={ans.id}
+                    onClick={() => handleAnswer(ans.id)}
+                    disabled={isLocked}
+                    className={cn(
+                      'relative p-6 rounded-2xl font-bold transition-all duration-200 min-h-[140px] flex flex-col items-center justify-center gap-2',
+                      i === 0 ? 'bg-quiz-green' : 'bg-quiz-red',
+                      selectedAnswers.includes(ans.id) && 'ring-4 ring-foreground shadow-xl scale-[1.02]',
+                      isLocked ? 'opacity-50 cursor-not-allowed' : 'hover:brightness-110 hover:shadow-lg active:scale-[0.98]'
+                    )}
+                  >
+                    <Icon className="w-10 h-10 text-primary-foreground" />
+                    <span className="text-2xl text-primary-foreground">{option?.label ?? <MathText text={ans.answer_text} />}</span>
+                    {option && (
+                      <span className="text-lg text-primary-foreground/90 font-sinhala">{option.labelSi}</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ) : currentQ?.question_type === 'hotspot' && currentQ.image_url ? (
+            <div className="flex-1 mb-6">
+              <HotspotImage
+                src={currentQ.image_url}
+                point={tapPoint}
+                onChange={setTapPoint}
+                disabled={isLocked || isSaved(currentQ.id)}
+              />
+            </div>
+          ) : currentQ?.question_type === 'cloze' ? (
+            <div className="flex-1 mb-6">
+              <ClozeText
+                text={currentQ.question_text}
+                options={splitClozeText(currentQ.question_text).slice(1).map((_, blankIndex) =>
+                  currentQ.answers.filter(a => a.blank_index === blankIndex).map(a => a.answer_text)
                 )}
-                style={{
-                  transform: selectedAnswers.includes(ans.id) ? 'scale(1.02)' : 'scale(1)',
-                  zIndex: selectedAnswers.includes(ans.id) ? 10 : 1
+                values={blankResponses}
+                onChange={setBlankResponses}
+                disabled={isLocked || isSaved(currentQ.id)}
+              />
+            </div>
+          ) : currentQ?.question_type === 'matching' ? (
+            <div className="flex-1 mb-6">
+              <MatchingBoard
+                leftItems={currentQ.answers}
+                rightItems={currentQ.matches}
+                pairs={matchedPairs}
+                onChange={setMatchedPairs}
+                disabled={isLocked || isSaved(currentQ.id)}
+              />
+            </div>
+          ) : currentQ?.question_type === 'ordering' ? (
+            <div className="flex-1 mb-6">
+              <OrderingList
+                items={selectedAnswers
+                  .map(id => currentQ.answers.find(a => a.id === id))
+                  .filter((a): a is Answer => !!a)}
+                onReorder={setSelectedAnswers}
+                disabled={isLocked || isSaved(currentQ.id)}
+              />
+            </div>
+          ) : currentQ?.question_type === 'numeric' ? (
+            <div className="flex-1 mb-6 space-y-2">
+              <div className="flex items-center gap-3">
+                <Input
+                  value={responseText}
+                  onChange={(e) => setResponseText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && hasResponse() && !finished) nextQuestion();
+                  }}
+                  disabled={isLocked}
+                  readOnly={isSaved(currentQ.id)}
+                  inputMode={numberFormat.base === 10 ? 'decimal' : 'text'}
+                  autoComplete="off"
+                  spellCheck={false}
+                  maxLength={100}
+                  autoFocus
+                  aria-invalid={invalidNumber}
+                  placeholder={numberFormat.base === 10 ? '0' : `${numberFormat.prefix}…`}
+                  className={cn(
+                    'h-16 text-lg text-center font-mono rounded-2xl',
+                    invalidNumber && 'border-destructive focus-visible:ring-destructive'
+                  )}
+                />
+                {currentQ.answer_format?.unit && (
+                  <span className="text-lg font-bold text-muted-foreground">{currentQ.answer_format.unit}</span>
+                )}
+              </div>
+              <p className={cn('text-sm text-center', invalidNumber ? 'text-destructive' : 'text-muted-foreground')}>
+                {invalidNumber
+                  ? numberFormat.base === 10
+                    ? 'Enter a number, e.g. 42 or 3.5'
+                    : `Use only the digits ${numberFormat.digits} · whole numbers only`
+                  : <>Answer in {numberFormat.label.toLowerCase()} · <span className="font-sinhala">{numberFormat.labelSi}</span></>}
+              </p>
+            </div>
+          ) : currentQ && isTextResponse(currentQ.question_type) ? (
+            <div className="flex-1 mb-6 space-y-2">
+              <Input
+                value={responseText}
+                onChange={(e) => setResponseText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && hasResponse() && !finished) nextQuestion();
                 }}
-              >
-                <span className="text-primary-foreground font-sinhala text-center">{ans.answer_text}</span>
-              </button>
-            ))}
-          </div>
+                disabled={isLocked}
+                readOnly={isSaved(currentQ.id)}
+                maxLength={500}
+                autoFocus
+                placeholder="Type your answer · ඔබේ පිළිතුර ලියන්න"
+                className={cn('h-16 text-lg text-center rounded-2xl', currentQ.code_answers ? 'font-mono' : 'font-sinhala')}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 flex-1 mb-6">
+              {currentQ?.answers.map((ans, i) => (
+                <button 
+                  key={ans.id} 
+                  onClick={() => handleAnswer(ans.id)} 
+                  disabled={isLocked}
+                  className={cn(
+                    'relative p-6 rounded-2xl text-lg font-bold transition-all duration-200 min-h-[80px] flex items-center justify-center',
+                    colors[i % 4],
+                    selectedAnswers.includes(ans.id) && 'ring-4 ring-foreground shadow-xl',
+                    isLocked ? 'opacity-50 cursor-not-allowed' : 'hover:brightness-110 hover:shadow-lg active:scale-[0.98]'
+                  )}
+                  style={{
+                    transform: selectedAnswers.includes(ans.id) ? 'scale(1.02)' : 'scale(1)',
+                    zIndex: selectedAnswers.includes(ans.id) ? 10 : 1
+                  }}
+                >
+                  <span
+                    className={cn(
+                      'text-primary-foreground text-center',
+                      currentQ.code_answers ? 'font-mono whitespace-pre-wrap break-all' : 'font-sinhala'
+                    )}
+                  >
+                    {currentQ.code_answers ? ans.answer_text : <MathText text={ans.answer_text} />}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
 
           <div className="mt-auto">
             <Button 
               onClick={nextQuestion} 
-              disabled={selectedAnswers.length === 0 || finished} 
+              disabled={(!hasResponse() && !isLocked) || finished} 
               className="w-full h-14 text-lg gradient-primary btn-bounce shadow-lg"
             >
-              {selectedAnswers.length === 0 
-                ? 'Select an answer' 
+              {!hasResponse() && !isLocked
+                ? answerPrompt(currentQ?.question_type)
                 : currentIndex < questions.length - 1 
                   ? 'Next Question →' 
                   : 'Finish Quiz ✓'}
@@ -7,10 +7,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import QuizDuplicateDialog from '@/components/quiz/QuizDuplicateDialog';
+import QuizExportDialog from '@/components/quiz/QuizExportDialog';
+import QuizImportDialog from '@/components/quiz/QuizImportDialog';
 import { supabase } from '@/integrations/supabase/client';
+import { deleteQuestionImage } from '@/lib/question-images';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
-import { Plus, FileQuestion, Trash2, Copy, ExternalLink, Edit, Clock, Users, X } from 'lucide-react';
+import { Plus, FileQuestion, Trash2, Copy, ExternalLink, Edit, Clock, Users, X, MinusCircle, Shuffle, Upload, Download, CopyPlus } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface Group {
@@ -25,6 +29,13 @@ interface QuizSession {
   deadline: string;
   participant_limit: number | null;
   duration_seconds: number | null;
+  // Fraction of a question's points deducted for a wrong answer
+  negative_marking: number;
+  // When students can review their answers: never, after_completion or after_deadline
+  review_release: string;
+  // Each student gets their own order, kept for the whole attempt
+  shuffle_questions: boolean;
+  shuffle_answers: boolean;
   is_active: boolean;
   access_code: string;
   group_id: string;
@@ -32,6 +43,12 @@ interface QuizSession {
   groups?: { name: string };
 }
 
+const REVIEW_RELEASE_OPTIONS = [
+  { value: 'after_completion', label: 'As soon as each student finishes' },
+  { value: 'after_deadline', label: 'After the deadline' },
+  { value: 'never', label: 'Never' },
+];
+
 export default function Quizzes() {
   const { user } = useAuth();
   const [quizzes, setQuizzes] = useState<QuizSession[]>([]);
@@ -42,6 +59,9 @@ export default function Quizzes() {
   const [editingQuiz, setEditingQuiz] = useState<QuizSession | null>(null);
   const [extendDeadline, setExtendDeadline] = useState(false);
   const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportingQuiz, setExportingQuiz] = useState<QuizSession | null>(null);
+  const [duplicatingQuiz, setDuplicatingQuiz] = useState<QuizSession | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -107,6 +127,10 @@ export default function Quizzes() {
     const deadline = formData.get('deadline') as string;
     const participantLimit = formData.get('participantLimit') as string;
     const durationSeconds = formData.get('durationSeconds') as string;
+    const negativeMarking = formData.get('negativeMarking') as string;
+    const reviewRelease = formData.get('reviewRelease') as string;
+    const shuffleQuestions = formData.get('shuffleQuestions') === 'on';
+    const shuffleAnswers = formData.get('shuffleAnswers') === 'on';
 
     // Use first selected group for backward compatibility
     const primaryGroupId = selectedGroups[0];
@@ -120,6 +144,10 @@ export default function Quizzes() {
         deadline: new Date(deadline).toISOString(),
         participant_limit: participantLimit ? parseInt(participantLimit) : null,
         duration_seconds: durationSeconds ? parseInt(durationSeconds) : 1800,
+        negative_marking: negativeMarking ? parseFloat(negativeMarking) : 0,
+        review_release: reviewRelease || 'after_deadline',
+        shuffle_questions: shuffleQuestions,
+        shuffle_answers: shuffleAnswers,
         teacher_id: user?.id,
         access_code: '', // Will be auto-generated
       }).select().single();
@@ -164,40 +192,6 @@ export default function Quizzes() {
     setSelectedGroups(prev => prev.filter(id => id !== groupId));
   };
 
-  // Helper function to extract file path from Supabase storage URL
-  const extractFilePathFromUrl = (url: string | null): string | null => {
-    if (!url) return null;
-    try {
-      // Supabase storage URL format: https://[project].supabase.co/storage/v1/object/public/question-images/[path]
-      const match = url.match(/question-images\/(.+)$/);
-      return match ? match[1] : null;
-    } catch (error) {
-      console.error('Error extracting file path from URL:', error);
-      return null;
-    }
-  };
-
-  // Helper function to delete image from storage
-  const deleteImageFromStorage = async (imageUrl: string | null): Promise<void> => {
-    if (!imageUrl) return;
-    
-    const filePath = extractFilePathFromUrl(imageUrl);
-    if (!filePath) return;
-
-    try {
-      const { error } = await supabase.storage
-        .from('question-images')
-        .remove([filePath]);
-
-      if (error) {
-        console.error('Error deleting image from storage:', error);
-        // Don't throw - we don't want to block the operation if image deletion fails
-      }
-    } catch (error) {
-      console.error('Error deleting image from storage:', error);
-    }
-  };
-
   const deleteQuiz = async (quizId: string) => {
     if (!confirm('Delete this quiz? All questions and results will be lost.')) return;
 
@@ -205,25 +199,26 @@ export default function Quizzes() {
       // Get all questions for this quiz to delete their images
       const { data: questions, error: questionsError } = await supabase
         .from('questions')
-        .select('image_url')
+        .select('image_url, explanation_image_url')
         .eq('quiz_session_id', quizId);
 
       if (questionsError) {
         console.error('Error fetching questions:', questionsError);
         // Continue with deletion even if we can't fetch questions
-      } else {
-        // Delete all images for this quiz
-        const imageDeletionPromises = (questions || [])
-          .filter((q: any) => q.image_url)
-          .map((q: any) => deleteImageFromStorage(q.image_url));
-        
-        await Promise.all(imageDeletionPromises);
       }
 
       // Delete the quiz session (cascade will delete questions and answers)
       const { error } = await supabase.from('quiz_sessions').delete().eq('id', quizId);
       if (error) throw error;
 
+      // Delete the images once the questions are gone; images shared with
+      // the question bank or another quiz are kept
+      const imageDeletionPromises = (questions || [])
+        .flatMap(q => [q.image_url, q.explanation_image_url])
+        .map(url => deleteQuestionImage(url));
+
+      await Promise.all(imageDeletionPromises);
+
       // Optimistically update UI immediately
       setQuizzes(prev => prev.filter(q => q.id !== quizId));
       toast.success('Quiz deleted');
@@ -271,6 +266,10 @@ export default function Quizzes() {
     const deadlineInput = formData.get('deadline') as string;
     const participantLimit = formData.get('participantLimit') as string;
     const durationSeconds = formData.get('durationSeconds') as string;
+    const negativeMarking = formData.get('negativeMarking') ? parseFloat(formData.get('negativeMarking') as string) : 0;
+    const reviewRelease = formData.get('reviewRelease') as string;
+    const shuffleQuestions = formData.get('shuffleQuestions') === 'on';
+    const shuffleAnswers = formData.get('shuffleAnswers') === 'on';
     const extendDeadline = formData.get('extendDeadline') === 'on';
 
     try {
@@ -293,8 +292,14 @@ export default function Quizzes() {
         deadline: finalDeadline,
         participant_limit: participantLimit ? parseInt(participantLimit) : null,
         duration_seconds: durationSeconds ? parseInt(durationSeconds) : null,
+        negative_marking: negativeMarking,
+        review_release: reviewRelease || editingQuiz.review_release,
+        shuffle_questions: shuffleQuestions,
+        shuffle_answers: shuffleAnswers,
       };
 
+      // A change to negative marking rescores the recorded attempts in the
+      // same update
       const { error } = await supabase
         .from('quiz_sessions')
         .update(updateData)
@@ -323,6 +328,10 @@ export default function Quizzes() {
             <h1 className="text-3xl font-bold">Quizzes</h1>
             <p className="text-muted-foreground">Manage your quizzes</p>
           </div>
+          <Button variant="outline" className="sm:ml-auto" onClick={() => setImportOpen(true)} disabled={groups.length === 0}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
           <Dialog open={newQuizOpen} onOpenChange={setNewQuizOpen}>
             <DialogTrigger asChild>
               <Button className="gradient-primary btn-bounce" disabled={groups.length === 0}>
@@ -420,6 +429,66 @@ export default function Quizzes() {
                     Total time in seconds students have to complete the quiz (e.g. 1800 = 30 minutes)
                   </p>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="negativeMarking">Negative Marking</Label>
+                  <Input 
+                    id="negativeMarking" 
+                    name="negativeMarking" 
+                    type="number" 
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    defaultValue="0"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Fraction of a question's points deducted for a wrong answer (e.g. 0.25). Unanswered questions score 0 and totals never go below 0. Leave at 0 to turn it off.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Answer Review</Label>
+                  <Select name="reviewRelease" defaultValue="after_deadline">
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REVIEW_RELEASE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    When students can see the correct answers and explanations for their attempt
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="shuffleQuestions"
+                      name="shuffleQuestions"
+                      defaultChecked={false}
+                      className="w-4 h-4 rounded border-gray-300"
+                    />
+                    <Label htmlFor="shuffleQuestions" className="text-sm font-normal cursor-pointer">
+                      Shuffle question order
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="shuffleAnswers"
+                      name="shuffleAnswers"
+                      defaultChecked={false}
+                      className="w-4 h-4 rounded border-gray-300"
+                    />
+                    <Label htmlFor="shuffleAnswers" className="text-sm font-normal cursor-pointer">
+                      Shuffle answer order
+                    </Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Each student gets their own order, which stays the same if they reload. Pinned answers stay at the end.
+                  </p>
+                </div>
                 <Button type="submit" className="w-full gradient-primary">Create Quiz</Button>
               </form>
             </DialogContent>
@@ -477,6 +546,66 @@ export default function Quizzes() {
                       Total time in seconds students have to complete the quiz
                     </p>
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-negativeMarking">Negative Marking</Label>
+                    <Input 
+                      id="edit-negativeMarking" 
+                      name="negativeMarking" 
+                      type="number" 
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      defaultValue={editingQuiz.negative_marking}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Fraction of a question's points deducted for a wrong answer. Changing it recalculates existing scores.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Answer Review</Label>
+                    <Select name="reviewRelease" defaultValue={editingQuiz.review_release}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REVIEW_RELEASE_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      When students can see the correct answers and explanations for their attempt
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="edit-shuffleQuestions"
+                        name="shuffleQuestions"
+                        defaultChecked={editingQuiz.shuffle_questions}
+                        className="w-4 h-4 rounded border-gray-300"
+                      />
+                      <Label htmlFor="edit-shuffleQuestions" className="text-sm font-normal cursor-pointer">
+                        Shuffle question order
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="edit-shuffleAnswers"
+                        name="shuffleAnswers"
+                        defaultChecked={editingQuiz.shuffle_answers}
+                        className="w-4 h-4 rounded border-gray-300"
+                      />
+                      <Label htmlFor="edit-shuffleAnswers" className="text-sm font-normal cursor-pointer">
+                        Shuffle answer order
+                      </Label>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Each student gets their own order, which stays the same if they reload. Pinned answers stay at the end.
+                    </p>
+                  </div>
                   <div className="space-y-3 p-3 border rounded-lg bg-muted/30">
                     <div className="flex items-center space-x-2">
                       <input
@@ -614,6 +743,18 @@ export default function Quizzes() {
                         Duration: {Math.floor(quiz.duration_seconds / 60)}m
                       </div>
                     )}
+                    {quiz.negative_marking > 0 && (
+                      <div className="flex items-center gap-1">
+                        <MinusCircle className="w-4 h-4" />
+                        Negative marking: {Math.round(quiz.negative_marking * 100)}%
+                      </div>
+                    )}
+                    {(quiz.shuffle_questions || quiz.shuffle_answers) && (
+                      <div className="flex items-center gap-1">
+                        <Shuffle className="w-4 h-4" />
+                        Shuffled {quiz.shuffle_questions && quiz.shuffle_answers ? 'questions & answers' : quiz.shuffle_questions ? 'questions' : 'answers'}
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-2 p-3 rounded-xl bg-muted/50">
@@ -646,6 +787,24 @@ export default function Quizzes() {
                     >
                       <Clock className="w-4 h-4" />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="hover:bg-primary/10"
+                      onClick={() => setDuplicatingQuiz(quiz)}
+                      title="Duplicate Quiz"
+                    >
+                      <CopyPlus className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="hover:bg-primary/10"
+                      onClick={() => setExportingQuiz(quiz)}
+                      title="Export Quiz"
+                    >
+                      <Download className="w-4 h-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -660,6 +819,20 @@ export default function Quizzes() {
             ))}
           </div>
         )}
+
+        <QuizImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          groups={groups}
+          onImported={loadData}
+        />
+        <QuizExportDialog quiz={exportingQuiz} onClose={() => setExportingQuiz(null)} />
+        <QuizDuplicateDialog
+          quiz={duplicatingQuiz}
+          groups={groups}
+          onClose={() => setDuplicatingQuiz(null)}
+          onDuplicated={loadData}
+        />
       </div>
     </DashboardLayout>
   );
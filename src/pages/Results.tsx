@@ -3,27 +3,37 @@ import DashboardLayout from '@/components/dashboard/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
+import RegradeDialog from '@/components/results/RegradeDialog';
+import ShortAnswerReview from '@/components/results/ShortAnswerReview';
+import MatchingPairsReview from '@/components/results/MatchingPairsReview';
+import ClozeBlanksReview from '@/components/results/ClozeBlanksReview';
+import HotspotHeatmap from '@/components/results/HotspotHeatmap';
+import QuestionStats from '@/components/results/QuestionStats';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
-import { BarChart3, Trophy, Users, CheckCircle, XCircle, Medal, Download, Loader2 } from 'lucide-react';
+import { BarChart3, Trophy, Users, CheckCircle, XCircle, Medal, Download, Loader2, Timer, RefreshCw } from 'lucide-react';
 import { format } from 'date-fns';
-import { cn } from '@/lib/utils';
+import { cn, formatScore } from '@/lib/utils';
+import { mathToPlainText } from '@/lib/math-notation';
 
 interface QuizSession {
   id: string;
   title: string;
   deadline: string;
+  negative_marking: number;
 }
 
 interface AttemptResult {
   id: string;
   score: number;
   total_questions: number;
+  max_points: number;
   completed_at: string | null;
   started_at: string;
   ranking: number | null;
   time_taken_seconds: number | null;
+  timed_out_count: number;
   students: {
     first_name: string;
     student_code: string;
@@ -37,6 +47,7 @@ export default function Results() {
   const [results, setResults] = useState<AttemptResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [generatingImage, setGeneratingImage] = useState(false);
+  const [regradeOpen, setRegradeOpen] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -57,7 +68,7 @@ export default function Results() {
       // Explicitly filter by teacher_id to ensure data isolation
       const { data, error } = await supabase
         .from('quiz_sessions')
-        .select('id, title, deadline')
+        .select('id, title, deadline, negative_marking')
         .eq('teacher_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -106,12 +117,30 @@ export default function Results() {
         .order('time_taken_seconds', { ascending: true });
 
       if (error) throw error;
+
+      // Count questions that ran out of their per-question time limit
+      const timedOutCounts = new Map<string, number>();
+      const attemptIds = (data || []).map(r => r.id);
+      if (attemptIds.length > 0) {
+        const { data: timedOut, error: timedOutError } = await supabase
+          .from('attempt_questions')
+          .select('attempt_id')
+          .eq('timed_out', true)
+          .in('attempt_id', attemptIds);
+
+        if (timedOutError) throw timedOutError;
+        (timedOut || []).forEach(row => {
+          timedOutCounts.set(row.attempt_id, (timedOutCounts.get(row.attempt_id) || 0) + 1);
+        });
+      }
       
       // Map data to include ranking and time_taken_seconds with proper types
       const mappedResults: AttemptResult[] = (data || []).map((r: any) => ({
         ...r,
         ranking: r.ranking || null,
+        max_points: Number(r.max_points ?? r.total_questions),
         time_taken_seconds: r.time_taken_seconds || null,
+        timed_out_count: timedOutCounts.get(r.id) || 0,
       }));
       
       setResults(mappedResults);
@@ -215,9 +244,10 @@ export default function Results() {
       // Quiz title
       ctx.font = 'bold 48px Poppins, sans-serif';
       ctx.fillStyle = '#fbbf24'; // Yellow
-      const quizTitle = selectedQuizData.title.length > 40 
-        ? selectedQuizData.title.substring(0, 37) + '...'
-        : selectedQuizData.title;
+      const title = mathToPlainText(selectedQuizData.title);
+      const quizTitle = title.length > 40 
+        ? title.substring(0, 37) + '...'
+        : title;
       ctx.fillText(quizTitle, canvas.width / 2, 200);
 
       // Date
@@ -288,10 +318,10 @@ export default function Results() {
         ctx.fillText(result.students?.first_name || 'Unknown', 300, y + 80);
 
         // Score
-        const percentage = Math.round((result.score / result.total_questions) * 100);
+        const percentage = Math.round((result.score / result.max_points) * 100);
         ctx.font = 'bold 40px Poppins, sans-serif';
         ctx.fillStyle = percentage >= 80 ? '#10b981' : percentage >= 60 ? '#3b82f6' : percentage >= 40 ? '#fbbf24' : '#ef4444';
-        ctx.fillText(`${result.score}/${result.total_questions} (${percentage}%)`, 300, y + 140);
+        ctx.fillText(`${formatScore(result.score)}/${formatScore(result.max_points)} (${percentage}%)`, 300, y + 140);
 
         // Time taken
         if (result.time_taken_seconds) {
@@ -400,7 +430,7 @@ export default function Results() {
                       <div>
                         <p className="text-2xl font-bold">
                           {results.length > 0 
-                            ? Math.round((results.reduce((sum, r) => sum + (r.score / r.total_questions), 0) / results.length) * 100)
+                            ? Math.round((results.reduce((sum, r) => sum + (r.score / r.max_points), 0) / results.length) * 100)
                             : 0}%
                         </p>
                         <p className="text-sm text-muted-foreground">Avg Score</p>
@@ -431,7 +461,7 @@ export default function Results() {
                       </div>
                       <div>
                         <p className="text-2xl font-bold">
-                          {results.length > 0 ? Math.max(...results.map(r => r.score)) : 0}
+                          {results.length > 0 ? formatScore(Math.max(...results.map(r => r.score))) : 0}
                         </p>
                         <p className="text-sm text-muted-foreground">Top Score</p>
                       </div>
@@ -456,27 +486,45 @@ export default function Results() {
               <Card className="card-elevated overflow-hidden">
                 <CardHeader>
                   <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-                    <CardTitle className="text-xl sm:text-2xl">Leaderboard</CardTitle>
-                    {results.filter(r => r.completed_at).length >= 1 && (
+                    <div>
+                      <CardTitle className="text-xl sm:text-2xl">Leaderboard</CardTitle>
+                      {selectedQuizData && selectedQuizData.negative_marking > 0 && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Net scores: wrong answers lose {Math.round(selectedQuizData.negative_marking * 100)}% of their points
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-2">
                       <Button
-                        onClick={generateShareableImage}
-                        disabled={generatingImage}
-                        className="gradient-primary btn-bounce w-full sm:w-auto"
+                        variant="outline"
                         size="sm"
+                        className="w-full sm:w-auto"
+                        onClick={() => setRegradeOpen(true)}
                       >
-                        {generatingImage ? (
-                          <>
-                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                            Generating...
-                          </>
-                        ) : (
-                          <>
-                            <Download className="w-4 h-4 mr-2" />
-                            Share Image
-                          </>
-                        )}
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        Regrade
                       </Button>
-                    )}
+                      {results.filter(r => r.completed_at).length >= 1 && (
+                        <Button
+                          onClick={generateShareableImage}
+                          disabled={generatingImage}
+                          className="gradient-primary btn-bounce w-full sm:w-auto"
+                          size="sm"
+                        >
+                          {generatingImage ? (
+                            <>
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              Generating...
+                            </>
+                          ) : (
+                            <>
+                              <Download className="w-4 h-4 mr-2" />
+                              Share Image
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent className="p-0">
@@ -537,12 +585,18 @@ export default function Results() {
                               </code>
                             </td>
                             <td className="px-6 py-4">
-                              <span className={`font-bold ${getScoreColor(result.score, result.total_questions)}`}>
-                                {result.score}/{result.total_questions}
+                              <span className={`font-bold ${getScoreColor(result.score, result.max_points)}`}>
+                                {formatScore(result.score)}/{formatScore(result.max_points)}
                               </span>
                               <span className="text-muted-foreground ml-2">
-                                ({Math.round((result.score / result.total_questions) * 100)}%)
+                                ({Math.round((result.score / result.max_points) * 100)}%)
                               </span>
+                              {result.timed_out_count > 0 && (
+                                <span className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                                  <Timer className="w-3 h-3" />
+                                  {result.timed_out_count} timed out
+                                </span>
+                              )}
                             </td>
                             <td className="px-6 py-4 text-sm text-muted-foreground">
                               {result.time_taken_seconds 
@@ -576,9 +630,43 @@ export default function Results() {
                 </CardContent>
               </Card>
             )}
+
+            {selectedQuiz && results.length > 0 && (
+              <QuestionStats quizId={selectedQuiz} attempts={results} />
+            )}
+
+            {selectedQuiz && results.length > 0 && (
+              <ShortAnswerReview
+                quizId={selectedQuiz}
+                attempts={results}
+                onAccepted={() => loadResults(selectedQuiz)}
+              />
+            )}
+
+            {selectedQuiz && results.length > 0 && (
+              <MatchingPairsReview quizId={selectedQuiz} attempts={results} />
+            )}
+
+            {selectedQuiz && results.length > 0 && (
+              <ClozeBlanksReview quizId={selectedQuiz} attempts={results} />
+            )}
+
+            {selectedQuiz && results.length > 0 && (
+              <HotspotHeatmap quizId={selectedQuiz} attempts={results} />
+            )}
           </>
         )}
       </div>
+
+      {selectedQuiz && (
+        <RegradeDialog
+          quizId={selectedQuiz}
+          open={regradeOpen}
+          onOpenChange={setRegradeOpen}
+          attempts={results}
+          onRegraded={() => loadResults(selectedQuiz)}
+        />
+      )}
     </DashboardLayout>
   );
 }
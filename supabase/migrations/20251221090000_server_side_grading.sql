@@ -0,0 +1,309 @@
+-- Server-side grading
+-- Answer keys never leave the database: students read questions and answer
+-- options through views without is_correct, and answers are submitted and
+-- scored through the functions below instead of direct table writes.
+
+-- Student-facing views (no answer keys)
+CREATE OR REPLACE VIEW public.student_questions AS
+SELECT
+  id,
+  quiz_session_id,
+  question_text,
+  question_type,
+  image_url,
+  order_index,
+  time_limit
+FROM public.questions;
+
+CREATE OR REPLACE VIEW public.student_answer_options AS
+SELECT
+  id,
+  question_id,
+  answer_text,
+  order_index
+FROM public.answers;
+
+GRANT SELECT ON public.student_questions TO anon, authenticated;
+GRANT SELECT ON public.student_answer_options TO anon, authenticated;
+
+-- Remove public access that exposed the answer key or allowed score tampering
+DROP POLICY IF EXISTS "Anyone can view questions for active quizzes" ON public.questions;
+DROP POLICY IF EXISTS "Anyone can view answers" ON public.answers;
+DROP POLICY IF EXISTS "Anyone can create quiz attempts" ON public.quiz_attempts;
+DROP POLICY IF EXISTS "Anyone can update their quiz attempts" ON public.quiz_attempts;
+DROP POLICY IF EXISTS "Anyone can create student answers" ON public.student_answers;
+DROP POLICY IF EXISTS "Anyone can view student answers" ON public.student_answers;
+
+-- Look up an attempt and verify it belongs to the given student code
+CREATE OR REPLACE FUNCTION public.get_student_attempt(p_attempt_id UUID, p_student_code TEXT)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+BEGIN
+  SELECT qa.* INTO attempt_row
+  FROM public.quiz_attempts qa
+  JOIN public.students s ON s.id = qa.student_id
+  WHERE qa.id = p_attempt_id
+    AND s.student_code = p_student_code;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt not found';
+  END IF;
+
+  RETURN attempt_row;
+END;
+$$;
+
+-- Decide whether a set of selected answers is correct for a question
+CREATE OR REPLACE FUNCTION public.grade_question(p_question_id UUID, p_answer_ids UUID[])
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q_type question_type;
+  correct_ids UUID[];
+  selected_ids UUID[];
+BEGIN
+  SELECT question_type INTO q_type
+  FROM public.questions
+  WHERE id = p_question_id;
+
+  SELECT COALESCE(array_agg(id ORDER BY id), '{}') INTO correct_ids
+  FROM public.answers
+  WHERE question_id = p_question_id
+    AND is_correct;
+
+  SELECT COALESCE(array_agg(DISTINCT selected ORDER BY selected), '{}') INTO selected_ids
+  FROM unnest(p_answer_ids) AS selected
+  WHERE selected IS NOT NULL;
+
+  IF cardinality(selected_ids) = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  IF q_type = 'single' THEN
+    RETURN cardinality(selected_ids) = 1 AND selected_ids[1] = ANY(correct_ids);
+  END IF;
+
+  -- Multiple answers: the selected set must equal the correct set
+  RETURN selected_ids = correct_ids;
+END;
+$$;
+
+-- Recompute the score of an attempt from its stored answers
+CREATE OR REPLACE FUNCTION public.calculate_attempt_score(p_attempt_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total
+  FROM (
+    SELECT question_id
+    FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+    GROUP BY question_id
+    HAVING public.grade_question(question_id, array_agg(answer_id))
+  ) correct_questions;
+
+  RETURN total;
+END;
+$$;
+
+-- Start (or resume) a student's attempt after checking access to the quiz
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_session_id UUID, p_student_code TEXT)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz_row public.quiz_sessions;
+  student_row public.students;
+  attempt_row public.quiz_attempts;
+BEGIN
+  SELECT * INTO quiz_row
+  FROM public.quiz_sessions
+  WHERE id = p_quiz_session_id;
+
+  IF NOT FOUND OR quiz_row.deadline < NOW() THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  SELECT * INTO student_row
+  FROM public.students
+  WHERE student_code = p_student_code;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid student code';
+  END IF;
+
+  -- Check quiz_session_groups and the legacy group_id column
+  IF student_row.group_id <> quiz_row.group_id AND NOT EXISTS (
+    SELECT 1 FROM public.quiz_session_groups
+    WHERE quiz_session_id = quiz_row.id
+      AND group_id = student_row.group_id
+  ) THEN
+    RAISE EXCEPTION 'This quiz is not available for your group';
+  END IF;
+
+  INSERT INTO public.quiz_attempts (quiz_session_id, student_id, total_questions)
+  VALUES (
+    quiz_row.id,
+    student_row.id,
+    (SELECT COUNT(*) FROM public.questions WHERE quiz_session_id = quiz_row.id)
+  )
+  ON CONFLICT (quiz_session_id, student_id) DO NOTHING;
+
+  SELECT * INTO attempt_row
+  FROM public.quiz_attempts
+  WHERE quiz_session_id = quiz_row.id
+    AND student_id = student_row.id;
+
+  RETURN attempt_row;
+END;
+$$;
+
+-- Answers already submitted in an attempt (without correctness)
+CREATE OR REPLACE FUNCTION public.get_attempt_answers(p_attempt_id UUID, p_student_code TEXT)
+RETURNS TABLE (question_id UUID, answer_id UUID)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.get_student_attempt(p_attempt_id, p_student_code);
+
+  RETURN QUERY
+  SELECT sa.question_id, sa.answer_id
+  FROM public.student_answers sa
+  WHERE sa.attempt_id = p_attempt_id
+  ORDER BY sa.answered_at;
+END;
+$$;
+
+-- Submit the answer for one question and return the updated score
+CREATE OR REPLACE FUNCTION public.submit_quiz_answer(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID,
+  p_answer_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  q_type question_type;
+  new_score INTEGER;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  SELECT question_type INTO q_type
+  FROM public.questions
+  WHERE id = p_question_id
+    AND quiz_session_id = attempt_row.quiz_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  IF COALESCE(cardinality(p_answer_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Select an answer';
+  END IF;
+
+  IF q_type = 'single' AND cardinality(p_answer_ids) > 1 THEN
+    RAISE EXCEPTION 'Only one answer can be selected for this question';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_answer_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = selected AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  -- Answers are final once submitted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+      AND question_id = p_question_id
+  ) THEN
+    INSERT INTO public.student_answers (attempt_id, question_id, answer_id, is_correct)
+    SELECT p_attempt_id, p_question_id, a.id, a.is_correct
+    FROM public.answers a
+    WHERE a.question_id = p_question_id
+      AND a.id = ANY(p_answer_ids);
+  END IF;
+
+  new_score := public.calculate_attempt_score(p_attempt_id);
+
+  UPDATE public.quiz_attempts
+  SET score = new_score
+  WHERE id = p_attempt_id;
+
+  RETURN new_score;
+END;
+$$;
+
+-- Complete an attempt with a score computed from the stored answers
+CREATE OR REPLACE FUNCTION public.finish_quiz_attempt(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_time_taken_seconds INTEGER
+)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RETURN attempt_row;
+  END IF;
+
+  UPDATE public.quiz_attempts
+  SET score = public.calculate_attempt_score(p_attempt_id),
+      completed_at = NOW(),
+      time_taken_seconds = GREATEST(0, COALESCE(p_time_taken_seconds, 0))
+  WHERE id = p_attempt_id
+  RETURNING * INTO attempt_row;
+
+  RETURN attempt_row;
+END;
+$$;
+
+-- Internal helpers are only callable from the functions above
+REVOKE EXECUTE ON FUNCTION public.get_student_attempt(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grade_question(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.calculate_attempt_score(UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_attempt(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_attempt_answers(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_quiz_answer(UUID, TEXT, UUID, UUID[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_quiz_attempt(UUID, TEXT, INTEGER) TO anon, authenticated;
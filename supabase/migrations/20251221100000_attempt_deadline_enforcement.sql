@@ -0,0 +1,290 @@
+-- Server-authoritative attempt timer
+-- An attempt expires at started_at + duration_seconds, capped by the quiz
+-- deadline. Late answers are rejected and expired attempts are closed with
+-- the time they had, so rankings don't depend on what the browser reports.
+
+-- When an attempt stops accepting answers
+CREATE OR REPLACE FUNCTION public.attempt_expires_at(p_attempt_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT LEAST(
+    qa.started_at + make_interval(secs => COALESCE(qs.duration_seconds, 1800)),
+    qs.deadline
+  )
+  FROM public.quiz_attempts qa
+  JOIN public.quiz_sessions qs ON qs.id = qa.quiz_session_id
+  WHERE qa.id = p_attempt_id;
+$$;
+
+-- Close open attempts whose time has run out, scoring what was submitted
+CREATE OR REPLACE FUNCTION public.close_expired_attempts(p_quiz_session_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.quiz_attempts qa
+  SET score = public.calculate_attempt_score(qa.id),
+      completed_at = expiry.expires_at,
+      time_taken_seconds = GREATEST(0, EXTRACT(EPOCH FROM (expiry.expires_at - qa.started_at))::INTEGER)
+  FROM (
+    SELECT id, public.attempt_expires_at(id) AS expires_at
+    FROM public.quiz_attempts
+    WHERE quiz_session_id = p_quiz_session_id
+      AND completed_at IS NULL
+  ) expiry
+  WHERE qa.id = expiry.id
+    AND expiry.expires_at <= NOW();
+END;
+$$;
+
+-- Server clock and expiry for resyncing the client countdown
+CREATE OR REPLACE FUNCTION public.get_attempt_timer(p_attempt_id UUID, p_student_code TEXT)
+RETURNS TABLE (started_at TIMESTAMPTZ, expires_at TIMESTAMPTZ, server_time TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  RETURN QUERY
+  SELECT attempt_row.started_at, public.attempt_expires_at(p_attempt_id), NOW();
+END;
+$$;
+
+-- Resuming an expired attempt closes it instead of reopening the timer
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_session_id UUID, p_student_code TEXT)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz_row public.quiz_sessions;
+  student_row public.students;
+  attempt_row public.quiz_attempts;
+BEGIN
+  SELECT * INTO quiz_row
+  FROM public.quiz_sessions
+  WHERE id = p_quiz_session_id;
+
+  IF NOT FOUND OR quiz_row.deadline < NOW() THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  SELECT * INTO student_row
+  FROM public.students
+  WHERE student_code = p_student_code;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid student code';
+  END IF;
+
+  -- Check quiz_session_groups and the legacy group_id column
+  IF student_row.group_id <> quiz_row.group_id AND NOT EXISTS (
+    SELECT 1 FROM public.quiz_session_groups
+    WHERE quiz_session_id = quiz_row.id
+      AND group_id = student_row.group_id
+  ) THEN
+    RAISE EXCEPTION 'This quiz is not available for your group';
+  END IF;
+
+  INSERT INTO public.quiz_attempts (quiz_session_id, student_id, total_questions)
+  VALUES (
+    quiz_row.id,
+    student_row.id,
+    (SELECT COUNT(*) FROM public.questions WHERE quiz_session_id = quiz_row.id)
+  )
+  ON CONFLICT (quiz_session_id, student_id) DO NOTHING;
+
+  PERFORM public.close_expired_attempts(quiz_row.id);
+
+  SELECT * INTO attempt_row
+  FROM public.quiz_attempts
+  WHERE quiz_session_id = quiz_row.id
+    AND student_id = student_row.id;
+
+  RETURN attempt_row;
+END;
+$$;
+
+-- Reject answers that arrive after the attempt has expired
+CREATE OR REPLACE FUNCTION public.submit_quiz_answer(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID,
+  p_answer_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  q_type question_type;
+  new_score INTEGER;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  -- A few seconds of grace cover the request latency of an answer sent at 0:00
+  IF NOW() > public.attempt_expires_at(p_attempt_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up' USING HINT = 'attempt_expired';
+  END IF;
+
+  SELECT question_type INTO q_type
+  FROM public.questions
+  WHERE id = p_question_id
+    AND quiz_session_id = attempt_row.quiz_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  IF COALESCE(cardinality(p_answer_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Select an answer';
+  END IF;
+
+  IF q_type = 'single' AND cardinality(p_answer_ids) > 1 THEN
+    RAISE EXCEPTION 'Only one answer can be selected for this question';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_answer_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = selected AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  -- Answers are final once submitted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+      AND question_id = p_question_id
+  ) THEN
+    INSERT INTO public.student_answers (attempt_id, question_id, answer_id, is_correct)
+    SELECT p_attempt_id, p_question_id, a.id, a.is_correct
+    FROM public.answers a
+    WHERE a.question_id = p_question_id
+      AND a.id = ANY(p_answer_ids);
+  END IF;
+
+  new_score := public.calculate_attempt_score(p_attempt_id);
+
+  UPDATE public.quiz_attempts
+  SET score = new_score
+  WHERE id = p_attempt_id;
+
+  RETURN new_score;
+END;
+$$;
+
+-- Time taken is measured by the server, never beyond the attempt's expiry
+DROP FUNCTION IF EXISTS public.finish_quiz_attempt(UUID, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.finish_quiz_attempt(p_attempt_id UUID, p_student_code TEXT)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  finished_at TIMESTAMPTZ;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RETURN attempt_row;
+  END IF;
+
+  finished_at := LEAST(NOW(), public.attempt_expires_at(p_attempt_id));
+
+  UPDATE public.quiz_attempts
+  SET score = public.calculate_attempt_score(p_attempt_id),
+      completed_at = finished_at,
+      time_taken_seconds = GREATEST(0, EXTRACT(EPOCH FROM (finished_at - started_at))::INTEGER)
+  WHERE id = p_attempt_id
+  RETURNING * INTO attempt_row;
+
+  RETURN attempt_row;
+END;
+$$;
+
+-- Rankings first close attempts that were abandoned while the clock ran out
+CREATE OR REPLACE FUNCTION calculate_quiz_rankings(quiz_session_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deadline_time TIMESTAMPTZ;
+BEGIN
+  -- Get the quiz deadline
+  SELECT deadline INTO deadline_time
+  FROM public.quiz_sessions
+  WHERE id = quiz_session_uuid;
+
+  -- Only calculate rankings if deadline has passed
+  IF deadline_time IS NULL OR deadline_time > NOW() THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.close_expired_attempts(quiz_session_uuid);
+
+  -- Reset all rankings for this quiz
+  UPDATE public.quiz_attempts
+  SET ranking = NULL
+  WHERE quiz_session_id = quiz_session_uuid;
+
+  -- Calculate time_taken_seconds for attempts that don't have it
+  UPDATE public.quiz_attempts
+  SET time_taken_seconds = EXTRACT(EPOCH FROM (completed_at - started_at))::INTEGER
+  WHERE quiz_session_id = quiz_session_uuid
+    AND completed_at IS NOT NULL
+    AND time_taken_seconds IS NULL;
+
+  -- Update rankings: Top 3 based on score (desc) then time_taken_seconds (asc - faster is better)
+  WITH ranked_attempts AS (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          score DESC NULLS LAST,
+          time_taken_seconds ASC NULLS LAST,
+          completed_at ASC
+      ) as rank_position
+    FROM public.quiz_attempts
+    WHERE quiz_session_id = quiz_session_uuid
+      AND completed_at IS NOT NULL
+  )
+  UPDATE public.quiz_attempts qa
+  SET ranking = ra.rank_position
+  FROM ranked_attempts ra
+  WHERE qa.id = ra.id
+    AND ra.rank_position <= 3;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.attempt_expires_at(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_expired_attempts(UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_attempt_timer(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_quiz_attempt(UUID, TEXT) TO anon, authenticated;
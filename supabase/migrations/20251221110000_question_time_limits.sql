@@ -0,0 +1,203 @@
+-- Per-question time limits
+-- questions.time_limit has existed since the first migration but could never
+-- be edited, so every question carries the old column default of 30. Clear
+-- it so existing quizzes keep running without limits; NULL means no limit.
+ALTER TABLE public.questions ALTER COLUMN time_limit SET DEFAULT NULL;
+
+UPDATE public.questions SET time_limit = NULL;
+
+-- When each question was first shown in an attempt and whether it timed out
+CREATE TABLE IF NOT EXISTS public.attempt_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attempt_id UUID NOT NULL REFERENCES public.quiz_attempts(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  timed_out BOOLEAN NOT NULL DEFAULT false,
+  UNIQUE(attempt_id, question_id)
+);
+
+-- Enable RLS on attempt_questions
+ALTER TABLE public.attempt_questions ENABLE ROW LEVEL SECURITY;
+
+-- Students only reach this table through the functions below
+CREATE POLICY "Teachers can view attempt questions for their quizzes"
+  ON public.attempt_questions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.quiz_attempts qa
+    JOIN public.quiz_sessions qs ON qa.quiz_session_id = qs.id
+    WHERE attempt_questions.attempt_id = qa.id
+    AND qs.teacher_id = auth.uid()
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_attempt_questions_attempt_id ON public.attempt_questions(attempt_id);
+
+-- When a question stops accepting answers (NULL when it has no limit or hasn't been opened)
+CREATE OR REPLACE FUNCTION public.question_expires_at(p_attempt_id UUID, p_question_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT aq.opened_at + make_interval(secs => q.time_limit)
+  FROM public.attempt_questions aq
+  JOIN public.questions q ON q.id = aq.question_id
+  WHERE aq.attempt_id = p_attempt_id
+    AND aq.question_id = p_question_id
+    AND q.time_limit IS NOT NULL;
+$$;
+
+-- Start a question's clock (first view only) and return its expiry
+CREATE OR REPLACE FUNCTION public.open_question(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID
+)
+RETURNS TABLE (opened_at TIMESTAMPTZ, expires_at TIMESTAMPTZ, server_time TIMESTAMPTZ, timed_out BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE id = p_question_id
+      AND quiz_session_id = attempt_row.quiz_session_id
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  INSERT INTO public.attempt_questions (attempt_id, question_id)
+  VALUES (p_attempt_id, p_question_id)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT aq.opened_at, public.question_expires_at(p_attempt_id, p_question_id), NOW(), aq.timed_out
+  FROM public.attempt_questions aq
+  WHERE aq.attempt_id = p_attempt_id
+    AND aq.question_id = p_question_id;
+END;
+$$;
+
+-- Record that a question ran out of time (ignored if its clock is still running)
+CREATE OR REPLACE FUNCTION public.expire_question(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.get_student_attempt(p_attempt_id, p_student_code);
+
+  -- Allow a little clock jitter between the client countdown and the server
+  UPDATE public.attempt_questions
+  SET timed_out = true
+  WHERE attempt_id = p_attempt_id
+    AND question_id = p_question_id
+    AND public.question_expires_at(p_attempt_id, p_question_id) <= NOW() + INTERVAL '2 seconds';
+END;
+$$;
+
+-- Reject answers to questions whose own time limit has passed
+CREATE OR REPLACE FUNCTION public.submit_quiz_answer(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID,
+  p_answer_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  q_type question_type;
+  new_score INTEGER;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  -- A few seconds of grace cover the request latency of an answer sent at 0:00
+  IF NOW() > public.attempt_expires_at(p_attempt_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up' USING HINT = 'attempt_expired';
+  END IF;
+
+  SELECT question_type INTO q_type
+  FROM public.questions
+  WHERE id = p_question_id
+    AND quiz_session_id = attempt_row.quiz_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  -- Start the question's clock if it was never opened
+  INSERT INTO public.attempt_questions (attempt_id, question_id)
+  VALUES (p_attempt_id, p_question_id)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+  IF NOW() > public.question_expires_at(p_attempt_id, p_question_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up for this question' USING HINT = 'question_expired';
+  END IF;
+
+  IF COALESCE(cardinality(p_answer_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Select an answer';
+  END IF;
+
+  IF q_type = 'single' AND cardinality(p_answer_ids) > 1 THEN
+    RAISE EXCEPTION 'Only one answer can be selected for this question';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_answer_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = selected AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  -- Answers are final once submitted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+      AND question_id = p_question_id
+  ) THEN
+    INSERT INTO public.student_answers (attempt_id, question_id, answer_id, is_correct)
+    SELECT p_attempt_id, p_question_id, a.id, a.is_correct
+    FROM public.answers a
+    WHERE a.question_id = p_question_id
+      AND a.id = ANY(p_answer_ids);
+  END IF;
+
+  new_score := public.calculate_attempt_score(p_attempt_id);
+
+  UPDATE public.quiz_attempts
+  SET score = new_score
+  WHERE id = p_attempt_id;
+
+  RETURN new_score;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.question_expires_at(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.open_question(UUID, TEXT, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_question(UUID, TEXT, UUID) TO anon, authenticated;
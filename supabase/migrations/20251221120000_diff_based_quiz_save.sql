@@ -0,0 +1,250 @@
+-- Diff-based quiz save
+-- Saving a quiz used to delete and re-insert every question, which cascaded
+-- through answers and student_answers and wiped existing results. save_quiz
+-- upserts questions and answers by id, deletes only what was removed, and
+-- runs in a single transaction.
+
+-- Answer key and answer count of every answered question in a quiz, keyed by question id
+CREATE OR REPLACE FUNCTION public.quiz_answer_key_snapshot(p_quiz_session_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(q.id, jsonb_build_object(
+    'question_type', q.question_type,
+    'correct_ids', (
+      SELECT COALESCE(jsonb_agg(a.id ORDER BY a.id), '[]'::jsonb)
+      FROM public.answers a
+      WHERE a.question_id = q.id
+        AND a.is_correct
+    ),
+    'answer_count', (
+      SELECT COUNT(*) FROM public.student_answers sa WHERE sa.question_id = q.id
+    )
+  )), '{}'::jsonb)
+  FROM public.questions q
+  WHERE q.quiz_session_id = p_quiz_session_id
+    AND EXISTS (SELECT 1 FROM public.student_answers sa WHERE sa.question_id = q.id);
+$$;
+
+-- Save quiz details, group assignments and questions in one transaction.
+-- Returns the answered questions whose grading may have changed.
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  p_quiz_session_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_group_ids UUID[],
+  p_questions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_keys JSONB;
+  new_keys JSONB;
+  kept_question_ids UUID[];
+  kept_answer_ids UUID[];
+  q_item JSONB;
+  q_position BIGINT;
+  q_id UUID;
+  a_item JSONB;
+  a_position BIGINT;
+  a_id UUID;
+  changed_ids UUID[] := '{}';
+  removed_count INTEGER := 0;
+  key_question_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF COALESCE(cardinality(p_group_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one group must be assigned to the quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_group_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = selected AND teacher_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  old_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  -- Quiz details (the legacy group_id follows the first group if it was unassigned)
+  UPDATE public.quiz_sessions
+  SET title = p_title,
+      description = p_description,
+      group_id = CASE WHEN group_id = ANY(p_group_ids) THEN group_id ELSE p_group_ids[1] END,
+      updated_at = NOW()
+  WHERE id = p_quiz_session_id;
+
+  -- Group assignments
+  DELETE FROM public.quiz_session_groups
+  WHERE quiz_session_id = p_quiz_session_id
+    AND group_id <> ALL(p_group_ids);
+
+  INSERT INTO public.quiz_session_groups (quiz_session_id, group_id)
+  SELECT p_quiz_session_id, selected
+  FROM unnest(p_group_ids) AS selected
+  ON CONFLICT (quiz_session_id, group_id) DO NOTHING;
+
+  -- Remove questions that are no longer in the quiz
+  kept_question_ids := ARRAY(
+    SELECT NULLIF(item->>'id', '')::UUID
+    FROM jsonb_array_elements(p_questions) AS item
+    WHERE NULLIF(item->>'id', '') IS NOT NULL
+  );
+
+  DELETE FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND id <> ALL(kept_question_ids);
+
+  FOR q_item, q_position IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    q_id := NULLIF(q_item->>'id', '')::UUID;
+
+    IF q_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = q_id AND quiz_session_id = p_quiz_session_id
+    ) THEN
+      UPDATE public.questions
+      SET question_text = q_item->>'question_text',
+          question_type = (q_item->>'question_type')::question_type,
+          image_url = q_item->>'image_url',
+          time_limit = (q_item->>'time_limit')::INTEGER,
+          order_index = q_position
+      WHERE id = q_id;
+    ELSE
+      INSERT INTO public.questions (quiz_session_id, question_text, question_type, image_url, time_limit, order_index)
+      VALUES (
+        p_quiz_session_id,
+        q_item->>'question_text',
+        (q_item->>'question_type')::question_type,
+        q_item->>'image_url',
+        (q_item->>'time_limit')::INTEGER,
+        q_position
+      )
+      RETURNING id INTO q_id;
+    END IF;
+
+    -- Remove answers that are no longer part of the question
+    kept_answer_ids := ARRAY(
+      SELECT NULLIF(item->>'id', '')::UUID
+      FROM jsonb_array_elements(q_item->'answers') AS item
+      WHERE NULLIF(item->>'id', '') IS NOT NULL
+    );
+
+    DELETE FROM public.answers
+    WHERE question_id = q_id
+      AND id <> ALL(kept_answer_ids);
+
+    FOR a_item, a_position IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(q_item->'answers') WITH ORDINALITY
+    LOOP
+      a_id := NULLIF(a_item->>'id', '')::UUID;
+
+      IF a_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = a_id AND question_id = q_id
+      ) THEN
+        UPDATE public.answers
+        SET answer_text = a_item->>'answer_text',
+            is_correct = COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+            order_index = a_position
+        WHERE id = a_id;
+      ELSE
+        INSERT INTO public.answers (question_id, answer_text, is_correct, order_index)
+        VALUES (
+          q_id,
+          a_item->>'answer_text',
+          COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+          a_position
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Compare answered questions before and after the save
+  new_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  FOR key_question_id IN SELECT jsonb_object_keys(old_keys) LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = key_question_id::UUID) THEN
+      removed_count := removed_count + 1;
+    ELSIF new_keys->key_question_id IS DISTINCT FROM old_keys->key_question_id THEN
+      changed_ids := changed_ids || key_question_id::UUID;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'changed_question_ids', to_jsonb(changed_ids),
+    'removed_answered_questions', removed_count
+  );
+END;
+$$;
+
+-- Re-mark stored answers against the current answer key and rescore every attempt.
+-- Returns the number of attempts whose score changed.
+CREATE OR REPLACE FUNCTION public.regrade_quiz(p_quiz_session_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_count INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  UPDATE public.student_answers sa
+  SET is_correct = a.is_correct
+  FROM public.answers a, public.quiz_attempts qa
+  WHERE sa.answer_id = a.id
+    AND sa.attempt_id = qa.id
+    AND qa.quiz_session_id = p_quiz_session_id
+    AND sa.is_correct IS DISTINCT FROM a.is_correct;
+
+  WITH rescored AS (
+    SELECT id, public.calculate_attempt_score(id) AS new_score
+    FROM public.quiz_attempts
+    WHERE quiz_session_id = p_quiz_session_id
+  ), updated AS (
+    UPDATE public.quiz_attempts qa
+    SET score = r.new_score
+    FROM rescored r
+    WHERE qa.id = r.id
+      AND qa.score IS DISTINCT FROM r.new_score
+    RETURNING qa.id
+  )
+  SELECT COUNT(*) INTO changed_count FROM updated;
+
+  PERFORM public.calculate_quiz_rankings(p_quiz_session_id);
+
+  RETURN changed_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quiz_answer_key_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.save_quiz(UUID, TEXT, TEXT, UUID[], JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.regrade_quiz(UUID) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.save_quiz(UUID, TEXT, TEXT, UUID[], JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.regrade_quiz(UUID) TO authenticated;
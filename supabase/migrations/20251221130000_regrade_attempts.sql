@@ -0,0 +1,270 @@
+-- Regrading after an answer key change
+-- Teachers can regrade a whole quiz or a single question from Results. A
+-- question can also accept any answer marked correct ("accept both") or be
+-- dropped from scoring entirely.
+CREATE TYPE public.question_scoring AS ENUM ('standard', 'accept_any', 'dropped');
+
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS scoring public.question_scoring NOT NULL DEFAULT 'standard';
+
+-- accept_any gives the point for any non-empty selection of correct answers
+CREATE OR REPLACE FUNCTION public.grade_question(p_question_id UUID, p_answer_ids UUID[])
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q_type question_type;
+  q_scoring question_scoring;
+  correct_ids UUID[];
+  selected_ids UUID[];
+BEGIN
+  SELECT question_type, scoring INTO q_type, q_scoring
+  FROM public.questions
+  WHERE id = p_question_id;
+
+  SELECT COALESCE(array_agg(id ORDER BY id), '{}') INTO correct_ids
+  FROM public.answers
+  WHERE question_id = p_question_id
+    AND is_correct;
+
+  SELECT COALESCE(array_agg(DISTINCT selected ORDER BY selected), '{}') INTO selected_ids
+  FROM unnest(p_answer_ids) AS selected
+  WHERE selected IS NOT NULL;
+
+  IF cardinality(selected_ids) = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  IF q_scoring = 'accept_any' THEN
+    RETURN selected_ids <@ correct_ids;
+  END IF;
+
+  IF q_type = 'single' THEN
+    RETURN cardinality(selected_ids) = 1 AND selected_ids[1] = ANY(correct_ids);
+  END IF;
+
+  -- Multiple answers: the selected set must equal the correct set
+  RETURN selected_ids = correct_ids;
+END;
+$$;
+
+-- Dropped questions never count towards the score
+CREATE OR REPLACE FUNCTION public.calculate_attempt_score(p_attempt_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total
+  FROM (
+    SELECT sa.question_id
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = p_attempt_id
+      AND q.scoring <> 'dropped'
+    GROUP BY sa.question_id
+    HAVING public.grade_question(sa.question_id, array_agg(sa.answer_id))
+  ) correct_questions;
+
+  RETURN total;
+END;
+$$;
+
+-- Number of questions in a quiz that count towards the score
+CREATE OR REPLACE FUNCTION public.scored_question_count(p_quiz_session_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND scoring <> 'dropped';
+$$;
+
+-- New attempts only count questions that are scored
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_session_id UUID, p_student_code TEXT)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz_row public.quiz_sessions;
+  student_row public.students;
+  attempt_row public.quiz_attempts;
+BEGIN
+  SELECT * INTO quiz_row
+  FROM public.quiz_sessions
+  WHERE id = p_quiz_session_id;
+
+  IF NOT FOUND OR quiz_row.deadline < NOW() THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  SELECT * INTO student_row
+  FROM public.students
+  WHERE student_code = p_student_code;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid student code';
+  END IF;
+
+  -- Check quiz_session_groups and the legacy group_id column
+  IF student_row.group_id <> quiz_row.group_id AND NOT EXISTS (
+    SELECT 1 FROM public.quiz_session_groups
+    WHERE quiz_session_id = quiz_row.id
+      AND group_id = student_row.group_id
+  ) THEN
+    RAISE EXCEPTION 'This quiz is not available for your group';
+  END IF;
+
+  INSERT INTO public.quiz_attempts (quiz_session_id, student_id, total_questions)
+  VALUES (
+    quiz_row.id,
+    student_row.id,
+    public.scored_question_count(quiz_row.id)
+  )
+  ON CONFLICT (quiz_session_id, student_id) DO NOTHING;
+
+  PERFORM public.close_expired_attempts(quiz_row.id);
+
+  SELECT * INTO attempt_row
+  FROM public.quiz_attempts
+  WHERE quiz_session_id = quiz_row.id
+    AND student_id = student_row.id;
+
+  RETURN attempt_row;
+END;
+$$;
+
+-- Regrade a quiz, or one question when p_question_id is given, and return
+-- the attempts whose score or total changed. p_scoring and
+-- p_accept_answer_ids change how the question is graded first. A preview
+-- runs the same steps and rolls them back.
+DROP FUNCTION IF EXISTS public.regrade_quiz(UUID);
+
+CREATE OR REPLACE FUNCTION public.regrade_quiz(
+  p_quiz_session_id UUID,
+  p_question_id UUID DEFAULT NULL,
+  p_scoring public.question_scoring DEFAULT NULL,
+  p_accept_answer_ids UUID[] DEFAULT NULL,
+  p_preview BOOLEAN DEFAULT false
+)
+RETURNS TABLE (attempt_id UUID, old_score INTEGER, new_score INTEGER, old_total INTEGER, new_total INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  changes JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF (p_scoring IS NOT NULL OR p_accept_answer_ids IS NOT NULL) AND p_question_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a question to change how it is scored';
+  END IF;
+
+  IF p_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE id = p_question_id
+      AND quiz_session_id = p_quiz_session_id
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_accept_answer_ids) AS accepted
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = accepted AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  BEGIN
+    IF p_scoring IS NOT NULL THEN
+      UPDATE public.questions
+      SET scoring = p_scoring
+      WHERE id = p_question_id;
+    END IF;
+
+    IF p_accept_answer_ids IS NOT NULL THEN
+      UPDATE public.answers
+      SET is_correct = true
+      WHERE id = ANY(p_accept_answer_ids);
+    END IF;
+
+    UPDATE public.student_answers sa
+    SET is_correct = a.is_correct
+    FROM public.answers a, public.quiz_attempts qa
+    WHERE sa.answer_id = a.id
+      AND sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM a.is_correct;
+
+    WITH rescored AS (
+      SELECT
+        qa.id,
+        qa.score AS old_score,
+        public.calculate_attempt_score(qa.id) AS new_score,
+        qa.total_questions AS old_total,
+        public.scored_question_count(p_quiz_session_id) AS new_total
+      FROM public.quiz_attempts qa
+      WHERE qa.quiz_session_id = p_quiz_session_id
+    ), updated AS (
+      UPDATE public.quiz_attempts qa
+      SET score = r.new_score,
+          total_questions = r.new_total
+      FROM rescored r
+      WHERE qa.id = r.id
+        AND (qa.score IS DISTINCT FROM r.new_score OR qa.total_questions IS DISTINCT FROM r.new_total)
+      RETURNING r.id, r.old_score, r.new_score, r.old_total, r.new_total
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'attempt_id', updated.id,
+      'old_score', updated.old_score,
+      'new_score', updated.new_score,
+      'old_total', updated.old_total,
+      'new_total', updated.new_total
+    )), '[]'::jsonb) INTO changes
+    FROM updated;
+
+    IF p_preview THEN
+      RAISE EXCEPTION 'Regrade preview' USING ERRCODE = 'QZ001';
+    END IF;
+
+    PERFORM public.calculate_quiz_rankings(p_quiz_session_id);
+  EXCEPTION
+    WHEN SQLSTATE 'QZ001' THEN
+      -- Preview only: the changes above are rolled back, the diff is kept
+      NULL;
+  END;
+
+  RETURN QUERY
+  SELECT c.attempt_id, c.old_score, c.new_score, c.old_total, c.new_total
+  FROM jsonb_to_recordset(changes) AS c(attempt_id UUID, old_score INTEGER, new_score INTEGER, old_total INTEGER, new_total INTEGER);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.scored_question_count(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.regrade_quiz(UUID, UUID, public.question_scoring, UUID[], BOOLEAN) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.regrade_quiz(UUID, UUID, public.question_scoring, UUID[], BOOLEAN) TO authenticated;
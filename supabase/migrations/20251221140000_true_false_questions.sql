@@ -0,0 +1,134 @@
+-- True/False questions
+-- Stored like a single answer question with two answers, "True" and "False"
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'true_false';
+
+-- True/False is graded like a single answer question
+CREATE OR REPLACE FUNCTION public.grade_question(p_question_id UUID, p_answer_ids UUID[])
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q_type question_type;
+  q_scoring question_scoring;
+  correct_ids UUID[];
+  selected_ids UUID[];
+BEGIN
+  SELECT question_type, scoring INTO q_type, q_scoring
+  FROM public.questions
+  WHERE id = p_question_id;
+
+  SELECT COALESCE(array_agg(id ORDER BY id), '{}') INTO correct_ids
+  FROM public.answers
+  WHERE question_id = p_question_id
+    AND is_correct;
+
+  SELECT COALESCE(array_agg(DISTINCT selected ORDER BY selected), '{}') INTO selected_ids
+  FROM unnest(p_answer_ids) AS selected
+  WHERE selected IS NOT NULL;
+
+  IF cardinality(selected_ids) = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  IF q_scoring = 'accept_any' THEN
+    RETURN selected_ids <@ correct_ids;
+  END IF;
+
+  IF q_type::TEXT IN ('single', 'true_false') THEN
+    RETURN cardinality(selected_ids) = 1 AND selected_ids[1] = ANY(correct_ids);
+  END IF;
+
+  -- Multiple answers: the selected set must equal the correct set
+  RETURN selected_ids = correct_ids;
+END;
+$$;
+
+-- Only one answer can be submitted for True/False questions
+CREATE OR REPLACE FUNCTION public.submit_quiz_answer(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID,
+  p_answer_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  q_type question_type;
+  new_score INTEGER;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  -- A few seconds of grace cover the request latency of an answer sent at 0:00
+  IF NOW() > public.attempt_expires_at(p_attempt_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up' USING HINT = 'attempt_expired';
+  END IF;
+
+  SELECT question_type INTO q_type
+  FROM public.questions
+  WHERE id = p_question_id
+    AND quiz_session_id = attempt_row.quiz_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  -- Start the question's clock if it was never opened
+  INSERT INTO public.attempt_questions (attempt_id, question_id)
+  VALUES (p_attempt_id, p_question_id)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+  IF NOW() > public.question_expires_at(p_attempt_id, p_question_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up for this question' USING HINT = 'question_expired';
+  END IF;
+
+  IF COALESCE(cardinality(p_answer_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Select an answer';
+  END IF;
+
+  IF q_type::TEXT IN ('single', 'true_false') AND cardinality(p_answer_ids) > 1 THEN
+    RAISE EXCEPTION 'Only one answer can be selected for this question';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_answer_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = selected AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  -- Answers are final once submitted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+      AND question_id = p_question_id
+  ) THEN
+    INSERT INTO public.student_answers (attempt_id, question_id, answer_id, is_correct)
+    SELECT p_attempt_id, p_question_id, a.id, a.is_correct
+    FROM public.answers a
+    WHERE a.question_id = p_question_id
+      AND a.id = ANY(p_answer_ids);
+  END IF;
+
+  new_score := public.calculate_attempt_score(p_attempt_id);
+
+  UPDATE public.quiz_attempts
+  SET score = new_score
+  WHERE id = p_attempt_id;
+
+  RETURN new_score;
+END;
+$$;
@@ -0,0 +1,673 @@
+-- Short answer questions
+-- Students type a response that is matched against the accepted answers
+-- (stored as correct rows in answers). How responses are matched lives in
+-- questions.settings, which holds type-specific options:
+--   case_sensitive  compare letter case (default false)
+--   match           'exact', 'fuzzy' or 'regex' (default 'exact')
+--   fuzzy_distance  typos allowed in fuzzy mode (default 1)
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'short_answer';
+
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Typed responses have no answer row
+ALTER TABLE public.student_answers ALTER COLUMN answer_id DROP NOT NULL;
+ALTER TABLE public.student_answers ADD COLUMN IF NOT EXISTS response_text TEXT;
+ALTER TABLE public.student_answers ADD CONSTRAINT student_answers_response_check
+  CHECK (answer_id IS NOT NULL OR response_text IS NOT NULL);
+
+-- Accepted answers of short answer questions are the answer key
+CREATE OR REPLACE VIEW public.student_answer_options AS
+SELECT
+  a.id,
+  a.question_id,
+  a.answer_text,
+  a.order_index
+FROM public.answers a
+JOIN public.questions q ON q.id = a.question_id
+WHERE q.question_type::TEXT <> 'short_answer';
+
+-- Trim, collapse spaces, NFC-normalize and drop zero-width joiners, which
+-- Sinhala keyboards insert inconsistently (e.g. in "්‍ය")
+CREATE OR REPLACE FUNCTION public.normalize_text_answer(p_text TEXT, p_case_sensitive BOOLEAN)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN p_case_sensitive THEN cleaned ELSE lower(cleaned) END
+  FROM (
+    SELECT btrim(regexp_replace(
+      regexp_replace(normalize(COALESCE(p_text, ''), NFC), '[\u200B-\u200D\uFEFF]', '', 'g'),
+      '\s+', ' ', 'g'
+    )) AS cleaned
+  ) t;
+$$;
+
+-- Levenshtein distance between two strings, counted in characters
+CREATE OR REPLACE FUNCTION public.text_edit_distance(p_a TEXT, p_b TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  a_len INTEGER := char_length(p_a);
+  b_len INTEGER := char_length(p_b);
+  prev_row INTEGER[];
+  curr_row INTEGER[];
+  i INTEGER;
+  j INTEGER;
+BEGIN
+  IF a_len = 0 THEN
+    RETURN b_len;
+  END IF;
+
+  IF b_len = 0 THEN
+    RETURN a_len;
+  END IF;
+
+  prev_row := ARRAY(SELECT generate_series(0, b_len));
+
+  FOR i IN 1..a_len LOOP
+    curr_row := ARRAY[i];
+    FOR j IN 1..b_len LOOP
+      curr_row := curr_row || LEAST(
+        prev_row[j + 1] + 1,
+        curr_row[j] + 1,
+        prev_row[j] + CASE WHEN substr(p_a, i, 1) = substr(p_b, j, 1) THEN 0 ELSE 1 END
+      );
+    END LOOP;
+    prev_row := curr_row;
+  END LOOP;
+
+  RETURN prev_row[b_len + 1];
+END;
+$$;
+
+-- Whether a typed response matches one accepted answer under the given settings
+CREATE OR REPLACE FUNCTION public.text_answer_matches(p_response TEXT, p_accepted TEXT, p_settings JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  case_sensitive BOOLEAN := COALESCE((p_settings->>'case_sensitive')::BOOLEAN, false);
+  match_mode TEXT := COALESCE(p_settings->>'match', 'exact');
+  max_distance INTEGER := GREATEST(0, COALESCE((p_settings->>'fuzzy_distance')::INTEGER, 1));
+  response TEXT := public.normalize_text_answer(p_response, case_sensitive);
+  accepted TEXT;
+BEGIN
+  IF response = '' THEN
+    RETURN FALSE;
+  END IF;
+
+  -- The accepted answer is a pattern that must match the whole response
+  IF match_mode = 'regex' THEN
+    BEGIN
+      IF case_sensitive THEN
+        RETURN response ~ ('^(?:' || p_accepted || ')$');
+      END IF;
+      RETURN response ~* ('^(?:' || p_accepted || ')$');
+    EXCEPTION
+      WHEN invalid_regular_expression THEN
+        RETURN FALSE;
+    END;
+  END IF;
+
+  accepted := public.normalize_text_answer(p_accepted, case_sensitive);
+
+  IF match_mode = 'fuzzy' THEN
+    RETURN abs(char_length(response) - char_length(accepted)) <= max_distance
+      AND public.text_edit_distance(response, accepted) <= max_distance;
+  END IF;
+
+  RETURN response = accepted;
+END;
+$$;
+
+-- Whether a response matches any accepted answer of a short answer question
+CREATE OR REPLACE FUNCTION public.grade_short_answer(p_question_id UUID, p_response TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.answers a
+    JOIN public.questions q ON q.id = a.question_id
+    WHERE a.question_id = p_question_id
+      AND a.is_correct
+      AND public.text_answer_matches(p_response, a.answer_text, q.settings)
+  );
+$$;
+
+-- Short answers are graded from the stored response text
+CREATE OR REPLACE FUNCTION public.calculate_attempt_score(p_attempt_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total
+  FROM (
+    SELECT sa.question_id
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = p_attempt_id
+      AND q.scoring <> 'dropped'
+    GROUP BY sa.question_id, q.question_type
+    HAVING CASE
+      WHEN q.question_type::TEXT = 'short_answer'
+        THEN public.grade_short_answer(sa.question_id, max(sa.response_text))
+      ELSE public.grade_question(sa.question_id, array_agg(sa.answer_id))
+    END
+  ) correct_questions;
+
+  RETURN total;
+END;
+$$;
+
+-- Typed responses come back with the answers so a resumed attempt can show them
+DROP FUNCTION IF EXISTS public.get_attempt_answers(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_attempt_answers(p_attempt_id UUID, p_student_code TEXT)
+RETURNS TABLE (question_id UUID, answer_id UUID, response_text TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.get_student_attempt(p_attempt_id, p_student_code);
+
+  RETURN QUERY
+  SELECT sa.question_id, sa.answer_id, sa.response_text
+  FROM public.student_answers sa
+  WHERE sa.attempt_id = p_attempt_id
+  ORDER BY sa.answered_at;
+END;
+$$;
+
+-- Short answers are submitted as text instead of answer ids
+DROP FUNCTION IF EXISTS public.submit_quiz_answer(UUID, TEXT, UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.submit_quiz_answer(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID,
+  p_answer_ids UUID[] DEFAULT NULL,
+  p_response_text TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  q_type question_type;
+  new_score INTEGER;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  -- A few seconds of grace cover the request latency of an answer sent at 0:00
+  IF NOW() > public.attempt_expires_at(p_attempt_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up' USING HINT = 'attempt_expired';
+  END IF;
+
+  SELECT question_type INTO q_type
+  FROM public.questions
+  WHERE id = p_question_id
+    AND quiz_session_id = attempt_row.quiz_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  -- Start the question's clock if it was never opened
+  INSERT INTO public.attempt_questions (attempt_id, question_id)
+  VALUES (p_attempt_id, p_question_id)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+  IF NOW() > public.question_expires_at(p_attempt_id, p_question_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up for this question' USING HINT = 'question_expired';
+  END IF;
+
+  IF q_type::TEXT = 'short_answer' THEN
+    IF btrim(COALESCE(p_response_text, '')) = '' THEN
+      RAISE EXCEPTION 'Type an answer';
+    END IF;
+
+    IF char_length(p_response_text) > 500 THEN
+      RAISE EXCEPTION 'Answer is too long';
+    END IF;
+  ELSE
+    IF COALESCE(cardinality(p_answer_ids), 0) = 0 THEN
+      RAISE EXCEPTION 'Select an answer';
+    END IF;
+
+    IF q_type::TEXT IN ('single', 'true_false') AND cardinality(p_answer_ids) > 1 THEN
+      RAISE EXCEPTION 'Only one answer can be selected for this question';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(p_answer_ids) AS selected
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = selected AND question_id = p_question_id
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid answer for this question';
+    END IF;
+  END IF;
+
+  -- Answers are final once submitted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+      AND question_id = p_question_id
+  ) THEN
+    IF q_type::TEXT = 'short_answer' THEN
+      INSERT INTO public.student_answers (attempt_id, question_id, response_text, is_correct)
+      VALUES (
+        p_attempt_id,
+        p_question_id,
+        btrim(p_response_text),
+        public.grade_short_answer(p_question_id, p_response_text)
+      );
+    ELSE
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, is_correct)
+      SELECT p_attempt_id, p_question_id, a.id, a.is_correct
+      FROM public.answers a
+      WHERE a.question_id = p_question_id
+        AND a.id = ANY(p_answer_ids);
+    END IF;
+  END IF;
+
+  new_score := public.calculate_attempt_score(p_attempt_id);
+
+  UPDATE public.quiz_attempts
+  SET score = new_score
+  WHERE id = p_attempt_id;
+
+  RETURN new_score;
+END;
+$$;
+
+-- Changes to matching settings count as answer key changes
+CREATE OR REPLACE FUNCTION public.quiz_answer_key_snapshot(p_quiz_session_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(q.id, jsonb_build_object(
+    'question_type', q.question_type,
+    'settings', q.settings,
+    'correct_ids', (
+      SELECT COALESCE(jsonb_agg(a.id ORDER BY a.id), '[]'::jsonb)
+      FROM public.answers a
+      WHERE a.question_id = q.id
+        AND a.is_correct
+    ),
+    'answer_count', (
+      SELECT COUNT(*) FROM public.student_answers sa WHERE sa.question_id = q.id
+    )
+  )), '{}'::jsonb)
+  FROM public.questions q
+  WHERE q.quiz_session_id = p_quiz_session_id
+    AND EXISTS (SELECT 1 FROM public.student_answers sa WHERE sa.question_id = q.id);
+$$;
+
+-- Saving keeps each question's type-specific settings
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  p_quiz_session_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_group_ids UUID[],
+  p_questions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_keys JSONB;
+  new_keys JSONB;
+  kept_question_ids UUID[];
+  kept_answer_ids UUID[];
+  q_item JSONB;
+  q_position BIGINT;
+  q_id UUID;
+  a_item JSONB;
+  a_position BIGINT;
+  a_id UUID;
+  changed_ids UUID[] := '{}';
+  removed_count INTEGER := 0;
+  key_question_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF COALESCE(cardinality(p_group_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one group must be assigned to the quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_group_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = selected AND teacher_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  old_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  -- Quiz details (the legacy group_id follows the first group if it was unassigned)
+  UPDATE public.quiz_sessions
+  SET title = p_title,
+      description = p_description,
+      group_id = CASE WHEN group_id = ANY(p_group_ids) THEN group_id ELSE p_group_ids[1] END,
+      updated_at = NOW()
+  WHERE id = p_quiz_session_id;
+
+  -- Group assignments
+  DELETE FROM public.quiz_session_groups
+  WHERE quiz_session_id = p_quiz_session_id
+    AND group_id <> ALL(p_group_ids);
+
+  INSERT INTO public.quiz_session_groups (quiz_session_id, group_id)
+  SELECT p_quiz_session_id, selected
+  FROM unnest(p_group_ids) AS selected
+  ON CONFLICT (quiz_session_id, group_id) DO NOTHING;
+
+  -- Remove questions that are no longer in the quiz
+  kept_question_ids := ARRAY(
+    SELECT NULLIF(item->>'id', '')::UUID
+    FROM jsonb_array_elements(p_questions) AS item
+    WHERE NULLIF(item->>'id', '') IS NOT NULL
+  );
+
+  DELETE FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND id <> ALL(kept_question_ids);
+
+  FOR q_item, q_position IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    q_id := NULLIF(q_item->>'id', '')::UUID;
+
+    IF q_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = q_id AND quiz_session_id = p_quiz_session_id
+    ) THEN
+      UPDATE public.questions
+      SET question_text = q_item->>'question_text',
+          question_type = (q_item->>'question_type')::question_type,
+          image_url = q_item->>'image_url',
+          time_limit = (q_item->>'time_limit')::INTEGER,
+          settings = COALESCE(q_item->'settings', '{}'::jsonb),
+          order_index = q_position
+      WHERE id = q_id;
+    ELSE
+      INSERT INTO public.questions (quiz_session_id, question_text, question_type, image_url, time_limit, settings, order_index)
+      VALUES (
+        p_quiz_session_id,
+        q_item->>'question_text',
+        (q_item->>'question_type')::question_type,
+        q_item->>'image_url',
+        (q_item->>'time_limit')::INTEGER,
+        COALESCE(q_item->'settings', '{}'::jsonb),
+        q_position
+      )
+      RETURNING id INTO q_id;
+    END IF;
+
+    -- Remove answers that are no longer part of the question
+    kept_answer_ids := ARRAY(
+      SELECT NULLIF(item->>'id', '')::UUID
+      FROM jsonb_array_elements(q_item->'answers') AS item
+      WHERE NULLIF(item->>'id', '') IS NOT NULL
+    );
+
+    DELETE FROM public.answers
+    WHERE question_id = q_id
+      AND id <> ALL(kept_answer_ids);
+
+    FOR a_item, a_position IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(q_item->'answers') WITH ORDINALITY
+    LOOP
+      a_id := NULLIF(a_item->>'id', '')::UUID;
+
+      IF a_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = a_id AND question_id = q_id
+      ) THEN
+        UPDATE public.answers
+        SET answer_text = a_item->>'answer_text',
+            is_correct = COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+            order_index = a_position
+        WHERE id = a_id;
+      ELSE
+        INSERT INTO public.answers (question_id, answer_text, is_correct, order_index)
+        VALUES (
+          q_id,
+          a_item->>'answer_text',
+          COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+          a_position
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Compare answered questions before and after the save
+  new_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  FOR key_question_id IN SELECT jsonb_object_keys(old_keys) LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = key_question_id::UUID) THEN
+      removed_count := removed_count + 1;
+    ELSIF new_keys->key_question_id IS DISTINCT FROM old_keys->key_question_id THEN
+      changed_ids := changed_ids || key_question_id::UUID;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'changed_question_ids', to_jsonb(changed_ids),
+    'removed_answered_questions', removed_count
+  );
+END;
+$$;
+
+-- Typed responses are rechecked against the accepted answers
+CREATE OR REPLACE FUNCTION public.regrade_quiz(
+  p_quiz_session_id UUID,
+  p_question_id UUID DEFAULT NULL,
+  p_scoring public.question_scoring DEFAULT NULL,
+  p_accept_answer_ids UUID[] DEFAULT NULL,
+  p_preview BOOLEAN DEFAULT false
+)
+RETURNS TABLE (attempt_id UUID, old_score INTEGER, new_score INTEGER, old_total INTEGER, new_total INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  changes JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF (p_scoring IS NOT NULL OR p_accept_answer_ids IS NOT NULL) AND p_question_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a question to change how it is scored';
+  END IF;
+
+  IF p_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE id = p_question_id
+      AND quiz_session_id = p_quiz_session_id
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_accept_answer_ids) AS accepted
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = accepted AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  BEGIN
+    IF p_scoring IS NOT NULL THEN
+      UPDATE public.questions
+      SET scoring = p_scoring
+      WHERE id = p_question_id;
+    END IF;
+
+    IF p_accept_answer_ids IS NOT NULL THEN
+      UPDATE public.answers
+      SET is_correct = true
+      WHERE id = ANY(p_accept_answer_ids);
+    END IF;
+
+    UPDATE public.student_answers sa
+    SET is_correct = a.is_correct
+    FROM public.answers a, public.quiz_attempts qa
+    WHERE sa.answer_id = a.id
+      AND sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM a.is_correct;
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_short_answer(sa.question_id, sa.response_text)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.answer_id IS NULL
+      AND sa.response_text IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM public.grade_short_answer(sa.question_id, sa.response_text);
+
+    WITH rescored AS (
+      SELECT
+        qa.id,
+        qa.score AS old_score,
+        public.calculate_attempt_score(qa.id) AS new_score,
+        qa.total_questions AS old_total,
+        public.scored_question_count(p_quiz_session_id) AS new_total
+      FROM public.quiz_attempts qa
+      WHERE qa.quiz_session_id = p_quiz_session_id
+    ), updated AS (
+      UPDATE public.quiz_attempts qa
+      SET score = r.new_score,
+          total_questions = r.new_total
+      FROM rescored r
+      WHERE qa.id = r.id
+        AND (qa.score IS DISTINCT FROM r.new_score OR qa.total_questions IS DISTINCT FROM r.new_total)
+      RETURNING r.id, r.old_score, r.new_score, r.old_total, r.new_total
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'attempt_id', updated.id,
+      'old_score', updated.old_score,
+      'new_score', updated.new_score,
+      'old_total', updated.old_total,
+      'new_total', updated.new_total
+    )), '[]'::jsonb) INTO changes
+    FROM updated;
+
+    IF p_preview THEN
+      RAISE EXCEPTION 'Regrade preview' USING ERRCODE = 'QZ001';
+    END IF;
+
+    PERFORM public.calculate_quiz_rankings(p_quiz_session_id);
+  EXCEPTION
+    WHEN SQLSTATE 'QZ001' THEN
+      -- Preview only: the changes above are rolled back, the diff is kept
+      NULL;
+  END;
+
+  RETURN QUERY
+  SELECT c.attempt_id, c.old_score, c.new_score, c.old_total, c.new_total
+  FROM jsonb_to_recordset(changes) AS c(attempt_id UUID, old_score INTEGER, new_score INTEGER, old_total INTEGER, new_total INTEGER);
+END;
+$$;
+
+-- Accept a typed response after the fact by adding it to the accepted answers,
+-- then regrade the question
+CREATE OR REPLACE FUNCTION public.accept_text_response(p_question_id UUID, p_response_text TEXT)
+RETURNS TABLE (attempt_id UUID, old_score INTEGER, new_score INTEGER, old_total INTEGER, new_total INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  question_row public.questions;
+  accepted TEXT := btrim(COALESCE(p_response_text, ''));
+BEGIN
+  SELECT q.* INTO question_row
+  FROM public.questions q
+  JOIN public.quiz_sessions qs ON qs.id = q.quiz_session_id
+  WHERE q.id = p_question_id
+    AND qs.teacher_id = auth.uid()
+    AND q.question_type::TEXT = 'short_answer';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  IF accepted = '' THEN
+    RAISE EXCEPTION 'Type an answer';
+  END IF;
+
+  -- In regex mode the response is accepted literally
+  IF question_row.settings->>'match' = 'regex' THEN
+    accepted := regexp_replace(accepted, '([.^$*+?()\[\]{}|\\])', '\\\1', 'g');
+  END IF;
+
+  INSERT INTO public.answers (question_id, answer_text, is_correct, order_index)
+  SELECT p_question_id, accepted, true, COALESCE(MAX(order_index) + 1, 0)
+  FROM public.answers
+  WHERE question_id = p_question_id;
+
+  RETURN QUERY
+  SELECT r.attempt_id, r.old_score, r.new_score, r.old_total, r.new_total
+  FROM public.regrade_quiz(question_row.quiz_session_id, p_question_id) r;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_short_answer(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.accept_text_response(UUID, TEXT) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.get_attempt_answers(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_quiz_answer(UUID, TEXT, UUID, UUID[], TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_text_response(UUID, TEXT) TO authenticated;
@@ -0,0 +1,414 @@
+-- Numeric questions
+-- The correct value is stored as a correct answer row, written in the
+-- question's number base. questions.settings adds:
+--   base            2, 8, 10 or 16 (default 10)
+--   tolerance       allowed difference from the correct value (default 0)
+--   tolerance_type  'absolute' or 'percent' (default 'absolute')
+--   unit            label shown next to the input, e.g. "MB"
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'numeric';
+
+-- Students see the base and unit, never the value
+CREATE OR REPLACE VIEW public.student_questions AS
+SELECT
+  id,
+  quiz_session_id,
+  question_text,
+  question_type,
+  image_url,
+  order_index,
+  time_limit,
+  CASE WHEN question_type::TEXT = 'numeric' THEN jsonb_build_object(
+    'base', COALESCE((settings->>'base')::INTEGER, 10),
+    'unit', settings->>'unit'
+  ) END AS answer_format
+FROM public.questions;
+
+CREATE OR REPLACE VIEW public.student_answer_options AS
+SELECT
+  a.id,
+  a.question_id,
+  a.answer_text,
+  a.order_index
+FROM public.answers a
+JOIN public.questions q ON q.id = a.question_id
+WHERE q.question_type::TEXT NOT IN ('short_answer', 'numeric');
+
+-- Parse a number written in base 2, 8, 10 or 16 (NULL if it isn't valid).
+-- Spaces and underscores between digits and a 0b/0o/0x prefix are allowed;
+-- only decimal numbers can have a fractional part.
+CREATE OR REPLACE FUNCTION public.parse_number_in_base(p_text TEXT, p_base INTEGER)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  digits TEXT := lower(regexp_replace(COALESCE(p_text, ''), '[\s_]', '', 'g'));
+  negative BOOLEAN := false;
+  prefix TEXT;
+  digit_value INTEGER;
+  result NUMERIC := 0;
+  digit TEXT;
+BEGIN
+  IF left(digits, 1) IN ('+', '-') THEN
+    negative := left(digits, 1) = '-';
+    digits := substr(digits, 2);
+  END IF;
+
+  IF p_base NOT IN (2, 8, 16) THEN
+    IF digits !~ '^(\d+(\.\d*)?|\.\d+)$' THEN
+      RETURN NULL;
+    END IF;
+    result := digits::NUMERIC;
+  ELSE
+    prefix := CASE p_base WHEN 2 THEN '0b' WHEN 8 THEN '0o' ELSE '0x' END;
+    IF left(digits, 2) = prefix THEN
+      digits := substr(digits, 3);
+    END IF;
+
+    IF digits = '' THEN
+      RETURN NULL;
+    END IF;
+
+    FOREACH digit IN ARRAY regexp_split_to_array(digits, '') LOOP
+      digit_value := position(digit IN '0123456789abcdef') - 1;
+      IF digit_value < 0 OR digit_value >= p_base THEN
+        RETURN NULL;
+      END IF;
+      result := result * p_base + digit_value;
+    END LOOP;
+  END IF;
+
+  RETURN CASE WHEN negative THEN -result ELSE result END;
+END;
+$$;
+
+-- Whether a response is within tolerance of a correct value
+CREATE OR REPLACE FUNCTION public.grade_numeric_answer(p_question_id UUID, p_response TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q_settings JSONB;
+  number_base INTEGER;
+  tolerance NUMERIC;
+  response_value NUMERIC;
+BEGIN
+  SELECT settings INTO q_settings
+  FROM public.questions
+  WHERE id = p_question_id;
+
+  number_base := COALESCE((q_settings->>'base')::INTEGER, 10);
+  tolerance := GREATEST(0, COALESCE((q_settings->>'tolerance')::NUMERIC, 0));
+  response_value := public.parse_number_in_base(p_response, number_base);
+
+  IF response_value IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM (
+      SELECT public.parse_number_in_base(a.answer_text, number_base) AS correct_value
+      FROM public.answers a
+      WHERE a.question_id = p_question_id
+        AND a.is_correct
+    ) c
+    WHERE abs(response_value - c.correct_value) <= CASE
+      WHEN q_settings->>'tolerance_type' = 'percent' THEN abs(c.correct_value) * tolerance / 100
+      ELSE tolerance
+    END
+  );
+END;
+$$;
+
+-- Grade a typed response with the rules of its question type
+CREATE OR REPLACE FUNCTION public.grade_text_response(p_question_id UUID, p_response TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE q.question_type::TEXT
+    WHEN 'numeric' THEN public.grade_numeric_answer(q.id, p_response)
+    ELSE public.grade_short_answer(q.id, p_response)
+  END
+  FROM public.questions q
+  WHERE q.id = p_question_id;
+$$;
+
+-- Numeric answers are graded from the stored response text
+CREATE OR REPLACE FUNCTION public.calculate_attempt_score(p_attempt_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO total
+  FROM (
+    SELECT sa.question_id
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = p_attempt_id
+      AND q.scoring <> 'dropped'
+    GROUP BY sa.question_id, q.question_type
+    HAVING CASE
+      WHEN q.question_type::TEXT IN ('short_answer', 'numeric')
+        THEN public.grade_text_response(sa.question_id, max(sa.response_text))
+      ELSE public.grade_question(sa.question_id, array_agg(sa.answer_id))
+    END
+  ) correct_questions;
+
+  RETURN total;
+END;
+$$;
+
+-- Numeric responses must be valid numbers in the question's base
+CREATE OR REPLACE FUNCTION public.submit_quiz_answer(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID,
+  p_answer_ids UUID[] DEFAULT NULL,
+  p_response_text TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  q_type question_type;
+  q_settings JSONB;
+  new_score INTEGER;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  -- A few seconds of grace cover the request latency of an answer sent at 0:00
+  IF NOW() > public.attempt_expires_at(p_attempt_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up' USING HINT = 'attempt_expired';
+  END IF;
+
+  SELECT question_type, settings INTO q_type, q_settings
+  FROM public.questions
+  WHERE id = p_question_id
+    AND quiz_session_id = attempt_row.quiz_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  -- Start the question's clock if it was never opened
+  INSERT INTO public.attempt_questions (attempt_id, question_id)
+  VALUES (p_attempt_id, p_question_id)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+  IF NOW() > public.question_expires_at(p_attempt_id, p_question_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up for this question' USING HINT = 'question_expired';
+  END IF;
+
+  IF q_type::TEXT IN ('short_answer', 'numeric') THEN
+    IF btrim(COALESCE(p_response_text, '')) = '' THEN
+      RAISE EXCEPTION 'Type an answer';
+    END IF;
+
+    IF char_length(p_response_text) > 500 THEN
+      RAISE EXCEPTION 'Answer is too long';
+    END IF;
+
+    IF q_type::TEXT = 'numeric' AND public.parse_number_in_base(
+      p_response_text,
+      COALESCE((q_settings->>'base')::INTEGER, 10)
+    ) IS NULL THEN
+      RAISE EXCEPTION 'Enter a valid number';
+    END IF;
+  ELSE
+    IF COALESCE(cardinality(p_answer_ids), 0) = 0 THEN
+      RAISE EXCEPTION 'Select an answer';
+    END IF;
+
+    IF q_type::TEXT IN ('single', 'true_false') AND cardinality(p_answer_ids) > 1 THEN
+      RAISE EXCEPTION 'Only one answer can be selected for this question';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(p_answer_ids) AS selected
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = selected AND question_id = p_question_id
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid answer for this question';
+    END IF;
+  END IF;
+
+  -- Answers are final once submitted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+      AND question_id = p_question_id
+  ) THEN
+    IF q_type::TEXT IN ('short_answer', 'numeric') THEN
+      INSERT INTO public.student_answers (attempt_id, question_id, response_text, is_correct)
+      VALUES (
+        p_attempt_id,
+        p_question_id,
+        btrim(p_response_text),
+        public.grade_text_response(p_question_id, p_response_text)
+      );
+    ELSE
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, is_correct)
+      SELECT p_attempt_id, p_question_id, a.id, a.is_correct
+      FROM public.answers a
+      WHERE a.question_id = p_question_id
+        AND a.id = ANY(p_answer_ids);
+    END IF;
+  END IF;
+
+  new_score := public.calculate_attempt_score(p_attempt_id);
+
+  UPDATE public.quiz_attempts
+  SET score = new_score
+  WHERE id = p_attempt_id;
+
+  RETURN new_score;
+END;
+$$;
+
+-- Typed responses of every type are rechecked when regrading
+CREATE OR REPLACE FUNCTION public.regrade_quiz(
+  p_quiz_session_id UUID,
+  p_question_id UUID DEFAULT NULL,
+  p_scoring public.question_scoring DEFAULT NULL,
+  p_accept_answer_ids UUID[] DEFAULT NULL,
+  p_preview BOOLEAN DEFAULT false
+)
+RETURNS TABLE (attempt_id UUID, old_score INTEGER, new_score INTEGER, old_total INTEGER, new_total INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  changes JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF (p_scoring IS NOT NULL OR p_accept_answer_ids IS NOT NULL) AND p_question_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a question to change how it is scored';
+  END IF;
+
+  IF p_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE id = p_question_id
+      AND quiz_session_id = p_quiz_session_id
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_accept_answer_ids) AS accepted
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = accepted AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  BEGIN
+    IF p_scoring IS NOT NULL THEN
+      UPDATE public.questions
+      SET scoring = p_scoring
+      WHERE id = p_question_id;
+    END IF;
+
+    IF p_accept_answer_ids IS NOT NULL THEN
+      UPDATE public.answers
+      SET is_correct = true
+      WHERE id = ANY(p_accept_answer_ids);
+    END IF;
+
+    UPDATE public.student_answers sa
+    SET is_correct = a.is_correct
+    FROM public.answers a, public.quiz_attempts qa
+    WHERE sa.answer_id = a.id
+      AND sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM a.is_correct;
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_text_response(sa.question_id, sa.response_text)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.answer_id IS NULL
+      AND sa.response_text IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM public.grade_text_response(sa.question_id, sa.response_text);
+
+    WITH rescored AS (
+      SELECT
+        qa.id,
+        qa.score AS old_score,
+        public.calculate_attempt_score(qa.id) AS new_score,
+        qa.total_questions AS old_total,
+        public.scored_question_count(p_quiz_session_id) AS new_total
+      FROM public.quiz_attempts qa
+      WHERE qa.quiz_session_id = p_quiz_session_id
+    ), updated AS (
+      UPDATE public.quiz_attempts qa
+      SET score = r.new_score,
+          total_questions = r.new_total
+      FROM rescored r
+      WHERE qa.id = r.id
+        AND (qa.score IS DISTINCT FROM r.new_score OR qa.total_questions IS DISTINCT FROM r.new_total)
+      RETURNING r.id, r.old_score, r.new_score, r.old_total, r.new_total
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'attempt_id', updated.id,
+      'old_score', updated.old_score,
+      'new_score', updated.new_score,
+      'old_total', updated.old_total,
+      'new_total', updated.new_total
+    )), '[]'::jsonb) INTO changes
+    FROM updated;
+
+    IF p_preview THEN
+      RAISE EXCEPTION 'Regrade preview' USING ERRCODE = 'QZ001';
+    END IF;
+
+    PERFORM public.calculate_quiz_rankings(p_quiz_session_id);
+  EXCEPTION
+    WHEN SQLSTATE 'QZ001' THEN
+      -- Preview only: the changes above are rolled back, the diff is kept
+      NULL;
+  END;
+
+  RETURN QUERY
+  SELECT c.attempt_id, c.old_score, c.new_score, c.old_total, c.new_total
+  FROM jsonb_to_recordset(changes) AS c(attempt_id UUID, old_score INTEGER, new_score INTEGER, old_total INTEGER, new_total INTEGER);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_numeric_answer(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grade_text_response(UUID, TEXT) FROM PUBLIC, anon, authenticated;
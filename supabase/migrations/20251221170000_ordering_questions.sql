@@ -0,0 +1,497 @@
+-- Ordering questions
+-- Students put the answers in sequence; answers.order_index is the correct
+-- order. With questions.settings.partial_credit a wrong sequence earns credit
+-- for each pair of neighbouring items that is in the right order, so scores
+-- can now be fractional.
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'ordering';
+
+ALTER TABLE public.quiz_attempts ALTER COLUMN score TYPE NUMERIC;
+
+-- Where the student placed each item of an ordering question (1-based)
+ALTER TABLE public.student_answers ADD COLUMN position INTEGER;
+
+-- Ordering items are listed in a scrambled order that is never the answer
+CREATE OR REPLACE VIEW public.student_answer_options AS
+SELECT
+  id,
+  question_id,
+  answer_text,
+  CASE
+    WHEN question_type::TEXT <> 'ordering' THEN order_index
+    WHEN bool_and(scrambled = canonical) OVER (PARTITION BY question_id)
+      THEN ((scrambled + 1) % item_count)::INTEGER
+    ELSE scrambled::INTEGER
+  END AS order_index
+FROM (
+  SELECT
+    a.id,
+    a.question_id,
+    a.answer_text,
+    a.order_index,
+    q.question_type,
+    row_number() OVER (PARTITION BY a.question_id ORDER BY md5(a.id::TEXT)) - 1 AS scrambled,
+    row_number() OVER (PARTITION BY a.question_id ORDER BY a.order_index, a.id) - 1 AS canonical,
+    count(*) OVER (PARTITION BY a.question_id) AS item_count
+  FROM public.answers a
+  JOIN public.questions q ON q.id = a.question_id
+  WHERE q.question_type::TEXT NOT IN ('short_answer', 'numeric')
+) options;
+
+-- Answer ids of an ordering question in the correct order
+CREATE OR REPLACE FUNCTION public.canonical_order(p_question_id UUID)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(id ORDER BY order_index, id), '{}')
+  FROM public.answers
+  WHERE question_id = p_question_id;
+$$;
+
+-- Credit between 0 and 1 for a submitted sequence
+CREATE OR REPLACE FUNCTION public.grade_ordering(p_question_id UUID, p_answer_ids UUID[])
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  correct_order UUID[] := public.canonical_order(p_question_id);
+  correct_pairs INTEGER := 0;
+BEGIN
+  IF p_answer_ids = correct_order THEN
+    RETURN 1;
+  END IF;
+
+  IF cardinality(correct_order) < 2
+    OR COALESCE(cardinality(p_answer_ids), 0) < 2
+    OR NOT COALESCE((
+      SELECT (settings->>'partial_credit')::BOOLEAN
+      FROM public.questions
+      WHERE id = p_question_id
+    ), false)
+  THEN
+    RETURN 0;
+  END IF;
+
+  FOR i IN 1 .. cardinality(p_answer_ids) - 1 LOOP
+    IF array_position(correct_order, p_answer_ids[i + 1]) = array_position(correct_order, p_answer_ids[i]) + 1 THEN
+      correct_pairs := correct_pairs + 1;
+    END IF;
+  END LOOP;
+
+  RETURN round(correct_pairs::NUMERIC / (cardinality(correct_order) - 1), 2);
+END;
+$$;
+
+-- Each question earns credit between 0 and 1
+DROP FUNCTION IF EXISTS public.calculate_attempt_score(UUID);
+
+CREATE OR REPLACE FUNCTION public.calculate_attempt_score(p_attempt_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(credit), 0) INTO total
+  FROM (
+    SELECT CASE
+      WHEN q.question_type::TEXT IN ('short_answer', 'numeric')
+        THEN public.grade_text_response(sa.question_id, max(sa.response_text))::INTEGER
+      WHEN q.question_type::TEXT = 'ordering'
+        THEN public.grade_ordering(sa.question_id, array_agg(sa.answer_id ORDER BY sa.position))
+      ELSE public.grade_question(sa.question_id, array_agg(sa.answer_id))::INTEGER
+    END AS credit
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = p_attempt_id
+      AND q.scoring <> 'dropped'
+    GROUP BY sa.question_id, q.question_type
+  ) graded;
+
+  RETURN total;
+END;
+$$;
+
+-- A changed sequence or accepted text also changes the answer key
+CREATE OR REPLACE FUNCTION public.quiz_answer_key_snapshot(p_quiz_session_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(q.id, jsonb_build_object(
+    'question_type', q.question_type,
+    'settings', q.settings,
+    'correct_ids', (
+      SELECT COALESCE(jsonb_agg(a.id ORDER BY a.id), '[]'::jsonb)
+      FROM public.answers a
+      WHERE a.question_id = q.id
+        AND a.is_correct
+    ),
+    'answer_key', CASE
+      WHEN q.question_type::TEXT IN ('short_answer', 'numeric') THEN (
+        SELECT jsonb_agg(a.answer_text ORDER BY a.id)
+        FROM public.answers a
+        WHERE a.question_id = q.id
+          AND a.is_correct
+      )
+      WHEN q.question_type::TEXT = 'ordering' THEN to_jsonb(public.canonical_order(q.id))
+    END,
+    'answer_count', (
+      SELECT COUNT(*) FROM public.student_answers sa WHERE sa.question_id = q.id
+    )
+  )), '{}'::jsonb)
+  FROM public.questions q
+  WHERE q.quiz_session_id = p_quiz_session_id
+    AND EXISTS (SELECT 1 FROM public.student_answers sa WHERE sa.question_id = q.id);
+$$;
+
+-- Ordering responses come back in the order the student placed them
+CREATE OR REPLACE FUNCTION public.get_attempt_answers(p_attempt_id UUID, p_student_code TEXT)
+RETURNS TABLE (question_id UUID, answer_id UUID, response_text TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.get_student_attempt(p_attempt_id, p_student_code);
+
+  RETURN QUERY
+  SELECT sa.question_id, sa.answer_id, sa.response_text
+  FROM public.student_answers sa
+  WHERE sa.attempt_id = p_attempt_id
+  ORDER BY sa.answered_at, sa.position;
+END;
+$$;
+
+-- Ordering questions take every item, in the student's order
+DROP FUNCTION IF EXISTS public.submit_quiz_answer(UUID, TEXT, UUID, UUID[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.submit_quiz_answer(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID,
+  p_answer_ids UUID[] DEFAULT NULL,
+  p_response_text TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  q_type question_type;
+  q_settings JSONB;
+  new_score NUMERIC;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  -- A few seconds of grace cover the request latency of an answer sent at 0:00
+  IF NOW() > public.attempt_expires_at(p_attempt_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up' USING HINT = 'attempt_expired';
+  END IF;
+
+  SELECT question_type, settings INTO q_type, q_settings
+  FROM public.questions
+  WHERE id = p_question_id
+    AND quiz_session_id = attempt_row.quiz_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  -- Start the question's clock if it was never opened
+  INSERT INTO public.attempt_questions (attempt_id, question_id)
+  VALUES (p_attempt_id, p_question_id)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+  IF NOW() > public.question_expires_at(p_attempt_id, p_question_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up for this question' USING HINT = 'question_expired';
+  END IF;
+
+  IF q_type::TEXT IN ('short_answer', 'numeric') THEN
+    IF btrim(COALESCE(p_response_text, '')) = '' THEN
+      RAISE EXCEPTION 'Type an answer';
+    END IF;
+
+    IF char_length(p_response_text) > 500 THEN
+      RAISE EXCEPTION 'Answer is too long';
+    END IF;
+
+    IF q_type::TEXT = 'numeric' AND public.parse_number_in_base(
+      p_response_text,
+      COALESCE((q_settings->>'base')::INTEGER, 10)
+    ) IS NULL THEN
+      RAISE EXCEPTION 'Enter a valid number';
+    END IF;
+  ELSE
+    IF COALESCE(cardinality(p_answer_ids), 0) = 0 THEN
+      RAISE EXCEPTION 'Select an answer';
+    END IF;
+
+    IF q_type::TEXT IN ('single', 'true_false') AND cardinality(p_answer_ids) > 1 THEN
+      RAISE EXCEPTION 'Only one answer can be selected for this question';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(p_answer_ids) AS selected
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = selected AND question_id = p_question_id
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid answer for this question';
+    END IF;
+
+    IF q_type::TEXT = 'ordering' AND (
+      cardinality(p_answer_ids) <> (SELECT COUNT(*) FROM public.answers WHERE question_id = p_question_id)
+      OR cardinality(p_answer_ids) <> (SELECT COUNT(DISTINCT item) FROM unnest(p_answer_ids) AS item)
+    ) THEN
+      RAISE EXCEPTION 'Put every item in order';
+    END IF;
+  END IF;
+
+  -- Answers are final once submitted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+      AND question_id = p_question_id
+  ) THEN
+    IF q_type::TEXT IN ('short_answer', 'numeric') THEN
+      INSERT INTO public.student_answers (attempt_id, question_id, response_text, is_correct)
+      VALUES (
+        p_attempt_id,
+        p_question_id,
+        btrim(p_response_text),
+        public.grade_text_response(p_question_id, p_response_text)
+      );
+    ELSIF q_type::TEXT = 'ordering' THEN
+      -- Each item remembers where the student placed it
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, position, is_correct)
+      SELECT
+        p_attempt_id,
+        p_question_id,
+        placed.answer_id,
+        placed.position,
+        placed.position = array_position(public.canonical_order(p_question_id), placed.answer_id)
+      FROM unnest(p_answer_ids) WITH ORDINALITY AS placed(answer_id, position);
+    ELSE
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, is_correct)
+      SELECT p_attempt_id, p_question_id, a.id, a.is_correct
+      FROM public.answers a
+      WHERE a.question_id = p_question_id
+        AND a.id = ANY(p_answer_ids);
+    END IF;
+  END IF;
+
+  new_score := public.calculate_attempt_score(p_attempt_id);
+
+  UPDATE public.quiz_attempts
+  SET score = new_score
+  WHERE id = p_attempt_id;
+
+  RETURN new_score;
+END;
+$$;
+
+-- Ordering responses are regraded item by item; scores can be fractional
+DROP FUNCTION IF EXISTS public.accept_text_response(UUID, TEXT);
+DROP FUNCTION IF EXISTS public.regrade_quiz(UUID, UUID, public.question_scoring, UUID[], BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.regrade_quiz(
+  p_quiz_session_id UUID,
+  p_question_id UUID DEFAULT NULL,
+  p_scoring public.question_scoring DEFAULT NULL,
+  p_accept_answer_ids UUID[] DEFAULT NULL,
+  p_preview BOOLEAN DEFAULT false
+)
+RETURNS TABLE (attempt_id UUID, old_score NUMERIC, new_score NUMERIC, old_total INTEGER, new_total INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  changes JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF (p_scoring IS NOT NULL OR p_accept_answer_ids IS NOT NULL) AND p_question_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a question to change how it is scored';
+  END IF;
+
+  IF p_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE id = p_question_id
+      AND quiz_session_id = p_quiz_session_id
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_accept_answer_ids) AS accepted
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = accepted AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  BEGIN
+    IF p_scoring IS NOT NULL THEN
+      UPDATE public.questions
+      SET scoring = p_scoring
+      WHERE id = p_question_id;
+    END IF;
+
+    IF p_accept_answer_ids IS NOT NULL THEN
+      UPDATE public.answers
+      SET is_correct = true
+      WHERE id = ANY(p_accept_answer_ids);
+    END IF;
+
+    UPDATE public.student_answers sa
+    SET is_correct = a.is_correct
+    FROM public.answers a, public.quiz_attempts qa
+    WHERE sa.answer_id = a.id
+      AND sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM a.is_correct;
+
+    UPDATE public.student_answers sa
+    SET is_correct = COALESCE(array_position(public.canonical_order(sa.question_id), sa.answer_id) = sa.position, false)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_text_response(sa.question_id, sa.response_text)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.answer_id IS NULL
+      AND sa.response_text IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM public.grade_text_response(sa.question_id, sa.response_text);
+
+    WITH rescored AS (
+      SELECT
+        qa.id,
+        qa.score AS old_score,
+        public.calculate_attempt_score(qa.id) AS new_score,
+        qa.total_questions AS old_total,
+        public.scored_question_count(p_quiz_session_id) AS new_total
+      FROM public.quiz_attempts qa
+      WHERE qa.quiz_session_id = p_quiz_session_id
+    ), updated AS (
+      UPDATE public.quiz_attempts qa
+      SET score = r.new_score,
+          total_questions = r.new_total
+      FROM rescored r
+      WHERE qa.id = r.id
+        AND (qa.score IS DISTINCT FROM r.new_score OR qa.total_questions IS DISTINCT FROM r.new_total)
+      RETURNING r.id, r.old_score, r.new_score, r.old_total, r.new_total
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'attempt_id', updated.id,
+      'old_score', updated.old_score,
+      'new_score', updated.new_score,
+      'old_total', updated.old_total,
+      'new_total', updated.new_total
+    )), '[]'::jsonb) INTO changes
+    FROM updated;
+
+    IF p_preview THEN
+      RAISE EXCEPTION 'Regrade preview' USING ERRCODE = 'QZ001';
+    END IF;
+
+    PERFORM public.calculate_quiz_rankings(p_quiz_session_id);
+  EXCEPTION
+    WHEN SQLSTATE 'QZ001' THEN
+      -- Preview only: the changes above are rolled back, the diff is kept
+      NULL;
+  END;
+
+  RETURN QUERY
+  SELECT c.attempt_id, c.old_score, c.new_score, c.old_total, c.new_total
+  FROM jsonb_to_recordset(changes) AS c(attempt_id UUID, old_score NUMERIC, new_score NUMERIC, old_total INTEGER, new_total INTEGER);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_text_response(p_question_id UUID, p_response_text TEXT)
+RETURNS TABLE (attempt_id UUID, old_score NUMERIC, new_score NUMERIC, old_total INTEGER, new_total INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  question_row public.questions;
+  accepted TEXT := btrim(COALESCE(p_response_text, ''));
+BEGIN
+  SELECT q.* INTO question_row
+  FROM public.questions q
+  JOIN public.quiz_sessions qs ON qs.id = q.quiz_session_id
+  WHERE q.id = p_question_id
+    AND qs.teacher_id = auth.uid()
+    AND q.question_type::TEXT = 'short_answer';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  IF accepted = '' THEN
+    RAISE EXCEPTION 'Type an answer';
+  END IF;
+
+  -- In regex mode the response is accepted literally
+  IF question_row.settings->>'match' = 'regex' THEN
+    accepted := regexp_replace(accepted, '([.^$*+?()\[\]{}|\\])', '\\\1', 'g');
+  END IF;
+
+  INSERT INTO public.answers (question_id, answer_text, is_correct, order_index)
+  SELECT p_question_id, accepted, true, COALESCE(MAX(order_index) + 1, 0)
+  FROM public.answers
+  WHERE question_id = p_question_id;
+
+  RETURN QUERY
+  SELECT r.attempt_id, r.old_score, r.new_score, r.old_total, r.new_total
+  FROM public.regrade_quiz(question_row.quiz_session_id, p_question_id) r;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.canonical_order(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grade_ordering(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.calculate_attempt_score(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.regrade_quiz(UUID, UUID, public.question_scoring, UUID[], BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_text_response(UUID, TEXT) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.submit_quiz_answer(UUID, TEXT, UUID, UUID[], TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.regrade_quiz(UUID, UUID, public.question_scoring, UUID[], BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_text_response(UUID, TEXT) TO authenticated;
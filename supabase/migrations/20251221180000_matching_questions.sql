@@ -0,0 +1,695 @@
+-- Matching questions
+-- Each pair is one answer row: answer_text on the left, match_text on the
+-- right. Distractors only have a match_text and are stored with
+-- is_correct = false. Students see the right column through its own view,
+-- keyed by a random match_id, so the pairs can't be read from the ids.
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'matching';
+
+ALTER TABLE public.answers
+  ADD COLUMN match_text TEXT,
+  ADD COLUMN match_id UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE;
+
+-- The right-hand item a student matched with the answer on the left
+ALTER TABLE public.student_answers
+  ADD COLUMN matched_answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE;
+
+-- Only the left column is listed with the answer options
+CREATE OR REPLACE VIEW public.student_answer_options AS
+SELECT
+  id,
+  question_id,
+  answer_text,
+  CASE
+    WHEN question_type::TEXT <> 'ordering' THEN order_index
+    WHEN bool_and(scrambled = canonical) OVER (PARTITION BY question_id)
+      THEN ((scrambled + 1) % item_count)::INTEGER
+    ELSE scrambled::INTEGER
+  END AS order_index
+FROM (
+  SELECT
+    a.id,
+    a.question_id,
+    a.answer_text,
+    a.order_index,
+    q.question_type,
+    row_number() OVER (PARTITION BY a.question_id ORDER BY md5(a.id::TEXT)) - 1 AS scrambled,
+    row_number() OVER (PARTITION BY a.question_id ORDER BY a.order_index, a.id) - 1 AS canonical,
+    count(*) OVER (PARTITION BY a.question_id) AS item_count
+  FROM public.answers a
+  JOIN public.questions q ON q.id = a.question_id
+  WHERE q.question_type::TEXT NOT IN ('short_answer', 'numeric')
+    AND (q.question_type::TEXT <> 'matching' OR a.is_correct)
+) options;
+
+CREATE OR REPLACE VIEW public.student_match_options AS
+SELECT
+  a.match_id AS id,
+  a.question_id,
+  a.match_text,
+  (row_number() OVER (PARTITION BY a.question_id ORDER BY md5(a.match_id::TEXT)) - 1)::INTEGER AS order_index
+FROM public.answers a
+JOIN public.questions q ON q.id = a.question_id
+WHERE q.question_type::TEXT = 'matching'
+  AND a.match_text IS NOT NULL;
+
+GRANT SELECT ON public.student_match_options TO anon, authenticated;
+
+-- Right-hand items with the same text are interchangeable
+CREATE OR REPLACE FUNCTION public.is_correct_match(p_answer_id UUID, p_matched_answer_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT l.is_correct
+      AND public.normalize_text_answer(l.match_text, false) = public.normalize_text_answer(r.match_text, false)
+    FROM public.answers l
+    JOIN public.answers r ON r.question_id = l.question_id
+    WHERE l.id = p_answer_id
+      AND r.id = p_matched_answer_id
+  ), false);
+$$;
+
+-- Credit between 0 and 1 for the submitted pairs; pairs left unmatched are wrong
+CREATE OR REPLACE FUNCTION public.grade_matching(p_question_id UUID, p_answer_ids UUID[], p_matched_answer_ids UUID[])
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pair_count INTEGER;
+  correct_pairs INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO pair_count
+  FROM public.answers
+  WHERE question_id = p_question_id
+    AND is_correct;
+
+  SELECT COUNT(*) INTO correct_pairs
+  FROM unnest(p_answer_ids, p_matched_answer_ids) AS paired(answer_id, matched_answer_id)
+  WHERE public.is_correct_match(paired.answer_id, paired.matched_answer_id);
+
+  IF pair_count = 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF correct_pairs = pair_count THEN
+    RETURN 1;
+  END IF;
+
+  IF NOT COALESCE((
+    SELECT (settings->>'partial_credit')::BOOLEAN
+    FROM public.questions
+    WHERE id = p_question_id
+  ), false) THEN
+    RETURN 0;
+  END IF;
+
+  RETURN round(correct_pairs::NUMERIC / pair_count, 2);
+END;
+$$;
+
+-- Matching questions are graded pair by pair
+CREATE OR REPLACE FUNCTION public.calculate_attempt_score(p_attempt_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(credit), 0) INTO total
+  FROM (
+    SELECT CASE
+      WHEN q.question_type::TEXT IN ('short_answer', 'numeric')
+        THEN public.grade_text_response(sa.question_id, max(sa.response_text))::INTEGER
+      WHEN q.question_type::TEXT = 'matching'
+        THEN public.grade_matching(
+          sa.question_id,
+          array_agg(sa.answer_id ORDER BY sa.answer_id),
+          array_agg(sa.matched_answer_id ORDER BY sa.answer_id)
+        )
+      WHEN q.question_type::TEXT = 'ordering'
+        THEN public.grade_ordering(sa.question_id, array_agg(sa.answer_id ORDER BY sa.position))
+      ELSE public.grade_question(sa.question_id, array_agg(sa.answer_id))::INTEGER
+    END AS credit
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = p_attempt_id
+      AND q.scoring <> 'dropped'
+    GROUP BY sa.question_id, q.question_type
+  ) graded;
+
+  RETURN total;
+END;
+$$;
+
+-- Pairs and distractors are part of the answer key
+CREATE OR REPLACE FUNCTION public.quiz_answer_key_snapshot(p_quiz_session_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(q.id, jsonb_build_object(
+    'question_type', q.question_type,
+    'settings', q.settings,
+    'correct_ids', (
+      SELECT COALESCE(jsonb_agg(a.id ORDER BY a.id), '[]'::jsonb)
+      FROM public.answers a
+      WHERE a.question_id = q.id
+        AND a.is_correct
+    ),
+    'answer_key', CASE
+      WHEN q.question_type::TEXT IN ('short_answer', 'numeric') THEN (
+        SELECT jsonb_agg(a.answer_text ORDER BY a.id)
+        FROM public.answers a
+        WHERE a.question_id = q.id
+          AND a.is_correct
+      )
+      WHEN q.question_type::TEXT = 'ordering' THEN to_jsonb(public.canonical_order(q.id))
+      WHEN q.question_type::TEXT = 'matching' THEN (
+        SELECT jsonb_agg(jsonb_build_array(a.id, a.is_correct, a.match_text) ORDER BY a.id)
+        FROM public.answers a
+        WHERE a.question_id = q.id
+      )
+    END,
+    'answer_count', (
+      SELECT COUNT(*) FROM public.student_answers sa WHERE sa.question_id = q.id
+    )
+  )), '{}'::jsonb)
+  FROM public.questions q
+  WHERE q.quiz_session_id = p_quiz_session_id
+    AND EXISTS (SELECT 1 FROM public.student_answers sa WHERE sa.question_id = q.id);
+$$;
+
+-- Saving keeps the right-hand text of matching pairs
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  p_quiz_session_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_group_ids UUID[],
+  p_questions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_keys JSONB;
+  new_keys JSONB;
+  kept_question_ids UUID[];
+  kept_answer_ids UUID[];
+  q_item JSONB;
+  q_position BIGINT;
+  q_id UUID;
+  a_item JSONB;
+  a_position BIGINT;
+  a_id UUID;
+  changed_ids UUID[] := '{}';
+  removed_count INTEGER := 0;
+  key_question_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF COALESCE(cardinality(p_group_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one group must be assigned to the quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_group_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = selected AND teacher_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  old_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  -- Quiz details (the legacy group_id follows the first group if it was unassigned)
+  UPDATE public.quiz_sessions
+  SET title = p_title,
+      description = p_description,
+      group_id = CASE WHEN group_id = ANY(p_group_ids) THEN group_id ELSE p_group_ids[1] END,
+      updated_at = NOW()
+  WHERE id = p_quiz_session_id;
+
+  -- Group assignments
+  DELETE FROM public.quiz_session_groups
+  WHERE quiz_session_id = p_quiz_session_id
+    AND group_id <> ALL(p_group_ids);
+
+  INSERT INTO public.quiz_session_groups (quiz_session_id, group_id)
+  SELECT p_quiz_session_id, selected
+  FROM unnest(p_group_ids) AS selected
+  ON CONFLICT (quiz_session_id, group_id) DO NOTHING;
+
+  -- Remove questions that are no longer in the quiz
+  kept_question_ids := ARRAY(
+    SELECT NULLIF(item->>'id', '')::UUID
+    FROM jsonb_array_elements(p_questions) AS item
+    WHERE NULLIF(item->>'id', '') IS NOT NULL
+  );
+
+  DELETE FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND id <> ALL(kept_question_ids);
+
+  FOR q_item, q_position IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    q_id := NULLIF(q_item->>'id', '')::UUID;
+
+    IF q_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = q_id AND quiz_session_id = p_quiz_session_id
+    ) THEN
+      UPDATE public.questions
+      SET question_text = q_item->>'question_text',
+          question_type = (q_item->>'question_type')::question_type,
+          image_url = q_item->>'image_url',
+          time_limit = (q_item->>'time_limit')::INTEGER,
+          settings = COALESCE(q_item->'settings', '{}'::jsonb),
+          order_index = q_position
+      WHERE id = q_id;
+    ELSE
+      INSERT INTO public.questions (quiz_session_id, question_text, question_type, image_url, time_limit, settings, order_index)
+      VALUES (
+        p_quiz_session_id,
+        q_item->>'question_text',
+        (q_item->>'question_type')::question_type,
+        q_item->>'image_url',
+        (q_item->>'time_limit')::INTEGER,
+        COALESCE(q_item->'settings', '{}'::jsonb),
+        q_position
+      )
+      RETURNING id INTO q_id;
+    END IF;
+
+    -- Remove answers that are no longer part of the question
+    kept_answer_ids := ARRAY(
+      SELECT NULLIF(item->>'id', '')::UUID
+      FROM jsonb_array_elements(q_item->'answers') AS item
+      WHERE NULLIF(item->>'id', '') IS NOT NULL
+    );
+
+    DELETE FROM public.answers
+    WHERE question_id = q_id
+      AND id <> ALL(kept_answer_ids);
+
+    FOR a_item, a_position IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(q_item->'answers') WITH ORDINALITY
+    LOOP
+      a_id := NULLIF(a_item->>'id', '')::UUID;
+
+      IF a_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = a_id AND question_id = q_id
+      ) THEN
+        UPDATE public.answers
+        SET answer_text = a_item->>'answer_text',
+            match_text = NULLIF(a_item->>'match_text', ''),
+            is_correct = COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+            order_index = a_position
+        WHERE id = a_id;
+      ELSE
+        INSERT INTO public.answers (question_id, answer_text, match_text, is_correct, order_index)
+        VALUES (
+          q_id,
+          a_item->>'answer_text',
+          NULLIF(a_item->>'match_text', ''),
+          COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+          a_position
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Compare answered questions before and after the save
+  new_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  FOR key_question_id IN SELECT jsonb_object_keys(old_keys) LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = key_question_id::UUID) THEN
+      removed_count := removed_count + 1;
+    ELSIF new_keys->key_question_id IS DISTINCT FROM old_keys->key_question_id THEN
+      changed_ids := changed_ids || key_question_id::UUID;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'changed_question_ids', to_jsonb(changed_ids),
+    'removed_answered_questions', removed_count
+  );
+END;
+$$;
+
+-- Resumed matching questions need the right-hand item of each pair
+DROP FUNCTION IF EXISTS public.get_attempt_answers(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_attempt_answers(p_attempt_id UUID, p_student_code TEXT)
+RETURNS TABLE (question_id UUID, answer_id UUID, match_id UUID, response_text TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.get_student_attempt(p_attempt_id, p_student_code);
+
+  RETURN QUERY
+  SELECT sa.question_id, sa.answer_id, matched.match_id, sa.response_text
+  FROM public.student_answers sa
+  LEFT JOIN public.answers matched ON matched.id = sa.matched_answer_id
+  WHERE sa.attempt_id = p_attempt_id
+  ORDER BY sa.answered_at, sa.position;
+END;
+$$;
+
+-- Matching pairs are submitted as two parallel arrays
+DROP FUNCTION IF EXISTS public.submit_quiz_answer(UUID, TEXT, UUID, UUID[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.submit_quiz_answer(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID,
+  p_answer_ids UUID[] DEFAULT NULL,
+  p_response_text TEXT DEFAULT NULL,
+  p_match_ids UUID[] DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  q_type question_type;
+  q_settings JSONB;
+  new_score NUMERIC;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  -- A few seconds of grace cover the request latency of an answer sent at 0:00
+  IF NOW() > public.attempt_expires_at(p_attempt_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up' USING HINT = 'attempt_expired';
+  END IF;
+
+  SELECT question_type, settings INTO q_type, q_settings
+  FROM public.questions
+  WHERE id = p_question_id
+    AND quiz_session_id = attempt_row.quiz_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  -- Start the question's clock if it was never opened
+  INSERT INTO public.attempt_questions (attempt_id, question_id)
+  VALUES (p_attempt_id, p_question_id)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+  IF NOW() > public.question_expires_at(p_attempt_id, p_question_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up for this question' USING HINT = 'question_expired';
+  END IF;
+
+  IF q_type::TEXT IN ('short_answer', 'numeric') THEN
+    IF btrim(COALESCE(p_response_text, '')) = '' THEN
+      RAISE EXCEPTION 'Type an answer';
+    END IF;
+
+    IF char_length(p_response_text) > 500 THEN
+      RAISE EXCEPTION 'Answer is too long';
+    END IF;
+
+    IF q_type::TEXT = 'numeric' AND public.parse_number_in_base(
+      p_response_text,
+      COALESCE((q_settings->>'base')::INTEGER, 10)
+    ) IS NULL THEN
+      RAISE EXCEPTION 'Enter a valid number';
+    END IF;
+  ELSE
+    IF COALESCE(cardinality(p_answer_ids), 0) = 0 THEN
+      RAISE EXCEPTION 'Select an answer';
+    END IF;
+
+    IF q_type::TEXT IN ('single', 'true_false') AND cardinality(p_answer_ids) > 1 THEN
+      RAISE EXCEPTION 'Only one answer can be selected for this question';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(p_answer_ids) AS selected
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = selected AND question_id = p_question_id
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid answer for this question';
+    END IF;
+
+    IF q_type::TEXT = 'ordering' AND (
+      cardinality(p_answer_ids) <> (SELECT COUNT(*) FROM public.answers WHERE question_id = p_question_id)
+      OR cardinality(p_answer_ids) <> (SELECT COUNT(DISTINCT item) FROM unnest(p_answer_ids) AS item)
+    ) THEN
+      RAISE EXCEPTION 'Put every item in order';
+    END IF;
+
+    -- p_answer_ids[i] on the left is matched with p_match_ids[i] on the right
+    IF q_type::TEXT = 'matching' AND (
+      cardinality(p_match_ids) IS DISTINCT FROM cardinality(p_answer_ids)
+      OR cardinality(p_answer_ids) <> (SELECT COUNT(DISTINCT item) FROM unnest(p_answer_ids) AS item)
+      OR cardinality(p_match_ids) <> (
+        SELECT COUNT(*) FROM public.answers
+        WHERE question_id = p_question_id
+          AND match_id = ANY(p_match_ids)
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = ANY(p_answer_ids)
+          AND NOT is_correct
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid pairs for this question';
+    END IF;
+  END IF;
+
+  -- Answers are final once submitted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+      AND question_id = p_question_id
+  ) THEN
+    IF q_type::TEXT IN ('short_answer', 'numeric') THEN
+      INSERT INTO public.student_answers (attempt_id, question_id, response_text, is_correct)
+      VALUES (
+        p_attempt_id,
+        p_question_id,
+        btrim(p_response_text),
+        public.grade_text_response(p_question_id, p_response_text)
+      );
+    ELSIF q_type::TEXT = 'matching' THEN
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, matched_answer_id, is_correct)
+      SELECT
+        p_attempt_id,
+        p_question_id,
+        paired.answer_id,
+        matched.id,
+        public.is_correct_match(paired.answer_id, matched.id)
+      FROM unnest(p_answer_ids, p_match_ids) AS paired(answer_id, match_id)
+      JOIN public.answers matched
+        ON matched.match_id = paired.match_id
+       AND matched.question_id = p_question_id;
+    ELSIF q_type::TEXT = 'ordering' THEN
+      -- Each item remembers where the student placed it
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, position, is_correct)
+      SELECT
+        p_attempt_id,
+        p_question_id,
+        placed.answer_id,
+        placed.position,
+        placed.position = array_position(public.canonical_order(p_question_id), placed.answer_id)
+      FROM unnest(p_answer_ids) WITH ORDINALITY AS placed(answer_id, position);
+    ELSE
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, is_correct)
+      SELECT p_attempt_id, p_question_id, a.id, a.is_correct
+      FROM public.answers a
+      WHERE a.question_id = p_question_id
+        AND a.id = ANY(p_answer_ids);
+    END IF;
+  END IF;
+
+  new_score := public.calculate_attempt_score(p_attempt_id);
+
+  UPDATE public.quiz_attempts
+  SET score = new_score
+  WHERE id = p_attempt_id;
+
+  RETURN new_score;
+END;
+$$;
+
+-- Matched pairs are rechecked when regrading
+CREATE OR REPLACE FUNCTION public.regrade_quiz(
+  p_quiz_session_id UUID,
+  p_question_id UUID DEFAULT NULL,
+  p_scoring public.question_scoring DEFAULT NULL,
+  p_accept_answer_ids UUID[] DEFAULT NULL,
+  p_preview BOOLEAN DEFAULT false
+)
+RETURNS TABLE (attempt_id UUID, old_score NUMERIC, new_score NUMERIC, old_total INTEGER, new_total INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  changes JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF (p_scoring IS NOT NULL OR p_accept_answer_ids IS NOT NULL) AND p_question_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a question to change how it is scored';
+  END IF;
+
+  IF p_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE id = p_question_id
+      AND quiz_session_id = p_quiz_session_id
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_accept_answer_ids) AS accepted
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = accepted AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  BEGIN
+    IF p_scoring IS NOT NULL THEN
+      UPDATE public.questions
+      SET scoring = p_scoring
+      WHERE id = p_question_id;
+    END IF;
+
+    IF p_accept_answer_ids IS NOT NULL THEN
+      UPDATE public.answers
+      SET is_correct = true
+      WHERE id = ANY(p_accept_answer_ids);
+    END IF;
+
+    UPDATE public.student_answers sa
+    SET is_correct = a.is_correct
+    FROM public.answers a, public.quiz_attempts qa
+    WHERE sa.answer_id = a.id
+      AND sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NULL
+      AND sa.matched_answer_id IS NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM a.is_correct;
+
+    UPDATE public.student_answers sa
+    SET is_correct = COALESCE(array_position(public.canonical_order(sa.question_id), sa.answer_id) = sa.position, false)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.is_correct_match(sa.answer_id, sa.matched_answer_id)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.matched_answer_id IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_text_response(sa.question_id, sa.response_text)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.answer_id IS NULL
+      AND sa.response_text IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM public.grade_text_response(sa.question_id, sa.response_text);
+
+    WITH rescored AS (
+      SELECT
+        qa.id,
+        qa.score AS old_score,
+        public.calculate_attempt_score(qa.id) AS new_score,
+        qa.total_questions AS old_total,
+        public.scored_question_count(p_quiz_session_id) AS new_total
+      FROM public.quiz_attempts qa
+      WHERE qa.quiz_session_id = p_quiz_session_id
+    ), updated AS (
+      UPDATE public.quiz_attempts qa
+      SET score = r.new_score,
+          total_questions = r.new_total
+      FROM rescored r
+      WHERE qa.id = r.id
+        AND (qa.score IS DISTINCT FROM r.new_score OR qa.total_questions IS DISTINCT FROM r.new_total)
+      RETURNING r.id, r.old_score, r.new_score, r.old_total, r.new_total
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'attempt_id', updated.id,
+      'old_score', updated.old_score,
+      'new_score', updated.new_score,
+      'old_total', updated.old_total,
+      'new_total', updated.new_total
+    )), '[]'::jsonb) INTO changes
+    FROM updated;
+
+    IF p_preview THEN
+      RAISE EXCEPTION 'Regrade preview' USING ERRCODE = 'QZ001';
+    END IF;
+
+    PERFORM public.calculate_quiz_rankings(p_quiz_session_id);
+  EXCEPTION
+    WHEN SQLSTATE 'QZ001' THEN
+      -- Preview only: the changes above are rolled back, the diff is kept
+      NULL;
+  END;
+
+  RETURN QUERY
+  SELECT c.attempt_id, c.old_score, c.new_score, c.old_total, c.new_total
+  FROM jsonb_to_recordset(changes) AS c(attempt_id UUID, old_score NUMERIC, new_score NUMERIC, old_total INTEGER, new_total INTEGER);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_correct_match(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grade_matching(UUID, UUID[], UUID[]) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_attempt_answers(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_quiz_answer(UUID, TEXT, UUID, UUID[], TEXT, UUID[]) TO anon, authenticated;
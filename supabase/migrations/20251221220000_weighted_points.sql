@@ -0,0 +1,749 @@
+-- Weighted points and partial credit for multiple answer questions
+-- Each question is worth questions.points (1 by default) and an attempt's
+-- score is the credit earned on each question times its points. What a
+-- perfect attempt scores is kept in quiz_attempts.max_points, next to
+-- total_questions. Multiple answer questions are scored by
+-- settings.multiple_scoring:
+--   all_or_nothing     the chosen answers must be exactly the correct ones
+--   proportional       credit for each answer rightly chosen or left out
+--   right_minus_wrong  correct choices minus wrong choices, out of the number
+--                      of correct answers, and never below zero
+ALTER TABLE public.questions
+  ADD COLUMN points NUMERIC NOT NULL DEFAULT 1 CHECK (points > 0 AND points <= 100);
+
+ALTER TABLE public.quiz_attempts ADD COLUMN max_points NUMERIC DEFAULT 0;
+
+-- Every question was worth one point so far
+UPDATE public.quiz_attempts SET max_points = total_questions;
+
+-- Students see what each question is worth
+CREATE OR REPLACE VIEW public.student_questions AS
+SELECT
+  id,
+  quiz_session_id,
+  CASE WHEN question_type::TEXT = 'cloze'
+    THEN regexp_replace(question_text, '\[\[[^\]]*\]\]', '[[]]', 'g')
+    ELSE question_text
+  END AS question_text,
+  question_type,
+  image_url,
+  order_index,
+  time_limit,
+  CASE WHEN question_type::TEXT = 'numeric' THEN jsonb_build_object(
+    'base', COALESCE((settings->>'base')::INTEGER, 10),
+    'unit', settings->>'unit'
+  ) END AS answer_format,
+  code,
+  code_language,
+  COALESCE((settings->>'code_answers')::BOOLEAN, false) AS code_answers,
+  points
+FROM public.questions;
+
+
+-- Credit (0 to 1) for the answers chosen on a multiple answer question
+CREATE OR REPLACE FUNCTION public.grade_multiple(p_question_id UUID, p_answer_ids UUID[])
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q_scoring question_scoring;
+  rule TEXT;
+  option_count INTEGER;
+  correct_count INTEGER;
+  right_count INTEGER;
+  wrong_count INTEGER;
+BEGIN
+  SELECT scoring, COALESCE(settings->>'multiple_scoring', 'all_or_nothing') INTO q_scoring, rule
+  FROM public.questions
+  WHERE id = p_question_id;
+
+  IF q_scoring = 'accept_any' OR rule NOT IN ('proportional', 'right_minus_wrong') THEN
+    RETURN public.grade_question(p_question_id, p_answer_ids)::INTEGER;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE is_correct),
+    COUNT(*) FILTER (WHERE is_correct AND id = ANY(p_answer_ids)),
+    COUNT(*) FILTER (WHERE NOT is_correct AND id = ANY(p_answer_ids))
+  INTO option_count, correct_count, right_count, wrong_count
+  FROM public.answers
+  WHERE question_id = p_question_id;
+
+  IF right_count + wrong_count = 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF rule = 'proportional' THEN
+    RETURN (right_count + (option_count - correct_count - wrong_count))::NUMERIC / option_count;
+  END IF;
+
+  IF correct_count = 0 THEN
+    RETURN 0;
+  END IF;
+
+  RETURN GREATEST(right_count - wrong_count, 0)::NUMERIC / correct_count;
+END;
+$$;
+
+-- Points a perfect attempt scores
+CREATE OR REPLACE FUNCTION public.scored_points(p_quiz_session_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(points), 0)
+  FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND scoring <> 'dropped';
+$$;
+
+-- Each question's credit is weighted by its points
+CREATE OR REPLACE FUNCTION public.calculate_attempt_score(p_attempt_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(credit * points), 0) INTO total
+  FROM (
+    SELECT CASE
+      WHEN q.question_type::TEXT IN ('short_answer', 'numeric')
+        THEN public.grade_text_response(sa.question_id, max(sa.response_text))::INTEGER
+      WHEN q.question_type::TEXT = 'matching'
+        THEN public.grade_matching(
+          sa.question_id,
+          array_agg(sa.answer_id ORDER BY sa.answer_id),
+          array_agg(sa.matched_answer_id ORDER BY sa.answer_id)
+        )
+      WHEN q.question_type::TEXT = 'hotspot'
+        THEN public.grade_hotspot(sa.question_id, max(sa.point_x), max(sa.point_y))::INTEGER
+      WHEN q.question_type::TEXT = 'cloze'
+        THEN public.grade_cloze(sa.question_id, array_agg(sa.response_text ORDER BY sa.position))
+      WHEN q.question_type::TEXT = 'ordering'
+        THEN public.grade_ordering(sa.question_id, array_agg(sa.answer_id ORDER BY sa.position))
+      WHEN q.question_type::TEXT = 'multiple'
+        THEN public.grade_multiple(sa.question_id, array_agg(sa.answer_id))
+      ELSE public.grade_question(sa.question_id, array_agg(sa.answer_id))::INTEGER
+    END AS credit,
+    q.points
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = p_attempt_id
+      AND q.scoring <> 'dropped'
+    GROUP BY sa.question_id, q.question_type, q.points
+  ) graded;
+
+  RETURN total;
+END;
+$$;
+
+
+-- New attempts record the points they can score
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_session_id UUID, p_student_code TEXT)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz_row public.quiz_sessions;
+  student_row public.students;
+  attempt_row public.quiz_attempts;
+BEGIN
+  SELECT * INTO quiz_row
+  FROM public.quiz_sessions
+  WHERE id = p_quiz_session_id;
+
+  IF NOT FOUND OR quiz_row.deadline < NOW() THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  SELECT * INTO student_row
+  FROM public.students
+  WHERE student_code = p_student_code;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid student code';
+  END IF;
+
+  -- Check quiz_session_groups and the legacy group_id column
+  IF student_row.group_id <> quiz_row.group_id AND NOT EXISTS (
+    SELECT 1 FROM public.quiz_session_groups
+    WHERE quiz_session_id = quiz_row.id
+      AND group_id = student_row.group_id
+  ) THEN
+    RAISE EXCEPTION 'This quiz is not available for your group';
+  END IF;
+
+  INSERT INTO public.quiz_attempts (quiz_session_id, student_id, total_questions, max_points)
+  VALUES (
+    quiz_row.id,
+    student_row.id,
+    public.scored_question_count(quiz_row.id),
+    public.scored_points(quiz_row.id)
+  )
+  ON CONFLICT (quiz_session_id, student_id) DO NOTHING;
+
+  PERFORM public.close_expired_attempts(quiz_row.id);
+
+  SELECT * INTO attempt_row
+  FROM public.quiz_attempts
+  WHERE quiz_session_id = quiz_row.id
+    AND student_id = student_row.id;
+
+  RETURN attempt_row;
+END;
+$$;
+
+
+-- Changing a question's points changes its scores
+CREATE OR REPLACE FUNCTION public.quiz_answer_key_snapshot(p_quiz_session_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(q.id, jsonb_build_object(
+    'question_type', q.question_type,
+    'settings', q.settings,
+    'points', q.points,
+    'correct_ids', (
+      SELECT COALESCE(jsonb_agg(a.id ORDER BY a.id), '[]'::jsonb)
+      FROM public.answers a
+      WHERE a.question_id = q.id
+        AND a.is_correct
+    ),
+    'answer_key', CASE
+      WHEN q.question_type::TEXT IN ('short_answer', 'numeric') THEN (
+        SELECT jsonb_agg(a.answer_text ORDER BY a.id)
+        FROM public.answers a
+        WHERE a.question_id = q.id
+          AND a.is_correct
+      )
+      WHEN q.question_type::TEXT = 'hotspot' THEN (
+        SELECT jsonb_agg(a.region ORDER BY a.id)
+        FROM public.answers a
+        WHERE a.question_id = q.id
+          AND a.is_correct
+      )
+      WHEN q.question_type::TEXT = 'ordering' THEN to_jsonb(public.canonical_order(q.id))
+      WHEN q.question_type::TEXT = 'cloze' THEN (
+        SELECT jsonb_agg(
+          jsonb_build_array(a.blank_index, a.answer_text, a.is_correct)
+          ORDER BY a.blank_index, a.answer_text, a.is_correct
+        )
+        FROM public.answers a
+        WHERE a.question_id = q.id
+      )
+      WHEN q.question_type::TEXT = 'matching' THEN (
+        SELECT jsonb_agg(jsonb_build_array(a.id, a.is_correct, a.match_text) ORDER BY a.id)
+        FROM public.answers a
+        WHERE a.question_id = q.id
+      )
+    END,
+    'answer_count', (
+      SELECT COUNT(*) FROM public.student_answers sa WHERE sa.question_id = q.id
+    )
+  )), '{}'::jsonb)
+  FROM public.questions q
+  WHERE q.quiz_session_id = p_quiz_session_id
+    AND EXISTS (SELECT 1 FROM public.student_answers sa WHERE sa.question_id = q.id);
+$$;
+
+
+-- Saving keeps each question's points
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  p_quiz_session_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_group_ids UUID[],
+  p_questions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_keys JSONB;
+  new_keys JSONB;
+  kept_question_ids UUID[];
+  kept_answer_ids UUID[];
+  q_item JSONB;
+  q_position BIGINT;
+  q_id UUID;
+  a_item JSONB;
+  a_position BIGINT;
+  a_id UUID;
+  changed_ids UUID[] := '{}';
+  removed_count INTEGER := 0;
+  key_question_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF COALESCE(cardinality(p_group_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one group must be assigned to the quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_group_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = selected AND teacher_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  old_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  -- Quiz details (the legacy group_id follows the first group if it was unassigned)
+  UPDATE public.quiz_sessions
+  SET title = p_title,
+      description = p_description,
+      group_id = CASE WHEN group_id = ANY(p_group_ids) THEN group_id ELSE p_group_ids[1] END,
+      updated_at = NOW()
+  WHERE id = p_quiz_session_id;
+
+  -- Group assignments
+  DELETE FROM public.quiz_session_groups
+  WHERE quiz_session_id = p_quiz_session_id
+    AND group_id <> ALL(p_group_ids);
+
+  INSERT INTO public.quiz_session_groups (quiz_session_id, group_id)
+  SELECT p_quiz_session_id, selected
+  FROM unnest(p_group_ids) AS selected
+  ON CONFLICT (quiz_session_id, group_id) DO NOTHING;
+
+  -- Remove questions that are no longer in the quiz
+  kept_question_ids := ARRAY(
+    SELECT NULLIF(item->>'id', '')::UUID
+    FROM jsonb_array_elements(p_questions) AS item
+    WHERE NULLIF(item->>'id', '') IS NOT NULL
+  );
+
+  DELETE FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND id <> ALL(kept_question_ids);
+
+  FOR q_item, q_position IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    q_id := NULLIF(q_item->>'id', '')::UUID;
+
+    IF q_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = q_id AND quiz_session_id = p_quiz_session_id
+    ) THEN
+      UPDATE public.questions
+      SET question_text = q_item->>'question_text',
+          question_type = (q_item->>'question_type')::question_type,
+          image_url = q_item->>'image_url',
+          time_limit = (q_item->>'time_limit')::INTEGER,
+          settings = COALESCE(q_item->'settings', '{}'::jsonb),
+          code = NULLIF(q_item->>'code', ''),
+          code_language = NULLIF(q_item->>'code_language', ''),
+          points = COALESCE((q_item->>'points')::NUMERIC, 1),
+          order_index = q_position
+      WHERE id = q_id;
+    ELSE
+      INSERT INTO public.questions (quiz_session_id, question_text, question_type, image_url, time_limit, settings, code, code_language, points, order_index)
+      VALUES (
+        p_quiz_session_id,
+        q_item->>'question_text',
+        (q_item->>'question_type')::question_type,
+        q_item->>'image_url',
+        (q_item->>'time_limit')::INTEGER,
+        COALESCE(q_item->'settings', '{}'::jsonb),
+        NULLIF(q_item->>'code', ''),
+        NULLIF(q_item->>'code_language', ''),
+        COALESCE((q_item->>'points')::NUMERIC, 1),
+        q_position
+      )
+      RETURNING id INTO q_id;
+    END IF;
+
+    -- Remove answers that are no longer part of the question
+    kept_answer_ids := ARRAY(
+      SELECT NULLIF(item->>'id', '')::UUID
+      FROM jsonb_array_elements(q_item->'answers') AS item
+      WHERE NULLIF(item->>'id', '') IS NOT NULL
+    );
+
+    DELETE FROM public.answers
+    WHERE question_id = q_id
+      AND id <> ALL(kept_answer_ids);
+
+    FOR a_item, a_position IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(q_item->'answers') WITH ORDINALITY
+    LOOP
+      a_id := NULLIF(a_item->>'id', '')::UUID;
+
+      IF a_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = a_id AND question_id = q_id
+      ) THEN
+        UPDATE public.answers
+        SET answer_text = a_item->>'answer_text',
+            match_text = NULLIF(a_item->>'match_text', ''),
+            blank_index = (a_item->>'blank_index')::INTEGER,
+            region = NULLIF(a_item->'region', 'null'::jsonb),
+            is_correct = COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+            order_index = a_position
+        WHERE id = a_id;
+      ELSE
+        INSERT INTO public.answers (question_id, answer_text, match_text, blank_index, region, is_correct, order_index)
+        VALUES (
+          q_id,
+          a_item->>'answer_text',
+          NULLIF(a_item->>'match_text', ''),
+          (a_item->>'blank_index')::INTEGER,
+          NULLIF(a_item->'region', 'null'::jsonb),
+          COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+          a_position
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Compare answered questions before and after the save
+  new_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  FOR key_question_id IN SELECT jsonb_object_keys(old_keys) LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = key_question_id::UUID) THEN
+      removed_count := removed_count + 1;
+    ELSIF new_keys->key_question_id IS DISTINCT FROM old_keys->key_question_id THEN
+      changed_ids := changed_ids || key_question_id::UUID;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'changed_question_ids', to_jsonb(changed_ids),
+    'removed_answered_questions', removed_count
+  );
+END;
+$$;
+
+
+-- Regrading also reports the points each attempt can score
+DROP FUNCTION IF EXISTS public.accept_text_response(UUID, TEXT);
+DROP FUNCTION IF EXISTS public.regrade_quiz(UUID, UUID, public.question_scoring, UUID[], BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.regrade_quiz(
+  p_quiz_session_id UUID,
+  p_question_id UUID DEFAULT NULL,
+  p_scoring public.question_scoring DEFAULT NULL,
+  p_accept_answer_ids UUID[] DEFAULT NULL,
+  p_preview BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  attempt_id UUID,
+  old_score NUMERIC,
+  new_score NUMERIC,
+  old_total INTEGER,
+  new_total INTEGER,
+  old_max_points NUMERIC,
+  new_max_points NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  changes JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF (p_scoring IS NOT NULL OR p_accept_answer_ids IS NOT NULL) AND p_question_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a question to change how it is scored';
+  END IF;
+
+  IF p_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE id = p_question_id
+      AND quiz_session_id = p_quiz_session_id
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_accept_answer_ids) AS accepted
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = accepted AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  BEGIN
+    IF p_scoring IS NOT NULL THEN
+      UPDATE public.questions
+      SET scoring = p_scoring
+      WHERE id = p_question_id;
+    END IF;
+
+    IF p_accept_answer_ids IS NOT NULL THEN
+      UPDATE public.answers
+      SET is_correct = true
+      WHERE id = ANY(p_accept_answer_ids);
+    END IF;
+
+    UPDATE public.student_answers sa
+    SET is_correct = a.is_correct
+    FROM public.answers a, public.quiz_attempts qa
+    WHERE sa.answer_id = a.id
+      AND sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NULL
+      AND sa.matched_answer_id IS NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM a.is_correct;
+
+    UPDATE public.student_answers sa
+    SET is_correct = COALESCE(array_position(public.canonical_order(sa.question_id), sa.answer_id) = sa.position, false)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NOT NULL
+      AND sa.answer_id IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_cloze_blank(sa.question_id, sa.position - 1, sa.response_text)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NOT NULL
+      AND sa.answer_id IS NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_hotspot(sa.question_id, sa.point_x, sa.point_y)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.point_x IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.is_correct_match(sa.answer_id, sa.matched_answer_id)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.matched_answer_id IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_text_response(sa.question_id, sa.response_text)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.answer_id IS NULL
+      AND sa.position IS NULL
+      AND sa.response_text IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM public.grade_text_response(sa.question_id, sa.response_text);
+
+    WITH rescored AS (
+      SELECT
+        qa.id,
+        qa.score AS old_score,
+        public.calculate_attempt_score(qa.id) AS new_score,
+        qa.total_questions AS old_total,
+        public.scored_question_count(p_quiz_session_id) AS new_total,
+        qa.max_points AS old_max_points,
+        public.scored_points(p_quiz_session_id) AS new_max_points
+      FROM public.quiz_attempts qa
+      WHERE qa.quiz_session_id = p_quiz_session_id
+    ), updated AS (
+      UPDATE public.quiz_attempts qa
+      SET score = r.new_score,
+          total_questions = r.new_total,
+          max_points = r.new_max_points
+      FROM rescored r
+      WHERE qa.id = r.id
+        AND (
+          qa.score IS DISTINCT FROM r.new_score
+          OR qa.total_questions IS DISTINCT FROM r.new_total
+          OR qa.max_points IS DISTINCT FROM r.new_max_points
+        )
+      RETURNING r.id, r.old_score, r.new_score, r.old_total, r.new_total, r.old_max_points, r.new_max_points
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'attempt_id', updated.id,
+      'old_score', updated.old_score,
+      'new_score', updated.new_score,
+      'old_total', updated.old_total,
+      'new_total', updated.new_total,
+      'old_max_points', updated.old_max_points,
+      'new_max_points', updated.new_max_points
+    )), '[]'::jsonb) INTO changes
+    FROM updated;
+
+    IF p_preview THEN
+      RAISE EXCEPTION 'Regrade preview' USING ERRCODE = 'QZ001';
+    END IF;
+
+    PERFORM public.calculate_quiz_rankings(p_quiz_session_id);
+  EXCEPTION
+    WHEN SQLSTATE 'QZ001' THEN
+      -- Preview only: the changes above are rolled back, the diff is kept
+      NULL;
+  END;
+
+  RETURN QUERY
+  SELECT c.attempt_id, c.old_score, c.new_score, c.old_total, c.new_total, c.old_max_points, c.new_max_points
+  FROM jsonb_to_recordset(changes) AS c(
+    attempt_id UUID,
+    old_score NUMERIC,
+    new_score NUMERIC,
+    old_total INTEGER,
+    new_total INTEGER,
+    old_max_points NUMERIC,
+    new_max_points NUMERIC
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_text_response(p_question_id UUID, p_response_text TEXT)
+RETURNS TABLE (
+  attempt_id UUID,
+  old_score NUMERIC,
+  new_score NUMERIC,
+  old_total INTEGER,
+  new_total INTEGER,
+  old_max_points NUMERIC,
+  new_max_points NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  question_row public.questions;
+  accepted TEXT := btrim(COALESCE(p_response_text, ''));
+BEGIN
+  SELECT q.* INTO question_row
+  FROM public.questions q
+  JOIN public.quiz_sessions qs ON qs.id = q.quiz_session_id
+  WHERE q.id = p_question_id
+    AND qs.teacher_id = auth.uid()
+    AND q.question_type::TEXT = 'short_answer';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  IF accepted = '' THEN
+    RAISE EXCEPTION 'Type an answer';
+  END IF;
+
+  -- In regex mode the response is accepted literally
+  IF question_row.settings->>'match' = 'regex' THEN
+    accepted := regexp_replace(accepted, '([.^$*+?()\[\]{}|\\])', '\\\1', 'g');
+  END IF;
+
+  INSERT INTO public.answers (question_id, answer_text, is_correct, order_index)
+  SELECT p_question_id, accepted, true, COALESCE(MAX(order_index) + 1, 0)
+  FROM public.answers
+  WHERE question_id = p_question_id;
+
+  RETURN QUERY
+  SELECT r.attempt_id, r.old_score, r.new_score, r.old_total, r.new_total, r.old_max_points, r.new_max_points
+  FROM public.regrade_quiz(question_row.quiz_session_id, p_question_id) r;
+END;
+$$;
+
+
+-- Rankings compare the share of points scored, as attempts started before
+-- an edit can have a different maximum
+CREATE OR REPLACE FUNCTION calculate_quiz_rankings(quiz_session_uuid UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deadline_time TIMESTAMPTZ;
+BEGIN
+  -- Get the quiz deadline
+  SELECT deadline INTO deadline_time
+  FROM public.quiz_sessions
+  WHERE id = quiz_session_uuid;
+
+  -- Only calculate rankings if deadline has passed
+  IF deadline_time IS NULL OR deadline_time > NOW() THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.close_expired_attempts(quiz_session_uuid);
+
+  -- Reset all rankings for this quiz
+  UPDATE public.quiz_attempts
+  SET ranking = NULL
+  WHERE quiz_session_id = quiz_session_uuid;
+
+  -- Calculate time_taken_seconds for attempts that don't have it
+  UPDATE public.quiz_attempts
+  SET time_taken_seconds = EXTRACT(EPOCH FROM (completed_at - started_at))::INTEGER
+  WHERE quiz_session_id = quiz_session_uuid
+    AND completed_at IS NOT NULL
+    AND time_taken_seconds IS NULL;
+
+  -- Update rankings: Top 3 based on the share of points scored (desc) then time_taken_seconds (asc - faster is better)
+  WITH ranked_attempts AS (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          score / NULLIF(max_points, 0) DESC NULLS LAST,
+          score DESC NULLS LAST,
+          time_taken_seconds ASC NULLS LAST,
+          completed_at ASC
+      ) as rank_position
+    FROM public.quiz_attempts
+    WHERE quiz_session_id = quiz_session_uuid
+      AND completed_at IS NOT NULL
+  )
+  UPDATE public.quiz_attempts qa
+  SET ranking = ra.rank_position
+  FROM ranked_attempts ra
+  WHERE qa.id = ra.id
+    AND ra.rank_position <= 3;
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION public.grade_multiple(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.scored_points(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.regrade_quiz(UUID, UUID, public.question_scoring, UUID[], BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_text_response(UUID, TEXT) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.regrade_quiz(UUID, UUID, public.question_scoring, UUID[], BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_text_response(UUID, TEXT) TO authenticated;
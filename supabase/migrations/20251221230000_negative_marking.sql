@@ -0,0 +1,56 @@
+-- Negative marking
+-- quiz_sessions.negative_marking is the fraction of a question's points taken
+-- off for a wrong answer, i.e. an answered question that earned no credit.
+-- Unanswered questions score zero and the total never goes below zero.
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN negative_marking NUMERIC NOT NULL DEFAULT 0 CHECK (negative_marking BETWEEN 0 AND 1);
+
+-- Wrong answers cost the quiz's share of their points
+CREATE OR REPLACE FUNCTION public.calculate_attempt_score(p_attempt_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  penalty NUMERIC;
+  total NUMERIC;
+BEGIN
+  SELECT qs.negative_marking INTO penalty
+  FROM public.quiz_attempts qa
+  JOIN public.quiz_sessions qs ON qs.id = qa.quiz_session_id
+  WHERE qa.id = p_attempt_id;
+
+  SELECT COALESCE(SUM(CASE WHEN credit > 0 THEN credit ELSE -COALESCE(penalty, 0) END * points), 0) INTO total
+  FROM (
+    SELECT CASE
+      WHEN q.question_type::TEXT IN ('short_answer', 'numeric')
+        THEN public.grade_text_response(sa.question_id, max(sa.response_text))::INTEGER
+      WHEN q.question_type::TEXT = 'matching'
+        THEN public.grade_matching(
+          sa.question_id,
+          array_agg(sa.answer_id ORDER BY sa.answer_id),
+          array_agg(sa.matched_answer_id ORDER BY sa.answer_id)
+        )
+      WHEN q.question_type::TEXT = 'hotspot'
+        THEN public.grade_hotspot(sa.question_id, max(sa.point_x), max(sa.point_y))::INTEGER
+      WHEN q.question_type::TEXT = 'cloze'
+        THEN public.grade_cloze(sa.question_id, array_agg(sa.response_text ORDER BY sa.position))
+      WHEN q.question_type::TEXT = 'ordering'
+        THEN public.grade_ordering(sa.question_id, array_agg(sa.answer_id ORDER BY sa.position))
+      WHEN q.question_type::TEXT = 'multiple'
+        THEN public.grade_multiple(sa.question_id, array_agg(sa.answer_id))
+      ELSE public.grade_question(sa.question_id, array_agg(sa.answer_id))::INTEGER
+    END AS credit,
+    q.points
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = p_attempt_id
+      AND q.scoring <> 'dropped'
+    GROUP BY sa.question_id, q.question_type, q.points
+  ) graded;
+
+  RETURN GREATEST(total, 0);
+END;
+$$;
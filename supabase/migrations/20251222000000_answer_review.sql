@@ -0,0 +1,337 @@
+-- Explanations and answer review
+-- Teachers can explain each question with text and an optional image. Once
+-- a student has finished, get_attempt_review walks them through their
+-- answers, the correct ones and the explanations. quiz_sessions.review_release
+-- decides when that opens: 'after_completion', 'after_deadline' (so the key
+-- can't be passed on while the quiz is still open) or 'never'.
+ALTER TABLE public.questions
+  ADD COLUMN explanation TEXT CHECK (char_length(explanation) <= 2000),
+  ADD COLUMN explanation_image_url TEXT;
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN review_release TEXT NOT NULL DEFAULT 'after_deadline'
+    CHECK (review_release IN ('never', 'after_completion', 'after_deadline'));
+
+-- Credit (0 to 1) earned on each question the attempt answered
+CREATE OR REPLACE FUNCTION public.attempt_question_credits(p_attempt_id UUID)
+RETURNS TABLE (question_id UUID, credit NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT sa.question_id, CASE
+    WHEN q.question_type::TEXT IN ('short_answer', 'numeric')
+      THEN public.grade_text_response(sa.question_id, max(sa.response_text))::INTEGER
+    WHEN q.question_type::TEXT = 'matching'
+      THEN public.grade_matching(
+        sa.question_id,
+        array_agg(sa.answer_id ORDER BY sa.answer_id),
+        array_agg(sa.matched_answer_id ORDER BY sa.answer_id)
+      )
+    WHEN q.question_type::TEXT = 'hotspot'
+      THEN public.grade_hotspot(sa.question_id, max(sa.point_x), max(sa.point_y))::INTEGER
+    WHEN q.question_type::TEXT = 'cloze'
+      THEN public.grade_cloze(sa.question_id, array_agg(sa.response_text ORDER BY sa.position))
+    WHEN q.question_type::TEXT = 'ordering'
+      THEN public.grade_ordering(sa.question_id, array_agg(sa.answer_id ORDER BY sa.position))
+    WHEN q.question_type::TEXT = 'multiple'
+      THEN public.grade_multiple(sa.question_id, array_agg(sa.answer_id))
+    ELSE public.grade_question(sa.question_id, array_agg(sa.answer_id))::INTEGER
+  END AS credit
+  FROM public.student_answers sa
+  JOIN public.questions q ON q.id = sa.question_id
+  WHERE sa.attempt_id = p_attempt_id
+  GROUP BY sa.question_id, q.question_type;
+$$;
+
+-- The score is built from the same per-question credit the review shows
+CREATE OR REPLACE FUNCTION public.calculate_attempt_score(p_attempt_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  penalty NUMERIC;
+  total NUMERIC;
+BEGIN
+  SELECT qs.negative_marking INTO penalty
+  FROM public.quiz_attempts qa
+  JOIN public.quiz_sessions qs ON qs.id = qa.quiz_session_id
+  WHERE qa.id = p_attempt_id;
+
+  SELECT COALESCE(SUM(CASE WHEN c.credit > 0 THEN c.credit ELSE -COALESCE(penalty, 0) END * q.points), 0) INTO total
+  FROM public.attempt_question_credits(p_attempt_id) c
+  JOIN public.questions q ON q.id = c.question_id
+  WHERE q.scoring <> 'dropped';
+
+  RETURN GREATEST(total, 0);
+END;
+$$;
+
+-- Saving keeps each question's explanation
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  p_quiz_session_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_group_ids UUID[],
+  p_questions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_keys JSONB;
+  new_keys JSONB;
+  kept_question_ids UUID[];
+  kept_answer_ids UUID[];
+  q_item JSONB;
+  q_position BIGINT;
+  q_id UUID;
+  a_item JSONB;
+  a_position BIGINT;
+  a_id UUID;
+  changed_ids UUID[] := '{}';
+  removed_count INTEGER := 0;
+  key_question_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF COALESCE(cardinality(p_group_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one group must be assigned to the quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_group_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = selected AND teacher_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  old_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  -- Quiz details (the legacy group_id follows the first group if it was unassigned)
+  UPDATE public.quiz_sessions
+  SET title = p_title,
+      description = p_description,
+      group_id = CASE WHEN group_id = ANY(p_group_ids) THEN group_id ELSE p_group_ids[1] END,
+      updated_at = NOW()
+  WHERE id = p_quiz_session_id;
+
+  -- Group assignments
+  DELETE FROM public.quiz_session_groups
+  WHERE quiz_session_id = p_quiz_session_id
+    AND group_id <> ALL(p_group_ids);
+
+  INSERT INTO public.quiz_session_groups (quiz_session_id, group_id)
+  SELECT p_quiz_session_id, selected
+  FROM unnest(p_group_ids) AS selected
+  ON CONFLICT (quiz_session_id, group_id) DO NOTHING;
+
+  -- Remove questions that are no longer in the quiz
+  kept_question_ids := ARRAY(
+    SELECT NULLIF(item->>'id', '')::UUID
+    FROM jsonb_array_elements(p_questions) AS item
+    WHERE NULLIF(item->>'id', '') IS NOT NULL
+  );
+
+  DELETE FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND id <> ALL(kept_question_ids);
+
+  FOR q_item, q_position IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    q_id := NULLIF(q_item->>'id', '')::UUID;
+
+    IF q_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = q_id AND quiz_session_id = p_quiz_session_id
+    ) THEN
+      UPDATE public.questions
+      SET question_text = q_item->>'question_text',
+          question_type = (q_item->>'question_type')::question_type,
+          image_url = q_item->>'image_url',
+          time_limit = (q_item->>'time_limit')::INTEGER,
+          settings = COALESCE(q_item->'settings', '{}'::jsonb),
+          code = NULLIF(q_item->>'code', ''),
+          code_language = NULLIF(q_item->>'code_language', ''),
+          points = COALESCE((q_item->>'points')::NUMERIC, 1),
+          explanation = NULLIF(q_item->>'explanation', ''),
+          explanation_image_url = NULLIF(q_item->>'explanation_image_url', ''),
+          order_index = q_position
+      WHERE id = q_id;
+    ELSE
+      INSERT INTO public.questions (quiz_session_id, question_text, question_type, image_url, time_limit, settings, code, code_language, points, explanation, explanation_image_url, order_index)
+      VALUES (
+        p_quiz_session_id,
+        q_item->>'question_text',
+        (q_item->>'question_type')::question_type,
+        q_item->>'image_url',
+        (q_item->>'time_limit')::INTEGER,
+        COALESCE(q_item->'settings', '{}'::jsonb),
+        NULLIF(q_item->>'code', ''),
+        NULLIF(q_item->>'code_language', ''),
+        COALESCE((q_item->>'points')::NUMERIC, 1),
+        NULLIF(q_item->>'explanation', ''),
+        NULLIF(q_item->>'explanation_image_url', ''),
+        q_position
+      )
+      RETURNING id INTO q_id;
+    END IF;
+
+    -- Remove answers that are no longer part of the question
+    kept_answer_ids := ARRAY(
+      SELECT NULLIF(item->>'id', '')::UUID
+      FROM jsonb_array_elements(q_item->'answers') AS item
+      WHERE NULLIF(item->>'id', '') IS NOT NULL
+    );
+
+    DELETE FROM public.answers
+    WHERE question_id = q_id
+      AND id <> ALL(kept_answer_ids);
+
+    FOR a_item, a_position IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(q_item->'answers') WITH ORDINALITY
+    LOOP
+      a_id := NULLIF(a_item->>'id', '')::UUID;
+
+      IF a_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = a_id AND question_id = q_id
+      ) THEN
+        UPDATE public.answers
+        SET answer_text = a_item->>'answer_text',
+            match_text = NULLIF(a_item->>'match_text', ''),
+            blank_index = (a_item->>'blank_index')::INTEGER,
+            region = NULLIF(a_item->'region', 'null'::jsonb),
+            is_correct = COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+            order_index = a_position
+        WHERE id = a_id;
+      ELSE
+        INSERT INTO public.answers (question_id, answer_text, match_text, blank_index, region, is_correct, order_index)
+        VALUES (
+          q_id,
+          a_item->>'answer_text',
+          NULLIF(a_item->>'match_text', ''),
+          (a_item->>'blank_index')::INTEGER,
+          NULLIF(a_item->'region', 'null'::jsonb),
+          COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+          a_position
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Compare answered questions before and after the save
+  new_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  FOR key_question_id IN SELECT jsonb_object_keys(old_keys) LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = key_question_id::UUID) THEN
+      removed_count := removed_count + 1;
+    ELSIF new_keys->key_question_id IS DISTINCT FROM old_keys->key_question_id THEN
+      changed_ids := changed_ids || key_question_id::UUID;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'changed_question_ids', to_jsonb(changed_ids),
+    'removed_answered_questions', removed_count
+  );
+END;
+$$;
+
+-- Every question with the student's responses, the answer key and the
+-- explanation. Nothing is returned before the quiz's review is released.
+CREATE OR REPLACE FUNCTION public.get_attempt_review(p_attempt_id UUID, p_student_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  quiz_row public.quiz_sessions;
+  review JSONB;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  SELECT * INTO quiz_row
+  FROM public.quiz_sessions
+  WHERE id = attempt_row.quiz_session_id;
+
+  IF attempt_row.completed_at IS NULL
+    OR quiz_row.review_release = 'never'
+    OR (quiz_row.review_release = 'after_deadline' AND quiz_row.deadline > NOW()) THEN
+    RAISE EXCEPTION 'Review is not available yet';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', q.id,
+    'question_text', q.question_text,
+    'question_type', q.question_type,
+    'image_url', q.image_url,
+    'code', q.code,
+    'code_language', q.code_language,
+    'code_answers', COALESCE((q.settings->>'code_answers')::BOOLEAN, false),
+    'answer_format', CASE WHEN q.question_type::TEXT = 'numeric' THEN jsonb_build_object(
+      'base', COALESCE((q.settings->>'base')::INTEGER, 10),
+      'unit', q.settings->>'unit'
+    ) END,
+    'points', q.points,
+    'dropped', q.scoring = 'dropped',
+    'credit', c.credit,
+    'explanation', q.explanation,
+    'explanation_image_url', q.explanation_image_url,
+    'answers', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'answer_text', a.answer_text,
+        'match_text', a.match_text,
+        'blank_index', a.blank_index,
+        'region', a.region,
+        'is_correct', a.is_correct
+      ) ORDER BY a.order_index, a.id), '[]'::jsonb)
+      FROM public.answers a
+      WHERE a.question_id = q.id
+    ),
+    'responses', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'answer_id', sa.answer_id,
+        'matched_answer_id', sa.matched_answer_id,
+        'response_text', sa.response_text,
+        'position', sa.position,
+        'point_x', sa.point_x,
+        'point_y', sa.point_y,
+        'is_correct', sa.is_correct
+      ) ORDER BY sa.position, sa.answered_at), '[]'::jsonb)
+      FROM public.student_answers sa
+      WHERE sa.attempt_id = p_attempt_id
+        AND sa.question_id = q.id
+    )
+  ) ORDER BY q.order_index), '[]'::jsonb) INTO review
+  FROM public.questions q
+  LEFT JOIN public.attempt_question_credits(p_attempt_id) c ON c.question_id = q.id
+  WHERE q.quiz_session_id = attempt_row.quiz_session_id;
+
+  RETURN review;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.attempt_question_credits(UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_attempt_review(UUID, TEXT) TO anon, authenticated;
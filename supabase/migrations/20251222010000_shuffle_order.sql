@@ -0,0 +1,236 @@
+-- Shuffled questions and answers
+-- Quizzes can show each student the questions and the choice answers in a
+-- different order. The order comes from quiz_attempts.shuffle_seed, fixed
+-- when the attempt starts, so reloading keeps it. Pinned answers (such as
+-- "All of the above") stay at the end in their own order.
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN shuffle_questions BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN shuffle_answers BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN shuffle_seed INTEGER NOT NULL DEFAULT floor(random() * 2147483647)::INTEGER;
+
+ALTER TABLE public.answers ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE VIEW public.student_answer_options AS
+SELECT
+  id,
+  question_id,
+  answer_text,
+  CASE
+    WHEN question_type::TEXT = 'cloze' THEN scrambled::INTEGER
+    WHEN question_type::TEXT <> 'ordering' THEN order_index
+    WHEN bool_and(scrambled = canonical) OVER (PARTITION BY question_id)
+      THEN ((scrambled + 1) % item_count)::INTEGER
+    ELSE scrambled::INTEGER
+  END AS order_index,
+  blank_index,
+  pinned
+FROM (
+  SELECT
+    a.id,
+    a.question_id,
+    a.answer_text,
+    a.order_index,
+    a.blank_index,
+    a.pinned,
+    q.question_type,
+    row_number() OVER (PARTITION BY a.question_id ORDER BY md5(a.id::TEXT)) - 1 AS scrambled,
+    row_number() OVER (PARTITION BY a.question_id ORDER BY a.order_index, a.id) - 1 AS canonical,
+    count(*) OVER (PARTITION BY a.question_id) AS item_count
+  FROM public.answers a
+  JOIN public.questions q ON q.id = a.question_id
+  WHERE q.question_type::TEXT NOT IN ('short_answer', 'numeric', 'hotspot')
+    AND (q.question_type::TEXT <> 'matching' OR a.is_correct)
+    AND (q.question_type::TEXT <> 'cloze' OR EXISTS (
+      SELECT 1 FROM public.answers wrong
+      WHERE wrong.question_id = a.question_id
+        AND wrong.blank_index = a.blank_index
+        AND NOT wrong.is_correct
+    ))
+) options;
+
+-- Saving keeps which answers are pinned
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  p_quiz_session_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_group_ids UUID[],
+  p_questions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_keys JSONB;
+  new_keys JSONB;
+  kept_question_ids UUID[];
+  kept_answer_ids UUID[];
+  q_item JSONB;
+  q_position BIGINT;
+  q_id UUID;
+  a_item JSONB;
+  a_position BIGINT;
+  a_id UUID;
+  changed_ids UUID[] := '{}';
+  removed_count INTEGER := 0;
+  key_question_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF COALESCE(cardinality(p_group_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one group must be assigned to the quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_group_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = selected AND teacher_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  old_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  -- Quiz details (the legacy group_id follows the first group if it was unassigned)
+  UPDATE public.quiz_sessions
+  SET title = p_title,
+      description = p_description,
+      group_id = CASE WHEN group_id = ANY(p_group_ids) THEN group_id ELSE p_group_ids[1] END,
+      updated_at = NOW()
+  WHERE id = p_quiz_session_id;
+
+  -- Group assignments
+  DELETE FROM public.quiz_session_groups
+  WHERE quiz_session_id = p_quiz_session_id
+    AND group_id <> ALL(p_group_ids);
+
+  INSERT INTO public.quiz_session_groups (quiz_session_id, group_id)
+  SELECT p_quiz_session_id, selected
+  FROM unnest(p_group_ids) AS selected
+  ON CONFLICT (quiz_session_id, group_id) DO NOTHING;
+
+  -- Remove questions that are no longer in the quiz
+  kept_question_ids := ARRAY(
+    SELECT NULLIF(item->>'id', '')::UUID
+    FROM jsonb_array_elements(p_questions) AS item
+    WHERE NULLIF(item->>'id', '') IS NOT NULL
+  );
+
+  DELETE FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND id <> ALL(kept_question_ids);
+
+  FOR q_item, q_position IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    q_id := NULLIF(q_item->>'id', '')::UUID;
+
+    IF q_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = q_id AND quiz_session_id = p_quiz_session_id
+    ) THEN
+      UPDATE public.questions
+      SET question_text = q_item->>'question_text',
+          question_type = (q_item->>'question_type')::question_type,
+          image_url = q_item->>'image_url',
+          time_limit = (q_item->>'time_limit')::INTEGER,
+          settings = COALESCE(q_item->'settings', '{}'::jsonb),
+          code = NULLIF(q_item->>'code', ''),
+          code_language = NULLIF(q_item->>'code_language', ''),
+          points = COALESCE((q_item->>'points')::NUMERIC, 1),
+          explanation = NULLIF(q_item->>'explanation', ''),
+          explanation_image_url = NULLIF(q_item->>'explanation_image_url', ''),
+          order_index = q_position
+      WHERE id = q_id;
+    ELSE
+      INSERT INTO public.questions (quiz_session_id, question_text, question_type, image_url, time_limit, settings, code, code_language, points, explanation, explanation_image_url, order_index)
+      VALUES (
+        p_quiz_session_id,
+        q_item->>'question_text',
+        (q_item->>'question_type')::question_type,
+        q_item->>'image_url',
+        (q_item->>'time_limit')::INTEGER,
+        COALESCE(q_item->'settings', '{}'::jsonb),
+        NULLIF(q_item->>'code', ''),
+        NULLIF(q_item->>'code_language', ''),
+        COALESCE((q_item->>'points')::NUMERIC, 1),
+        NULLIF(q_item->>'explanation', ''),
+        NULLIF(q_item->>'explanation_image_url', ''),
+        q_position
+      )
+      RETURNING id INTO q_id;
+    END IF;
+
+    -- Remove answers that are no longer part of the question
+    kept_answer_ids := ARRAY(
+      SELECT NULLIF(item->>'id', '')::UUID
+      FROM jsonb_array_elements(q_item->'answers') AS item
+      WHERE NULLIF(item->>'id', '') IS NOT NULL
+    );
+
+    DELETE FROM public.answers
+    WHERE question_id = q_id
+      AND id <> ALL(kept_answer_ids);
+
+    FOR a_item, a_position IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(q_item->'answers') WITH ORDINALITY
+    LOOP
+      a_id := NULLIF(a_item->>'id', '')::UUID;
+
+      IF a_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = a_id AND question_id = q_id
+      ) THEN
+        UPDATE public.answers
+        SET answer_text = a_item->>'answer_text',
+            match_text = NULLIF(a_item->>'match_text', ''),
+            blank_index = (a_item->>'blank_index')::INTEGER,
+            region = NULLIF(a_item->'region', 'null'::jsonb),
+            is_correct = COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+            pinned = COALESCE((a_item->>'pinned')::BOOLEAN, false),
+            order_index = a_position
+        WHERE id = a_id;
+      ELSE
+        INSERT INTO public.answers (question_id, answer_text, match_text, blank_index, region, is_correct, pinned, order_index)
+        VALUES (
+          q_id,
+          a_item->>'answer_text',
+          NULLIF(a_item->>'match_text', ''),
+          (a_item->>'blank_index')::INTEGER,
+          NULLIF(a_item->'region', 'null'::jsonb),
+          COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+          COALESCE((a_item->>'pinned')::BOOLEAN, false),
+          a_position
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Compare answered questions before and after the save
+  new_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  FOR key_question_id IN SELECT jsonb_object_keys(old_keys) LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = key_question_id::UUID) THEN
+      removed_count := removed_count + 1;
+    ELSIF new_keys->key_question_id IS DISTINCT FROM old_keys->key_question_id THEN
+      changed_ids := changed_ids || key_question_id::UUID;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'changed_question_ids', to_jsonb(changed_ids),
+    'removed_answered_questions', removed_count
+  );
+END;
+$$;
@@ -0,0 +1,906 @@
+-- Question pools
+-- A quiz can give each student a random draw from its questions instead of
+-- all of them: quiz_sessions.draw_count questions from the whole quiz, or,
+-- when section_draws is set, that many from each section (e.g.
+-- {"Networking": 5, "Databases": 5}; "" stands for questions without one).
+-- The drawn questions are stored on the attempt in quiz_attempts.question_ids,
+-- which stays NULL when the quiz has no pool so every question counts.
+ALTER TABLE public.questions
+  ADD COLUMN section TEXT CHECK (char_length(section) <= 100);
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN draw_count INTEGER CHECK (draw_count > 0),
+  ADD COLUMN section_draws JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.quiz_attempts ADD COLUMN question_ids UUID[];
+
+-- Questions for a new attempt, or NULL when the quiz gives every question.
+-- Dropped questions are never drawn.
+CREATE OR REPLACE FUNCTION public.draw_attempt_questions(p_quiz_session_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz_row public.quiz_sessions;
+  drawn UUID[];
+BEGIN
+  SELECT * INTO quiz_row
+  FROM public.quiz_sessions
+  WHERE id = p_quiz_session_id;
+
+  IF quiz_row.section_draws <> '{}'::jsonb THEN
+    SELECT array_agg(ranked.id ORDER BY ranked.order_index) INTO drawn
+    FROM (
+      SELECT
+        q.id,
+        q.order_index,
+        row_number() OVER (PARTITION BY COALESCE(q.section, '') ORDER BY random()) AS pick,
+        draws.value::INTEGER AS wanted
+      FROM public.questions q
+      JOIN jsonb_each_text(quiz_row.section_draws) AS draws ON draws.key = COALESCE(q.section, '')
+      WHERE q.quiz_session_id = p_quiz_session_id
+        AND q.scoring <> 'dropped'
+    ) ranked
+    WHERE ranked.pick <= ranked.wanted;
+
+    RETURN COALESCE(drawn, '{}');
+  END IF;
+
+  IF quiz_row.draw_count IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT array_agg(picked.id ORDER BY picked.order_index) INTO drawn
+  FROM (
+    SELECT id, order_index
+    FROM public.questions
+    WHERE quiz_session_id = p_quiz_session_id
+      AND scoring <> 'dropped'
+    ORDER BY random()
+    LIMIT quiz_row.draw_count
+  ) picked;
+
+  RETURN COALESCE(drawn, '{}');
+END;
+$$;
+
+-- Per-attempt versions of scored_question_count and scored_points
+CREATE OR REPLACE FUNCTION public.attempt_scored_question_count(p_attempt_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(q.id)::INTEGER
+  FROM public.quiz_attempts qa
+  JOIN public.questions q ON q.quiz_session_id = qa.quiz_session_id
+  WHERE qa.id = p_attempt_id
+    AND q.scoring <> 'dropped'
+    AND (qa.question_ids IS NULL OR q.id = ANY(qa.question_ids));
+$$;
+
+CREATE OR REPLACE FUNCTION public.attempt_scored_points(p_attempt_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(q.points), 0)
+  FROM public.quiz_attempts qa
+  JOIN public.questions q ON q.quiz_session_id = qa.quiz_session_id
+  WHERE qa.id = p_attempt_id
+    AND q.scoring <> 'dropped'
+    AND (qa.question_ids IS NULL OR q.id = ANY(qa.question_ids));
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_session_id UUID, p_student_code TEXT)
+RETURNS public.quiz_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz_row public.quiz_sessions;
+  student_row public.students;
+  attempt_row public.quiz_attempts;
+  drawn UUID[];
+BEGIN
+  SELECT * INTO quiz_row
+  FROM public.quiz_sessions
+  WHERE id = p_quiz_session_id;
+
+  IF NOT FOUND OR quiz_row.deadline < NOW() THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  SELECT * INTO student_row
+  FROM public.students
+  WHERE student_code = p_student_code;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid student code';
+  END IF;
+
+  -- Check quiz_session_groups and the legacy group_id column
+  IF student_row.group_id <> quiz_row.group_id AND NOT EXISTS (
+    SELECT 1 FROM public.quiz_session_groups
+    WHERE quiz_session_id = quiz_row.id
+      AND group_id = student_row.group_id
+  ) THEN
+    RAISE EXCEPTION 'This quiz is not available for your group';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_attempts
+    WHERE quiz_session_id = quiz_row.id
+      AND student_id = student_row.id
+  ) THEN
+    drawn := public.draw_attempt_questions(quiz_row.id);
+
+    -- Totals count only the questions this student was given
+    INSERT INTO public.quiz_attempts (quiz_session_id, student_id, question_ids, total_questions, max_points)
+    SELECT quiz_row.id, student_row.id, drawn, COUNT(*), COALESCE(SUM(points), 0)
+    FROM public.questions
+    WHERE quiz_session_id = quiz_row.id
+      AND scoring <> 'dropped'
+      AND (drawn IS NULL OR id = ANY(drawn))
+    ON CONFLICT (quiz_session_id, student_id) DO NOTHING;
+  END IF;
+
+  PERFORM public.close_expired_attempts(quiz_row.id);
+
+  SELECT * INTO attempt_row
+  FROM public.quiz_attempts
+  WHERE quiz_session_id = quiz_row.id
+    AND student_id = student_row.id;
+
+  RETURN attempt_row;
+END;
+$$;
+
+-- Only questions drawn for the attempt can be opened or answered
+CREATE OR REPLACE FUNCTION public.open_question(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID
+)
+RETURNS TABLE (opened_at TIMESTAMPTZ, expires_at TIMESTAMPTZ, server_time TIMESTAMPTZ, timed_out BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE id = p_question_id
+      AND quiz_session_id = attempt_row.quiz_session_id
+      AND (attempt_row.question_ids IS NULL OR id = ANY(attempt_row.question_ids))
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  INSERT INTO public.attempt_questions (attempt_id, question_id)
+  VALUES (p_attempt_id, p_question_id)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT aq.opened_at, public.question_expires_at(p_attempt_id, p_question_id), NOW(), aq.timed_out
+  FROM public.attempt_questions aq
+  WHERE aq.attempt_id = p_attempt_id
+    AND aq.question_id = p_question_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_quiz_answer(
+  p_attempt_id UUID,
+  p_student_code TEXT,
+  p_question_id UUID,
+  p_answer_ids UUID[] DEFAULT NULL,
+  p_response_text TEXT DEFAULT NULL,
+  p_match_ids UUID[] DEFAULT NULL,
+  p_blank_responses TEXT[] DEFAULT NULL,
+  p_point_x NUMERIC DEFAULT NULL,
+  p_point_y NUMERIC DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  q_type question_type;
+  q_settings JSONB;
+  new_score NUMERIC;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  IF attempt_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Quiz already completed';
+  END IF;
+
+  -- A few seconds of grace cover the request latency of an answer sent at 0:00
+  IF NOW() > public.attempt_expires_at(p_attempt_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up' USING HINT = 'attempt_expired';
+  END IF;
+
+  SELECT question_type, settings INTO q_type, q_settings
+  FROM public.questions
+  WHERE id = p_question_id
+    AND quiz_session_id = attempt_row.quiz_session_id
+    AND (attempt_row.question_ids IS NULL OR id = ANY(attempt_row.question_ids));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  -- Start the question's clock if it was never opened
+  INSERT INTO public.attempt_questions (attempt_id, question_id)
+  VALUES (p_attempt_id, p_question_id)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING;
+
+  IF NOW() > public.question_expires_at(p_attempt_id, p_question_id) + INTERVAL '5 seconds' THEN
+    RAISE EXCEPTION 'Time is up for this question' USING HINT = 'question_expired';
+  END IF;
+
+  IF q_type::TEXT IN ('short_answer', 'numeric') THEN
+    IF btrim(COALESCE(p_response_text, '')) = '' THEN
+      RAISE EXCEPTION 'Type an answer';
+    END IF;
+
+    IF char_length(p_response_text) > 500 THEN
+      RAISE EXCEPTION 'Answer is too long';
+    END IF;
+
+    IF q_type::TEXT = 'numeric' AND public.parse_number_in_base(
+      p_response_text,
+      COALESCE((q_settings->>'base')::INTEGER, 10)
+    ) IS NULL THEN
+      RAISE EXCEPTION 'Enter a valid number';
+    END IF;
+  ELSIF q_type::TEXT = 'hotspot' THEN
+    IF p_point_x IS NULL OR p_point_y IS NULL
+      OR p_point_x NOT BETWEEN 0 AND 1
+      OR p_point_y NOT BETWEEN 0 AND 1 THEN
+      RAISE EXCEPTION 'Tap a point on the image';
+    END IF;
+  ELSIF q_type::TEXT = 'cloze' THEN
+    -- One response per blank, in order; blanks may be left empty
+    IF cardinality(p_blank_responses) IS DISTINCT FROM public.cloze_blank_count(p_question_id) THEN
+      RAISE EXCEPTION 'Fill in the blanks';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM unnest(p_blank_responses) AS response
+      WHERE btrim(COALESCE(response, '')) <> ''
+    ) THEN
+      RAISE EXCEPTION 'Fill in the blanks';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(p_blank_responses) AS response
+      WHERE char_length(response) > 500
+    ) THEN
+      RAISE EXCEPTION 'Answer is too long';
+    END IF;
+  ELSE
+    IF COALESCE(cardinality(p_answer_ids), 0) = 0 THEN
+      RAISE EXCEPTION 'Select an answer';
+    END IF;
+
+    IF q_type::TEXT IN ('single', 'true_false') AND cardinality(p_answer_ids) > 1 THEN
+      RAISE EXCEPTION 'Only one answer can be selected for this question';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(p_answer_ids) AS selected
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = selected AND question_id = p_question_id
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid answer for this question';
+    END IF;
+
+    IF q_type::TEXT = 'ordering' AND (
+      cardinality(p_answer_ids) <> (SELECT COUNT(*) FROM public.answers WHERE question_id = p_question_id)
+      OR cardinality(p_answer_ids) <> (SELECT COUNT(DISTINCT item) FROM unnest(p_answer_ids) AS item)
+    ) THEN
+      RAISE EXCEPTION 'Put every item in order';
+    END IF;
+
+    -- p_answer_ids[i] on the left is matched with p_match_ids[i] on the right
+    IF q_type::TEXT = 'matching' AND (
+      cardinality(p_match_ids) IS DISTINCT FROM cardinality(p_answer_ids)
+      OR cardinality(p_answer_ids) <> (SELECT COUNT(DISTINCT item) FROM unnest(p_answer_ids) AS item)
+      OR cardinality(p_match_ids) <> (
+        SELECT COUNT(*) FROM public.answers
+        WHERE question_id = p_question_id
+          AND match_id = ANY(p_match_ids)
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = ANY(p_answer_ids)
+          AND NOT is_correct
+      )
+    ) THEN
+      RAISE EXCEPTION 'Invalid pairs for this question';
+    END IF;
+  END IF;
+
+  -- Answers are final once submitted
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE attempt_id = p_attempt_id
+      AND question_id = p_question_id
+  ) THEN
+    IF q_type::TEXT IN ('short_answer', 'numeric') THEN
+      INSERT INTO public.student_answers (attempt_id, question_id, response_text, is_correct)
+      VALUES (
+        p_attempt_id,
+        p_question_id,
+        btrim(p_response_text),
+        public.grade_text_response(p_question_id, p_response_text)
+      );
+    ELSIF q_type::TEXT = 'hotspot' THEN
+      INSERT INTO public.student_answers (attempt_id, question_id, point_x, point_y, is_correct)
+      VALUES (
+        p_attempt_id,
+        p_question_id,
+        p_point_x,
+        p_point_y,
+        public.grade_hotspot(p_question_id, p_point_x, p_point_y)
+      );
+    ELSIF q_type::TEXT = 'cloze' THEN
+      INSERT INTO public.student_answers (attempt_id, question_id, response_text, position, is_correct)
+      SELECT
+        p_attempt_id,
+        p_question_id,
+        btrim(COALESCE(blank.response, '')),
+        blank.position,
+        public.grade_cloze_blank(p_question_id, blank.position::INTEGER - 1, blank.response)
+      FROM unnest(p_blank_responses) WITH ORDINALITY AS blank(response, position);
+    ELSIF q_type::TEXT = 'matching' THEN
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, matched_answer_id, is_correct)
+      SELECT
+        p_attempt_id,
+        p_question_id,
+        paired.answer_id,
+        matched.id,
+        public.is_correct_match(paired.answer_id, matched.id)
+      FROM unnest(p_answer_ids, p_match_ids) AS paired(answer_id, match_id)
+      JOIN public.answers matched
+        ON matched.match_id = paired.match_id
+       AND matched.question_id = p_question_id;
+    ELSIF q_type::TEXT = 'ordering' THEN
+      -- Each item remembers where the student placed it
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, position, is_correct)
+      SELECT
+        p_attempt_id,
+        p_question_id,
+        placed.answer_id,
+        placed.position,
+        placed.position = array_position(public.canonical_order(p_question_id), placed.answer_id)
+      FROM unnest(p_answer_ids) WITH ORDINALITY AS placed(answer_id, position);
+    ELSE
+      INSERT INTO public.student_answers (attempt_id, question_id, answer_id, is_correct)
+      SELECT p_attempt_id, p_question_id, a.id, a.is_correct
+      FROM public.answers a
+      WHERE a.question_id = p_question_id
+        AND a.id = ANY(p_answer_ids);
+    END IF;
+  END IF;
+
+  new_score := public.calculate_attempt_score(p_attempt_id);
+
+  UPDATE public.quiz_attempts
+  SET score = new_score
+  WHERE id = p_attempt_id;
+
+  RETURN new_score;
+END;
+$$;
+
+-- Totals are recalculated from each attempt's own questions
+CREATE OR REPLACE FUNCTION public.regrade_quiz(
+  p_quiz_session_id UUID,
+  p_question_id UUID DEFAULT NULL,
+  p_scoring public.question_scoring DEFAULT NULL,
+  p_accept_answer_ids UUID[] DEFAULT NULL,
+  p_preview BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  attempt_id UUID,
+  old_score NUMERIC,
+  new_score NUMERIC,
+  old_total INTEGER,
+  new_total INTEGER,
+  old_max_points NUMERIC,
+  new_max_points NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  changes JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF (p_scoring IS NOT NULL OR p_accept_answer_ids IS NOT NULL) AND p_question_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a question to change how it is scored';
+  END IF;
+
+  IF p_question_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE id = p_question_id
+      AND quiz_session_id = p_quiz_session_id
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_accept_answer_ids) AS accepted
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.answers
+      WHERE id = accepted AND question_id = p_question_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Invalid answer for this question';
+  END IF;
+
+  BEGIN
+    IF p_scoring IS NOT NULL THEN
+      UPDATE public.questions
+      SET scoring = p_scoring
+      WHERE id = p_question_id;
+    END IF;
+
+    IF p_accept_answer_ids IS NOT NULL THEN
+      UPDATE public.answers
+      SET is_correct = true
+      WHERE id = ANY(p_accept_answer_ids);
+    END IF;
+
+    UPDATE public.student_answers sa
+    SET is_correct = a.is_correct
+    FROM public.answers a, public.quiz_attempts qa
+    WHERE sa.answer_id = a.id
+      AND sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NULL
+      AND sa.matched_answer_id IS NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM a.is_correct;
+
+    UPDATE public.student_answers sa
+    SET is_correct = COALESCE(array_position(public.canonical_order(sa.question_id), sa.answer_id) = sa.position, false)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NOT NULL
+      AND sa.answer_id IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_cloze_blank(sa.question_id, sa.position - 1, sa.response_text)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.position IS NOT NULL
+      AND sa.answer_id IS NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_hotspot(sa.question_id, sa.point_x, sa.point_y)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.point_x IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.is_correct_match(sa.answer_id, sa.matched_answer_id)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.matched_answer_id IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id);
+
+    UPDATE public.student_answers sa
+    SET is_correct = public.grade_text_response(sa.question_id, sa.response_text)
+    FROM public.quiz_attempts qa
+    WHERE sa.attempt_id = qa.id
+      AND qa.quiz_session_id = p_quiz_session_id
+      AND sa.answer_id IS NULL
+      AND sa.position IS NULL
+      AND sa.response_text IS NOT NULL
+      AND (p_question_id IS NULL OR sa.question_id = p_question_id)
+      AND sa.is_correct IS DISTINCT FROM public.grade_text_response(sa.question_id, sa.response_text);
+
+    WITH rescored AS (
+      SELECT
+        qa.id,
+        qa.score AS old_score,
+        public.calculate_attempt_score(qa.id) AS new_score,
+        qa.total_questions AS old_total,
+        public.attempt_scored_question_count(qa.id) AS new_total,
+        qa.max_points AS old_max_points,
+        public.attempt_scored_points(qa.id) AS new_max_points
+      FROM public.quiz_attempts qa
+      WHERE qa.quiz_session_id = p_quiz_session_id
+    ), updated AS (
+      UPDATE public.quiz_attempts qa
+      SET score = r.new_score,
+          total_questions = r.new_total,
+          max_points = r.new_max_points
+      FROM rescored r
+      WHERE qa.id = r.id
+        AND (
+          qa.score IS DISTINCT FROM r.new_score
+          OR qa.total_questions IS DISTINCT FROM r.new_total
+          OR qa.max_points IS DISTINCT FROM r.new_max_points
+        )
+      RETURNING r.id, r.old_score, r.new_score, r.old_total, r.new_total, r.old_max_points, r.new_max_points
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'attempt_id', updated.id,
+      'old_score', updated.old_score,
+      'new_score', updated.new_score,
+      'old_total', updated.old_total,
+      'new_total', updated.new_total,
+      'old_max_points', updated.old_max_points,
+      'new_max_points', updated.new_max_points
+    )), '[]'::jsonb) INTO changes
+    FROM updated;
+
+    IF p_preview THEN
+      RAISE EXCEPTION 'Regrade preview' USING ERRCODE = 'QZ001';
+    END IF;
+
+    PERFORM public.calculate_quiz_rankings(p_quiz_session_id);
+  EXCEPTION
+    WHEN SQLSTATE 'QZ001' THEN
+      -- Preview only: the changes above are rolled back, the diff is kept
+      NULL;
+  END;
+
+  RETURN QUERY
+  SELECT c.attempt_id, c.old_score, c.new_score, c.old_total, c.new_total, c.old_max_points, c.new_max_points
+  FROM jsonb_to_recordset(changes) AS c(
+    attempt_id UUID,
+    old_score NUMERIC,
+    new_score NUMERIC,
+    old_total INTEGER,
+    new_total INTEGER,
+    old_max_points NUMERIC,
+    new_max_points NUMERIC
+  );
+END;
+$$;
+
+-- Saving keeps each question's section
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  p_quiz_session_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_group_ids UUID[],
+  p_questions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_keys JSONB;
+  new_keys JSONB;
+  kept_question_ids UUID[];
+  kept_answer_ids UUID[];
+  q_item JSONB;
+  q_position BIGINT;
+  q_id UUID;
+  a_item JSONB;
+  a_position BIGINT;
+  a_id UUID;
+  changed_ids UUID[] := '{}';
+  removed_count INTEGER := 0;
+  key_question_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF COALESCE(cardinality(p_group_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one group must be assigned to the quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_group_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = selected AND teacher_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  old_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  -- Quiz details (the legacy group_id follows the first group if it was unassigned)
+  UPDATE public.quiz_sessions
+  SET title = p_title,
+      description = p_description,
+      group_id = CASE WHEN group_id = ANY(p_group_ids) THEN group_id ELSE p_group_ids[1] END,
+      updated_at = NOW()
+  WHERE id = p_quiz_session_id;
+
+  -- Group assignments
+  DELETE FROM public.quiz_session_groups
+  WHERE quiz_session_id = p_quiz_session_id
+    AND group_id <> ALL(p_group_ids);
+
+  INSERT INTO public.quiz_session_groups (quiz_session_id, group_id)
+  SELECT p_quiz_session_id, selected
+  FROM unnest(p_group_ids) AS selected
+  ON CONFLICT (quiz_session_id, group_id) DO NOTHING;
+
+  -- Remove questions that are no longer in the quiz
+  kept_question_ids := ARRAY(
+    SELECT NULLIF(item->>'id', '')::UUID
+    FROM jsonb_array_elements(p_questions) AS item
+    WHERE NULLIF(item->>'id', '') IS NOT NULL
+  );
+
+  DELETE FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND id <> ALL(kept_question_ids);
+
+  FOR q_item, q_position IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    q_id := NULLIF(q_item->>'id', '')::UUID;
+
+    IF q_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = q_id AND quiz_session_id = p_quiz_session_id
+    ) THEN
+      UPDATE public.questions
+      SET question_text = q_item->>'question_text',
+          question_type = (q_item->>'question_type')::question_type,
+          image_url = q_item->>'image_url',
+          time_limit = (q_item->>'time_limit')::INTEGER,
+          settings = COALESCE(q_item->'settings', '{}'::jsonb),
+          code = NULLIF(q_item->>'code', ''),
+          code_language = NULLIF(q_item->>'code_language', ''),
+          points = COALESCE((q_item->>'points')::NUMERIC, 1),
+          explanation = NULLIF(q_item->>'explanation', ''),
+          explanation_image_url = NULLIF(q_item->>'explanation_image_url', ''),
+          section = NULLIF(btrim(q_item->>'section'), ''),
+          order_index = q_position
+      WHERE id = q_id;
+    ELSE
+      INSERT INTO public.questions (quiz_session_id, question_text, question_type, image_url, time_limit, settings, code, code_language, points, explanation, explanation_image_url, section, order_index)
+      VALUES (
+        p_quiz_session_id,
+        q_item->>'question_text',
+        (q_item->>'question_type')::question_type,
+        q_item->>'image_url',
+        (q_item->>'time_limit')::INTEGER,
+        COALESCE(q_item->'settings', '{}'::jsonb),
+        NULLIF(q_item->>'code', ''),
+        NULLIF(q_item->>'code_language', ''),
+        COALESCE((q_item->>'points')::NUMERIC, 1),
+        NULLIF(q_item->>'explanation', ''),
+        NULLIF(q_item->>'explanation_image_url', ''),
+        NULLIF(btrim(q_item->>'section'), ''),
+        q_position
+      )
+      RETURNING id INTO q_id;
+    END IF;
+
+    -- Remove answers that are no longer part of the question
+    kept_answer_ids := ARRAY(
+      SELECT NULLIF(item->>'id', '')::UUID
+      FROM jsonb_array_elements(q_item->'answers') AS item
+      WHERE NULLIF(item->>'id', '') IS NOT NULL
+    );
+
+    DELETE FROM public.answers
+    WHERE question_id = q_id
+      AND id <> ALL(kept_answer_ids);
+
+    FOR a_item, a_position IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(q_item->'answers') WITH ORDINALITY
+    LOOP
+      a_id := NULLIF(a_item->>'id', '')::UUID;
+
+      IF a_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = a_id AND question_id = q_id
+      ) THEN
+        UPDATE public.answers
+        SET answer_text = a_item->>'answer_text',
+            match_text = NULLIF(a_item->>'match_text', ''),
+            blank_index = (a_item->>'blank_index')::INTEGER,
+            region = NULLIF(a_item->'region', 'null'::jsonb),
+            is_correct = COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+            pinned = COALESCE((a_item->>'pinned')::BOOLEAN, false),
+            order_index = a_position
+        WHERE id = a_id;
+      ELSE
+        INSERT INTO public.answers (question_id, answer_text, match_text, blank_index, region, is_correct, pinned, order_index)
+        VALUES (
+          q_id,
+          a_item->>'answer_text',
+          NULLIF(a_item->>'match_text', ''),
+          (a_item->>'blank_index')::INTEGER,
+          NULLIF(a_item->'region', 'null'::jsonb),
+          COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+          COALESCE((a_item->>'pinned')::BOOLEAN, false),
+          a_position
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Compare answered questions before and after the save
+  new_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  FOR key_question_id IN SELECT jsonb_object_keys(old_keys) LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = key_question_id::UUID) THEN
+      removed_count := removed_count + 1;
+    ELSIF new_keys->key_question_id IS DISTINCT FROM old_keys->key_question_id THEN
+      changed_ids := changed_ids || key_question_id::UUID;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'changed_question_ids', to_jsonb(changed_ids),
+    'removed_answered_questions', removed_count
+  );
+END;
+$$;
+
+-- The review only covers the questions the student was given
+CREATE OR REPLACE FUNCTION public.get_attempt_review(p_attempt_id UUID, p_student_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  quiz_row public.quiz_sessions;
+  review JSONB;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  SELECT * INTO quiz_row
+  FROM public.quiz_sessions
+  WHERE id = attempt_row.quiz_session_id;
+
+  IF attempt_row.completed_at IS NULL
+    OR quiz_row.review_release = 'never'
+    OR (quiz_row.review_release = 'after_deadline' AND quiz_row.deadline > NOW()) THEN
+    RAISE EXCEPTION 'Review is not available yet';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', q.id,
+    'question_text', q.question_text,
+    'question_type', q.question_type,
+    'image_url', q.image_url,
+    'code', q.code,
+    'code_language', q.code_language,
+    'code_answers', COALESCE((q.settings->>'code_answers')::BOOLEAN, false),
+    'answer_format', CASE WHEN q.question_type::TEXT = 'numeric' THEN jsonb_build_object(
+      'base', COALESCE((q.settings->>'base')::INTEGER, 10),
+      'unit', q.settings->>'unit'
+    ) END,
+    'points', q.points,
+    'dropped', q.scoring = 'dropped',
+    'credit', c.credit,
+    'explanation', q.explanation,
+    'explanation_image_url', q.explanation_image_url,
+    'answers', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'answer_text', a.answer_text,
+        'match_text', a.match_text,
+        'blank_index', a.blank_index,
+        'region', a.region,
+        'is_correct', a.is_correct
+      ) ORDER BY a.order_index, a.id), '[]'::jsonb)
+      FROM public.answers a
+      WHERE a.question_id = q.id
+    ),
+    'responses', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'answer_id', sa.answer_id,
+        'matched_answer_id', sa.matched_answer_id,
+        'response_text', sa.response_text,
+        'position', sa.position,
+        'point_x', sa.point_x,
+        'point_y', sa.point_y,
+        'is_correct', sa.is_correct
+      ) ORDER BY sa.position, sa.answered_at), '[]'::jsonb)
+      FROM public.student_answers sa
+      WHERE sa.attempt_id = p_attempt_id
+        AND sa.question_id = q.id
+    )
+  ) ORDER BY q.order_index), '[]'::jsonb) INTO review
+  FROM public.questions q
+  LEFT JOIN public.attempt_question_credits(p_attempt_id) c ON c.question_id = q.id
+  WHERE q.quiz_session_id = attempt_row.quiz_session_id
+    AND (attempt_row.question_ids IS NULL OR q.id = ANY(attempt_row.question_ids));
+
+  RETURN review;
+END;
+$$;
+
+-- How each question did, counting only the students who were given it
+CREATE OR REPLACE FUNCTION public.quiz_question_stats(p_quiz_session_id UUID)
+RETURNS TABLE (question_id UUID, drawn INTEGER, answered INTEGER, total_credit NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    COUNT(qa.id)::INTEGER,
+    COUNT(c.credit)::INTEGER,
+    COALESCE(SUM(c.credit), 0)
+  FROM public.questions q
+  LEFT JOIN public.quiz_attempts qa
+    ON qa.quiz_session_id = q.quiz_session_id
+    AND (qa.question_ids IS NULL OR q.id = ANY(qa.question_ids))
+  LEFT JOIN LATERAL public.attempt_question_credits(qa.id) c ON c.question_id = q.id
+  WHERE q.quiz_session_id = p_quiz_session_id
+  GROUP BY q.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.draw_attempt_questions(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.attempt_scored_question_count(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.attempt_scored_points(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.quiz_question_stats(UUID) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.quiz_question_stats(UUID) TO authenticated;
@@ -0,0 +1,364 @@
+-- Question bank
+-- Teachers keep reusable questions in bank_questions, tagged by topic, grade,
+-- difficulty and free-form tags, and copy them into any of their quizzes.
+-- A copy remembers the bank question it came from in
+-- questions.bank_question_id, so the bank can show where each question is
+-- used and the quiz editor can send edits back to the bank. Copies point at
+-- the same files in the question-images bucket as the bank question; an
+-- image is only deleted once question_image_in_use says nothing shows it.
+CREATE TABLE IF NOT EXISTS public.bank_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_text TEXT NOT NULL,
+  question_type question_type NOT NULL DEFAULT 'single',
+  image_url TEXT,
+  time_limit INTEGER,
+  points NUMERIC NOT NULL DEFAULT 1 CHECK (points > 0 AND points <= 100),
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  code TEXT CHECK (char_length(code) <= 5000),
+  code_language TEXT CHECK (code_language IN ('python', 'pseudocode', 'pascal', 'javascript', 'plain')),
+  explanation TEXT CHECK (char_length(explanation) <= 2000),
+  explanation_image_url TEXT,
+  topic TEXT CHECK (char_length(topic) <= 100),
+  grade TEXT CHECK (char_length(grade) <= 50),
+  difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.bank_answers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bank_question_id UUID NOT NULL REFERENCES public.bank_questions(id) ON DELETE CASCADE,
+  answer_text TEXT NOT NULL,
+  match_text TEXT,
+  blank_index INTEGER,
+  region JSONB,
+  is_correct BOOLEAN NOT NULL DEFAULT false,
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  order_index INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_questions_teacher_id ON public.bank_questions(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_bank_answers_bank_question_id ON public.bank_answers(bank_question_id);
+
+-- Enable RLS on the bank tables
+ALTER TABLE public.bank_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_answers ENABLE ROW LEVEL SECURITY;
+
+-- The bank is private to each teacher; students never see it
+CREATE POLICY "Teachers can manage their bank questions"
+  ON public.bank_questions FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id);
+
+CREATE POLICY "Teachers can manage answers for their bank questions"
+  ON public.bank_answers FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.bank_questions bq
+    WHERE bank_answers.bank_question_id = bq.id
+    AND bq.teacher_id = auth.uid()
+  ));
+
+ALTER TABLE public.questions
+  ADD COLUMN bank_question_id UUID REFERENCES public.bank_questions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_questions_bank_question_id ON public.questions(bank_question_id);
+
+-- Adds a question to the bank, or replaces the content of one already in it
+-- when p_question has an id. Topic, grade, difficulty and tags are only
+-- changed when p_question has them, so a quiz can update a bank question
+-- without touching how it is filed.
+CREATE OR REPLACE FUNCTION public.save_bank_question(p_question JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  b_id := NULLIF(p_question->>'id', '')::UUID;
+
+  IF b_id IS NULL THEN
+    INSERT INTO public.bank_questions (teacher_id, question_text, question_type)
+    VALUES (auth.uid(), p_question->>'question_text', (p_question->>'question_type')::question_type)
+    RETURNING id INTO b_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.bank_questions
+    WHERE id = b_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  UPDATE public.bank_questions
+  SET question_text = p_question->>'question_text',
+      question_type = (p_question->>'question_type')::question_type,
+      image_url = NULLIF(p_question->>'image_url', ''),
+      time_limit = (p_question->>'time_limit')::INTEGER,
+      settings = COALESCE(p_question->'settings', '{}'::jsonb),
+      code = NULLIF(p_question->>'code', ''),
+      code_language = NULLIF(p_question->>'code_language', ''),
+      points = COALESCE((p_question->>'points')::NUMERIC, 1),
+      explanation = NULLIF(p_question->>'explanation', ''),
+      explanation_image_url = NULLIF(p_question->>'explanation_image_url', ''),
+      topic = CASE WHEN p_question ? 'topic' THEN NULLIF(btrim(p_question->>'topic'), '') ELSE topic END,
+      grade = CASE WHEN p_question ? 'grade' THEN NULLIF(btrim(p_question->>'grade'), '') ELSE grade END,
+      difficulty = CASE WHEN p_question ? 'difficulty' THEN NULLIF(p_question->>'difficulty', '') ELSE difficulty END,
+      tags = CASE
+        WHEN p_question ? 'tags' THEN ARRAY(
+          SELECT DISTINCT btrim(tag)
+          FROM jsonb_array_elements_text(COALESCE(p_question->'tags', '[]'::jsonb)) AS tag
+          WHERE btrim(tag) <> ''
+        )
+        ELSE tags
+      END,
+      updated_at = NOW()
+  WHERE id = b_id;
+
+  -- Nothing refers to bank answers, so they are simply replaced
+  DELETE FROM public.bank_answers WHERE bank_question_id = b_id;
+
+  INSERT INTO public.bank_answers (bank_question_id, answer_text, match_text, blank_index, region, is_correct, pinned, order_index)
+  SELECT
+    b_id,
+    value->>'answer_text',
+    NULLIF(value->>'match_text', ''),
+    (value->>'blank_index')::INTEGER,
+    NULLIF(value->'region', 'null'::jsonb),
+    COALESCE((value->>'is_correct')::BOOLEAN, false),
+    COALESCE((value->>'pinned')::BOOLEAN, false),
+    ordinality - 1
+  FROM jsonb_array_elements(COALESCE(p_question->'answers', '[]'::jsonb)) WITH ORDINALITY;
+
+  RETURN b_id;
+END;
+$$;
+
+-- Whether a quiz or bank question still shows an image, checked before the
+-- file is removed from storage
+CREATE OR REPLACE FUNCTION public.question_image_in_use(p_image_url TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.questions
+    WHERE image_url = p_image_url
+       OR explanation_image_url = p_image_url
+  ) OR EXISTS (
+    SELECT 1 FROM public.bank_questions
+    WHERE image_url = p_image_url
+       OR explanation_image_url = p_image_url
+  );
+$$;
+
+-- Quiz questions keep the bank question they were copied from
+CREATE OR REPLACE FUNCTION public.save_quiz(
+  p_quiz_session_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_group_ids UUID[],
+  p_questions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_keys JSONB;
+  new_keys JSONB;
+  kept_question_ids UUID[];
+  kept_answer_ids UUID[];
+  q_item JSONB;
+  q_position BIGINT;
+  q_id UUID;
+  a_item JSONB;
+  a_position BIGINT;
+  a_id UUID;
+  changed_ids UUID[] := '{}';
+  removed_count INTEGER := 0;
+  key_question_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.quiz_sessions
+    WHERE id = p_quiz_session_id
+      AND teacher_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF COALESCE(cardinality(p_group_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'At least one group must be assigned to the quiz';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_group_ids) AS selected
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.groups
+      WHERE id = selected AND teacher_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  old_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  -- Quiz details (the legacy group_id follows the first group if it was unassigned)
+  UPDATE public.quiz_sessions
+  SET title = p_title,
+      description = p_description,
+      group_id = CASE WHEN group_id = ANY(p_group_ids) THEN group_id ELSE p_group_ids[1] END,
+      updated_at = NOW()
+  WHERE id = p_quiz_session_id;
+
+  -- Group assignments
+  DELETE FROM public.quiz_session_groups
+  WHERE quiz_session_id = p_quiz_session_id
+    AND group_id <> ALL(p_group_ids);
+
+  INSERT INTO public.quiz_session_groups (quiz_session_id, group_id)
+  SELECT p_quiz_session_id, selected
+  FROM unnest(p_group_ids) AS selected
+  ON CONFLICT (quiz_session_id, group_id) DO NOTHING;
+
+  -- Remove questions that are no longer in the quiz
+  kept_question_ids := ARRAY(
+    SELECT NULLIF(item->>'id', '')::UUID
+    FROM jsonb_array_elements(p_questions) AS item
+    WHERE NULLIF(item->>'id', '') IS NOT NULL
+  );
+
+  DELETE FROM public.questions
+  WHERE quiz_session_id = p_quiz_session_id
+    AND id <> ALL(kept_question_ids);
+
+  FOR q_item, q_position IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    q_id := NULLIF(q_item->>'id', '')::UUID;
+
+    IF q_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.questions
+      WHERE id = q_id AND quiz_session_id = p_quiz_session_id
+    ) THEN
+      UPDATE public.questions
+      SET question_text = q_item->>'question_text',
+          question_type = (q_item->>'question_type')::question_type,
+          image_url = q_item->>'image_url',
+          time_limit = (q_item->>'time_limit')::INTEGER,
+          settings = COALESCE(q_item->'settings', '{}'::jsonb),
+          code = NULLIF(q_item->>'code', ''),
+          code_language = NULLIF(q_item->>'code_language', ''),
+          points = COALESCE((q_item->>'points')::NUMERIC, 1),
+          explanation = NULLIF(q_item->>'explanation', ''),
+          explanation_image_url = NULLIF(q_item->>'explanation_image_url', ''),
+          section = NULLIF(btrim(q_item->>'section'), ''),
+          bank_question_id = (
+            SELECT id FROM public.bank_questions
+            WHERE id = NULLIF(q_item->>'bank_question_id', '')::UUID
+              AND teacher_id = auth.uid()
+          ),
+          order_index = q_position
+      WHERE id = q_id;
+    ELSE
+      INSERT INTO public.questions (quiz_session_id, question_text, question_type, image_url, time_limit, settings, code, code_language, points, explanation, explanation_image_url, section, bank_question_id, order_index)
+      VALUES (
+        p_quiz_session_id,
+        q_item->>'question_text',
+        (q_item->>'question_type')::question_type,
+        q_item->>'image_url',
+        (q_item->>'time_limit')::INTEGER,
+        COALESCE(q_item->'settings', '{}'::jsonb),
+        NULLIF(q_item->>'code', ''),
+        NULLIF(q_item->>'code_language', ''),
+        COALESCE((q_item->>'points')::NUMERIC, 1),
+        NULLIF(q_item->>'explanation', ''),
+        NULLIF(q_item->>'explanation_image_url', ''),
+        NULLIF(btrim(q_item->>'section'), ''),
+        (
+          SELECT id FROM public.bank_questions
+          WHERE id = NULLIF(q_item->>'bank_question_id', '')::UUID
+            AND teacher_id = auth.uid()
+        ),
+        q_position
+      )
+      RETURNING id INTO q_id;
+    END IF;
+
+    -- Remove answers that are no longer part of the question
+    kept_answer_ids := ARRAY(
+      SELECT NULLIF(item->>'id', '')::UUID
+      FROM jsonb_array_elements(q_item->'answers') AS item
+      WHERE NULLIF(item->>'id', '') IS NOT NULL
+    );
+
+    DELETE FROM public.answers
+    WHERE question_id = q_id
+      AND id <> ALL(kept_answer_ids);
+
+    FOR a_item, a_position IN
+      SELECT value, ordinality - 1 FROM jsonb_array_elements(q_item->'answers') WITH ORDINALITY
+    LOOP
+      a_id := NULLIF(a_item->>'id', '')::UUID;
+
+      IF a_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.answers
+        WHERE id = a_id AND question_id = q_id
+      ) THEN
+        UPDATE public.answers
+        SET answer_text = a_item->>'answer_text',
+            match_text = NULLIF(a_item->>'match_text', ''),
+            blank_index = (a_item->>'blank_index')::INTEGER,
+            region = NULLIF(a_item->'region', 'null'::jsonb),
+            is_correct = COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+            pinned = COALESCE((a_item->>'pinned')::BOOLEAN, false),
+            order_index = a_position
+        WHERE id = a_id;
+      ELSE
+        INSERT INTO public.answers (question_id, answer_text, match_text, blank_index, region, is_correct, pinned, order_index)
+        VALUES (
+          q_id,
+          a_item->>'answer_text',
+          NULLIF(a_item->>'match_text', ''),
+          (a_item->>'blank_index')::INTEGER,
+          NULLIF(a_item->'region', 'null'::jsonb),
+          COALESCE((a_item->>'is_correct')::BOOLEAN, false),
+          COALESCE((a_item->>'pinned')::BOOLEAN, false),
+          a_position
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Compare answered questions before and after the save
+  new_keys := public.quiz_answer_key_snapshot(p_quiz_session_id);
+
+  FOR key_question_id IN SELECT jsonb_object_keys(old_keys) LOOP
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = key_question_id::UUID) THEN
+      removed_count := removed_count + 1;
+    ELSIF new_keys->key_question_id IS DISTINCT FROM old_keys->key_question_id THEN
+      changed_ids := changed_ids || key_question_id::UUID;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'changed_question_ids', to_jsonb(changed_ids),
+    'removed_answered_questions', removed_count
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_bank_question(JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.question_image_in_use(TEXT) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.save_bank_question(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.question_image_in_use(TEXT) TO authenticated;
@@ -0,0 +1,28 @@
+-- Rescore attempts when negative marking changes
+-- The new deduction and the recalculated scores are saved together, so a quiz
+-- can no longer keep scores worked out under its old rule.
+CREATE OR REPLACE FUNCTION public.rescore_after_negative_marking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Which answers are correct does not depend on the deduction, only the totals
+  UPDATE public.quiz_attempts qa
+  SET score = public.calculate_attempt_score(qa.id)
+  WHERE qa.quiz_session_id = NEW.id
+    AND qa.score IS DISTINCT FROM public.calculate_attempt_score(qa.id);
+
+  PERFORM public.calculate_quiz_rankings(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rescore_after_negative_marking() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER trigger_rescore_after_negative_marking
+  AFTER UPDATE OF negative_marking ON public.quiz_sessions
+  FOR EACH ROW
+  WHEN (OLD.negative_marking IS DISTINCT FROM NEW.negative_marking)
+  EXECUTE FUNCTION public.rescore_after_negative_marking();
@@ -0,0 +1,94 @@
+-- Questions are only served to the attempt they belong to
+-- The student views could be read by anyone for every quiz, including pool
+-- questions an attempt never drew. They are now only read through the
+-- functions below: an attempt gets the questions drawn for it, and before
+-- starting a student only learns what each question is worth.
+REVOKE SELECT ON public.student_questions FROM anon, authenticated;
+REVOKE SELECT ON public.student_answer_options FROM anon, authenticated;
+REVOKE SELECT ON public.student_match_options FROM anon, authenticated;
+
+-- The questions of an attempt as students see them, without the answer key
+CREATE OR REPLACE FUNCTION public.get_attempt_questions(p_attempt_id UUID, p_student_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attempt_row public.quiz_attempts;
+  questions JSONB;
+BEGIN
+  attempt_row := public.get_student_attempt(p_attempt_id, p_student_code);
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(sq) || jsonb_build_object(
+    'answers', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(o) ORDER BY o.order_index), '[]'::jsonb)
+      FROM public.student_answer_options o
+      WHERE o.question_id = sq.id
+    ),
+    'matches', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(m) ORDER BY m.order_index), '[]'::jsonb)
+      FROM public.student_match_options m
+      WHERE m.question_id = sq.id
+    )
+  ) ORDER BY sq.order_index), '[]'::jsonb) INTO questions
+  FROM public.student_questions sq
+  WHERE sq.quiz_session_id = attempt_row.quiz_session_id
+    AND (attempt_row.question_ids IS NULL OR sq.id = ANY(attempt_row.question_ids));
+
+  RETURN questions;
+END;
+$$;
+
+-- What each question of a quiz is worth, for the start screen; dropped
+-- questions are left out as they are from the attempt's totals
+CREATE OR REPLACE FUNCTION public.get_quiz_question_points(p_quiz_session_id UUID, p_student_code TEXT)
+RETURNS SETOF NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz_row public.quiz_sessions;
+  student_row public.students;
+BEGIN
+  SELECT * INTO quiz_row
+  FROM public.quiz_sessions
+  WHERE id = p_quiz_session_id;
+
+  IF NOT FOUND OR quiz_row.deadline < NOW() THEN
+    RAISE EXCEPTION 'Quiz not available';
+  END IF;
+
+  SELECT * INTO student_row
+  FROM public.students
+  WHERE student_code = p_student_code;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid student code';
+  END IF;
+
+  -- Check quiz_session_groups and the legacy group_id column
+  IF student_row.group_id <> quiz_row.group_id AND NOT EXISTS (
+    SELECT 1 FROM public.quiz_session_groups
+    WHERE quiz_session_id = quiz_row.id
+      AND group_id = student_row.group_id
+  ) THEN
+    RAISE EXCEPTION 'This quiz is not available for your group';
+  END IF;
+
+  RETURN QUERY
+  SELECT points
+  FROM public.questions
+  WHERE quiz_session_id = quiz_row.id
+    AND scoring <> 'dropped'
+  ORDER BY order_index;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_attempt_questions(UUID, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_quiz_question_points(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_attempt_questions(UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_quiz_question_points(UUID, TEXT) TO anon, authenticated;
@@ -16,6 +16,8 @@ export default {
       fontFamily: {
         sans: ['Poppins', 'Noto Sans Sinhala', 'sans-serif'],
         sinhala: ['Noto Sans Sinhala', 'sans-serif'],
+        // Sinhala in code (strings, comments) falls back to Noto Sans Sinhala
+        mono: ['ui-monospace', 'SFMono-Regular', 'Menlo', 'Consolas', 'Noto Sans Sinhala', 'monospace'],
       },
       colors: {
         border: "hsl(var(--border))",